@@ -3,7 +3,8 @@
 import React from 'react';
 import { useRouter } from 'next/navigation';
 import { CreateOrUpdateEntityForm } from '@humanui/ui';
-import { useEntity } from '../../../../hooks/useEntity';
+import { ApiConflictError } from '@humanui/client';
+import { useEntity, getEntityVersion } from '../../../../hooks/useEntity';
 import { EntityConfig } from '../../../../lib/entity-registry';
 import { EntityFormConfig } from '@humanui/ui';
 
@@ -13,19 +14,36 @@ interface EntityEditFormProps {
   id: string;
 }
 
+interface Conflict {
+  // Server copy at the time of the rejected save
+  current?: Record<string, unknown>;
+  // Its version, from the ETag of the 409
+  version?: string;
+  // Values the user tried to save
+  pending: Record<string, unknown>;
+}
+
+const isSameValue = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
 export function EntityEditForm({ entityConfig, formConfig, id }: EntityEditFormProps) {
   const router = useRouter();
-  
-  const { getEntity, updateEntity, loading } = useEntity(entityConfig.name);
 
-  const [initialValues, setInitialValues] = React.useState<any>(null);
+  const { getEntity, updateEntity, loading } = useEntity(entityConfig.name, { live: false });
+
+  const [initialValues, setInitialValues] = React.useState<Record<string, unknown> | null>(null);
   const [isLoadingData, setIsLoadingData] = React.useState(true);
+  // ETag version the form was loaded from, sent with the update; response bodies format updatedAt for the locale
+  const [version, setVersion] = React.useState<string | undefined>();
+  const [conflict, setConflict] = React.useState<Conflict | null>(null);
+  // Bumped to remount the form with new initial values
+  const [formKey, setFormKey] = React.useState(0);
 
   React.useEffect(() => {
     const fetchData = async () => {
       try {
         const data = await getEntity(id);
         setInitialValues(data);
+        setVersion(getEntityVersion(data));
       } catch (error) {
         console.error('Failed to fetch entity:', error);
       } finally {
@@ -36,15 +54,37 @@ export function EntityEditForm({ entityConfig, formConfig, id }: EntityEditFormP
     fetchData();
   }, [id, getEntity]);
 
-  const handleSubmit = async (data: any) => {
+  const handleSubmit = async (data: Record<string, unknown>) => {
     try {
-      await updateEntity(id, data);
+      await updateEntity(id, data, { version });
       router.push(`/${entityConfig.name}`);
     } catch (error) {
+      if (error instanceof ApiConflictError) {
+        setConflict({ current: error.current, version: error.version, pending: data });
+        return;
+      }
       console.error('Failed to update entity:', error);
+      throw error;
     }
   };
 
+  const resetForm = (values?: Record<string, unknown>) => {
+    setInitialValues(values);
+    setVersion(conflict?.version);
+    setConflict(null);
+    setFormKey(key => key + 1);
+  };
+
+  // Discard local edits and continue from the server copy
+  const handleReload = () => {
+    if (conflict) resetForm(conflict.current);
+  };
+
+  // Re-apply local edits on top of the server copy for review before saving again
+  const handleMerge = () => {
+    if (conflict) resetForm({ ...conflict.current, ...conflict.pending });
+  };
+
   const handleCancel = () => {
     router.push(`/${entityConfig.name}`);
   };
@@ -53,14 +93,61 @@ export function EntityEditForm({ entityConfig, formConfig, id }: EntityEditFormP
     return <div className="text-center">Loading...</div>;
   }
 
+  const conflictingFields = conflict
+    ? Object.keys(conflict.pending).filter(field =>
+        !isSameValue(conflict.pending[field], conflict.current?.[field])
+      )
+    : [];
+
   return (
-    <CreateOrUpdateEntityForm
-      mode="edit"
-      entityConfig={formConfig}
-      initialValues={initialValues}
-      onSubmit={handleSubmit}
-      onCancel={handleCancel}
-      isLoading={loading}
-    />
+    <>
+      {conflict && (
+        <div className="mb-6 rounded-md border border-yellow-300 bg-yellow-50 p-4">
+          <h2 className="text-sm font-semibold text-yellow-800">
+            This {entityConfig.displayName.toLowerCase()} was changed by someone else
+          </h2>
+          <p className="mt-1 text-sm text-yellow-700">
+            Your changes were not saved. Reload the latest version, or keep your changes on top of it and save again.
+          </p>
+          {conflictingFields.length > 0 && (
+            <ul className="mt-3 space-y-1 text-sm text-yellow-800">
+              {conflictingFields.map(field => (
+                <li key={field}>
+                  <span className="font-medium">{field}</span>: yours{' '}
+                  <code>{JSON.stringify(conflict.pending[field])}</code>, latest{' '}
+                  <code>{JSON.stringify(conflict.current?.[field])}</code>
+                </li>
+              ))}
+            </ul>
+          )}
+          <div className="mt-4 flex gap-3">
+            <button
+              type="button"
+              onClick={handleReload}
+              className="rounded-md bg-white px-3 py-2 text-sm font-medium text-gray-700 shadow-sm ring-1 ring-gray-300 hover:bg-gray-50"
+            >
+              Reload latest
+            </button>
+            <button
+              type="button"
+              onClick={handleMerge}
+              className="rounded-md bg-yellow-600 px-3 py-2 text-sm font-medium text-white shadow-sm hover:bg-yellow-700"
+            >
+              Keep my changes
+            </button>
+          </div>
+        </div>
+      )}
+
+      <CreateOrUpdateEntityForm
+        key={formKey}
+        mode="edit"
+        entityConfig={formConfig}
+        initialValues={initialValues}
+        onSubmit={handleSubmit}
+        onCancel={handleCancel}
+        isLoading={loading}
+      />
+    </>
   );
-} 
\ No newline at end of file
+}
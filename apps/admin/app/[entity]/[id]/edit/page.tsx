@@ -18,13 +18,6 @@ export default async function EntityEditPage({ params }: EntityEditPageProps) {
     notFound();
   }
 
-  // TODO: Fetch existing data using entityConfig.service
-  const initialValues = {
-    // This would be fetched from the API
-    id,
-    // ... other fields
-  };
-
   return (
     <div className="container mx-auto px-4 py-8">
       <div className="mb-6">
@@ -2,6 +2,7 @@ import { notFound } from 'next/navigation';
 import Link from 'next/link';
 import { Button } from '@humanui/ui';
 import { getEntityConfig } from '../../../lib/entity-registry';
+import { VersionTimeline } from '../../../components/VersionTimeline';
 
 interface EntityDetailPageProps {
   params: Promise<{
@@ -18,8 +19,12 @@ export default async function EntityDetailPage({ params }: EntityDetailPageProps
     notFound();
   }
 
+  // Related rows are embedded by the API with ?include=, one request for the whole page
+  const relations = entityConfig.relations ?? [];
+
   // TODO: Fetch entity data using entityConfig.service
-  const entityData = {
+  // e.g. GET /api/{entity}/{id}?include={relations}
+  const entityData: Record<string, unknown> = {
     id,
     // Mock data - would be fetched from API
     name: 'Sample Item',
@@ -51,6 +56,24 @@ export default async function EntityDetailPage({ params }: EntityDetailPageProps
     return String(value);
   };
 
+  // Label for an embedded row or list of rows
+  const renderRelatedValue = (value: unknown) => {
+    if (value === null || value === undefined) {
+      return <span className="text-gray-400">-</span>;
+    }
+
+    const label = (row: Record<string, unknown>) => String(row.displayName || row.name || row.id);
+
+    if (Array.isArray(value)) {
+      if (value.length === 0) {
+        return <span className="text-gray-400">None</span>;
+      }
+      return value.map(label).join(', ');
+    }
+
+    return label(value as Record<string, unknown>);
+  };
+
   return (
     <div className="container mx-auto px-4 py-8">
       <div className="mb-6">
@@ -81,7 +104,7 @@ export default async function EntityDetailPage({ params }: EntityDetailPageProps
       <div className="bg-white shadow-md rounded-lg overflow-hidden">
         <div className="px-6 py-4 border-b border-gray-200">
           <h2 className="text-xl font-semibold text-gray-900">
-            {entityData.name || `ID: ${id}`}
+            {String(entityData.name || `ID: ${id}`)}
           </h2>
         </div>
         
@@ -101,6 +124,28 @@ export default async function EntityDetailPage({ params }: EntityDetailPageProps
         </div>
       </div>
 
+      {relations.length > 0 && (
+        <div className="mt-8 bg-white shadow-md rounded-lg overflow-hidden">
+          <div className="px-6 py-4 border-b border-gray-200">
+            <h3 className="text-lg font-medium text-gray-900">Related</h3>
+          </div>
+          <dl className="px-6 py-4 grid grid-cols-1 gap-x-4 gap-y-6 sm:grid-cols-2">
+            {relations.map((relation) => (
+              <div key={relation}>
+                <dt className="text-sm font-medium text-gray-500 capitalize">
+                  {relation.replace(/([A-Z])/g, ' $1').trim()}
+                </dt>
+                <dd className="mt-1 text-sm text-gray-900">
+                  {renderRelatedValue(entityData[relation])}
+                </dd>
+              </div>
+            ))}
+          </dl>
+        </div>
+      )}
+
+      <VersionTimeline entityName={entityConfig.name} id={id} />
+
       {/* Additional sections based on entity config */}
       <div className="mt-8">
         <h3 className="text-lg font-medium text-gray-900 mb-4">
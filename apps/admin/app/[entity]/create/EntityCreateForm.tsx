@@ -15,14 +15,16 @@ interface EntityCreateFormProps {
 export function EntityCreateForm({ entityConfig, formConfig }: EntityCreateFormProps) {
   const router = useRouter();
   
-  const { createEntity, loading } = useEntity(entityConfig.name);
+  const { createEntity, loading } = useEntity(entityConfig.name, { live: false });
 
-  const handleSubmit = async (data: any) => {
+  const handleSubmit = async (data: Record<string, unknown>) => {
     try {
       await createEntity(data);
       router.push(`/${entityConfig.name}`);
     } catch (error) {
       console.error('Failed to create entity:', error);
+      // Let the form attach field errors from the API
+      throw error;
     }
   };
 
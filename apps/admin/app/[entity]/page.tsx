@@ -16,7 +16,7 @@ export default async function EntityListPage({ params }: EntityListPageProps) {
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
         <div className="text-center">
           <h1 className="text-2xl font-bold text-gray-900 mb-4">Entity Not Found</h1>
-          <p className="text-gray-600">The requested entity "{entity}" does not exist.</p>
+          <p className="text-gray-600">The requested entity &quot;{entity}&quot; does not exist.</p>
         </div>
       </div>
     );
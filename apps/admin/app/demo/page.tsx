@@ -9,9 +9,9 @@ import {
 } from '@humanui/entities';
 
 export default function DemoSchemaBuilder() {
-  const [stats, setStats] = useState<any>(null);
-  const [adminRoutes, setAdminRoutes] = useState<any[]>([]);
-  const [apiEndpoints, setApiEndpoints] = useState<any[]>([]);
+  const [stats, setStats] = useState<ReturnType<typeof getEntityStats> | null>(null);
+  const [adminRoutes, setAdminRoutes] = useState<ReturnType<typeof getAdminRoutes>>([]);
+  const [apiEndpoints, setApiEndpoints] = useState<ReturnType<typeof getAPIEndpoints>>([]);
   const [selectedEntity, setSelectedEntity] = useState<string | null>(null);
 
   useEffect(() => {
@@ -48,13 +48,13 @@ export default function DemoSchemaBuilder() {
               <div className="bg-green-50 p-4 rounded-lg">
                 <h3 className="text-lg font-medium text-green-900">With Business Logic</h3>
                 <p className="text-3xl font-bold text-green-600">
-                  {stats.entities.filter((e: any) => e.hasBusinessLogic).length}
+                  {stats.entities.filter(e => e.hasBusinessLogic).length}
                 </p>
               </div>
               <div className="bg-purple-50 p-4 rounded-lg">
                 <h3 className="text-lg font-medium text-purple-900">Average Fields</h3>
                 <p className="text-3xl font-bold text-purple-600">
-                  {Math.round(stats.entities.reduce((acc: number, e: any) => 
+                  {Math.round(stats.entities.reduce((acc, e) => 
                     acc + e.requiredFields.length + e.optionalFields.length, 0) / stats.total)}
                 </p>
               </div>
@@ -43,7 +43,7 @@ export default function AdminDashboard() {
                   <div className="flex-shrink-0">
                     <div className="w-8 h-8 bg-green-500 rounded-md flex items-center justify-center">
                       <span className="text-white font-bold">
-                        {stats.entities.filter((e: any) => e.hasBusinessLogic).length}
+                        {stats.entities.filter(e => e.hasBusinessLogic).length}
                       </span>
                     </div>
                   </div>
@@ -53,7 +53,7 @@ export default function AdminDashboard() {
                         With Business Logic
                       </dt>
                       <dd className="text-lg font-medium text-gray-900">
-                        {stats.entities.filter((e: any) => e.hasBusinessLogic).length}
+                        {stats.entities.filter(e => e.hasBusinessLogic).length}
                       </dd>
                     </dl>
                   </div>
@@ -67,7 +67,7 @@ export default function AdminDashboard() {
                   <div className="flex-shrink-0">
                     <div className="w-8 h-8 bg-purple-500 rounded-md flex items-center justify-center">
                       <span className="text-white font-bold">
-                        {Math.round(stats.entities.reduce((acc: number, e: any) => 
+                        {Math.round(stats.entities.reduce((acc, e) => 
                           acc + e.requiredFields.length + e.optionalFields.length, 0) / stats.total)}
                       </span>
                     </div>
@@ -78,7 +78,7 @@ export default function AdminDashboard() {
                         Avg Fields per Entity
                       </dt>
                       <dd className="text-lg font-medium text-gray-900">
-                        {Math.round(stats.entities.reduce((acc: number, e: any) => 
+                        {Math.round(stats.entities.reduce((acc, e) => 
                           acc + e.requiredFields.length + e.optionalFields.length, 0) / stats.total)}
                       </dd>
                     </dl>
@@ -2,7 +2,7 @@
 
 import { useState } from 'react';
 import Link from 'next/link';
-import { useEntity } from '../hooks/useEntity';
+import { useEntity, FilterChip } from '../hooks/useEntity';
 import { adminEntityRegistry } from '../lib/entity-registry';
 
 interface EntityTableProps {
@@ -12,6 +12,10 @@ interface EntityTableProps {
 export function EntityTable({ entityName }: EntityTableProps) {
   const { data, loading, error, pagination, fetchData } = useEntity(entityName);
   const [searchTerm, setSearchTerm] = useState('');
+  const [filters, setFilters] = useState<FilterChip[]>([]);
+  const [draft, setDraft] = useState<FilterChip>({ field: '', operator: '', value: '' });
+  // Multi-key sort in the API's `sort` format, e.g. `-createdAt,name`
+  const [sort, setSort] = useState('');
   const entityConfig = adminEntityRegistry.getEntity(entityName);
 
   if (!entityConfig) {
@@ -22,13 +26,98 @@ export function EntityTable({ entityName }: EntityTableProps) {
     );
   }
 
+  const filterFields = entityConfig.filters ?? [];
+  const draftField = filterFields.find(field => field.name === draft.field);
+  // Computed columns are resolved by the API in the same request, batched per page
+  const computedFields = entityConfig.computed ?? [];
+  const fields = computedFields.map(field => field.name);
+
   const handleSearch = (e: React.FormEvent) => {
     e.preventDefault();
-    fetchData(1, pagination.limit, searchTerm);
+    fetchData(1, pagination.limit, searchTerm, { filters, sort, fields });
   };
 
   const handlePageChange = (page: number) => {
-    fetchData(page, pagination.limit, searchTerm);
+    fetchData(page, pagination.limit, searchTerm, { filters, sort, fields });
+  };
+
+  const applyFilters = (nextFilters: FilterChip[], nextSort = sort) => {
+    setFilters(nextFilters);
+    setSort(nextSort);
+    fetchData(1, pagination.limit, searchTerm, { filters: nextFilters, sort: nextSort, fields });
+  };
+
+  const handleAddFilter = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.field || !draft.operator || draft.value === '') return;
+
+    applyFilters([...filters, draft]);
+    setDraft({ field: '', operator: '', value: '' });
+  };
+
+  const handleRemoveFilter = (index: number) => {
+    applyFilters(filters.filter((_, i) => i !== index));
+  };
+
+  // Click sorts by one column, shift-click adds it as another sort key; repeat to flip direction
+  const handleSort = (field: string, append: boolean) => {
+    const keys = sort ? sort.split(',') : [];
+    const current = keys.find(key => key.replace(/^-/, '') === field);
+    const next = current === field ? `-${field}` : field;
+
+    const nextKeys = append
+      ? (current ? keys.map(key => (key === current ? next : key)) : [...keys, next])
+      : [next];
+
+    applyFilters(filters, nextKeys.join(','));
+  };
+
+  const sortIndicator = (field: string) => {
+    const keys = sort ? sort.split(',') : [];
+    if (keys.includes(field)) return ' ▲';
+    if (keys.includes(`-${field}`)) return ' ▼';
+    return '';
+  };
+
+  const renderComputedValue = (value: unknown) => {
+    if (value === null || value === undefined) return '-';
+    if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+    if (typeof value === 'object') return JSON.stringify(value);
+    return String(value);
+  };
+
+  // Value input for the selected field: a select for enums and booleans, text otherwise
+  const renderDraftValue = () => {
+    const options = draftField?.values
+      ?? (draftField?.kind === 'boolean' || draft.operator === 'isNull' || draft.operator === 'isEmpty'
+        ? ['true', 'false']
+        : undefined);
+    const className = 'px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm';
+
+    if (options) {
+      return (
+        <select
+          value={draft.value}
+          onChange={(e) => setDraft({ ...draft, value: e.target.value })}
+          className={className}
+        >
+          <option value="">Value...</option>
+          {options.map(option => (
+            <option key={option} value={option}>{option}</option>
+          ))}
+        </select>
+      );
+    }
+
+    return (
+      <input
+        type={draftField?.kind === 'number' ? 'number' : draftField?.kind === 'date' ? 'date' : 'text'}
+        placeholder={['in', 'nin', 'hasSome', 'hasEvery'].includes(draft.operator) ? 'a,b,c' : 'Value'}
+        value={draft.value}
+        onChange={(e) => setDraft({ ...draft, value: e.target.value })}
+        className={className}
+      />
+    );
   };
 
   if (loading) {
@@ -77,6 +166,67 @@ export function EntityTable({ entityName }: EntityTableProps) {
             Search
           </button>
         </form>
+
+        {filterFields.length > 0 && (
+          <form onSubmit={handleAddFilter} className="flex flex-wrap gap-2 mt-4">
+            <select
+              value={draft.field}
+              onChange={(e) => setDraft({ field: e.target.value, operator: '', value: '' })}
+              className="px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm"
+            >
+              <option value="">Field...</option>
+              {filterFields.map(field => (
+                <option key={field.name} value={field.name}>{field.name}</option>
+              ))}
+            </select>
+            <select
+              value={draft.operator}
+              onChange={(e) => setDraft({ ...draft, operator: e.target.value, value: '' })}
+              disabled={!draftField}
+              className="px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm"
+            >
+              <option value="">Operator...</option>
+              {draftField?.operators.map(operator => (
+                <option key={operator} value={operator}>{operator}</option>
+              ))}
+            </select>
+            {renderDraftValue()}
+            <button
+              type="submit"
+              className="px-3 py-2 text-sm border border-indigo-600 text-indigo-600 rounded-md hover:bg-indigo-50"
+            >
+              Add filter
+            </button>
+          </form>
+        )}
+
+        {filters.length > 0 && (
+          <div className="flex flex-wrap gap-2 mt-3">
+            {filters.map((filter, index) => (
+              <span
+                key={`${filter.field}-${filter.operator}-${index}`}
+                className="inline-flex items-center gap-1 px-3 py-1 rounded-full bg-indigo-50 text-indigo-700 text-sm"
+              >
+                {filter.field} {filter.operator} {filter.value}
+                <button
+                  type="button"
+                  onClick={() => handleRemoveFilter(index)}
+                  className="ml-1 text-indigo-400 hover:text-indigo-700"
+                  aria-label={`Remove filter on ${filter.field}`}
+                >
+                  ×
+                </button>
+              </span>
+            ))}
+            <button
+              type="button"
+              onClick={() => applyFilters([])}
+              className="text-sm text-gray-500 hover:text-gray-700"
+            >
+              Clear all
+            </button>
+          </div>
+        )}
       </div>
 
       {/* Table */}
@@ -84,18 +234,36 @@ export function EntityTable({ entityName }: EntityTableProps) {
         <table className="min-w-full divide-y divide-gray-200">
           <thead className="bg-gray-50">
             <tr>
-              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                Name
+              <th
+                onClick={(e) => handleSort('name', e.shiftKey)}
+                className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider cursor-pointer select-none"
+              >
+                Name{sortIndicator('name')}
               </th>
               <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                 Description
               </th>
-              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                Created
+              <th
+                onClick={(e) => handleSort('createdAt', e.shiftKey)}
+                className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider cursor-pointer select-none"
+              >
+                Created{sortIndicator('createdAt')}
               </th>
-              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                Updated
+              <th
+                onClick={(e) => handleSort('updatedAt', e.shiftKey)}
+                className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider cursor-pointer select-none"
+              >
+                Updated{sortIndicator('updatedAt')}
               </th>
+              {computedFields.map(field => (
+                <th
+                  key={field.name}
+                  title={field.description}
+                  className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+                >
+                  {field.name.replace(/([A-Z])/g, ' $1').trim()}
+                </th>
+              ))}
               <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
                 Actions
               </th>
@@ -116,6 +284,11 @@ export function EntityTable({ entityName }: EntityTableProps) {
                 <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                   {new Date(item.updatedAt).toLocaleDateString()}
                 </td>
+                {computedFields.map(field => (
+                  <td key={field.name} className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {renderComputedValue(item[field.name])}
+                  </td>
+                ))}
                 <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
                   <div className="flex justify-end space-x-2">
                     <Link
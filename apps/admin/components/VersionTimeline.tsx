@@ -0,0 +1,115 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@humanui/ui';
+import { useEntityVersions, VersionChanges } from '../hooks/useEntityVersions';
+
+interface VersionTimelineProps {
+  entityName: string;
+  id: string;
+}
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined) return '-';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+export function VersionTimeline({ entityName, id }: VersionTimelineProps) {
+  const { versions, loading, error, diffVersions, revertToVersion } = useEntityVersions(entityName, id);
+  // Version whose changes against the latest are shown
+  const [selected, setSelected] = useState<number | null>(null);
+  const [changes, setChanges] = useState<VersionChanges>({});
+
+  const latest = versions[0]?.version;
+
+  const handleSelect = async (version: number) => {
+    if (selected === version) {
+      setSelected(null);
+      return;
+    }
+    setSelected(version);
+    setChanges(await diffVersions(version));
+  };
+
+  const handleRevert = async (version: number) => {
+    if (!confirm(`Revert to version ${version}? This saves a new version with its values.`)) return;
+
+    try {
+      await revertToVersion(version);
+      setSelected(null);
+    } catch (err) {
+      console.error('Failed to revert:', err);
+    }
+  };
+
+  return (
+    <div className="mt-8 bg-white shadow-md rounded-lg overflow-hidden">
+      <div className="px-6 py-4 border-b border-gray-200">
+        <h3 className="text-lg font-medium text-gray-900">Versions</h3>
+      </div>
+
+      {error && <p className="px-6 py-4 text-sm text-red-600">{error}</p>}
+
+      {loading && versions.length === 0 ? (
+        <p className="px-6 py-4 text-sm text-gray-500">Loading versions...</p>
+      ) : versions.length === 0 ? (
+        <p className="px-6 py-4 text-sm text-gray-500">No versions recorded yet.</p>
+      ) : (
+        <ol className="divide-y divide-gray-200">
+          {versions.map((version) => (
+            <li key={version.version} className="px-6 py-4">
+              <div className="flex items-center justify-between">
+                <div>
+                  <span className="text-sm font-medium text-gray-900">
+                    Version {version.version}
+                  </span>
+                  <span className="ml-2 text-xs uppercase text-gray-500">{version.operation}</span>
+                  <p className="text-sm text-gray-500">
+                    {new Date(version.createdAt).toLocaleString()}
+                    {version.actor && ` by ${version.actor}`}
+                  </p>
+                </div>
+                {version.version !== latest && (
+                  <div className="flex space-x-2">
+                    <Button variant="outline" size="sm" onClick={() => handleSelect(version.version)}>
+                      {selected === version.version ? 'Hide changes' : 'Compare with latest'}
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => handleRevert(version.version)} disabled={loading}>
+                      Revert
+                    </Button>
+                  </div>
+                )}
+              </div>
+
+              {selected === version.version && (
+                Object.keys(changes).length === 0 ? (
+                  <p className="mt-3 text-sm text-gray-500">Same as the latest version.</p>
+                ) : (
+                  <table className="mt-3 w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-gray-500">
+                        <th className="py-1 pr-4 font-medium">Field</th>
+                        <th className="py-1 pr-4 font-medium">Version {version.version}</th>
+                        <th className="py-1 font-medium">Latest</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {Object.entries(changes).map(([field, change]) => (
+                        <tr key={field}>
+                          <td className="py-1 pr-4 text-gray-500">{field}</td>
+                          <td className="py-1 pr-4 text-red-700">{formatValue(change.before)}</td>
+                          <td className="py-1 text-green-700">{formatValue(change.after)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,50 @@
-import { useState, useEffect } from 'react';
-import { adminEntityRegistry } from '../lib/entity-registry';
-
-export function useEntity(entityName: string) {
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { ApiConflictError, Filter, GetOptions, OffsetPagination } from '@humanui/client';
+import { apiClient } from '../lib/api-client';
+import { useEntityChanges, applyEntityChange } from './useEntityChanges';
+
+export { getEntityVersion } from '@humanui/client';
+export type { GetOptions } from '@humanui/client';
+
+// One `filter[field][op]=value` condition
+export interface FilterChip {
+  field: string;
+  operator: string;
+  value: string;
+}
+
+export interface ListOptions {
+  filters?: FilterChip[];
+  // Multi-key sort, e.g. `-createdAt,name`
+  sort?: string;
+  // Computed fields to resolve; listing only computed fields keeps every stored field
+  fields?: string[];
+}
+
+// Chips on the same field combine, e.g. a price range
+export function toFilter(filters: FilterChip[] = []): Filter {
+  const filter: Record<string, Record<string, string>> = {};
+  for (const { field, operator, value } of filters) {
+    filter[field] = { ...filter[field], [operator]: value };
+  }
+  return filter;
+}
+
+export interface UseEntityOptions {
+  // Patch `data` from the entity's change feed; off for forms that only read or write one record
+  live?: boolean;
+}
+
+interface ListQuery {
+  page: number;
+  limit: number;
+  search?: string;
+  options: ListOptions;
+}
+
+const errorMessage = (err: unknown, fallback: string) => (err instanceof Error ? err.message : fallback);
+
+export function useEntity(entityName: string, { live = true }: UseEntityOptions = {}) {
   const [data, setData] = useState<any[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -11,126 +54,116 @@ export function useEntity(entityName: string) {
     total: 0,
     totalPages: 0,
   });
+  // Last list request, repeated when the change feed asks for a reset
+  const lastQuery = useRef<ListQuery>({ page: 1, limit: 20, options: {} });
+
+  const client = apiClient.entity(entityName);
 
-  const fetchData = async (page = 1, limit = 20, search?: string) => {
+  // Callbacks are stable per entity so effects depending on them run once
+  const fetchData = useCallback(async (page = 1, limit = 20, search?: string, options: ListOptions = {}) => {
+    lastQuery.current = { page, limit, search, options };
     try {
       setLoading(true);
       setError(null);
 
-      // For now, we'll simulate API calls
-      // In a real implementation, this would call the actual API
-      const params = new URLSearchParams({
-        page: page.toString(),
-        limit: limit.toString(),
-        ...(search && { search }),
-      });
-
-      // Simulate API response
-      const mockData = Array.from({ length: limit }, (_, i) => ({
-        id: `item-${page}-${i}`,
-        name: `Item ${page}-${i}`,
-        description: `Description for item ${page}-${i}`,
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString(),
-      }));
-
-      setData(mockData);
-      setPagination({
+      const result = await client.list({
         page,
         limit,
-        total: 100, // Mock total
-        totalPages: Math.ceil(100 / limit),
+        search: search || undefined,
+        filter: toFilter(options.filters),
+        sort: options.sort,
+        fields: options.fields,
       });
+      const { total, totalPages } = result.pagination as OffsetPagination;
+
+      setData(result.data);
+      setPagination({ page, limit, total, totalPages });
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to fetch data');
+      setError(errorMessage(err, 'Failed to fetch data'));
     } finally {
       setLoading(false);
     }
-  };
+  }, [client]);
 
-  const createEntity = async (entityData: any) => {
+  // Throws ApiError for rejected input so forms can show field errors
+  const createEntity = useCallback(async (entityData: any) => {
     try {
       setLoading(true);
       setError(null);
 
-      // Simulate API call
-      const newEntity = {
-        id: `new-${Date.now()}`,
-        ...entityData,
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString(),
-      };
-
-      setData(prev => [newEntity, ...prev]);
+      const newEntity = await client.create(entityData);
+      setData(prev => [newEntity, ...prev.filter(item => item.id !== newEntity.id)]);
       return newEntity;
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to create entity');
+      setError(errorMessage(err, 'Failed to create entity'));
       throw err;
     } finally {
       setLoading(false);
     }
-  };
+  }, [client]);
 
-  const updateEntity = async (id: string, entityData: any) => {
+  // With a version (see getEntityVersion), a stale copy fails with ApiConflictError carrying the current record
+  const updateEntity = useCallback(async (id: string, entityData: any, options: { version?: string } = {}) => {
     try {
       setLoading(true);
       setError(null);
 
-      // Simulate API call
-      const updatedEntity = {
-        ...entityData,
-        id,
-        updatedAt: new Date().toISOString(),
-      };
-
+      const updatedEntity = await client.update(id, entityData, options);
       setData(prev => prev.map(item => item.id === id ? updatedEntity : item));
       return updatedEntity;
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to update entity');
+      // Conflicts are resolved by the caller rather than shown as a generic error
+      if (!(err instanceof ApiConflictError)) {
+        setError(errorMessage(err, 'Failed to update entity'));
+      }
       throw err;
     } finally {
       setLoading(false);
     }
-  };
+  }, [client]);
 
-  const deleteEntity = async (id: string) => {
+  const deleteEntity = useCallback(async (id: string) => {
     try {
       setLoading(true);
       setError(null);
 
-      // Simulate API call
+      await client.delete(id);
       setData(prev => prev.filter(item => item.id !== id));
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to delete entity');
+      setError(errorMessage(err, 'Failed to delete entity'));
       throw err;
     } finally {
       setLoading(false);
     }
-  };
+  }, [client]);
 
-  const getEntity = async (id: string) => {
+  // Related rows listed in `include` are embedded instead of fetched one by one
+  const getEntity = useCallback(async (id: string, options: GetOptions = {}) => {
     try {
       setLoading(true);
       setError(null);
 
-      // Simulate API call
-      const entity = data.find(item => item.id === id);
-      if (!entity) {
-        throw new Error('Entity not found');
-      }
-
-      return entity;
+      return await client.get(id, options);
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to fetch entity');
+      setError(errorMessage(err, 'Failed to fetch entity'));
       throw err;
     } finally {
       setLoading(false);
     }
-  };
+  }, [client]);
 
   useEffect(() => {
     fetchData();
-  }, [entityName]);
+  }, [fetchData]);
+
+  // Other operators' edits show up without a reload
+  useEntityChanges(entityName, change => setData(prev => applyEntityChange(prev, change)), {
+    enabled: live,
+    onReset: () => {
+      const { page, limit, search, options } = lastQuery.current;
+      fetchData(page, limit, search, options);
+    },
+  });
 
   return {
     data,
@@ -143,4 +176,4 @@ export function useEntity(entityName: string) {
     deleteEntity,
     getEntity,
   };
-} 
\ No newline at end of file
+}
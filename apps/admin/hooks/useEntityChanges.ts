@@ -0,0 +1,82 @@
+import { useEffect, useRef } from 'react';
+import { API_URL, TENANT_ID } from '../lib/api-client';
+
+export type EntityChangeOperation = 'created' | 'updated' | 'deleted' | 'restored' | 'purged';
+
+// One event of GET /api/{entity}/changes
+export interface EntityChangeEvent {
+  id: string;
+  operation: EntityChangeOperation;
+  entityName: string;
+  entityId: string;
+  // Row after the change, or before a purge
+  data: Record<string, any> | null;
+  changes: Record<string, { before: unknown; after: unknown }>;
+  actor: string | null;
+  occurredAt: string;
+}
+
+const OPERATIONS: EntityChangeOperation[] = ['created', 'updated', 'deleted', 'restored', 'purged'];
+
+/**
+ * Apply a change to a page of rows: new and restored rows are prepended, updates
+ * replace rows on the page and deletes remove them. Repeated changes are harmless.
+ */
+export function applyEntityChange(rows: any[], change: EntityChangeEvent): any[] {
+  const index = rows.findIndex(row => row.id === change.entityId);
+
+  switch (change.operation) {
+    case 'created':
+    case 'restored':
+      if (!change.data) return rows;
+      return index === -1 ? [change.data, ...rows] : rows.map((row, i) => (i === index ? change.data : row));
+    case 'updated':
+      return index === -1 || !change.data ? rows : rows.map((row, i) => (i === index ? { ...row, ...change.data } : row));
+    case 'deleted':
+    case 'purged':
+      return index === -1 ? rows : rows.filter((_, i) => i !== index);
+    default:
+      return rows;
+  }
+}
+
+interface EntityChangesOptions {
+  enabled?: boolean;
+  // The feed could not resume where it left off; reload to catch up
+  onReset?: () => void;
+}
+
+/**
+ * Follow the entity's change feed. EventSource reconnects on its own and resumes
+ * after the last event it saw.
+ */
+export function useEntityChanges(
+  entityName: string,
+  onChange: (change: EntityChangeEvent) => void,
+  { enabled = true, onReset }: EntityChangesOptions = {}
+) {
+  // Latest callbacks, so re-renders do not reopen the connection
+  const handlers = useRef({ onChange, onReset });
+  handlers.current = { onChange, onReset };
+
+  useEffect(() => {
+    if (!enabled || typeof EventSource === 'undefined') return;
+
+    const params = new URLSearchParams(TENANT_ID ? { tenantId: TENANT_ID } : {});
+    const source = new EventSource(`${API_URL}/api/${entityName}/changes?${params}`);
+
+    const handleChange = (event: MessageEvent) => {
+      try {
+        handlers.current.onChange(JSON.parse(event.data));
+      } catch (err) {
+        console.error('Invalid change event:', err);
+      }
+    };
+    const handleReset = () => handlers.current.onReset?.();
+
+    OPERATIONS.forEach(operation => source.addEventListener(operation, handleChange));
+    source.addEventListener('reset', handleReset);
+
+    return () => source.close();
+  }, [entityName, enabled]);
+}
@@ -0,0 +1,87 @@
+import { useState, useEffect } from 'react';
+
+// One entry of GET /api/{entity}/{id}/versions
+export interface EntityVersion {
+  version: number;
+  operation: 'create' | 'update' | 'delete' | 'restore';
+  actor: string | null;
+  createdAt: string;
+  // Only returned when a single version is fetched
+  snapshot?: Record<string, any>;
+}
+
+export type VersionChanges = Record<string, { before: unknown; after: unknown }>;
+
+export function useEntityVersions(entityName: string, id: string) {
+  const [versions, setVersions] = useState<EntityVersion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchVersions = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      // Simulate API call; the real request is GET /api/{entity}/{id}/versions
+      const now = Date.now();
+      setVersions([
+        { version: 3, operation: 'update', actor: 'user-2', createdAt: new Date(now - 60 * 60 * 1000).toISOString() },
+        { version: 2, operation: 'update', actor: 'user-1', createdAt: new Date(now - 24 * 60 * 60 * 1000).toISOString() },
+        { version: 1, operation: 'create', actor: 'user-1', createdAt: new Date(now - 3 * 24 * 60 * 60 * 1000).toISOString() },
+      ]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch versions');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Field changes between two versions; `to` defaults to the latest
+  const diffVersions = async (from: number, to?: number): Promise<VersionChanges> => {
+    // Simulate API call; the real request is GET /api/{entity}/{id}/versions/diff?from=&to=
+    const target = to ?? versions[0]?.version ?? from;
+    if (target === from) return {};
+
+    return {
+      name: { before: `Sample Item v${from}`, after: `Sample Item v${target}` },
+    };
+  };
+
+  // Revert goes through the normal update, so it can fail validation like any edit
+  const revertToVersion = async (version: number) => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      // Simulate API call; the real request is POST /api/{entity}/{id}/versions/{version}/revert
+      const latest = versions[0]?.version ?? 0;
+      const reverted: EntityVersion = {
+        version: latest + 1,
+        operation: 'update',
+        actor: null,
+        createdAt: new Date().toISOString(),
+      };
+
+      setVersions(prev => [reverted, ...prev]);
+      return reverted;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : `Failed to revert to version ${version}`);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchVersions();
+  }, [entityName, id]);
+
+  return {
+    versions,
+    loading,
+    error,
+    fetchVersions,
+    diffVersions,
+    revertToVersion,
+  };
+}
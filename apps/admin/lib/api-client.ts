@@ -0,0 +1,12 @@
+import { createClient } from '@humanui/client';
+
+// API the admin talks to and the tenant it works in
+export const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001';
+export const TENANT_ID = process.env.NEXT_PUBLIC_TENANT_ID;
+
+export const apiClient = createClient({
+  baseUrl: API_URL,
+  tenantId: TENANT_ID,
+  // Read per request so server renders fall back to the API's default locale
+  locale: () => (typeof navigator !== 'undefined' ? navigator.language : undefined),
+});
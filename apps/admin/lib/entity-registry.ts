@@ -1,4 +1,19 @@
-import { getAdminRoutes, getEntityStats, entityRegistry } from '@humanui/entities';
+import { getAdminRoutes, getEntityStats, FilterableField, ComputedFieldDescriptor } from '@humanui/entities';
+
+// A schema field as serialized by the entities package for the admin
+export interface SerializedField {
+  name: string;
+  // Zod type name, e.g. ZodString
+  type: string;
+  required: boolean;
+  description?: string;
+}
+
+export interface SerializedSchema {
+  fields: SerializedField[];
+  required: string[];
+  optional: string[];
+}
 
 export interface EntityConfig {
   name: string;
@@ -6,17 +21,23 @@ export interface EntityConfig {
   description?: string;
   icon?: string;
   color?: string;
-  schema: any;
-  updateSchema: any;
-  querySchema: any;
-  fields?: any[];
-  zodSchema?: any;
-  zodUpdateSchema?: any;
-  zodQuerySchema?: any;
+  schema: SerializedSchema;
+  updateSchema: SerializedSchema;
+  querySchema: SerializedSchema;
+  fields?: SerializedField[];
+  // Fields and operators accepted by the list endpoint's filter[field][op] parameters
+  filters?: FilterableField[];
+  // Relations the detail endpoint accepts in ?include=
+  relations?: string[];
+  // Virtual fields resolved by the API when listed in ?fields=
+  computed?: ComputedFieldDescriptor[];
+  zodSchema?: unknown;
+  zodUpdateSchema?: unknown;
+  zodQuerySchema?: unknown;
   // Private Zod schemas for server-side use only
-  _zodSchema?: any;
-  _zodUpdateSchema?: any;
-  _zodQuerySchema?: any;
+  _zodSchema?: unknown;
+  _zodUpdateSchema?: unknown;
+  _zodQuerySchema?: unknown;
 }
 
 export class AdminEntityRegistry {
@@ -46,6 +67,9 @@ export class AdminEntityRegistry {
         updateSchema: serializableRoute.updateSchema,
         querySchema: serializableRoute.querySchema,
         fields: serializableRoute.fields,
+        filters: serializableRoute.filters,
+        relations: serializableRoute.relations,
+        computed: serializableRoute.computed,
         // Store Zod schemas separately for server-side use only
         _zodSchema: zodSchema,
         _zodUpdateSchema: zodUpdateSchema,
@@ -149,7 +173,7 @@ export const getEntityFormConfig = (name: string) => {
     return null;
   }
 
-  const fields = config.schema.fields.map((field: any) => ({
+  const fields = config.schema.fields.map(field => ({
     name: field.name,
     label: field.name.charAt(0).toUpperCase() + field.name.slice(1).replace(/([A-Z])/g, ' $1'),
     type: convertFieldType(field.type),
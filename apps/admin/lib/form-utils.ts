@@ -17,7 +17,7 @@ export function getDefaultValuesFromSchema<T extends z.ZodSchema>(
  */
 export function validateFormData<T extends z.ZodSchema>(
   schema: T,
-  data: any
+  data: unknown
 ): { success: true; data: z.infer<T> } | { success: false; errors: z.ZodError } {
   try {
     const validatedData = schema.parse(data);
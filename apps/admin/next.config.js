@@ -5,7 +5,7 @@ const nextConfig = {
     typedRoutes: false,
   },
   output: 'standalone',
-  transpilePackages: ["@humanui/ui", "@humanui/entities", "@humanui/utils", "@humanui/config", "@humanui/constants"],
+  transpilePackages: ["@humanui/ui", "@humanui/entities", "@humanui/utils", "@humanui/config", "@humanui/constants", "@humanui/client"],
   webpack: (config, { isServer }) => {
     if (isServer) {
       config.externals = config.externals || [];
@@ -21,6 +21,7 @@ const nextConfig = {
       fs: false,
       net: false,
       tls: false,
+      async_hooks: false,
     };
     return config;
   },
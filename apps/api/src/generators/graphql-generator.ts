@@ -0,0 +1,430 @@
+import {
+  GraphQLBoolean,
+  GraphQLEnumType,
+  GraphQLFieldConfigMap,
+  GraphQLFloat,
+  GraphQLID,
+  GraphQLInputFieldConfigMap,
+  GraphQLInputObjectType,
+  GraphQLInt,
+  GraphQLList,
+  GraphQLNonNull,
+  GraphQLObjectType,
+  GraphQLScalarType,
+  GraphQLSchema,
+  GraphQLString,
+  valueFromASTUntyped,
+} from 'graphql';
+import { Prisma } from '@humanui/db';
+import {
+  entityRegistry,
+  zodToJsonSchema,
+  ComputedFields,
+  ComputedFieldType,
+  JsonSchema,
+  ModelName,
+  NotFoundError,
+  SoftDeleteHandler,
+} from '@humanui/entities';
+import { EntityConfig, GeneratedRoute, formatDate } from './route-generator';
+import { GraphQLLoaders } from './graphql-loaders';
+
+export interface GraphQLContext {
+  tenantId?: string;
+  // Applied to createdAt/updatedAt, as in REST responses
+  dateFormat?: string;
+  loaders: GraphQLLoaders;
+}
+
+// Rows per parent for list relations, as for ?include=
+const DEFAULT_RELATION_LIMIT = 50;
+const MAX_RELATION_LIMIT = 100;
+
+// Any JSON value, for fields without a GraphQL equivalent and for filters
+const JSONScalar = new GraphQLScalarType({
+  name: 'JSON',
+  description: 'Any JSON value',
+  serialize: value => value,
+  parseValue: value => value,
+  parseLiteral: (ast, variables) => valueFromASTUntyped(ast, variables),
+});
+
+const SortOrderEnum = new GraphQLEnumType({
+  name: 'SortOrder',
+  values: { asc: {}, desc: {} },
+});
+
+const PaginationModeEnum = new GraphQLEnumType({
+  name: 'PaginationMode',
+  description: '`cursor` pages by keyset, skipping the count unless includeTotal is set',
+  values: { offset: {}, cursor: {} },
+});
+
+// Offset fields are set for offset pages, cursors for cursor pages
+const PaginationType = new GraphQLObjectType({
+  name: 'Pagination',
+  fields: {
+    limit: { type: new GraphQLNonNull(GraphQLInt) },
+    total: { type: GraphQLInt },
+    page: { type: GraphQLInt },
+    totalPages: { type: GraphQLInt },
+    nextCursor: { type: GraphQLString },
+    prevCursor: { type: GraphQLString },
+  },
+});
+
+const EntityStatsType = new GraphQLObjectType({
+  name: 'EntityStats',
+  fields: {
+    total: { type: new GraphQLNonNull(GraphQLInt) },
+    active: { type: new GraphQLNonNull(GraphQLInt) },
+    inactive: { type: new GraphQLNonNull(GraphQLInt) },
+  },
+});
+
+const COMPUTED_TYPES: Record<ComputedFieldType, GraphQLScalarType> = {
+  string: GraphQLString,
+  number: GraphQLFloat,
+  boolean: GraphQLBoolean,
+  date: GraphQLString,
+  json: JSONScalar,
+};
+
+const lowerFirst = (value: string) => value.charAt(0).toLowerCase() + value.slice(1);
+
+const pluralize = (value: string) =>
+  /[^aeiou]y$/.test(value) ? `${value.slice(0, -1)}ies` : /(s|x|ch|sh)$/.test(value) ? `${value}es` : `${value}s`;
+
+const isNullable = (schema: JsonSchema) =>
+  Object.keys(schema).length === 0 ||
+  (Array.isArray(schema.type) && schema.type.includes('null')) ||
+  (Array.isArray(schema.anyOf) && schema.anyOf.some((option: JsonSchema) => option.type === 'null'));
+
+// The schema without its null alternative
+function withoutNull(schema: JsonSchema): JsonSchema {
+  if (Array.isArray(schema.type)) {
+    const types = schema.type.filter((type: string) => type !== 'null');
+    return types.length === 1 ? { ...schema, type: types[0] } : schema;
+  }
+  if (Array.isArray(schema.anyOf)) {
+    const options = schema.anyOf.filter((option: JsonSchema) => option.type !== 'null');
+    return options.length === 1 ? options[0] : schema;
+  }
+  return schema;
+}
+
+// Scalars and lists of scalars map to GraphQL types; objects and mixed unions stay JSON
+function fieldType(name: string, schema: JsonSchema): GraphQLScalarType | GraphQLList<any> {
+  const type = withoutNull(schema);
+  if (name === 'id') return GraphQLID;
+
+  switch (type.type) {
+    case 'string':
+      return GraphQLString;
+    case 'integer':
+      return GraphQLInt;
+    case 'number':
+      return GraphQLFloat;
+    case 'boolean':
+      return GraphQLBoolean;
+    case 'array': {
+      const item = type.items ? fieldType('', type.items) : JSONScalar;
+      return new GraphQLList(new GraphQLNonNull(item));
+    }
+    default:
+      return JSONScalar;
+  }
+}
+
+// Dates leave as ISO strings, except the timestamps REST formats for the request's locale
+function outputValue(name: string, value: unknown, context: GraphQLContext): unknown {
+  if (!(value instanceof Date)) return value;
+  return name === 'createdAt' || name === 'updatedAt' ? formatDate(value, context.dateFormat) : value.toISOString();
+}
+
+// GraphQL filters use the REST grammar, e.g. { basePrice: { gte: 10 } }; values are compared as query strings
+function toFilterInput(filter: unknown): Record<string, unknown> | undefined {
+  if (!filter || typeof filter !== 'object') return undefined;
+
+  const normalize = (value: unknown): unknown => {
+    if (Array.isArray(value)) return value.map(String);
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value).map(([operator, operand]) => [operator, normalize(operand)]));
+    }
+    return String(value);
+  };
+
+  return normalize(filter) as Record<string, unknown>;
+}
+
+function inputFields(schema: JsonSchema, partial: boolean): GraphQLInputFieldConfigMap {
+  const required = new Set<string>(schema.required ?? []);
+
+  return Object.fromEntries(
+    Object.entries((schema.properties ?? {}) as Record<string, JsonSchema>).map(([name, property]) => {
+      const type = fieldType(name, property);
+      const nonNull = !partial && required.has(name) && !isNullable(property);
+      return [name, { type: nonNull ? new GraphQLNonNull(type) : type, description: property.description }];
+    })
+  );
+}
+
+interface EntityTypes {
+  config: EntityConfig;
+  model: ModelName;
+  object: GraphQLObjectType;
+  page: GraphQLObjectType;
+}
+
+/**
+ * GraphQL schema of the generated entities: a type per entity with its stored and
+ * computed fields and its Prisma relations to other entities, list and get queries
+ * with the REST filter and pagination semantics, and mutations through the
+ * entity services so hooks, tenant rules and the audit trail apply.
+ */
+export function generateGraphQLSchema(routes: GeneratedRoute[]): GraphQLSchema {
+  const entities = new Map<string, EntityTypes>();
+  const registered = entityRegistry.getAllEntities();
+
+  for (const { config } of routes) {
+    if (!config.model || !config.schemas.entity) continue;
+    const model = config.model as ModelName;
+    const entitySchema = config.schemas.entity;
+    const computed: ComputedFields = registered.find(entity => entity.model === model)?.computed ?? {};
+
+    const object: GraphQLObjectType = new GraphQLObjectType({
+      name: model,
+      description: config.description,
+      // Thunk, so relations can refer to entities defined later
+      fields: () => ({
+        ...storedFields(entitySchema),
+        ...computedFields(model, computed),
+        ...relationFields(model, [...Object.keys(entitySchema.shape), ...Object.keys(computed)]),
+      }),
+    });
+
+    const page = new GraphQLObjectType({
+      name: `${model}Page`,
+      fields: {
+        data: { type: new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(object))) },
+        pagination: { type: new GraphQLNonNull(PaginationType) },
+      },
+    });
+
+    entities.set(model, { config, model, object, page });
+  }
+
+  function storedFields(entitySchema: NonNullable<EntityConfig['schemas']['entity']>): GraphQLFieldConfigMap<any, GraphQLContext> {
+    const schema = zodToJsonSchema(entitySchema);
+
+    return Object.fromEntries(
+      Object.entries(schema.properties as Record<string, JsonSchema>).map(([name, property]) => [
+        name,
+        {
+          type: name === 'id' ? new GraphQLNonNull(GraphQLID) : fieldType(name, property),
+          description: property.description,
+          resolve: (row: any, _args: unknown, context: GraphQLContext) => outputValue(name, row[name], context),
+        },
+      ])
+    );
+  }
+
+  function computedFields(model: ModelName, fields: ComputedFields): GraphQLFieldConfigMap<any, GraphQLContext> {
+    return Object.fromEntries(
+      Object.entries(fields).map(([name, field]) => [
+        name,
+        {
+          type: COMPUTED_TYPES[field.type],
+          description: field.description,
+          resolve: async (row: any, _args: unknown, context: GraphQLContext) =>
+            outputValue(name, await context.loaders.computed(model, fields, name).load(row), context),
+        },
+      ])
+    );
+  }
+
+  // Relation fields of the Prisma model whose other side is also an entity
+  function relationFields(model: ModelName, taken: string[]): GraphQLFieldConfigMap<any, GraphQLContext> {
+    const prismaModel = Prisma.dmmf.datamodel.models.find(candidate => candidate.name === model);
+    const declared = registered.find(entity => entity.model === model)?.relations ?? {};
+    const fields: GraphQLFieldConfigMap<any, GraphQLContext> = {};
+
+    for (const field of prismaModel?.fields ?? []) {
+      const target = entities.get(field.type);
+      if (field.kind !== 'object' || !target || taken.includes(field.name)) continue;
+
+      if (field.isList) {
+        const defaultLimit = declared[field.name]?.limit ?? DEFAULT_RELATION_LIMIT;
+        const softDelete = new SoftDeleteHandler(registered.find(entity => entity.model === target.model)?.softDelete);
+        fields[field.name] = {
+          type: new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(target.object))),
+          args: {
+            limit: { type: GraphQLInt, defaultValue: defaultLimit, description: `At most ${MAX_RELATION_LIMIT}` },
+            includeDeleted: { type: GraphQLBoolean },
+          },
+          resolve: (row: any, args: { limit: number; includeDeleted?: boolean | null }, context: GraphQLContext) =>
+            context.loaders
+              .related(model, field.name, Math.min(Math.max(args.limit, 1), MAX_RELATION_LIMIT), {
+                softDelete,
+                includeDeleted: args.includeDeleted ?? false,
+              })
+              .load(row.id),
+        };
+        continue;
+      }
+
+      // Belongs-to relations are loaded by the foreign key on this side
+      const [foreignKey] = field.relationFromFields ?? [];
+      if (!foreignKey || field.relationFromFields!.length !== 1) continue;
+
+      fields[field.name] = {
+        type: target.object,
+        resolve: (row: any, _args: unknown, context: GraphQLContext) =>
+          row[foreignKey] ? context.loaders.byId(target.model).load(row[foreignKey]) : null,
+      };
+    }
+
+    return fields;
+  }
+
+  const queries: GraphQLFieldConfigMap<any, GraphQLContext> = {};
+  const mutations: GraphQLFieldConfigMap<any, GraphQLContext> = {};
+
+  for (const { config, model, object, page } of entities.values()) {
+    const { service, schemas, endpoints = {} } = config;
+    const single = lowerFirst(model);
+    const entityName = config.name;
+
+    const notFound = (id: string) => new NotFoundError(entityName, id);
+
+    if (endpoints.getById) {
+      queries[single] = {
+        type: object,
+        args: {
+          id: { type: new GraphQLNonNull(GraphQLID) },
+          includeDeleted: { type: GraphQLBoolean },
+        },
+        resolve: (_root, { id, includeDeleted }, context: GraphQLContext) =>
+          service.findById(id, context.tenantId, { includeDeleted: includeDeleted ?? false }),
+      };
+    }
+
+    if (endpoints.list) {
+      queries[pluralize(single)] = {
+        type: new GraphQLNonNull(page),
+        args: {
+          page: { type: GraphQLInt },
+          limit: { type: GraphQLInt },
+          search: { type: GraphQLString },
+          sort: { type: GraphQLString, description: 'Multi-key sort, e.g. `-createdAt,name`' },
+          sortBy: { type: GraphQLString },
+          sortOrder: { type: SortOrderEnum },
+          filter: { type: JSONScalar, description: 'Field filters, e.g. `{ "status": { "in": ["ACTIVE", "DRAFT"] } }`' },
+          includeDeleted: { type: GraphQLBoolean },
+          pagination: { type: PaginationModeEnum },
+          cursor: { type: GraphQLString },
+          includeTotal: { type: GraphQLBoolean },
+        },
+        resolve: async (_root, args, context: GraphQLContext) => {
+          // Null arguments are left out, as missing query parameters are in REST
+          const present = Object.fromEntries(Object.entries(args).filter(([, value]) => value !== null && value !== undefined));
+          const input = { ...present, filter: toFilterInput(present.filter) };
+          const query = schemas.query ? schemas.query.parse(input) : input;
+
+          if (query.pagination === 'cursor' || query.cursor) {
+            const result = await service.listByCursor(query, context.tenantId);
+            return {
+              data: result.items,
+              pagination: {
+                limit: result.limit,
+                nextCursor: result.nextCursor,
+                prevCursor: result.prevCursor,
+                total: result.total,
+              },
+            };
+          }
+
+          const result = await service.list(query, context.tenantId);
+          return {
+            data: result.items,
+            pagination: {
+              total: result.total,
+              page: result.page,
+              limit: result.limit,
+              totalPages: result.totalPages,
+            },
+          };
+        },
+      };
+    }
+
+    if (endpoints.stats) {
+      queries[`${single}Stats`] = {
+        type: new GraphQLNonNull(EntityStatsType),
+        resolve: (_root, _args, context: GraphQLContext) => service.getStats(context.tenantId),
+      };
+    }
+
+    if (endpoints.create && schemas.create) {
+      const input = new GraphQLInputObjectType({
+        name: `${model}CreateInput`,
+        fields: inputFields(zodToJsonSchema(schemas.create), false),
+      });
+
+      mutations[`create${model}`] = {
+        type: new GraphQLNonNull(object),
+        args: { data: { type: new GraphQLNonNull(input) } },
+        resolve: (_root, { data }, context: GraphQLContext) => service.create(schemas.create!.parse(data), context.tenantId),
+      };
+    }
+
+    if (endpoints.update && schemas.update) {
+      const input = new GraphQLInputObjectType({
+        name: `${model}UpdateInput`,
+        fields: inputFields(zodToJsonSchema(schemas.update), true),
+      });
+
+      mutations[`update${model}`] = {
+        type: new GraphQLNonNull(object),
+        args: {
+          id: { type: new GraphQLNonNull(GraphQLID) },
+          data: { type: new GraphQLNonNull(input) },
+          version: { type: GraphQLString, description: 'Version the change is based on, as sent in ETag; a stale one is a CONFLICT' },
+        },
+        resolve: (_root, { id, data, version }, context: GraphQLContext) =>
+          service.update(id, schemas.update!.parse(data), context.tenantId, { expectedVersion: version ?? undefined }),
+      };
+    }
+
+    if (endpoints.delete) {
+      mutations[`delete${model}`] = {
+        type: new GraphQLNonNull(GraphQLBoolean),
+        description: 'Soft delete',
+        args: { id: { type: new GraphQLNonNull(GraphQLID) } },
+        resolve: async (_root, { id }, context: GraphQLContext) => {
+          if (!(await service.delete(id, context.tenantId))) throw notFound(id);
+          return true;
+        },
+      };
+    }
+
+    if (endpoints.restore) {
+      mutations[`restore${model}`] = {
+        type: new GraphQLNonNull(object),
+        args: { id: { type: new GraphQLNonNull(GraphQLID) } },
+        resolve: async (_root, { id }, context: GraphQLContext) => {
+          const result = await service.restore(id, context.tenantId);
+          if (!result) throw notFound(id);
+          return result;
+        },
+      };
+    }
+  }
+
+  return new GraphQLSchema({
+    query: new GraphQLObjectType({ name: 'Query', fields: queries }),
+    ...(Object.keys(mutations).length > 0 && {
+      mutation: new GraphQLObjectType({ name: 'Mutation', fields: mutations }),
+    }),
+  });
+}
@@ -0,0 +1,113 @@
+import { describe, expect, it, vi } from 'vitest';
+import { PrismaClient } from '@humanui/db';
+import { SoftDeleteHandler } from '@humanui/entities';
+import { GraphQLLoaders } from './graphql-loaders';
+
+// The shared client in @humanui/db loads the query engine on import; only the generated types and enums are needed
+vi.mock('@humanui/db', () => import('../../../../packages/db/src/generated'));
+
+interface Row {
+  id: string;
+  tenantId: string | null;
+  isActive?: boolean;
+}
+
+// Equality conditions, possibly combined under AND
+const matches = (row: Row, where: Record<string, unknown>): boolean =>
+  Object.entries(where).every(([field, value]) =>
+    field === 'AND'
+      ? (value as Record<string, unknown>[]).every(part => matches(row, part))
+      : (row[field as keyof Row] ?? true) === value
+  );
+
+const categories: Row[] = [
+  { id: 'c1', tenantId: 't1' },
+  { id: 'c2', tenantId: 't2' },
+  { id: 'c3', tenantId: null },
+];
+
+// A category delegate that applies the id and tenant conditions of findMany
+function createClient(items: Record<string, Row[]> = {}) {
+  const findMany = vi.fn(async ({ where, select }: { where: { id: { in: string[] }; tenantId: string | null }; select?: Record<string, any> }) => {
+    const rows = categories.filter(row => where.id.in.includes(row.id) && row.tenantId === where.tenantId);
+    if (!select) return rows;
+    const relation = select.items;
+    return rows.map(row => ({
+      id: row.id,
+      items: (items[row.id] ?? []).filter(item => matches(item, relation.where)).slice(0, relation.take),
+    }));
+  });
+  return { prisma: { category: { findMany } } as unknown as PrismaClient, findMany };
+}
+
+describe('GraphQLLoaders.byId', () => {
+  it('loads the rows of one level in a single query scoped to the tenant', async () => {
+    const { prisma, findMany } = createClient();
+    const loaders = new GraphQLLoaders(prisma, 't1');
+
+    const rows = await Promise.all(['c1', 'c2', 'c3'].map(id => loaders.byId('Category').load(id)));
+
+    expect(findMany).toHaveBeenCalledTimes(1);
+    expect(findMany.mock.calls[0][0].where).toEqual({ id: { in: ['c1', 'c2', 'c3'] }, tenantId: 't1' });
+    expect(rows).toEqual([{ id: 'c1', tenantId: 't1' }, null, null]);
+  });
+
+  it('only sees rows without a tenant when the request has none', async () => {
+    const { prisma } = createClient();
+    const loaders = new GraphQLLoaders(prisma);
+
+    await expect(loaders.byId('Category').loadMany(['c1', 'c3'])).resolves.toEqual([null, { id: 'c3', tenantId: null }]);
+  });
+
+  it('reuses one loader per model within a request', () => {
+    const loaders = new GraphQLLoaders(createClient().prisma, 't1');
+
+    expect(loaders.byId('Category')).toBe(loaders.byId('Category'));
+  });
+});
+
+describe('GraphQLLoaders.related', () => {
+  it('scopes both the parents and the related rows to the tenant', async () => {
+    const { prisma, findMany } = createClient({
+      c1: [
+        { id: 'i1', tenantId: 't1' },
+        { id: 'i2', tenantId: 't2' },
+        { id: 'i3', tenantId: 't1' },
+      ],
+      c2: [{ id: 'i4', tenantId: 't2' }],
+    });
+    const loaders = new GraphQLLoaders(prisma, 't1');
+
+    const [own, foreign] = await Promise.all([
+      loaders.related('Category', 'items', 1).load('c1'),
+      loaders.related('Category', 'items', 1).load('c2'),
+    ]);
+
+    expect(findMany.mock.calls[0][0]).toEqual({
+      where: { id: { in: ['c1', 'c2'] }, tenantId: 't1' },
+      select: { id: true, items: { where: { tenantId: 't1' }, orderBy: { createdAt: 'desc' }, take: 1 } },
+    });
+    expect(own).toEqual([{ id: 'i1', tenantId: 't1' }]);
+    expect(foreign).toEqual([]);
+  });
+
+  it('leaves out soft-deleted related rows unless asked to include them', async () => {
+    const { prisma, findMany } = createClient({
+      c1: [
+        { id: 'i1', tenantId: 't1', isActive: false },
+        { id: 'i2', tenantId: 't1', isActive: true },
+      ],
+    });
+    const loaders = new GraphQLLoaders(prisma, 't1');
+    const softDelete = new SoftDeleteHandler({ strategy: 'flag', field: 'isActive' });
+
+    const active = await loaders.related('Category', 'items', 10, { softDelete }).load('c1');
+    const all = await loaders.related('Category', 'items', 10, { softDelete, includeDeleted: true }).load('c1');
+
+    expect(findMany.mock.calls[0][0]).toMatchObject({
+      select: { items: { where: { AND: [{ tenantId: 't1' }, { isActive: true }] } } },
+    });
+    expect(active.map(item => item.id)).toEqual(['i2']);
+    expect(all.map(item => item.id)).toEqual(['i1', 'i2']);
+  });
+});
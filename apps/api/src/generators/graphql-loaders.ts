@@ -0,0 +1,84 @@
+import DataLoader from 'dataloader';
+import { PrismaClient } from '@humanui/db';
+import { ComputedFields, ModelName, SoftDeleteHandler, getModelDelegate, resolveComputedFields } from '@humanui/entities';
+
+export interface RelatedOptions {
+  // Soft-delete policy of the related entity
+  softDelete?: SoftDeleteHandler;
+  includeDeleted?: boolean;
+}
+
+/**
+ * Per-request batching for GraphQL resolvers. Lookups made while resolving one
+ * level of a query are collected into a single query per model and relation,
+ * and every lookup is scoped to the request's tenant.
+ */
+export class GraphQLLoaders {
+  private loaders = new Map<string, DataLoader<any, any>>();
+
+  constructor(
+    private prisma: PrismaClient,
+    private tenantId?: string
+  ) {}
+
+  // Rows of a model by id; rows of another tenant resolve to null
+  byId(model: ModelName): DataLoader<string, any | null> {
+    return this.loader(`${model}:id`, async (ids: readonly string[]) => {
+      const rows = await getModelDelegate(this.prisma, model).findMany({
+        where: { id: { in: [...ids] }, tenantId: this.tenantId ?? null },
+      });
+      const byId = new Map(rows.map(row => [row.id, row]));
+      return ids.map(id => byId.get(id) ?? null);
+    });
+  }
+
+  /**
+   * Rows of a list relation by parent id, newest first and at most `limit` per parent.
+   * Related rows the target entity's soft-delete policy marks as deleted are left out unless includeDeleted.
+   */
+  related(
+    model: ModelName,
+    relation: string,
+    limit: number,
+    { softDelete, includeDeleted = false }: RelatedOptions = {}
+  ): DataLoader<string, any[]> {
+    return this.loader(`${model}.${relation}:${limit}:${includeDeleted}`, async (ids: readonly string[]) => {
+      const tenantId = this.tenantId ?? null;
+      const where = softDelete ? softDelete.scope({ tenantId }, includeDeleted) : { tenantId };
+      const parents = await getModelDelegate(this.prisma, model).findMany({
+        where: { id: { in: [...ids] }, tenantId },
+        select: { id: true, [relation]: { where, orderBy: { createdAt: 'desc' }, take: limit } },
+      });
+      const byId = new Map(parents.map(parent => [parent.id, parent[relation] as unknown[]]));
+      return ids.map(id => byId.get(id) ?? []);
+    });
+  }
+
+  // A computed field, resolved once for all rows at the same level of the query
+  computed(model: ModelName, fields: ComputedFields, name: string): DataLoader<Record<string, any>, unknown> {
+    return this.loader(
+      `${model}#${name}`,
+      async (rows: readonly Record<string, any>[]) => {
+        const resolved = await resolveComputedFields([...rows], fields, [name], {
+          prisma: this.prisma,
+          tenantId: this.tenantId,
+        });
+        return resolved.map(row => row[name]);
+      },
+      { cacheKeyFn: row => row.id }
+    );
+  }
+
+  private loader<K, V>(
+    key: string,
+    batch: DataLoader.BatchLoadFn<K, V>,
+    options?: DataLoader.Options<K, V, any>
+  ): DataLoader<K, V> {
+    let loader = this.loaders.get(key);
+    if (!loader) {
+      loader = new DataLoader(batch, options);
+      this.loaders.set(key, loader);
+    }
+    return loader;
+  }
+}
@@ -0,0 +1,517 @@
+import { z } from 'zod';
+import { APP_NAME, APP_VERSION } from '@humanui/config';
+import {
+  zodToJsonSchema,
+  JsonSchema,
+  ERROR_STATUS,
+  bulkRequestSchema,
+  versionQuerySchema,
+  MAX_BULK_OPERATIONS,
+} from '@humanui/entities';
+import { GeneratedRoute } from './route-generator';
+
+type Operation = Record<string, any>;
+
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+const parameterRef = (name: string) => ({ $ref: `#/components/parameters/${name}` });
+const responseRef = (name: string) => ({ $ref: `#/components/responses/${name}` });
+
+const errorResponse = (description: string) => ({
+  description,
+  content: { 'application/json': { schema: ref('Error') } },
+});
+
+const etagHeader = {
+  ETag: {
+    description: 'Version of the record; send it back as If-Match to make a write conditional',
+    schema: { type: 'string' },
+  },
+};
+
+// `{ data }` envelope used by every generated route
+const dataResponse = (description: string, schema: JsonSchema, headers?: Record<string, any>) => ({
+  description,
+  ...(headers && { headers }),
+  content: {
+    'application/json': {
+      schema: { type: 'object', properties: { data: schema }, required: ['data'] },
+    },
+  },
+});
+
+// `{ data, pagination }` envelope of list routes
+const listResponse = (description: string, item: JsonSchema, pagination: JsonSchema = ref('Pagination')) => ({
+  description,
+  content: {
+    'application/json': {
+      schema: {
+        type: 'object',
+        properties: { data: { type: 'array', items: item }, pagination },
+        required: ['data', 'pagination'],
+      },
+    },
+  },
+});
+
+// One query parameter per field; records such as `filter` use filter[field][op]=value
+function queryParameters(schema: z.AnyZodObject, fields?: string[]): Operation[] {
+  return Object.entries(schema.shape as Record<string, z.ZodTypeAny>)
+    .filter(([name]) => !fields || fields.includes(name))
+    .map(([name, field]) => {
+      const fieldSchema = zodToJsonSchema(field);
+      return {
+        name,
+        in: 'query',
+        required: !field.isOptional(),
+        schema: fieldSchema,
+        ...(fieldSchema.type === 'object' && { style: 'deepObject', explode: true }),
+      };
+    });
+}
+
+const SHARED_SCHEMAS: Record<string, JsonSchema> = {
+  Error: {
+    type: 'object',
+    description: 'Body of every error response',
+    properties: {
+      error: { type: 'string' },
+      code: { type: 'string', enum: Object.keys(ERROR_STATUS) },
+      fields: { type: 'array', items: ref('FieldError'), description: 'Per-field failures' },
+      details: {},
+      current: { description: 'Current server copy, on optimistic locking conflicts' },
+    },
+    required: ['error', 'code'],
+  },
+  FieldError: {
+    type: 'object',
+    properties: {
+      field: { type: 'string' },
+      rule: { type: 'string' },
+      message: { type: 'string' },
+    },
+    required: ['field', 'rule', 'message'],
+  },
+  Pagination: {
+    type: 'object',
+    properties: {
+      total: { type: 'integer' },
+      page: { type: 'integer' },
+      limit: { type: 'integer' },
+      totalPages: { type: 'integer' },
+    },
+    required: ['total', 'page', 'limit', 'totalPages'],
+  },
+  CursorPagination: {
+    type: 'object',
+    properties: {
+      limit: { type: 'integer' },
+      nextCursor: { type: ['string', 'null'] },
+      prevCursor: { type: ['string', 'null'] },
+      total: { type: 'integer', description: 'Only with includeTotal=true' },
+    },
+    required: ['limit', 'nextCursor', 'prevCursor'],
+  },
+  FieldChanges: {
+    type: 'object',
+    description: 'Changed fields with their values before and after',
+    additionalProperties: {
+      type: 'object',
+      properties: { before: {}, after: {} },
+    },
+  },
+  EntityStats: {
+    type: 'object',
+    properties: {
+      total: { type: 'integer' },
+      active: { type: 'integer' },
+      inactive: { type: 'integer' },
+    },
+    required: ['total', 'active', 'inactive'],
+  },
+  AuditEntry: {
+    type: 'object',
+    properties: {
+      id: { type: 'string' },
+      tenantId: { type: ['string', 'null'] },
+      entityName: { type: 'string' },
+      entityId: { type: 'string' },
+      operation: { type: 'string', enum: ['create', 'update', 'delete', 'restore', 'purge'] },
+      actor: { type: ['string', 'null'] },
+      requestId: { type: ['string', 'null'] },
+      changes: ref('FieldChanges'),
+      createdAt: { type: 'string' },
+    },
+    required: ['id', 'entityName', 'entityId', 'operation', 'changes', 'createdAt'],
+  },
+  EntityVersion: {
+    type: 'object',
+    properties: {
+      id: { type: 'string' },
+      tenantId: { type: ['string', 'null'] },
+      entityName: { type: 'string' },
+      entityId: { type: 'string' },
+      version: { type: 'integer' },
+      operation: { type: 'string' },
+      actor: { type: ['string', 'null'] },
+      snapshot: { type: 'object', description: 'The record after the change; omitted from version lists' },
+      createdAt: { type: 'string' },
+    },
+    required: ['id', 'entityName', 'entityId', 'version', 'operation', 'createdAt'],
+  },
+  VersionDiff: {
+    type: 'object',
+    properties: {
+      from: { type: 'integer' },
+      to: { type: 'integer' },
+      changes: ref('FieldChanges'),
+    },
+    required: ['from', 'to', 'changes'],
+  },
+  ChangeEvent: {
+    type: 'object',
+    description: 'Data of one Server-Sent Event; the SSE event name is the operation and its id the event ID',
+    properties: {
+      id: { type: 'string', description: 'Pass back as Last-Event-ID to resume' },
+      operation: { type: 'string', enum: ['created', 'updated', 'deleted', 'restored', 'purged'] },
+      entityName: { type: 'string' },
+      entityId: { type: 'string' },
+      data: { type: ['object', 'null'] },
+      changes: ref('FieldChanges'),
+      actor: { type: ['string', 'null'] },
+      occurredAt: { type: 'string', format: 'date-time' },
+    },
+    required: ['id', 'operation', 'entityName', 'entityId', 'data', 'changes', 'occurredAt'],
+  },
+  BulkRowResult: {
+    type: 'object',
+    properties: {
+      index: { type: 'integer' },
+      op: { type: 'string' },
+      id: { type: 'string' },
+      status: { type: 'string', enum: ['succeeded', 'failed', 'rolledBack', 'skipped'] },
+      data: {},
+      error: ref('Error'),
+    },
+    required: ['index', 'op', 'status'],
+  },
+  BulkResult: {
+    type: 'object',
+    properties: {
+      mode: { type: 'string', enum: ['atomic', 'bestEffort'] },
+      committed: { type: 'boolean' },
+      succeeded: { type: 'integer' },
+      failed: { type: 'integer' },
+      results: { type: 'array', items: ref('BulkRowResult') },
+    },
+    required: ['mode', 'committed', 'succeeded', 'failed', 'results'],
+  },
+};
+
+const PARAMETERS: Record<string, Operation> = {
+  TenantId: {
+    name: 'X-Tenant-ID',
+    in: 'header',
+    required: false,
+    description: 'Tenant the request acts for, unless it is resolved from the bearer token or host',
+    schema: { type: 'string' },
+  },
+  AcceptLanguage: {
+    name: 'Accept-Language',
+    in: 'header',
+    description: 'Locale for formatted dates, e.g. en-US',
+    schema: { type: 'string' },
+  },
+  Locale: {
+    name: 'X-Locale',
+    in: 'header',
+    description: 'Alternative to Accept-Language',
+    schema: { type: 'string' },
+  },
+  UserId: {
+    name: 'X-User-ID',
+    in: 'header',
+    description: 'Actor recorded in the audit log',
+    schema: { type: 'string' },
+  },
+  RequestId: {
+    name: 'X-Request-ID',
+    in: 'header',
+    description: 'Correlates audit log entries written by one request',
+    schema: { type: 'string' },
+  },
+  IdempotencyKey: {
+    name: 'Idempotency-Key',
+    in: 'header',
+    description: 'Retries with the same key and body replay the first response',
+    schema: { type: 'string', minLength: 1, maxLength: 255 },
+  },
+  IfMatch: {
+    name: 'If-Match',
+    in: 'header',
+    description: 'ETag the write is based on; a stale value fails with 409',
+    schema: { type: 'string' },
+  },
+  LastEventId: {
+    name: 'Last-Event-ID',
+    in: 'header',
+    description: 'Resume the stream after this event',
+    schema: { type: 'string' },
+  },
+  Id: {
+    name: 'id',
+    in: 'path',
+    required: true,
+    schema: { type: 'string' },
+  },
+  Version: {
+    name: 'version',
+    in: 'path',
+    required: true,
+    schema: { type: 'integer', minimum: 1 },
+  },
+};
+
+const RESPONSES: Record<string, Operation> = {
+  BadRequest: errorResponse('Invalid input (VALIDATION_ERROR) or missing or unknown tenant (TENANT_ERROR)'),
+  Forbidden: errorResponse('Tenant is suspended, or the bearer token is for another tenant (FORBIDDEN)'),
+  NotFound: errorResponse('No such record for the tenant (NOT_FOUND)'),
+  Conflict: errorResponse('Stale If-Match, duplicate unique value or Idempotency-Key in use (CONFLICT)'),
+  UnprocessableEntity: errorResponse('Refused by a hook or domain rule, or Idempotency-Key reused (BUSINESS_LOGIC_ERROR)'),
+  InternalError: errorResponse('Unexpected failure (INTERNAL_ERROR)'),
+};
+
+/**
+ * Build an OpenAPI 3.1 document for the generated entity routes: paths from the
+ * enabled endpoints, bodies and query parameters from the entity's Zod schemas.
+ * `servers` is left to the caller, which knows the public URL.
+ */
+export function generateOpenAPIDocument(routes: GeneratedRoute[]) {
+  const paths: Record<string, Record<string, Operation>> = {};
+  const schemas: Record<string, JsonSchema> = { ...SHARED_SCHEMAS };
+  const tags: Array<{ name: string; description?: string }> = [];
+
+  const addOperation = (path: string, method: string, operation: Operation) => {
+    paths[path] = { ...paths[path], [method]: operation };
+  };
+
+  for (const { path: basePath, config } of routes) {
+    const { name, schemas: entitySchemas, endpoints = {}, middleware = {} } = config;
+    const model = config.model || name.charAt(0).toUpperCase() + name.slice(1);
+    const tag = config.displayName || model;
+    tags.push({ name: tag, ...(config.description && { description: config.description }) });
+
+    // Entity schemas, named after the model
+    const entitySchema = entitySchemas.entity ?? entitySchemas.create;
+    if (entitySchema) schemas[model] = zodToJsonSchema(entitySchema);
+    if (entitySchemas.create) schemas[`${model}Create`] = zodToJsonSchema(entitySchemas.create);
+    if (entitySchemas.update) schemas[`${model}Update`] = zodToJsonSchema(entitySchemas.update);
+    const record = schemas[model] ? ref(model) : { type: 'object' };
+
+    const headers = [
+      ...(middleware.tenant ? [parameterRef('TenantId')] : []),
+      ...(middleware.locale ? [parameterRef('AcceptLanguage'), parameterRef('Locale')] : []),
+    ];
+    const writeHeaders = [...headers, parameterRef('UserId'), parameterRef('RequestId'), parameterRef('IdempotencyKey')];
+    const query = entitySchemas.query instanceof z.ZodObject ? entitySchemas.query : undefined;
+
+    const tenantErrors = middleware.tenant ? { '403': responseRef('Forbidden') } : {};
+    const readErrors = { '400': responseRef('BadRequest'), ...tenantErrors, '500': responseRef('InternalError') };
+    const writeErrors = {
+      '400': responseRef('BadRequest'),
+      ...tenantErrors,
+      '409': responseRef('Conflict'),
+      '422': responseRef('UnprocessableEntity'),
+      '500': responseRef('InternalError'),
+    };
+    const notFound = { '404': responseRef('NotFound') };
+
+    const operation = (id: string, summary: string, fields: Operation): Operation => ({
+      operationId: `${id}${model}`,
+      tags: [tag],
+      summary,
+      ...fields,
+    });
+    const jsonBody = (schema: JsonSchema) => ({
+      required: true,
+      content: { 'application/json': { schema } },
+    });
+
+    const collection = basePath;
+    const member = `${basePath}/{id}`;
+
+    if (endpoints.list) {
+      addOperation(collection, 'get', operation('list', `List ${tag.toLowerCase()}`, {
+        description: 'Offset pages by default; pagination=cursor (or a cursor) switches to keyset pages.',
+        parameters: [...headers, ...(query ? queryParameters(query) : [])],
+        responses: {
+          '200': listResponse('A page of records', record, { anyOf: [ref('Pagination'), ref('CursorPagination')] }),
+          ...readErrors,
+        },
+      }));
+    }
+
+    if (endpoints.create) {
+      addOperation(collection, 'post', operation('create', 'Create a record', {
+        parameters: writeHeaders,
+        requestBody: jsonBody(schemas[`${model}Create`] ? ref(`${model}Create`) : { type: 'object' }),
+        responses: { '201': dataResponse('Created', record, etagHeader), ...writeErrors },
+      }));
+    }
+
+    if (endpoints.changes) {
+      addOperation(`${basePath}/changes`, 'get', operation('streamChanges', 'Stream changes', {
+        description: 'Server-Sent Events: one event per change, named after its operation. A `reset` event means the resume point has expired and the client should reload.',
+        parameters: [
+          ...headers,
+          parameterRef('LastEventId'),
+          { name: 'lastEventId', in: 'query', description: 'Same as Last-Event-ID', schema: { type: 'string' } },
+        ],
+        responses: {
+          '200': {
+            description: 'Event stream',
+            content: { 'text/event-stream': { schema: ref('ChangeEvent') } },
+          },
+          ...readErrors,
+        },
+      }));
+    }
+
+    if (endpoints.stats) {
+      addOperation(`${basePath}/stats`, 'get', operation('getStats', 'Record counts', {
+        parameters: headers,
+        responses: { '200': dataResponse('Counts', ref('EntityStats')), ...readErrors },
+      }));
+    }
+
+    if (endpoints.bulk) {
+      const bulkSchema = zodToJsonSchema(bulkRequestSchema);
+      if (config.bulkOperations) {
+        bulkSchema.properties.operations.items.properties.op = { type: 'string', enum: config.bulkOperations };
+      }
+      schemas[`${model}BulkRequest`] = bulkSchema;
+
+      addOperation(`${basePath}/bulk`, 'post', operation('bulk', 'Run a batch of operations', {
+        description: `Up to ${MAX_BULK_OPERATIONS} operations. An atomic batch that is rolled back responds with the failing row's status and the same body.`,
+        parameters: writeHeaders,
+        requestBody: jsonBody(ref(`${model}BulkRequest`)),
+        responses: {
+          '200': dataResponse('Every row succeeded', ref('BulkResult')),
+          '207': dataResponse('A best-effort batch with failed rows', ref('BulkResult')),
+          ...writeErrors,
+        },
+      }));
+    }
+
+    if (endpoints.getById) {
+      addOperation(member, 'get', operation('get', 'Get a record', {
+        parameters: [
+          parameterRef('Id'),
+          ...headers,
+          ...(query ? queryParameters(query, ['includeDeleted', 'fields', 'include']) : []),
+        ],
+        responses: { '200': dataResponse('The record', record, etagHeader), ...notFound, ...readErrors },
+      }));
+    }
+
+    const updateBody = jsonBody(schemas[`${model}Update`] ? ref(`${model}Update`) : { type: 'object' });
+    if (endpoints.update) {
+      addOperation(member, 'put', operation('update', 'Update a record', {
+        description: 'Only the given fields change.',
+        parameters: [parameterRef('Id'), ...writeHeaders, parameterRef('IfMatch')],
+        requestBody: updateBody,
+        responses: { '200': dataResponse('Updated', record, etagHeader), ...notFound, ...writeErrors },
+      }));
+    }
+
+    if (endpoints.patch) {
+      addOperation(member, 'patch', operation('patch', 'Patch a record', {
+        parameters: [parameterRef('Id'), ...writeHeaders, parameterRef('IfMatch')],
+        requestBody: updateBody,
+        responses: { '200': dataResponse('Updated', record, etagHeader), ...notFound, ...writeErrors },
+      }));
+    }
+
+    if (endpoints.delete) {
+      addOperation(member, 'delete', operation('delete', 'Soft delete a record', {
+        parameters: [parameterRef('Id'), ...writeHeaders],
+        responses: { '204': { description: 'Deleted' }, ...notFound, ...writeErrors },
+      }));
+    }
+
+    if (endpoints.restore) {
+      addOperation(`${member}/restore`, 'post', operation('restore', 'Undo a soft delete', {
+        parameters: [parameterRef('Id'), ...writeHeaders],
+        responses: { '200': dataResponse('Restored', record, etagHeader), ...notFound, ...writeErrors },
+      }));
+    }
+
+    if (endpoints.hardDelete) {
+      addOperation(`${member}/hard`, 'delete', operation('purge', 'Permanently delete a record', {
+        parameters: [parameterRef('Id'), ...writeHeaders],
+        responses: { '204': { description: 'Deleted' }, ...notFound, ...writeErrors },
+      }));
+    }
+
+    const pageParameters = queryParameters(versionQuerySchema);
+
+    if (endpoints.history) {
+      addOperation(`${member}/history`, 'get', operation('getHistory', 'Audit trail of a record', {
+        parameters: [parameterRef('Id'), ...headers, ...pageParameters],
+        responses: { '200': listResponse('Entries, newest first', ref('AuditEntry')), ...readErrors },
+      }));
+    }
+
+    if (endpoints.versions) {
+      addOperation(`${member}/versions`, 'get', operation('listVersions', 'Versions of a record', {
+        parameters: [parameterRef('Id'), ...headers, ...pageParameters],
+        responses: { '200': listResponse('Versions, newest first, without snapshots', ref('EntityVersion')), ...readErrors },
+      }));
+
+      addOperation(`${member}/versions/diff`, 'get', operation('diffVersions', 'Compare two versions', {
+        parameters: [
+          parameterRef('Id'),
+          ...headers,
+          { name: 'from', in: 'query', required: true, schema: { type: 'integer', minimum: 1 } },
+          { name: 'to', in: 'query', description: 'Defaults to the latest version', schema: { type: 'integer', minimum: 1 } },
+        ],
+        responses: { '200': dataResponse('Field changes', ref('VersionDiff')), ...notFound, ...readErrors },
+      }));
+
+      addOperation(`${member}/versions/at`, 'get', operation('getVersionAt', 'The version in effect at a point in time', {
+        parameters: [
+          parameterRef('Id'),
+          ...headers,
+          { name: 'date', in: 'query', required: true, schema: { type: 'string', format: 'date-time' } },
+        ],
+        responses: { '200': dataResponse('The version with its snapshot', ref('EntityVersion')), ...notFound, ...readErrors },
+      }));
+
+      addOperation(`${member}/versions/{version}`, 'get', operation('getVersion', 'One version', {
+        parameters: [parameterRef('Id'), parameterRef('Version'), ...headers],
+        responses: { '200': dataResponse('The version with its snapshot', ref('EntityVersion')), ...notFound, ...readErrors },
+      }));
+
+      addOperation(`${member}/versions/{version}/revert`, 'post', operation('revert', 'Revert a record to a version', {
+        description: 'Saved as a normal update, so validation, hooks and If-Match apply.',
+        parameters: [parameterRef('Id'), parameterRef('Version'), ...writeHeaders, parameterRef('IfMatch')],
+        responses: { '200': dataResponse('Updated', record, etagHeader), ...notFound, ...writeErrors },
+      }));
+    }
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: `${APP_NAME} API`,
+      version: APP_VERSION,
+      description: 'Generated from the registered entities. Every route is scoped to the tenant resolved from the bearer token, host or X-Tenant-ID.',
+    },
+    tags,
+    paths,
+    components: {
+      schemas,
+      parameters: PARAMETERS,
+      responses: RESPONSES,
+    },
+  };
+}
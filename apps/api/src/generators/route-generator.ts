@@ -1,30 +1,56 @@
-import { Router } from 'express';
+import { Router, Response } from 'express';
 import { z } from 'zod';
 import { prisma } from '@humanui/db';
 import { withTenant, TenantRequest } from '../middleware/tenant';
 import { withOptionalLocale, LocaleRequest } from '../middleware/locale';
-import { entityRegistry, getAPIEndpoints } from '@humanui/entities';
+import { withIdempotency } from '../middleware/idempotency';
+import { sendError } from '../middleware/error';
+import {
+  entityRegistry,
+  getAPIEndpoints,
+  getEntityVersion,
+  queryBoolean,
+  auditLog,
+  versionStore,
+  changeFeed,
+  ERROR_STATUS,
+  ConflictError,
+  NotFoundError,
+  ValidationError,
+} from '@humanui/entities';
 
 // Types for route generation
 export interface EntityConfig {
   name: string;
   service: any;
+  // Prisma model and labels, used to name and describe the entity in /openapi.json
+  model?: string;
+  displayName?: string;
+  description?: string;
   schemas: {
+    // Records as returned by the API
+    entity?: z.AnyZodObject;
     create?: z.ZodSchema;
     update?: z.ZodSchema;
     query?: z.ZodSchema;
   };
   endpoints?: {
     list?: boolean;
+    changes?: boolean;
     create?: boolean;
     getById?: boolean;
     update?: boolean;
     patch?: boolean;
     delete?: boolean;
+    restore?: boolean;
     hardDelete?: boolean;
+    history?: boolean;
+    versions?: boolean;
     stats?: boolean;
     bulk?: boolean;
   };
+  // Operations accepted by POST /bulk
+  bulkOperations?: string[];
   middleware?: {
     tenant?: boolean;
     locale?: boolean;
@@ -33,11 +59,35 @@ export interface EntityConfig {
 }
 
 export interface GeneratedRoute {
+  // Mount path, e.g. /api/item
   path: string;
   router: Router;
   config: EntityConfig;
 }
 
+// Format a date for the request's locale; dates left out of a sparse fieldset stay out
+export function formatDate(date: Date | undefined, dateFormat?: string): string | undefined {
+  if (!date) return undefined;
+  if (!dateFormat) return date.toISOString();
+  
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  
+  switch (dateFormat) {
+    case 'MM/DD/YYYY':
+      return `${month}/${day}/${year}`;
+    case 'DD/MM/YYYY':
+      return `${day}/${month}/${year}`;
+    case 'DD.MM.YYYY':
+      return `${day}.${month}.${year}`;
+    case 'YYYY/MM/DD':
+      return `${year}/${month}/${day}`;
+    default:
+      return date.toISOString();
+  }
+}
+
 /**
  * Auto-generates route handlers for entities based on their service and schema definitions
  */
@@ -83,22 +133,31 @@ export class RouteGenerator {
         const config: EntityConfig = {
           name: entityName,
           service,
+          model: endpoint.model,
+          displayName: endpoint.displayName,
+          description: endpoint.description,
           schemas: {
+            entity: endpoint.schemas.entity,
             create: endpoint.schemas.create,
             update: endpoint.schemas.update,
             query: endpoint.schemas.query,
           },
           endpoints: {
             list: true,
+            changes: true,
             create: true,
             getById: true,
             update: true,
             patch: true,
             delete: true,
+            restore: true,
             hardDelete: true,
+            history: true,
+            versions: true,
             stats: true,
             bulk: true,
           },
+          bulkOperations: endpoint.bulkOperations,
           middleware: {
             tenant: true,
             locale: true,
@@ -129,28 +188,53 @@ export class RouteGenerator {
     // Combined request type for tenant and locale
     interface EntityRequest extends TenantRequest, LocaleRequest {}
 
-    // Helper function to format dates based on locale
-    const formatDate = (date: Date, dateFormat?: string): string => {
-      if (!dateFormat) return date.toISOString();
-      
-      const year = date.getFullYear();
-      const month = String(date.getMonth() + 1).padStart(2, '0');
-      const day = String(date.getDate()).padStart(2, '0');
-      
-      switch (dateFormat) {
-        case 'MM/DD/YYYY':
-          return `${month}/${day}/${year}`;
-        case 'DD/MM/YYYY':
-          return `${day}/${month}/${year}`;
-        case 'DD.MM.YYYY':
-          return `${day}.${month}.${year}`;
-        case 'YYYY/MM/DD':
-          return `${year}/${month}/${day}`;
-        default:
-          return date.toISOString();
+    // ETag for a record, derived from its version
+    const toETag = (entity: any): string | undefined => {
+      const version = getEntityVersion(entity);
+      return version ? `"${version}"` : undefined;
+    };
+
+    // Version from an If-Match header; `*` or a missing header means unconditional
+    const parseIfMatch = (header?: string): string | undefined => {
+      if (!header || header.trim() === '*') return undefined;
+      return header.trim().replace(/^W\//, '').replace(/"/g, '');
+    };
+
+    // Structured error response; stale writes get a 409 with the current server copy so the client can merge or reload
+    const handleError = (res: Response, error: unknown, fallback: string, dateFormat?: string) => {
+      if (!(error instanceof ConflictError) || error.current === undefined) {
+        return sendError(res, error, fallback);
       }
+
+      const current = error.current;
+      const etag = toETag(current);
+      if (etag) res.setHeader('ETag', etag);
+
+      return res.status(error.status).json({
+        ...error.toJSON(),
+        current: current && {
+          ...current,
+          createdAt: formatDate(current.createdAt, dateFormat),
+          updatedAt: formatDate(current.updatedAt, dateFormat),
+        },
+      });
     };
 
+    // Positive version number from a path or query parameter
+    const parseVersion = (value: unknown, field: string): number => {
+      const version = Number(value);
+      if (!Number.isInteger(version) || version < 1) {
+        throw ValidationError.forField(field, 'version', `${field} must be a positive integer`);
+      }
+      return version;
+    };
+
+    // Version metadata with a locale-formatted date
+    const formatVersion = (version: any, dateFormat?: string) => ({
+      ...version,
+      createdAt: formatDate(version.createdAt, dateFormat),
+    });
+
     // Helper function to create middleware chain
     const createMiddleware = () => {
       const middlewareChain = [];
@@ -160,6 +244,8 @@ export class RouteGenerator {
       if (middleware?.locale) {
         middlewareChain.push(withOptionalLocale());
       }
+      // Only acts on POST/PUT/PATCH/DELETE requests that send an Idempotency-Key
+      middlewareChain.push(withIdempotency());
       return middlewareChain;
     };
 
@@ -168,6 +254,26 @@ export class RouteGenerator {
       router.get('/', ...createMiddleware(), async (req: EntityRequest, res) => {
         try {
           const queryParams = schemas.query ? schemas.query.parse(req.query) : req.query;
+
+          // Keyset pagination is opt-in and skips the count unless includeTotal=true
+          if (queryParams.pagination === 'cursor' || queryParams.cursor) {
+            const page = await service.listByCursor(queryParams, req.tenantId);
+
+            return res.json({
+              data: page.items.map((item: any) => ({
+                ...item,
+                createdAt: formatDate(item.createdAt, req.localeSettings?.dateFormat),
+                updatedAt: formatDate(item.updatedAt, req.localeSettings?.dateFormat),
+              })),
+              pagination: {
+                limit: page.limit,
+                nextCursor: page.nextCursor,
+                prevCursor: page.prevCursor,
+                ...(page.total !== undefined && { total: page.total }),
+              },
+            });
+          }
+
           const result = await service.list(queryParams, req.tenantId);
 
           // Handle different property names for the items array
@@ -197,21 +303,56 @@ export class RouteGenerator {
             },
           });
         } catch (error) {
-          console.error(`Error listing ${entityName}:`, error);
-          res.status(500).json({ 
-            error: `Failed to list ${entityName}`,
-            details: error instanceof Error ? error.message : 'Unknown error'
-          });
+          // Unknown filter/sort fields or malformed values are reported per field
+          handleError(res, error, `Failed to list ${entityName}`);
         }
       });
     }
 
+    // GET /api/{entity}/changes - Server-Sent Events feed of creates, updates and deletes
+    // Registered before /:id; resumes after the Last-Event-ID header or ?lastEventId=
+    if (endpoints?.changes) {
+      router.get('/changes', ...createMiddleware(), (req: EntityRequest, res) => {
+        const lastEventId =
+          req.header('Last-Event-ID') || (typeof req.query.lastEventId === 'string' ? req.query.lastEventId : undefined);
+
+        res.writeHead(200, {
+          'Content-Type': 'text/event-stream',
+          'Cache-Control': 'no-cache',
+          Connection: 'keep-alive',
+          // Stop reverse proxies from buffering the stream
+          'X-Accel-Buffering': 'no',
+        });
+        res.write('retry: 3000\n\n');
+
+        const send = (event: string, data: unknown, id?: string) => {
+          res.write(`${id ? `id: ${id}\n` : ''}event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+        };
+
+        const unsubscribe = changeFeed.subscribe(entityName, req.tenantId, lastEventId, {
+          onChange: change => send(change.operation, change, change.id),
+          onReset: () => send('reset', { lastEventId }),
+        });
+
+        // Comment lines keep idle connections open through proxies
+        const heartbeat = setInterval(() => res.write(': ping\n\n'), 15000);
+
+        req.on('close', () => {
+          clearInterval(heartbeat);
+          unsubscribe();
+        });
+      });
+    }
+
     // POST /api/{entity} - Create entity
     if (endpoints?.create) {
       router.post('/', ...createMiddleware(), async (req: EntityRequest, res) => {
         try {
           const validatedData = schemas.create ? schemas.create.parse(req.body) : req.body;
           const result = await service.create(validatedData, req.tenantId);
+
+          const etag = toETag(result);
+          if (etag) res.setHeader('ETag', etag);
           
           res.status(201).json({
             data: {
@@ -221,11 +362,38 @@ export class RouteGenerator {
             },
           });
         } catch (error) {
-          console.error(`Error creating ${entityName}:`, error);
-          res.status(400).json({ 
-            error: `Failed to create ${entityName}`,
-            details: error instanceof Error ? error.message : 'Unknown error'
-          });
+          handleError(res, error, `Failed to create ${entityName}`);
+        }
+      });
+    }
+
+    // POST /api/{entity}/bulk - Batch of create/update/patch/delete/restore and custom operations
+    if (endpoints?.bulk) {
+      router.post('/bulk', ...createMiddleware(), async (req: EntityRequest, res) => {
+        try {
+          const result = await service.bulk(req.body, req.tenantId);
+
+          // 200 when every row succeeded, 207 when a best-effort batch partly failed,
+          // and the failing row's status when an atomic batch was rolled back
+          const failed = result.results.find((row: any) => row.status === 'failed');
+          const status = !failed ? 200 : result.mode === 'bestEffort' ? 207 : ERROR_STATUS[failed.error.code as keyof typeof ERROR_STATUS];
+
+          res.status(status).json({ data: result });
+        } catch (error) {
+          // Malformed requests and unknown operations fail before any row runs
+          handleError(res, error, `Failed to run bulk ${entityName} operations`);
+        }
+      });
+    }
+
+    // GET /api/{entity}/stats - Get entity statistics; registered before /:id
+    if (endpoints?.stats) {
+      router.get('/stats', ...createMiddleware(), async (req: EntityRequest, res) => {
+        try {
+          const stats = await service.getStats(req.tenantId);
+          res.json({ data: stats });
+        } catch (error) {
+          handleError(res, error, `Failed to get ${entityName} stats`);
         }
       });
     }
@@ -234,14 +402,19 @@ export class RouteGenerator {
     if (endpoints?.getById) {
       router.get('/:id', ...createMiddleware(), async (req: EntityRequest, res) => {
         try {
-          const result = await service.findById(req.params.id, req.tenantId);
+          const result = await service.findById(req.params.id, req.tenantId, {
+            includeDeleted: queryBoolean.safeParse(req.query.includeDeleted).data ?? false,
+            fields: typeof req.query.fields === 'string' ? req.query.fields : undefined,
+            include: typeof req.query.include === 'string' ? req.query.include : undefined,
+          });
           
           if (!result) {
-            return res.status(404).json({ 
-              error: `${entityName} not found` 
-            });
+            return sendError(res, new NotFoundError(entityName, req.params.id), `Failed to get ${entityName}`);
           }
 
+          const etag = toETag(result);
+          if (etag) res.setHeader('ETag', etag);
+
           res.json({
             data: {
               ...result,
@@ -250,11 +423,8 @@ export class RouteGenerator {
             },
           });
         } catch (error) {
-          console.error(`Error getting ${entityName}:`, error);
-          res.status(500).json({ 
-            error: `Failed to get ${entityName}`,
-            details: error instanceof Error ? error.message : 'Unknown error'
-          });
+          // Unknown fields or relations outside the entity's allow-list are a 400
+          handleError(res, error, `Failed to get ${entityName}`);
         }
       });
     }
@@ -264,7 +434,12 @@ export class RouteGenerator {
       router.put('/:id', ...createMiddleware(), async (req: EntityRequest, res) => {
         try {
           const validatedData = schemas.update ? schemas.update.parse(req.body) : req.body;
-          const result = await service.update(req.params.id, validatedData, req.tenantId);
+          const result = await service.update(req.params.id, validatedData, req.tenantId, {
+            expectedVersion: parseIfMatch(req.header('If-Match')),
+          });
+
+          const etag = toETag(result);
+          if (etag) res.setHeader('ETag', etag);
           
           res.json({
             data: {
@@ -274,11 +449,7 @@ export class RouteGenerator {
             },
           });
         } catch (error) {
-          console.error(`Error updating ${entityName}:`, error);
-          res.status(400).json({ 
-            error: `Failed to update ${entityName}`,
-            details: error instanceof Error ? error.message : 'Unknown error'
-          });
+          handleError(res, error, `Failed to update ${entityName}`, req.localeSettings?.dateFormat);
         }
       });
     }
@@ -288,7 +459,12 @@ export class RouteGenerator {
       router.patch('/:id', ...createMiddleware(), async (req: EntityRequest, res) => {
         try {
           const validatedData = schemas.update ? (schemas.update as z.ZodObject<any>).partial().parse(req.body) : req.body;
-          const result = await service.update(req.params.id, validatedData, req.tenantId);
+          const result = await service.update(req.params.id, validatedData, req.tenantId, {
+            expectedVersion: parseIfMatch(req.header('If-Match')),
+          });
+
+          const etag = toETag(result);
+          if (etag) res.setHeader('ETag', etag);
           
           res.json({
             data: {
@@ -298,11 +474,7 @@ export class RouteGenerator {
             },
           });
         } catch (error) {
-          console.error(`Error patching ${entityName}:`, error);
-          res.status(400).json({ 
-            error: `Failed to patch ${entityName}`,
-            details: error instanceof Error ? error.message : 'Unknown error'
-          });
+          handleError(res, error, `Failed to patch ${entityName}`, req.localeSettings?.dateFormat);
         }
       });
     }
@@ -314,34 +486,168 @@ export class RouteGenerator {
           const result = await service.delete(req.params.id, req.tenantId);
           
           if (!result) {
-            return res.status(404).json({ 
-              error: `${entityName} not found or cannot be deleted` 
-            });
+            return sendError(res, new NotFoundError(entityName, req.params.id), `Failed to delete ${entityName}`);
+          }
+
+          res.status(204).send();
+        } catch (error) {
+          handleError(res, error, `Failed to delete ${entityName}`);
+        }
+      });
+    }
+
+    // POST /api/{entity}/:id/restore - Undo a soft delete
+    if (endpoints?.restore) {
+      router.post('/:id/restore', ...createMiddleware(), async (req: EntityRequest, res) => {
+        try {
+          const result = await service.restore(req.params.id, req.tenantId);
+
+          // Missing, or not soft-deleted
+          if (!result) {
+            return sendError(res, new NotFoundError(entityName, req.params.id), `Failed to restore ${entityName}`);
+          }
+
+          const etag = toETag(result);
+          if (etag) res.setHeader('ETag', etag);
+
+          res.json({
+            data: {
+              ...result,
+              createdAt: formatDate(result.createdAt, req.localeSettings?.dateFormat),
+              updatedAt: formatDate(result.updatedAt, req.localeSettings?.dateFormat),
+            },
+          });
+        } catch (error) {
+          handleError(res, error, `Failed to restore ${entityName}`);
+        }
+      });
+    }
+
+    // DELETE /api/{entity}/:id/hard - Permanently delete entity
+    if (endpoints?.hardDelete) {
+      router.delete('/:id/hard', ...createMiddleware(), async (req: EntityRequest, res) => {
+        try {
+          const result = await service.purge(req.params.id, req.tenantId);
+
+          if (!result) {
+            return sendError(res, new NotFoundError(entityName, req.params.id), `Failed to permanently delete ${entityName}`);
           }
 
           res.status(204).send();
         } catch (error) {
-          console.error(`Error deleting ${entityName}:`, error);
-          res.status(500).json({ 
-            error: `Failed to delete ${entityName}`,
-            details: error instanceof Error ? error.message : 'Unknown error'
+          handleError(res, error, `Failed to permanently delete ${entityName}`);
+        }
+      });
+    }
+
+    // GET /api/{entity}/:id/history - Audit trail for one record, newest first
+    if (endpoints?.history) {
+      router.get('/:id/history', ...createMiddleware(), async (req: EntityRequest, res) => {
+        try {
+          const result = await auditLog.history(entityName, req.params.id, req.tenantId, req.query);
+
+          res.json({
+            data: result.items.map(entry => ({
+              ...entry,
+              createdAt: formatDate(entry.createdAt, req.localeSettings?.dateFormat),
+            })),
+            pagination: {
+              total: result.total,
+              page: result.page,
+              limit: result.limit,
+              totalPages: result.totalPages,
+            },
           });
+        } catch (error) {
+          handleError(res, error, `Failed to get ${entityName} history`);
         }
       });
     }
 
-    // GET /api/{entity}/stats - Get entity statistics
-    if (endpoints?.stats) {
-      router.get('/stats', ...createMiddleware(), async (req: EntityRequest, res) => {
+    if (endpoints?.versions) {
+      // GET /api/{entity}/:id/versions - Snapshots of the record, newest first
+      router.get('/:id/versions', ...createMiddleware(), async (req: EntityRequest, res) => {
         try {
-          const stats = await service.getStats(req.tenantId);
-          res.json({ data: stats });
+          const result = await versionStore.list(entityName, req.params.id, req.tenantId, req.query);
+
+          res.json({
+            data: result.items.map(version => formatVersion(version, req.localeSettings?.dateFormat)),
+            pagination: {
+              total: result.total,
+              page: result.page,
+              limit: result.limit,
+              totalPages: result.totalPages,
+            },
+          });
+        } catch (error) {
+          handleError(res, error, `Failed to list ${entityName} versions`);
+        }
+      });
+
+      // GET /api/{entity}/:id/versions/diff?from=1&to=3 - Field changes between two versions; `to` defaults to the latest
+      router.get('/:id/versions/diff', ...createMiddleware(), async (req: EntityRequest, res) => {
+        try {
+          const from = parseVersion(req.query.from, 'from');
+          const to = req.query.to !== undefined ? parseVersion(req.query.to, 'to') : undefined;
+          const diff = await versionStore.diff(entityName, req.params.id, from, to, req.tenantId);
+          res.json({ data: diff });
+        } catch (error) {
+          handleError(res, error, `Failed to diff ${entityName} versions`);
+        }
+      });
+
+      // GET /api/{entity}/:id/versions/at?date=2024-01-15 - The record as it was at a point in time
+      router.get('/:id/versions/at', ...createMiddleware(), async (req: EntityRequest, res) => {
+        try {
+          const date = new Date(String(req.query.date));
+          if (!req.query.date || Number.isNaN(date.getTime())) {
+            throw ValidationError.forField('date', 'date', 'date must be an ISO date or timestamp');
+          }
+
+          const version = await versionStore.at(entityName, req.params.id, date, req.tenantId);
+          res.json({ data: formatVersion(version, req.localeSettings?.dateFormat) });
         } catch (error) {
-          console.error(`Error getting ${entityName} stats:`, error);
-          res.status(500).json({ 
-            error: `Failed to get ${entityName} stats`,
-            details: error instanceof Error ? error.message : 'Unknown error'
+          handleError(res, error, `Failed to get ${entityName} version`);
+        }
+      });
+
+      // GET /api/{entity}/:id/versions/:version - One version with its snapshot
+      router.get('/:id/versions/:version', ...createMiddleware(), async (req: EntityRequest, res) => {
+        try {
+          const version = await versionStore.get(
+            entityName,
+            req.params.id,
+            parseVersion(req.params.version, 'version'),
+            req.tenantId
+          );
+          res.json({ data: formatVersion(version, req.localeSettings?.dateFormat) });
+        } catch (error) {
+          handleError(res, error, `Failed to get ${entityName} version`);
+        }
+      });
+
+      // POST /api/{entity}/:id/versions/:version/revert - Update the record back to a version
+      router.post('/:id/versions/:version/revert', ...createMiddleware(), async (req: EntityRequest, res) => {
+        try {
+          const result = await service.revert(
+            req.params.id,
+            parseVersion(req.params.version, 'version'),
+            req.tenantId,
+            { expectedVersion: parseIfMatch(req.header('If-Match')) }
+          );
+
+          const etag = toETag(result);
+          if (etag) res.setHeader('ETag', etag);
+
+          res.json({
+            data: {
+              ...result,
+              createdAt: formatDate(result.createdAt, req.localeSettings?.dateFormat),
+              updatedAt: formatDate(result.updatedAt, req.localeSettings?.dateFormat),
+            },
           });
+        } catch (error) {
+          handleError(res, error, `Failed to revert ${entityName}`, req.localeSettings?.dateFormat);
         }
       });
     }
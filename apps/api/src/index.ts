@@ -4,24 +4,72 @@ import helmet from 'helmet';
 import morgan from 'morgan';
 import { env } from '@humanui/config';
 import { prisma } from '@humanui/db';
+import { tenantService, tenantLifecycle, tenantRuleStore, auditLog, versionStore, outboxWorker, webhookDispatcher, webhookTargetGuard, changeFeed, idempotencyStore } from '@humanui/entities';
 
 // Import route generator
 import { RouteGenerator } from './generators/route-generator';
+import { createTenantsRouter } from './routes/tenants';
+import { createTenantRulesRouter } from './routes/tenant-rules';
+import { createAuditRouter } from './routes/audit';
+import { createOutboxRouter } from './routes/outbox';
+import { createWebhookRouter } from './routes/webhooks';
+import { createDocsRouter } from './routes/docs';
+import { createGraphQLRouter } from './routes/graphql';
+import { generateOpenAPIDocument } from './generators/openapi-generator';
+import { generateGraphQLSchema } from './generators/graphql-generator';
+import { withAuditContext } from './middleware/audit';
+import { sendError, errorHandler } from './middleware/error';
 
 const app = express();
 const port = env.API_PORT;
 
 // Middleware
 app.use(helmet());
-app.use(cors());
+app.use(cors({ exposedHeaders: ['ETag', 'Idempotency-Replayed'] }));
 app.use(morgan('combined'));
 app.use(express.json());
+app.use(withAuditContext());
 
 // Health check
 app.get('/health', (req, res) => {
   res.json({ status: 'ok', timestamp: new Date().toISOString() });
 });
 
+// Tenant registry, consulted by withTenant on every tenant-scoped request
+tenantService.setPrisma(prisma);
+tenantService.configure({ cacheTtlMs: env.TENANT_CACHE_TTL_SECONDS * 1000 });
+// Provisioning, clones and deletion, behind X-Platform-Key
+tenantLifecycle.setPrisma(prisma);
+app.use('/api/tenants', createTenantsRouter());
+
+// Tenant rule overrides
+tenantRuleStore.setPrisma(prisma);
+app.use('/api/tenant-rules', createTenantRulesRouter());
+
+// Audit log and version history of entity changes
+auditLog.setPrisma(prisma);
+versionStore.setPrisma(prisma);
+app.use('/api/audit', createAuditRouter());
+
+// Domain events are written with each change and delivered by the outbox worker
+outboxWorker.setPrisma(prisma);
+outboxWorker.start();
+// Read by the generated /changes streams
+changeFeed.setPrisma(prisma);
+app.use('/api/outbox', createOutboxRouter());
+
+// Tenant webhooks receive outbox events; subscriptions are managed through the generated webhook routes
+// mounted at the same path
+webhookDispatcher.setPrisma(prisma);
+webhookTargetGuard.configure({ allowPrivateTargets: env.WEBHOOK_ALLOW_PRIVATE_TARGETS });
+webhookDispatcher.start();
+app.use('/api/webhook', createWebhookRouter());
+
+// Idempotency-Key responses replayed by the generated write routes
+idempotencyStore.setPrisma(prisma);
+idempotencyStore.configure({ ttlMs: env.IDEMPOTENCY_KEY_TTL_HOURS * 60 * 60 * 1000 });
+idempotencyStore.start();
+
 // --- Auto-generated entity routes ---
 (async () => {
   try {
@@ -32,12 +80,25 @@ app.get('/health', (req, res) => {
     console.log('📋 Registered entities:', Array.from(routeGen.getEntityConfigs().keys()));
     
     const routes = routeGen.generateAllRoutes();
-    console.log('🚀 Generated routes:', routes.map(r => `/api/${r.path}`));
+    console.log('🚀 Generated routes:', routes.map(r => r.path));
     
     for (const { path, router } of routes) {
-      app.use(`/api/${path}`, router);
-      console.log(`✅ Mounted /api/${path}`);
+      app.use(path, router);
+      console.log(`✅ Mounted ${path}`);
     }
+
+    // OpenAPI document of the generated routes, browsable at /docs
+    const openAPIDocument = generateOpenAPIDocument(routes);
+    app.get('/openapi.json', (req, res) => {
+      res.json({ ...openAPIDocument, servers: [{ url: `${req.protocol}://${req.get('host')}` }] });
+    });
+    app.use('/docs', createDocsRouter());
+
+    // The same entities over GraphQL, with their Prisma relations resolved in batches
+    app.use('/graphql', createGraphQLRouter(generateGraphQLSchema(routes)));
+
+    // Registered last so it sees errors from every router
+    app.use(errorHandler());
   } catch (error) {
     console.error('❌ Error setting up auto-generated routes:', error);
   }
@@ -50,7 +111,7 @@ app.get('/api/users', async (req, res) => {
     const users = await prisma.user.findMany();
     res.json(users);
   } catch (error) {
-    res.status(500).json({ error: 'Failed to fetch users' });
+    sendError(res, error, 'Failed to fetch users');
   }
 });
 
@@ -62,7 +123,7 @@ app.post('/api/users', async (req, res) => {
     });
     res.status(201).json(user);
   } catch (error) {
-    res.status(500).json({ error: 'Failed to create user' });
+    sendError(res, error, 'Failed to create user');
   }
 });
 
@@ -0,0 +1,18 @@
+import { Request, Response, NextFunction } from 'express';
+import { auditLog } from '@humanui/entities';
+
+/**
+ * Middleware to attribute entity changes made while handling the request.
+ * The actor comes from the X-User-Id header until authentication is in place.
+ */
+export function withAuditContext() {
+  return (req: Request, res: Response, next: NextFunction) => {
+    auditLog.run(
+      {
+        actor: req.headers['x-user-id'] as string | undefined,
+        requestId: req.headers['x-request-id'] as string | undefined,
+      },
+      next
+    );
+  };
+}
@@ -0,0 +1,33 @@
+import { Request, Response, NextFunction } from 'express';
+import { toEntityError } from '@humanui/entities';
+
+/**
+ * Send a thrown error as `{ error, code, fields?, details? }` with the status for its code.
+ * Unexpected errors are logged and reported with `fallback` as the message.
+ */
+export function sendError(res: Response, error: unknown, fallback: string) {
+  const entityError = toEntityError(error);
+
+  if (entityError.status >= 500) {
+    console.error(`${fallback}:`, error);
+    return res.status(entityError.status).json({
+      error: fallback,
+      code: entityError.code,
+      details: entityError.message,
+    });
+  }
+
+  return res.status(entityError.status).json(entityError.toJSON());
+}
+
+/**
+ * Express error handler for errors passed to next() or thrown outside route try/catch blocks
+ */
+export function errorHandler() {
+  return (error: unknown, req: Request, res: Response, next: NextFunction) => {
+    if (res.headersSent) {
+      return next(error);
+    }
+    sendError(res, error, 'Request failed');
+  };
+}
@@ -0,0 +1,135 @@
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import express from 'express';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { BusinessLogicError, ConflictError, idempotencyStore } from '@humanui/entities';
+import { withIdempotency } from './idempotency';
+import { TenantRequest } from './tenant';
+
+// The shared client in @humanui/db loads the query engine on import; only the generated types and enums are needed
+vi.mock('@humanui/db', () => import('../../../../packages/db/src/generated'));
+
+const handler = vi.fn((req: TenantRequest, res: express.Response) => {
+  res.status(201).set('ETag', '"1"').set('X-Request-Id', 'r1').json({ id: 'item-1', name: req.body.name });
+});
+
+const app = express();
+app.use(express.json());
+app.use((req: TenantRequest, _res, next) => {
+  req.tenantId = 't1';
+  next();
+});
+app.use(withIdempotency());
+app.all('/items', (req, res) => handler(req, res));
+app.post('/broken', (_req, res) => {
+  res.status(500).json({ error: 'Request failed' });
+});
+
+let server: Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  server = await new Promise<Server>(resolve => {
+    const listening = app.listen(0, '127.0.0.1', () => resolve(listening));
+  });
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+const send = (path: string, options: { method?: string; key?: string; body?: unknown } = {}) =>
+  fetch(`${baseUrl}${path}`, {
+    method: options.method ?? 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(options.key !== undefined && { 'Idempotency-Key': options.key }),
+    },
+    body: options.body === undefined ? undefined : JSON.stringify(options.body),
+  });
+
+describe('withIdempotency', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    handler.mockClear();
+    vi.spyOn(idempotencyStore, 'begin').mockResolvedValue({ replayed: false, id: 'key-1' });
+    vi.spyOn(idempotencyStore, 'complete').mockResolvedValue(undefined);
+    vi.spyOn(idempotencyStore, 'release').mockResolvedValue(undefined);
+  });
+
+  it('leaves requests without a key and reads alone', async () => {
+    await send('/items', { body: { name: 'Lamp' } });
+    await send('/items', { method: 'GET', key: 'key-a' });
+
+    expect(handler).toHaveBeenCalledTimes(2);
+    expect(idempotencyStore.begin).not.toHaveBeenCalled();
+  });
+
+  it('rejects keys longer than 255 characters', async () => {
+    const response = await send('/items', { key: 'k'.repeat(256), body: { name: 'Lamp' } });
+
+    expect(response.status).toBe(400);
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('claims the key for the tenant and stores the response with its ETag', async () => {
+    const response = await send('/items', { key: 'key-a', body: { name: 'Lamp' } });
+
+    expect(response.status).toBe(201);
+    expect(idempotencyStore.begin).toHaveBeenCalledWith('key-a', {
+      tenantId: 't1',
+      method: 'POST',
+      path: '/items',
+      body: { name: 'Lamp' },
+    });
+    await vi.waitFor(() =>
+      expect(idempotencyStore.complete).toHaveBeenCalledWith('key-1', {
+        status: 201,
+        body: { id: 'item-1', name: 'Lamp' },
+        headers: { etag: '"1"' },
+      })
+    );
+  });
+
+  it('replays a stored response without running the route', async () => {
+    vi.mocked(idempotencyStore.begin).mockResolvedValue({
+      replayed: true,
+      response: { status: 201, body: { id: 'item-1', name: 'Lamp' }, headers: { etag: '"1"' } },
+    });
+
+    const response = await send('/items', { key: 'key-a', body: { name: 'Lamp' } });
+
+    expect(handler).not.toHaveBeenCalled();
+    expect(response.status).toBe(201);
+    expect(response.headers.get('etag')).toBe('"1"');
+    expect(response.headers.get('idempotency-replayed')).toBe('true');
+    await expect(response.json()).resolves.toEqual({ id: 'item-1', name: 'Lamp' });
+  });
+
+  it('rejects a key reused with another body with 422', async () => {
+    vi.mocked(idempotencyStore.begin).mockRejectedValue(new BusinessLogicError('Idempotency-Key was already used with a different request'));
+
+    const response = await send('/items', { key: 'key-a', body: { name: 'Desk' } });
+
+    expect(response.status).toBe(422);
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('rejects a retry of a running request with 409', async () => {
+    vi.mocked(idempotencyStore.begin).mockRejectedValue(new ConflictError('A request with this Idempotency-Key is still being processed; retry later'));
+
+    const response = await send('/items', { key: 'key-a', body: { name: 'Lamp' } });
+
+    expect(response.status).toBe(409);
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('frees the key when the route fails with a server error', async () => {
+    const response = await send('/broken', { key: 'key-a', body: {} });
+
+    expect(response.status).toBe(500);
+    await vi.waitFor(() => expect(idempotencyStore.release).toHaveBeenCalledWith('key-1'));
+    expect(idempotencyStore.complete).not.toHaveBeenCalled();
+  });
+});
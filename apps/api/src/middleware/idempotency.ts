@@ -0,0 +1,82 @@
+import { Response, NextFunction } from 'express';
+import { idempotencyStore, ValidationError } from '@humanui/entities';
+import { TenantRequest } from './tenant';
+import { sendError } from './error';
+
+const MUTATING_METHODS = new Set(['POST', 'PUT', 'PATCH', 'DELETE']);
+
+// Response headers kept with the stored response
+const REPLAYED_HEADERS = ['etag', 'location'];
+
+/**
+ * Middleware to make retried writes safe: a mutating request with an Idempotency-Key
+ * header runs once per tenant and key, and retries get the original response back
+ * with `Idempotency-Replayed: true`. Must run after the tenant middleware.
+ */
+export function withIdempotency() {
+  return async (req: TenantRequest, res: Response, next: NextFunction) => {
+    const key = req.get('idempotency-key');
+    if (key === undefined || !MUTATING_METHODS.has(req.method)) {
+      return next();
+    }
+
+    if (key.length < 1 || key.length > 255) {
+      return sendError(
+        res,
+        ValidationError.forField('Idempotency-Key', 'length', 'Idempotency-Key must be 1 to 255 characters'),
+        'Invalid Idempotency-Key'
+      );
+    }
+
+    let claim;
+    try {
+      claim = await idempotencyStore.begin(key, {
+        tenantId: req.tenantId,
+        method: req.method,
+        path: req.originalUrl,
+        body: req.body,
+      });
+    } catch (error) {
+      return sendError(res, error, 'Failed to check Idempotency-Key');
+    }
+
+    if (claim.replayed) {
+      const { status, body, headers } = claim.response;
+      res.set(headers);
+      res.set('Idempotency-Replayed', 'true');
+      res.status(status);
+      return body === undefined ? res.end() : res.json(body);
+    }
+
+    // Capture the body written by the route handler
+    const { id } = claim;
+    let body: unknown;
+    const json = res.json.bind(res);
+    res.json = (value: unknown) => {
+      body = value;
+      return json(value);
+    };
+
+    // Server errors free the key so the retry runs again; everything else is replayed
+    let settled = false;
+    const settle = (finished: boolean) => {
+      if (settled) return;
+      settled = true;
+
+      const store = finished && res.statusCode < 500
+        ? idempotencyStore.complete(id, {
+            status: res.statusCode,
+            body,
+            headers: Object.fromEntries(
+              REPLAYED_HEADERS.filter(name => res.get(name) !== undefined).map(name => [name, String(res.get(name))])
+            ),
+          })
+        : idempotencyStore.release(id);
+      store.catch(error => console.error('Failed to store Idempotency-Key response:', error));
+    };
+    res.on('finish', () => settle(true));
+    res.on('close', () => settle(res.writableFinished));
+
+    next();
+  };
+}
@@ -0,0 +1,28 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import { env } from '@humanui/config';
+import { ForbiddenError, UnauthorizedError } from '@humanui/entities';
+import { sendError } from './error';
+
+const digest = (value: string) => createHash('sha256').update(value).digest();
+
+/**
+ * Middleware for platform routes that act across tenants, such as tenant
+ * provisioning. Callers send PLATFORM_API_KEY in X-Platform-Key; without a
+ * configured key the routes are disabled.
+ */
+export function withPlatformKey(key: string | undefined = env.PLATFORM_API_KEY) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!key) {
+      return sendError(res, new ForbiddenError('Tenant administration is disabled; set PLATFORM_API_KEY'), 'Platform access denied');
+    }
+
+    const provided = req.headers['x-platform-key'];
+    // Compare digests so the check takes the same time for any key length
+    if (typeof provided !== 'string' || !timingSafeEqual(digest(provided), digest(key))) {
+      return sendError(res, new UnauthorizedError('A valid X-Platform-Key is required'), 'Platform access denied');
+    }
+
+    next();
+  };
+}
@@ -0,0 +1,150 @@
+import { createHmac } from 'crypto';
+import { Response } from 'express';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { PrismaClient, Tenant, TenantStatus } from '@humanui/db';
+import { tenantService } from '@humanui/entities';
+import { TenantRequest, TenantResolutionOptions, withOptionalTenant, withTenant } from './tenant';
+
+// The shared client in @humanui/db loads the query engine on import; only the generated types and enums are needed
+vi.mock('@humanui/db', () => import('../../../../packages/db/src/generated'));
+
+const SECRET = 'test-secret';
+
+const tenant = (id: string, slug: string, overrides: Partial<Tenant> = {}) =>
+  ({ id, slug, name: slug, domain: null, settings: {}, status: TenantStatus.ACTIVE, ...overrides }) as Tenant;
+
+const tenants = [
+  tenant('t-acme', 'acme', { domain: 'shop.acme.test' }),
+  tenant('t-globex', 'globex'),
+  tenant('t-closed', 'closed', { status: TenantStatus.SUSPENDED }),
+];
+
+const base64url = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+function token(claims: Record<string, unknown>, { secret = SECRET, alg = 'HS256' } = {}) {
+  const unsigned = `${base64url({ alg, typ: 'JWT' })}.${base64url(claims)}`;
+  return `${unsigned}.${createHmac('sha256', secret).update(unsigned).digest('base64url')}`;
+}
+
+interface RequestInput {
+  hostname?: string;
+  headers?: Record<string, string>;
+  query?: Record<string, string>;
+  body?: Record<string, unknown>;
+}
+
+// Run a middleware against a request; resolves to the tenant it chose or the error response
+async function run(middleware: ReturnType<typeof withTenant>, input: RequestInput) {
+  const req = { hostname: 'localhost', headers: {}, query: {}, ...input } as unknown as TenantRequest;
+  const res = { status: vi.fn().mockReturnThis(), json: vi.fn().mockReturnThis() };
+  const next = vi.fn();
+
+  await middleware(req, res as unknown as Response, next);
+
+  return {
+    tenantId: req.tenantId,
+    passed: next.mock.calls.length === 1,
+    status: res.status.mock.calls[0]?.[0] as number | undefined,
+    body: res.json.mock.calls[0]?.[0],
+  };
+}
+
+const options: TenantResolutionOptions = {
+  order: ['jwt', 'subdomain', 'domain', 'header', 'query'],
+  baseDomain: 'platform.test',
+  jwtSecret: SECRET,
+  jwtClaim: 'tenant_id',
+};
+
+describe('withTenant', () => {
+  beforeEach(() => {
+    vi.unstubAllEnvs();
+    vi.stubEnv('DEFAULT_TENANT_ID', '');
+    tenantService.setPrisma({
+      tenant: {
+        findUnique: async ({ where }: { where: Partial<Tenant> }) =>
+          tenants.find(candidate => Object.entries(where).every(([field, value]) => candidate[field as keyof Tenant] === value)) ?? null,
+      },
+    } as unknown as PrismaClient);
+  });
+
+  it('takes the tenant from the first source that names one', async () => {
+    const middleware = withTenant(options);
+
+    await expect(run(middleware, { hostname: 'acme.platform.test', headers: { 'x-tenant-id': 't-globex' } }))
+      .resolves.toMatchObject({ tenantId: 't-acme', passed: true });
+    await expect(run(middleware, { hostname: 'shop.acme.test' })).resolves.toMatchObject({ tenantId: 't-acme' });
+    await expect(run(middleware, { headers: { 'x-tenant-id': 't-globex' }, query: { tenantId: 't-acme' } }))
+      .resolves.toMatchObject({ tenantId: 't-globex' });
+    await expect(run(middleware, { query: { tenantId: 't-acme' } })).resolves.toMatchObject({ tenantId: 't-acme' });
+  });
+
+  it('follows the configured order', async () => {
+    const middleware = withTenant({ ...options, order: ['header', 'subdomain'] });
+
+    await expect(run(middleware, { hostname: 'acme.platform.test', headers: { 'x-tenant-id': 't-globex' } }))
+      .resolves.toMatchObject({ tenantId: 't-globex' });
+    await expect(run(middleware, { query: { tenantId: 't-acme' } })).resolves.toMatchObject({ passed: false, status: 400 });
+  });
+
+  it('ignores www and nested subdomains of the base domain', async () => {
+    const middleware = withTenant({ ...options, order: ['subdomain'] });
+
+    await expect(run(middleware, { hostname: 'www.platform.test' })).resolves.toMatchObject({ passed: false, status: 400 });
+    await expect(run(middleware, { hostname: 'a.acme.platform.test' })).resolves.toMatchObject({ passed: false, status: 400 });
+  });
+
+  it('never reads the tenant from the request body', async () => {
+    await expect(run(withTenant(options), { body: { tenantId: 't-acme' } })).resolves.toMatchObject({ passed: false, status: 400 });
+  });
+
+  it('falls back to DEFAULT_TENANT_ID', async () => {
+    vi.stubEnv('DEFAULT_TENANT_ID', 't-globex');
+
+    await expect(run(withTenant(options), {})).resolves.toMatchObject({ tenantId: 't-globex', passed: true });
+  });
+
+  it('rejects unknown and suspended tenants', async () => {
+    const middleware = withTenant(options);
+
+    await expect(run(middleware, { headers: { 'x-tenant-id': 't-missing' } })).resolves.toMatchObject({ status: 400, passed: false });
+    await expect(run(middleware, { hostname: 'closed.platform.test' })).resolves.toMatchObject({ status: 403, passed: false });
+  });
+
+  it('takes the tenant from a verified token', async () => {
+    const authorization = `Bearer ${token({ tenant_id: 't-globex' })}`;
+
+    await expect(run(withTenant(options), { headers: { authorization } })).resolves.toMatchObject({ tenantId: 't-globex' });
+  });
+
+  it('rejects a token for another tenant than the one named by a later source', async () => {
+    const middleware = withTenant({ ...options, order: ['subdomain', 'header', 'jwt'] });
+    const authorization = `Bearer ${token({ tenant_id: 't-globex' })}`;
+
+    await expect(run(middleware, { hostname: 'acme.platform.test', headers: { authorization } }))
+      .resolves.toMatchObject({ status: 403, passed: false, tenantId: undefined });
+    await expect(run(middleware, { headers: { authorization, 'x-tenant-id': 't-acme' } }))
+      .resolves.toMatchObject({ status: 403, passed: false });
+    await expect(run(middleware, { headers: { authorization, 'x-tenant-id': 't-globex' } }))
+      .resolves.toMatchObject({ tenantId: 't-globex', passed: true });
+  });
+
+  it.each([
+    ['a wrong signature', token({ tenant_id: 't-acme' }, { secret: 'other-secret' })],
+    ['another algorithm', token({ tenant_id: 't-acme' }, { alg: 'none' })],
+    ['an expired token', token({ tenant_id: 't-acme', exp: Math.floor(Date.now() / 1000) - 60 })],
+    ['a token that is not valid yet', token({ tenant_id: 't-acme', nbf: Math.floor(Date.now() / 1000) + 60 })],
+    ['a malformed token', 'not-a-token'],
+  ])('rejects %s with 401', async (_case, value) => {
+    await expect(run(withTenant(options), { headers: { authorization: `Bearer ${value}` } }))
+      .resolves.toMatchObject({ status: 401, passed: false });
+  });
+});
+
+describe('withOptionalTenant', () => {
+  it('passes requests without a tenant', async () => {
+    vi.stubEnv('DEFAULT_TENANT_ID', '');
+
+    await expect(run(withOptionalTenant(options), {})).resolves.toMatchObject({ tenantId: undefined, passed: true });
+  });
+});
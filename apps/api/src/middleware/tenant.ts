@@ -1,85 +1,215 @@
+import { createHmac, timingSafeEqual } from 'crypto';
 import { Request, Response, NextFunction } from 'express';
+import { env } from '@humanui/config';
+import { ForbiddenError, TenantError, TenantLookup, UnauthorizedError, tenantService } from '@humanui/entities';
+import { sendError } from './error';
 
 export interface TenantRequest extends Request {
   tenantId?: string;
   tenant?: {
     id: string;
-    name?: string;
-    settings?: Record<string, any>;
+    slug: string;
+    name: string;
+    settings: Record<string, any>;
   };
 }
 
 export interface TenantContext {
   tenantId: string;
-  tenant?: {
-    id: string;
-    name?: string;
-    settings?: Record<string, any>;
-  };
+  tenant?: TenantRequest['tenant'];
 }
 
 /**
- * Middleware to extract and validate tenant information
+ * Where a request may name its tenant:
+ * - jwt: the tenant claim of a verified `Authorization: Bearer` token
+ * - subdomain: `acme.<base domain>`, matched against the tenant slug
+ * - domain: a tenant's custom domain
+ * - header: `X-Tenant-ID` or `Tenant-ID`
+ * - query: `?tenantId=`, for clients that cannot set headers such as EventSource
  */
-export function withTenant() {
-  return (req: TenantRequest, res: Response, next: NextFunction) => {
-    // Extract tenant ID from various sources (in order of preference)
-    const tenantId = 
-      req.headers['x-tenant-id'] as string ||
-      req.headers['tenant-id'] as string ||
-      req.query.tenantId as string ||
-      req.body?.tenantId ||
-      process.env.DEFAULT_TENANT_ID;
-
-    if (!tenantId) {
-      return res.status(400).json({
-        error: 'Tenant ID is required',
-        code: 'TENANT_REQUIRED',
-        message: 'Please provide a tenant ID via header, query parameter, or body'
-      });
+export type TenantSource = 'jwt' | 'subdomain' | 'domain' | 'header' | 'query';
+
+const TENANT_SOURCES: TenantSource[] = ['jwt', 'subdomain', 'domain', 'header', 'query'];
+
+export interface TenantResolutionOptions {
+  // Sources tried in order; the first that names a tenant decides
+  order?: TenantSource[];
+  baseDomain?: string;
+  jwtSecret?: string;
+  jwtClaim?: string;
+}
+
+interface TenantCandidate {
+  source: TenantSource | 'default';
+  by: TenantLookup;
+  value: string;
+}
+
+function parseOrder(value: string): TenantSource[] {
+  const order = value.split(',').map(source => source.trim()).filter(Boolean);
+  const unknown = order.filter(source => !TENANT_SOURCES.includes(source as TenantSource));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown TENANT_RESOLUTION source: ${unknown.join(', ')}`);
+  }
+  return order as TenantSource[];
+}
+
+const defaultOptions = (): TenantResolutionOptions => ({
+  order: parseOrder(env.TENANT_RESOLUTION),
+  baseDomain: env.TENANT_BASE_DOMAIN?.toLowerCase(),
+  jwtSecret: env.TENANT_JWT_SECRET,
+  jwtClaim: env.TENANT_JWT_CLAIM,
+});
+
+const firstString = (value: unknown) => {
+  const first = Array.isArray(value) ? value[0] : value;
+  return typeof first === 'string' && first.trim() ? first.trim() : undefined;
+};
+
+const isLocalHost = (host: string) =>
+  host === 'localhost' || host.endsWith('.localhost') || /^[\d.]+$/.test(host) || host.includes(':');
+
+// Claims of an HS256 token signed with `secret`; anything else is rejected
+function verifyJwt(token: string, secret: string): Record<string, unknown> {
+  const [header, payload, signature] = token.split('.');
+  if (!header || !payload || !signature) {
+    throw new UnauthorizedError('Malformed bearer token');
+  }
+
+  let claims: Record<string, unknown>;
+  try {
+    const { alg } = JSON.parse(Buffer.from(header, 'base64url').toString());
+    if (alg !== 'HS256') throw new Error(alg);
+    claims = JSON.parse(Buffer.from(payload, 'base64url').toString());
+  } catch {
+    throw new UnauthorizedError('Malformed bearer token');
+  }
+
+  const expected = createHmac('sha256', secret).update(`${header}.${payload}`).digest();
+  const actual = Buffer.from(signature, 'base64url');
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    throw new UnauthorizedError('Invalid bearer token');
+  }
+
+  const now = Date.now() / 1000;
+  if (typeof claims.exp === 'number' && claims.exp <= now) {
+    throw new UnauthorizedError('Bearer token has expired');
+  }
+  if (typeof claims.nbf === 'number' && claims.nbf > now) {
+    throw new UnauthorizedError('Bearer token is not valid yet');
+  }
+
+  return claims;
+}
+
+function fromSource(req: Request, source: TenantSource, options: TenantResolutionOptions): TenantCandidate | undefined {
+  const host = req.hostname?.toLowerCase();
+
+  switch (source) {
+    case 'jwt': {
+      const authorization = req.headers.authorization;
+      if (!options.jwtSecret || !authorization?.startsWith('Bearer ')) return undefined;
+      const claim = verifyJwt(authorization.slice('Bearer '.length).trim(), options.jwtSecret)[options.jwtClaim ?? 'tenant_id'];
+      return typeof claim === 'string' && claim ? { source, by: 'id', value: claim } : undefined;
+    }
+    case 'subdomain': {
+      const base = options.baseDomain;
+      if (!host || !base || !host.endsWith(`.${base}`)) return undefined;
+      const label = host.slice(0, -(base.length + 1));
+      // Only one level deep, and www is the platform itself
+      return label && !label.includes('.') && label !== 'www' ? { source, by: 'slug', value: label } : undefined;
     }
+    case 'domain': {
+      const base = options.baseDomain;
+      if (!host || isLocalHost(host) || (base && (host === base || host.endsWith(`.${base}`)))) return undefined;
+      return { source, by: 'domain', value: host };
+    }
+    case 'header': {
+      const value = firstString(req.headers['x-tenant-id']) ?? firstString(req.headers['tenant-id']);
+      return value ? { source, by: 'id', value } : undefined;
+    }
+    case 'query': {
+      const value = firstString(req.query.tenantId);
+      return value ? { source, by: 'id', value } : undefined;
+    }
+  }
+}
 
-    // Validate tenant ID format (basic validation)
-    if (typeof tenantId !== 'string' || tenantId.length < 1) {
-      return res.status(400).json({
-        error: 'Invalid tenant ID format',
-        code: 'INVALID_TENANT_ID',
-        message: 'Tenant ID must be a non-empty string'
-      });
+/**
+ * Resolve the request's tenant from the configured sources, falling back to
+ * DEFAULT_TENANT_ID. The tenant must exist and be active. A verified token
+ * naming another tenant than the one chosen is rejected, so headers and hosts
+ * cannot be used to reach a tenant the caller has no token for. Request bodies
+ * are never read: a tenantId there would let one tenant write into another.
+ */
+async function resolveTenant(req: TenantRequest, options: TenantResolutionOptions) {
+  const order = options.order ?? [];
+  let candidate: TenantCandidate | undefined;
+  for (const source of order) {
+    candidate = fromSource(req, source, options);
+    if (candidate) break;
+  }
+
+  if (!candidate && process.env.DEFAULT_TENANT_ID) {
+    candidate = { source: 'default', by: 'id', value: process.env.DEFAULT_TENANT_ID };
+  }
+  if (!candidate) return;
+
+  const tenant = await tenantService.resolve(candidate.by, candidate.value);
+
+  if (candidate.source !== 'jwt' && order.includes('jwt')) {
+    const token = fromSource(req, 'jwt', options);
+    if (token && token.value !== tenant.id) {
+      throw new ForbiddenError(`Token is not valid for tenant ${tenant.slug}`);
     }
+  }
 
-    // Attach tenant information to request
-    req.tenantId = tenantId;
-    req.tenant = {
-      id: tenantId,
-      // In a real app, you might fetch tenant details from database here
-      name: `Tenant ${tenantId}`,
-      settings: {}
-    };
+  req.tenantId = tenant.id;
+  req.tenant = {
+    id: tenant.id,
+    slug: tenant.slug,
+    name: tenant.name,
+    settings: (tenant.settings ?? {}) as Record<string, any>,
+  };
+}
+
+/**
+ * Middleware to resolve the tenant; requests without one are rejected
+ */
+export function withTenant(options: TenantResolutionOptions = {}) {
+  const resolved = { ...defaultOptions(), ...options };
+
+  return async (req: TenantRequest, res: Response, next: NextFunction) => {
+    try {
+      await resolveTenant(req, resolved);
+    } catch (error) {
+      return sendError(res, error, 'Failed to resolve tenant');
+    }
+
+    if (!req.tenantId) {
+      const sources = (resolved.order ?? []).join(', ') || 'none configured';
+      return sendError(
+        res,
+        new TenantError(`Tenant is required; none found in ${sources}`, 'tenantId'),
+        'Failed to resolve tenant'
+      );
+    }
 
     next();
   };
 }
 
 /**
- * Optional tenant middleware (doesn't require tenant ID)
+ * Optional tenant middleware (doesn't require a tenant, but rejects unknown or suspended ones)
  */
-export function withOptionalTenant() {
-  return (req: TenantRequest, res: Response, next: NextFunction) => {
-    const tenantId = 
-      req.headers['x-tenant-id'] as string ||
-      req.headers['tenant-id'] as string ||
-      req.query.tenantId as string ||
-      req.body?.tenantId ||
-      process.env.DEFAULT_TENANT_ID;
-
-    if (tenantId) {
-      req.tenantId = tenantId;
-      req.tenant = {
-        id: tenantId,
-        name: `Tenant ${tenantId}`,
-        settings: {}
-      };
+export function withOptionalTenant(options: TenantResolutionOptions = {}) {
+  const resolved = { ...defaultOptions(), ...options };
+
+  return async (req: TenantRequest, res: Response, next: NextFunction) => {
+    try {
+      await resolveTenant(req, resolved);
+    } catch (error) {
+      return sendError(res, error, 'Failed to resolve tenant');
     }
 
     next();
@@ -91,9 +221,9 @@ export function withOptionalTenant() {
  */
 export function getTenantContext(req: TenantRequest): TenantContext | null {
   if (!req.tenantId) return null;
-  
+
   return {
     tenantId: req.tenantId,
     tenant: req.tenant
   };
-} 
\ No newline at end of file
+}
@@ -0,0 +1,34 @@
+import { Router } from 'express';
+import { auditLog } from '@humanui/entities';
+import { withTenant, TenantRequest } from '../middleware/tenant';
+import { sendError } from '../middleware/error';
+
+/**
+ * Tenant-wide audit log of entity mutations.
+ * Filter with entity, entityId, actor, operation, from and to.
+ */
+export function createAuditRouter(): Router {
+  const router = Router();
+
+  // GET /api/audit - Changes across all entities, newest first
+  router.get('/', withTenant(), async (req: TenantRequest, res) => {
+    try {
+      const result = await auditLog.list(req.tenantId, req.query);
+
+      res.json({
+        data: result.items,
+        pagination: {
+          total: result.total,
+          page: result.page,
+          limit: result.limit,
+          totalPages: result.totalPages,
+        },
+      });
+    } catch (error) {
+      // Malformed filters are reported per field
+      sendError(res, error, 'Failed to list audit log');
+    }
+  });
+
+  return router;
+}
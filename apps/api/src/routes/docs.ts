@@ -0,0 +1,30 @@
+import path from 'path';
+import express, { Router } from 'express';
+
+// Static Swagger UI assets shipped with the swagger-ui-dist package
+const SWAGGER_UI_PATH = path.dirname(require.resolve('swagger-ui-dist/package.json'));
+
+/**
+ * Swagger UI for /openapi.json. The stock initializer is replaced so the page
+ * loads this API's document instead of the demo one.
+ */
+export function createDocsRouter(specUrl = '/openapi.json'): Router {
+  const router = Router();
+
+  router.get('/swagger-initializer.js', (req, res) => {
+    res.type('application/javascript').send(`window.onload = function () {
+  window.ui = SwaggerUIBundle({
+    url: ${JSON.stringify(specUrl)},
+    dom_id: '#swagger-ui',
+    deepLinking: true,
+    presets: [SwaggerUIBundle.presets.apis, SwaggerUIStandalonePreset],
+    layout: 'StandaloneLayout',
+  });
+};
+`);
+  });
+
+  router.use(express.static(SWAGGER_UI_PATH));
+
+  return router;
+}
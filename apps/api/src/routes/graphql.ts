@@ -0,0 +1,109 @@
+import { Router, Response } from 'express';
+import { GraphQLError, GraphQLSchema, execute, getOperationAST, parse, validate, DocumentNode } from 'graphql';
+import { prisma } from '@humanui/db';
+import { ConflictError, ValidationError, toEntityError } from '@humanui/entities';
+import { withTenant, TenantRequest } from '../middleware/tenant';
+import { withOptionalLocale, LocaleRequest } from '../middleware/locale';
+import { sendError } from '../middleware/error';
+import { GraphQLContext } from '../generators/graphql-generator';
+import { GraphQLLoaders } from '../generators/graphql-loaders';
+
+interface GraphQLRequest extends TenantRequest, LocaleRequest {}
+
+// Resolver errors carry the REST error payload in extensions: code, status, fields, details
+function formatError(error: GraphQLError) {
+  const original = error.originalError;
+  // Parse, validation and variable errors
+  if (!original || original instanceof GraphQLError) return error.toJSON();
+
+  const entityError = toEntityError(original);
+  const location = { ...(error.locations && { locations: error.locations }), ...(error.path && { path: error.path }) };
+
+  if (entityError.status >= 500) {
+    console.error('GraphQL resolver failed:', original);
+    return { message: 'Request failed', ...location, extensions: { code: entityError.code, status: entityError.status } };
+  }
+
+  const { error: message, ...payload } = entityError.toJSON();
+  return {
+    message,
+    ...location,
+    extensions: {
+      ...payload,
+      status: entityError.status,
+      // Current server copy for stale `version` arguments, as in REST 409 responses
+      ...(entityError instanceof ConflictError && entityError.current !== undefined && { current: entityError.current }),
+    },
+  };
+}
+
+const badRequest = (res: Response, errors: readonly GraphQLError[]) =>
+  res.status(400).json({ errors: errors.map(error => error.toJSON()) });
+
+/**
+ * GraphQL endpoint over the generated entity schema. Queries may be sent with GET
+ * or POST, mutations only with POST. The tenant and locale are resolved as for the
+ * REST routes, and each request gets its own batching loaders.
+ */
+export function createGraphQLRouter(schema: GraphQLSchema): Router {
+  const router = Router();
+
+  const handle = async (req: GraphQLRequest, res: Response) => {
+    const params = req.method === 'GET' ? req.query : req.body ?? {};
+    const operationName = typeof params.operationName === 'string' ? params.operationName : undefined;
+
+    if (typeof params.query !== 'string' || !params.query.trim()) {
+      return sendError(res, ValidationError.forField('query', 'required', 'query is required'), 'Invalid GraphQL request');
+    }
+
+    let variables = params.variables;
+    if (typeof variables === 'string') {
+      try {
+        variables = JSON.parse(variables);
+      } catch {
+        return sendError(res, ValidationError.forField('variables', 'json', 'variables must be a JSON object'), 'Invalid GraphQL request');
+      }
+    }
+
+    let document: DocumentNode;
+    try {
+      document = parse(params.query);
+    } catch (error) {
+      return badRequest(res, [error as GraphQLError]);
+    }
+
+    const validationErrors = validate(schema, document);
+    if (validationErrors.length > 0) {
+      return badRequest(res, validationErrors);
+    }
+
+    const operation = getOperationAST(document, operationName);
+    if (!operation) {
+      return badRequest(res, [new GraphQLError(operationName ? `Unknown operation: ${operationName}` : 'Specify operationName to pick one of several operations')]);
+    }
+    // GET requests may be cached or prefetched, so they cannot change data
+    if (req.method === 'GET' && operation.operation !== 'query') {
+      res.setHeader('Allow', 'POST');
+      return res.status(405).json({ errors: [{ message: `${operation.operation} operations must be sent with POST` }] });
+    }
+
+    const contextValue: GraphQLContext = {
+      tenantId: req.tenantId,
+      dateFormat: req.localeSettings?.dateFormat,
+      loaders: new GraphQLLoaders(prisma, req.tenantId),
+    };
+
+    try {
+      const result = await execute({ schema, document, variableValues: variables, operationName, contextValue });
+      res.json({ ...result, ...(result.errors && { errors: result.errors.map(formatError) }) });
+    } catch (error) {
+      sendError(res, error, 'Failed to execute GraphQL request');
+    }
+  };
+
+  // GET|POST /graphql - { query, variables?, operationName? }
+  router.get('/', withTenant(), withOptionalLocale(), handle);
+  router.post('/', withTenant(), withOptionalLocale(), handle);
+
+  return router;
+}
@@ -0,0 +1,53 @@
+import { Router } from 'express';
+import { outboxWorker } from '@humanui/entities';
+import { withTenant, TenantRequest } from '../middleware/tenant';
+import { sendError } from '../middleware/error';
+
+/**
+ * Domain events waiting in or delivered from the outbox.
+ * Filter with status, type and entityId; DEAD events can be queued again.
+ */
+export function createOutboxRouter(): Router {
+  const router = Router();
+
+  // GET /api/outbox - Events, newest first
+  router.get('/', withTenant(), async (req: TenantRequest, res) => {
+    try {
+      const result = await outboxWorker.list(req.tenantId, req.query);
+
+      res.json({
+        data: result.items,
+        pagination: {
+          total: result.total,
+          page: result.page,
+          limit: result.limit,
+          totalPages: result.totalPages,
+        },
+      });
+    } catch (error) {
+      sendError(res, error, 'Failed to list outbox events');
+    }
+  });
+
+  // GET /api/outbox/:id - One event with its delivery state
+  router.get('/:id', withTenant(), async (req: TenantRequest, res) => {
+    try {
+      const event = await outboxWorker.get(req.params.id, req.tenantId);
+      res.json({ data: event });
+    } catch (error) {
+      sendError(res, error, 'Failed to fetch outbox event');
+    }
+  });
+
+  // POST /api/outbox/:id/retry - Deliver again; ?reset=true also re-runs subscribers that succeeded
+  router.post('/:id/retry', withTenant(), async (req: TenantRequest, res) => {
+    try {
+      const event = await outboxWorker.retry(req.params.id, req.tenantId, req.query.reset === 'true');
+      res.json({ data: event });
+    } catch (error) {
+      sendError(res, error, 'Failed to retry outbox event');
+    }
+  });
+
+  return router;
+}
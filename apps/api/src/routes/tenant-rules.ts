@@ -0,0 +1,85 @@
+import { Router } from 'express';
+import { entityRegistry, tenantRuleStore, mergeTenantRules, NotFoundError } from '@humanui/entities';
+import { withTenant, TenantRequest } from '../middleware/tenant';
+import { sendError } from '../middleware/error';
+
+/**
+ * Routes for reading and updating a tenant's rule overrides.
+ * Overrides are merged over the rules each entity registered with.
+ */
+export function createTenantRulesRouter(): Router {
+  const router = Router();
+
+  // GET /api/tenant-rules - All overrides for the tenant
+  router.get('/', withTenant(), async (req: TenantRequest, res) => {
+    try {
+      const overrides = await tenantRuleStore.getAllOverrides(req.tenantId!);
+      res.json({ data: overrides });
+    } catch (error) {
+      sendError(res, error, 'Failed to list tenant rules');
+    }
+  });
+
+  // GET /api/tenant-rules/:entity - Base, override and effective rules for one entity
+  router.get('/:entity', withTenant(), async (req: TenantRequest, res) => {
+    const entity = entityRegistry.getEntity(req.params.entity);
+    if (!entity) {
+      return sendError(res, new NotFoundError(`Entity '${req.params.entity}'`), 'Failed to resolve entity');
+    }
+
+    try {
+      const overrides = await tenantRuleStore.getOverrides(entity.name, req.tenantId);
+      res.json({
+        data: {
+          entity: entity.name,
+          base: entity.tenantRules,
+          overrides,
+          effective: mergeTenantRules(entity.tenantRules, overrides),
+        },
+      });
+    } catch (error) {
+      sendError(res, error, `Failed to get tenant rules for ${entity.name}`);
+    }
+  });
+
+  // PUT /api/tenant-rules/:entity - Replace the tenant's overrides for one entity
+  router.put('/:entity', withTenant(), async (req: TenantRequest, res) => {
+    const entity = entityRegistry.getEntity(req.params.entity);
+    if (!entity) {
+      return sendError(res, new NotFoundError(`Entity '${req.params.entity}'`), 'Failed to resolve entity');
+    }
+
+    try {
+      const overrides = await tenantRuleStore.setOverrides(
+        entity.name,
+        req.tenantId!,
+        req.body,
+        req.headers['x-user-id'] as string | undefined,
+        Object.keys(entity.schema.shape)
+      );
+
+      res.json({
+        data: {
+          entity: entity.name,
+          overrides,
+          effective: mergeTenantRules(entity.tenantRules, overrides),
+        },
+      });
+    } catch (error) {
+      // Invalid overrides, patterns and unknown fields are reported per field
+      sendError(res, error, `Failed to update tenant rules for ${entity.name}`);
+    }
+  });
+
+  // DELETE /api/tenant-rules/:entity - Fall back to the registered rules
+  router.delete('/:entity', withTenant(), async (req: TenantRequest, res) => {
+    try {
+      await tenantRuleStore.clearOverrides(req.params.entity, req.tenantId!);
+      res.status(204).send();
+    } catch (error) {
+      sendError(res, error, `Failed to clear tenant rules for ${req.params.entity}`);
+    }
+  });
+
+  return router;
+}
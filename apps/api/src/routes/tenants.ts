@@ -0,0 +1,150 @@
+import { Router } from 'express';
+import { TenantStatus } from '@humanui/db';
+import { ValidationError, tenantLifecycle, tenantService } from '@humanui/entities';
+import { withPlatformKey } from '../middleware/platform';
+import { sendError } from '../middleware/error';
+
+/**
+ * Tenant administration for the platform operator: provisioning, settings,
+ * suspension, catalog clones and deletion. Clones and deletions run in the
+ * background; poll their operation for progress.
+ */
+export function createTenantsRouter(): Router {
+  const router = Router();
+
+  router.use(withPlatformKey());
+
+  // GET /api/tenants - All tenants, optionally ?status=ACTIVE|SUSPENDED|DELETING
+  router.get('/', async (req, res) => {
+    const status = req.query.status as string | undefined;
+    if (status && !Object.values(TenantStatus).includes(status as TenantStatus)) {
+      return sendError(
+        res,
+        ValidationError.forField('status', 'enum', `status must be one of ${Object.values(TenantStatus).join(', ')}`),
+        'Invalid tenant query'
+      );
+    }
+
+    try {
+      const tenants = await tenantService.list({ status: status as TenantStatus | undefined });
+      res.json({ data: tenants });
+    } catch (error) {
+      sendError(res, error, 'Failed to list tenants');
+    }
+  });
+
+  // POST /api/tenants - Provision a tenant with its organization, store, admin user and item attributes
+  router.post('/', async (req, res) => {
+    try {
+      const result = await tenantLifecycle.provision(req.body);
+      res.status(201).json({ data: result });
+    } catch (error) {
+      sendError(res, error, 'Failed to provision tenant');
+    }
+  });
+
+  // GET /api/tenants/:id
+  router.get('/:id', async (req, res) => {
+    try {
+      const tenant = await tenantService.get(req.params.id);
+      res.json({ data: tenant });
+    } catch (error) {
+      sendError(res, error, 'Failed to fetch tenant');
+    }
+  });
+
+  // PATCH /api/tenants/:id - Name, slug, domain or the whole settings object
+  router.patch('/:id', async (req, res) => {
+    try {
+      const tenant = await tenantService.update(req.params.id, req.body);
+      res.json({ data: tenant });
+    } catch (error) {
+      sendError(res, error, 'Failed to update tenant');
+    }
+  });
+
+  // PATCH /api/tenants/:id/settings - Merge keys into the settings; null removes a key
+  router.patch('/:id/settings', async (req, res) => {
+    if (!req.body || typeof req.body !== 'object' || Array.isArray(req.body)) {
+      return sendError(res, ValidationError.forField('settings', 'object', 'Body must be a JSON object'), 'Invalid tenant settings');
+    }
+
+    try {
+      const tenant = await tenantService.updateSettings(req.params.id, req.body);
+      res.json({ data: tenant });
+    } catch (error) {
+      sendError(res, error, 'Failed to update tenant settings');
+    }
+  });
+
+  // POST /api/tenants/:id/suspend - Reject the tenant's requests; its data is kept
+  router.post('/:id/suspend', async (req, res) => {
+    try {
+      const tenant = await tenantService.suspend(req.params.id);
+      res.json({ data: tenant });
+    } catch (error) {
+      sendError(res, error, 'Failed to suspend tenant');
+    }
+  });
+
+  // POST /api/tenants/:id/activate
+  router.post('/:id/activate', async (req, res) => {
+    try {
+      const tenant = await tenantService.activate(req.params.id);
+      res.json({ data: tenant });
+    } catch (error) {
+      sendError(res, error, 'Failed to activate tenant');
+    }
+  });
+
+  // POST /api/tenants/:id/clone - { templateTenantId, organizationId?, storeId? }
+  router.post('/:id/clone', async (req, res) => {
+    try {
+      const operation = await tenantLifecycle.clone(req.params.id, req.body);
+      res.status(202).json({ data: operation });
+    } catch (error) {
+      sendError(res, error, 'Failed to start tenant clone');
+    }
+  });
+
+  // DELETE /api/tenants/:id - Purge every tenant-scoped row, then remove the tenant
+  router.delete('/:id', async (req, res) => {
+    try {
+      const operation = await tenantLifecycle.delete(req.params.id);
+      res.status(202).json({ data: operation });
+    } catch (error) {
+      sendError(res, error, 'Failed to start tenant deletion');
+    }
+  });
+
+  // GET /api/tenants/:id/operations - Provision, clone and purge runs, newest first
+  router.get('/:id/operations', async (req, res) => {
+    try {
+      const result = await tenantLifecycle.listOperations(req.params.id, req.query);
+
+      res.json({
+        data: result.items,
+        pagination: {
+          total: result.total,
+          page: result.page,
+          limit: result.limit,
+          totalPages: result.totalPages,
+        },
+      });
+    } catch (error) {
+      sendError(res, error, 'Failed to list tenant operations');
+    }
+  });
+
+  // GET /api/tenants/:id/operations/:operationId - Status and per-model progress
+  router.get('/:id/operations/:operationId', async (req, res) => {
+    try {
+      const operation = await tenantLifecycle.getOperation(req.params.operationId, req.params.id);
+      res.json({ data: operation });
+    } catch (error) {
+      sendError(res, error, 'Failed to fetch tenant operation');
+    }
+  });
+
+  return router;
+}
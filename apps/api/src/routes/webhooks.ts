@@ -0,0 +1,63 @@
+import { Router } from 'express';
+import { webhookDispatcher } from '@humanui/entities';
+import { withTenant, TenantRequest } from '../middleware/tenant';
+import { sendError } from '../middleware/error';
+
+/**
+ * Delivery log and manual actions for webhook subscriptions.
+ * The subscriptions themselves are the generated `webhook` entity routes.
+ */
+export function createWebhookRouter(): Router {
+  const router = Router();
+
+  // GET /api/webhook/:id/deliveries - Delivery log, newest first; filter with status and eventType
+  router.get('/:id/deliveries', withTenant(), async (req: TenantRequest, res) => {
+    try {
+      const result = await webhookDispatcher.listDeliveries(req.params.id, req.tenantId, req.query);
+
+      res.json({
+        data: result.items,
+        pagination: {
+          total: result.total,
+          page: result.page,
+          limit: result.limit,
+          totalPages: result.totalPages,
+        },
+      });
+    } catch (error) {
+      sendError(res, error, 'Failed to list webhook deliveries');
+    }
+  });
+
+  // GET /api/webhook/:id/deliveries/:deliveryId - One delivery with its request payload and last response
+  router.get('/:id/deliveries/:deliveryId', withTenant(), async (req: TenantRequest, res) => {
+    try {
+      const delivery = await webhookDispatcher.getDelivery(req.params.id, req.params.deliveryId, req.tenantId);
+      res.json({ data: delivery });
+    } catch (error) {
+      sendError(res, error, 'Failed to fetch webhook delivery');
+    }
+  });
+
+  // POST /api/webhook/:id/deliveries/:deliveryId/redeliver - Queue the same payload as a new delivery
+  router.post('/:id/deliveries/:deliveryId/redeliver', withTenant(), async (req: TenantRequest, res) => {
+    try {
+      const delivery = await webhookDispatcher.redeliver(req.params.id, req.params.deliveryId, req.tenantId);
+      res.status(202).json({ data: delivery });
+    } catch (error) {
+      sendError(res, error, 'Failed to redeliver webhook');
+    }
+  });
+
+  // POST /api/webhook/:id/ping - Send a webhook.ping now and return the outcome
+  router.post('/:id/ping', withTenant(), async (req: TenantRequest, res) => {
+    try {
+      const delivery = await webhookDispatcher.ping(req.params.id, req.tenantId);
+      res.json({ data: delivery });
+    } catch (error) {
+      sendError(res, error, 'Failed to ping webhook');
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,68 @@
+import http from 'http';
+import { verifyWebhookSignature } from '@humanui/entities';
+
+export interface WebhookStubOptions {
+  // Secret of the subscription pointing at the stub; signatures are not checked without one
+  secret?: string;
+  // Status returned for valid requests, e.g. 500 to exercise retries
+  status?: number;
+}
+
+export interface ReceivedWebhook {
+  event: string | undefined;
+  delivery: string | undefined;
+  signatureValid: boolean | null;
+  body: any;
+  receivedAt: Date;
+}
+
+/**
+ * Local HTTP endpoint for trying webhook subscriptions. Every request is kept in
+ * `received`; requests with a bad signature get a 401.
+ */
+export function createWebhookStubServer(options: WebhookStubOptions = {}) {
+  const received: ReceivedWebhook[] = [];
+
+  const server = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', chunk => (raw += chunk));
+    req.on('end', () => {
+      const signatureValid = options.secret
+        ? verifyWebhookSignature(options.secret, raw, req.headers['x-webhook-signature'] as string | undefined)
+        : null;
+
+      let body: any = raw;
+      try {
+        body = JSON.parse(raw);
+      } catch {
+        // Kept as text
+      }
+
+      const webhook: ReceivedWebhook = {
+        event: req.headers['x-webhook-event'] as string | undefined,
+        delivery: req.headers['x-webhook-delivery'] as string | undefined,
+        signatureValid,
+        body,
+        receivedAt: new Date(),
+      };
+      received.push(webhook);
+      console.log(`📨 ${webhook.event} (${webhook.delivery}) signature: ${signatureValid ?? 'not checked'}`);
+
+      const status = signatureValid === false ? 401 : options.status ?? 200;
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ received: status < 300 }));
+    });
+  });
+
+  return { server, received };
+}
+
+// pnpm --filter @humanui/api webhooks:stub [port]; WEBHOOK_SECRET and STUB_STATUS are optional
+if (require.main === module) {
+  const port = Number(process.argv[2] || 4000);
+  const { server } = createWebhookStubServer({
+    secret: process.env.WEBHOOK_SECRET,
+    status: process.env.STUB_STATUS ? Number(process.env.STUB_STATUS) : undefined,
+  });
+  server.listen(port, () => console.log(`🪝 Webhook stub listening on http://localhost:${port}`));
+}
@@ -0,0 +1,140 @@
+/**
+ * Writes src/generated/entities.ts from the entity registry: record, create and
+ * update types per entity, plus the route each entity is mounted on.
+ *
+ *   pnpm --filter @humanui/client generate
+ */
+import { writeFileSync } from 'fs';
+import path from 'path';
+import { describeFilterableFields, getAPIEndpoints, JsonSchema, zodToJsonSchema } from '@humanui/entities';
+
+const OUTPUT = path.join(__dirname, '../src/generated/entities.ts');
+
+const isIdentifier = (name: string) => /^[A-Za-z_$][\w$]*$/.test(name);
+// Single-quoted like the rest of the codebase
+const literal = (value: unknown) =>
+  typeof value === 'string' ? `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'` : JSON.stringify(value);
+const key = (name: string) => (isIdentifier(name) ? name : literal(name));
+
+// Wrap unions and intersections before `[]`
+const arrayOf = (type: string) => (/[|&]/.test(type) && !/^[{(]/.test(type) ? `(${type})[]` : `${type}[]`);
+
+function printType(schema: JsonSchema, indent: string): string {
+  if (schema.const !== undefined) return literal(schema.const);
+  if (schema.enum) return schema.enum.map(literal).join(' | ');
+  if (schema.anyOf) return unique(schema.anyOf.map((option: JsonSchema) => printType(option, indent))).join(' | ');
+  if (schema.allOf) return schema.allOf.map((part: JsonSchema) => printType(part, indent)).join(' & ');
+
+  if (Array.isArray(schema.type)) {
+    return unique(schema.type.map((type: string) => printType({ ...schema, type }, indent))).join(' | ');
+  }
+
+  switch (schema.type) {
+    case 'string':
+      return 'string';
+    case 'integer':
+    case 'number':
+      return 'number';
+    case 'boolean':
+      return 'boolean';
+    case 'null':
+      return 'null';
+    case 'array':
+      if (schema.prefixItems) {
+        return `[${schema.prefixItems.map((item: JsonSchema) => printType(item, indent)).join(', ')}]`;
+      }
+      return arrayOf(schema.items ? printType(schema.items, indent) : 'unknown');
+    case 'object':
+      if (schema.properties) return printObject(schema, indent, new Set(schema.required ?? []));
+      return `Record<string, ${schema.additionalProperties ? printType(schema.additionalProperties, indent) : 'unknown'}>`;
+    default:
+      // `{}`: any JSON value
+      return 'unknown';
+  }
+}
+
+function unique(types: string[]): string[] {
+  return [...new Set(types)];
+}
+
+function printObject(schema: JsonSchema, indent: string, required: Set<string>): string {
+  const inner = `${indent}  `;
+  const lines = Object.entries(schema.properties as Record<string, JsonSchema>).flatMap(([name, property]) => [
+    ...(property.description ? [`${inner}// ${property.description}`] : []),
+    `${inner}${key(name)}${required.has(name) ? '' : '?'}: ${printType(property, inner)};`,
+  ]);
+  return `{\n${lines.join('\n')}\n${indent}}`;
+}
+
+// Fields with a default are optional on input but always present on records
+function recordRequired(schema: JsonSchema): Set<string> {
+  const required = new Set<string>(schema.required ?? []);
+  for (const [name, property] of Object.entries(schema.properties as Record<string, JsonSchema>)) {
+    if (property.default !== undefined) required.add(name);
+  }
+  return required;
+}
+
+const union = (values: string[]) => (values.length > 0 ? values.map(literal).join(' | ') : 'never');
+
+function generate(): string {
+  const endpoints = getAPIEndpoints();
+  const blocks: string[] = [];
+  const entityTypes: string[] = [];
+  const paths: string[] = [];
+
+  for (const endpoint of endpoints) {
+    const model: string = endpoint.model;
+    const record = zodToJsonSchema(endpoint.schemas.entity);
+    const create = zodToJsonSchema(endpoint.schemas.create);
+    const update = zodToJsonSchema(endpoint.schemas.update);
+    const filterFields = describeFilterableFields(endpoint.schemas.entity).map(field => field.name);
+
+    blocks.push(
+      [
+        `// ${endpoint.displayName}${endpoint.description ? ` - ${endpoint.description}` : ''}`,
+        `export interface ${model} ${printObject(record, '', recordRequired(record))}`,
+        '',
+        `export interface ${model}Create ${printObject(create, '', new Set(create.required ?? []))}`,
+        '',
+        `export interface ${model}Update ${printObject(update, '', new Set(update.required ?? []))}`,
+        '',
+        `export type ${model}FilterField = ${union(filterFields)};`,
+        '',
+        `export type ${model}BulkOperation = ${union(endpoint.bulkOperations)};`,
+      ].join('\n')
+    );
+
+    entityTypes.push(
+      [
+        `  ${key(endpoint.entity)}: {`,
+        `    record: ${model};`,
+        `    create: ${model}Create;`,
+        `    update: ${model}Update;`,
+        `    filterField: ${model}FilterField;`,
+        `    bulkOperation: ${model}BulkOperation;`,
+        '  };',
+      ].join('\n')
+    );
+    paths.push(`  ${key(endpoint.entity)}: ${literal(`/api/${endpoint.entity}`)},`);
+  }
+
+  return [
+    '// Generated by scripts/generate.ts from the entity registry. Do not edit;',
+    '// run `pnpm --filter @humanui/client generate` after changing an entity schema.',
+    '',
+    blocks.join('\n\n'),
+    '',
+    '// Types of each entity, keyed by entity name',
+    `export interface EntityTypes {\n${entityTypes.join('\n')}\n}`,
+    '',
+    '// Mount path of each entity',
+    `export const ENTITY_PATHS = {\n${paths.join('\n')}\n} as const;`,
+    '',
+    'export type EntityName = keyof EntityTypes;',
+    '',
+  ].join('\n');
+}
+
+writeFileSync(OUTPUT, generate());
+console.log(`Wrote ${path.relative(process.cwd(), OUTPUT)}`);
@@ -0,0 +1,40 @@
+import { ClientOptions, HttpClient } from './http';
+import { EntityClient } from './entity';
+import { ENTITY_PATHS, EntityName, EntityTypes } from './generated/entities';
+
+export type TypedEntityClient<K extends EntityName> = EntityClient<
+  EntityTypes[K]['record'],
+  EntityTypes[K]['create'],
+  EntityTypes[K]['update'],
+  EntityTypes[K]['filterField'],
+  EntityTypes[K]['bulkOperation']
+>;
+
+export type ApiClient = { [K in EntityName]: TypedEntityClient<K> } & {
+  http: HttpClient;
+  // Untyped client for an entity chosen at runtime, e.g. from an admin route
+  entity(name: string): EntityClient;
+};
+
+/**
+ * Client for the generated entity routes, e.g. `client.item.list({ filter: { status: 'ACTIVE' } })`
+ */
+export function createClient(options: ClientOptions): ApiClient {
+  const http = new HttpClient(options);
+  const clients = new Map<string, EntityClient<any, any, any, any, any>>();
+
+  const entity = (name: string): EntityClient => {
+    let client = clients.get(name);
+    if (!client) {
+      client = new EntityClient(http, ENTITY_PATHS[name as EntityName] ?? `/api/${name}`);
+      clients.set(name, client);
+    }
+    return client;
+  };
+
+  const typed = Object.fromEntries(
+    (Object.keys(ENTITY_PATHS) as EntityName[]).map(name => [name, entity(name)])
+  ) as { [K in EntityName]: TypedEntityClient<K> };
+
+  return { ...typed, http, entity };
+}
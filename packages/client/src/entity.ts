@@ -0,0 +1,219 @@
+import { ApiResponse, HttpClient } from './http';
+import { ApiError } from './errors';
+import { attachVersion } from './version';
+
+export type FilterOperator =
+  | 'eq'
+  | 'ne'
+  | 'gt'
+  | 'gte'
+  | 'lt'
+  | 'lte'
+  | 'in'
+  | 'nin'
+  | 'contains'
+  | 'startsWith'
+  | 'endsWith'
+  | 'isNull'
+  | 'has'
+  | 'hasSome'
+  | 'hasEvery'
+  | 'isEmpty';
+
+type FilterValue = string | number | boolean | Array<string | number>;
+
+// `filter[field]=value` or `filter[field][op]=value`; lists are sent comma separated
+export type Filter<TField extends string = string> = Partial<
+  Record<TField, FilterValue | Partial<Record<FilterOperator, FilterValue>>>
+>;
+
+export interface ListParams<TField extends string = string> {
+  page?: number;
+  limit?: number;
+  search?: string;
+  // Multi-key sort, e.g. `-basePrice,name`
+  sort?: string;
+  sortBy?: string;
+  sortOrder?: 'asc' | 'desc';
+  filter?: Filter<TField>;
+  includeDeleted?: boolean;
+  // `cursor` pages by keyset; a cursor implies it
+  pagination?: 'offset' | 'cursor';
+  cursor?: string;
+  includeTotal?: boolean;
+  // Sparse fieldset, including computed fields; id is always returned
+  fields?: string[];
+  // Relations to embed in the same response
+  include?: string[];
+}
+
+export interface OffsetPagination {
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
+
+export interface CursorPagination {
+  limit: number;
+  nextCursor: string | null;
+  prevCursor: string | null;
+  // Only with includeTotal
+  total?: number;
+}
+
+export interface Page<TRecord> {
+  data: TRecord[];
+  pagination: OffsetPagination | CursorPagination;
+}
+
+export interface GetOptions {
+  fields?: string[];
+  include?: string[];
+  includeDeleted?: boolean;
+}
+
+export interface WriteOptions {
+  // Version the change is based on, sent as If-Match; a stale one fails with ApiConflictError
+  version?: string;
+  idempotencyKey?: string;
+}
+
+export interface EntityStats {
+  total: number;
+  active: number;
+  inactive: number;
+}
+
+export interface BulkOperation<TOperation extends string = string> {
+  op: TOperation;
+  id?: string;
+  data?: Record<string, unknown>;
+  version?: string;
+}
+
+export interface BulkRequest<TOperation extends string = string> {
+  // `atomic` (default) commits all rows or none; `bestEffort` commits each row on its own
+  mode?: 'atomic' | 'bestEffort';
+  operations: BulkOperation<TOperation>[];
+}
+
+export interface BulkRowResult {
+  index: number;
+  op: string;
+  id?: string;
+  status: 'succeeded' | 'failed' | 'rolledBack' | 'skipped';
+  data?: unknown;
+  error?: { error: string; code: string; fields?: Array<{ field: string; rule: string; message: string }> };
+}
+
+export interface BulkResult {
+  mode: 'atomic' | 'bestEffort';
+  committed: boolean;
+  succeeded: number;
+  failed: number;
+  results: BulkRowResult[];
+}
+
+const ifMatch = (version?: string) => (version ? { 'If-Match': `"${version}"` } : undefined);
+
+// The record of a single-record response, carrying the version from its ETag
+const versioned = <TRecord>({ body, headers }: ApiResponse<{ data: TRecord }>): TRecord =>
+  attachVersion(body.data, headers.get('etag'));
+
+/**
+ * Methods for one entity's generated routes, typed by its record, create and update shapes
+ */
+export class EntityClient<
+  TRecord = Record<string, any>,
+  TCreate = Record<string, any>,
+  TUpdate = Partial<TCreate>,
+  TFilterField extends string = string,
+  TBulkOperation extends string = string,
+> {
+  constructor(
+    private http: HttpClient,
+    // Mount path, e.g. /api/item
+    readonly path: string
+  ) {}
+
+  async list(params: ListParams<TFilterField> = {}): Promise<Page<TRecord>> {
+    const { fields, include, ...query } = params;
+    const { body } = await this.http.request<Page<TRecord>>('GET', this.path, {
+      query: { ...query, fields, include } as Record<string, any>,
+    });
+    return body;
+  }
+
+  async get(id: string, { fields, include, includeDeleted }: GetOptions = {}): Promise<TRecord> {
+    const response = await this.http.request<{ data: TRecord }>('GET', `${this.path}/${encodeURIComponent(id)}`, {
+      query: { fields, include, includeDeleted },
+    });
+    return versioned(response);
+  }
+
+  async create(data: TCreate, options: WriteOptions = {}): Promise<TRecord> {
+    const response = await this.http.request<{ data: TRecord }>('POST', this.path, {
+      body: data,
+      idempotencyKey: options.idempotencyKey,
+    });
+    return versioned(response);
+  }
+
+  // PUT; only the given fields change
+  async update(id: string, data: TUpdate, options: WriteOptions = {}): Promise<TRecord> {
+    const response = await this.http.request<{ data: TRecord }>('PUT', `${this.path}/${encodeURIComponent(id)}`, {
+      body: data,
+      headers: ifMatch(options.version),
+      idempotencyKey: options.idempotencyKey,
+    });
+    return versioned(response);
+  }
+
+  async patch(id: string, data: TUpdate, options: WriteOptions = {}): Promise<TRecord> {
+    const response = await this.http.request<{ data: TRecord }>('PATCH', `${this.path}/${encodeURIComponent(id)}`, {
+      body: data,
+      headers: ifMatch(options.version),
+      idempotencyKey: options.idempotencyKey,
+    });
+    return versioned(response);
+  }
+
+  // Soft delete; restore() undoes it
+  async delete(id: string, options: Pick<WriteOptions, 'idempotencyKey'> = {}): Promise<void> {
+    await this.http.request('DELETE', `${this.path}/${encodeURIComponent(id)}`, {
+      idempotencyKey: options.idempotencyKey,
+    });
+  }
+
+  async restore(id: string, options: Pick<WriteOptions, 'idempotencyKey'> = {}): Promise<TRecord> {
+    const response = await this.http.request<{ data: TRecord }>('POST', `${this.path}/${encodeURIComponent(id)}/restore`, {
+      idempotencyKey: options.idempotencyKey,
+    });
+    return versioned(response);
+  }
+
+  async stats(): Promise<EntityStats> {
+    const { body } = await this.http.request<{ data: EntityStats }>('GET', `${this.path}/stats`);
+    return body.data;
+  }
+
+  /**
+   * Run a batch of operations. Failed rows are reported in the result rather than
+   * thrown, including an atomic batch that was rolled back; malformed requests throw.
+   */
+  async bulk(request: BulkRequest<TBulkOperation>, options: Pick<WriteOptions, 'idempotencyKey'> = {}): Promise<BulkResult> {
+    try {
+      const { body } = await this.http.request<{ data: BulkResult }>('POST', `${this.path}/bulk`, {
+        body: request,
+        idempotencyKey: options.idempotencyKey,
+      });
+      return body.data;
+    } catch (error) {
+      if (error instanceof ApiError && Array.isArray(error.body?.data?.results)) {
+        return error.body.data;
+      }
+      throw error;
+    }
+  }
+}
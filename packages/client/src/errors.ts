@@ -0,0 +1,86 @@
+import { ERROR_CODES, ErrorCode } from '@humanui/constants';
+import { attachVersion, parseETag } from './version';
+
+// A single failed rule for a single field
+export interface ApiFieldError {
+  field: string;
+  rule: string;
+  message: string;
+}
+
+/**
+ * Error response of the API, carrying the `{ error, code, fields?, details? }` body
+ */
+export class ApiError extends Error {
+  readonly status: number;
+  readonly code: ErrorCode;
+  readonly fields: ApiFieldError[];
+  readonly details?: any;
+  // Parsed response body, e.g. the rolled-back result of an atomic bulk request
+  readonly body: any;
+
+  constructor(status: number, body: any) {
+    super(body?.error || `Request failed with status ${status}`);
+    this.name = 'ApiError';
+    this.status = status;
+    this.code = body?.code || ERROR_CODES.INTERNAL_ERROR;
+    this.fields = Array.isArray(body?.fields) ? body.fields : [];
+    this.details = body?.details;
+    this.body = body;
+  }
+}
+
+// Input rejected by the schema, tenant rules or query grammar (400)
+export class ApiValidationError extends ApiError {
+  constructor(status: number, body: any) {
+    super(status, body);
+    this.name = 'ApiValidationError';
+  }
+}
+
+export class ApiNotFoundError extends ApiError {
+  constructor(status: number, body: any) {
+    super(status, body);
+    this.name = 'ApiNotFoundError';
+  }
+}
+
+// Stale If-Match or unique constraint violation (409)
+export class ApiConflictError extends ApiError {
+  // Current server copy, for optimistic locking conflicts
+  readonly current?: any;
+  // Version of the current copy, from the ETag; send it to overwrite that copy
+  readonly version?: string;
+
+  constructor(status: number, body: any, headers?: Headers) {
+    super(status, body);
+    this.name = 'ApiConflictError';
+    this.version = parseETag(headers?.get('etag'));
+    this.current = attachVersion(body?.current, headers?.get('etag'));
+  }
+}
+
+// No response: the request failed to send or timed out
+export class ApiNetworkError extends Error {
+  readonly cause?: unknown;
+
+  constructor(message: string, cause?: unknown) {
+    super(message);
+    this.name = 'ApiNetworkError';
+    this.cause = cause;
+  }
+}
+
+// The most specific error class for a response's code
+export function toApiError(status: number, body: any, headers?: Headers): ApiError {
+  switch (body?.code) {
+    case ERROR_CODES.VALIDATION_ERROR:
+      return new ApiValidationError(status, body);
+    case ERROR_CODES.NOT_FOUND:
+      return new ApiNotFoundError(status, body);
+    case ERROR_CODES.CONFLICT:
+      return new ApiConflictError(status, body, headers);
+    default:
+      return new ApiError(status, body);
+  }
+}
@@ -0,0 +1,408 @@
+// Generated by scripts/generate.ts from the entity registry. Do not edit;
+// run `pnpm --filter @humanui/client generate` after changing an entity schema.
+
+// Categories - Product categories and classifications
+export interface Category {
+  id?: string;
+  name: string;
+  description: string | null;
+  slug: string;
+  imageUrl: string | null;
+  isActive: boolean;
+  isPublished: boolean;
+  parentId: string | null;
+  sortOrder: number;
+  organizationId: string;
+  storeId: string;
+  tenantId: string | null;
+  createdBy: string | null;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface CategoryCreate {
+  name: string;
+  description: string | null;
+  slug: string;
+  imageUrl: string | null;
+  isPublished?: boolean;
+  parentId: string | null;
+  sortOrder?: number;
+  organizationId: string;
+  storeId: string;
+}
+
+export interface CategoryUpdate {
+  name?: string;
+  description?: string | null;
+  slug?: string;
+  imageUrl?: string | null;
+  isPublished?: boolean;
+  parentId?: string | null;
+  sortOrder?: number;
+  organizationId?: string;
+  storeId?: string;
+}
+
+export type CategoryFilterField = 'id' | 'name' | 'description' | 'slug' | 'imageUrl' | 'isActive' | 'isPublished' | 'parentId' | 'sortOrder' | 'organizationId' | 'storeId' | 'tenantId' | 'createdBy' | 'createdAt' | 'updatedAt';
+
+export type CategoryBulkOperation = 'create' | 'update' | 'patch' | 'delete' | 'restore' | 'publish' | 'unpublish' | 'move';
+
+// Organizations - Business organizations
+export interface Organization {
+  id?: string;
+  name: string;
+  slug: string;
+  description: string | null;
+  logoUrl: string | null;
+  website: string | null;
+  email: string | null;
+  phone: string | null;
+  address?: unknown;
+  settings: unknown;
+  isActive: boolean;
+  isPublic: boolean;
+  tenantId: string | null;
+  createdBy: string | null;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface OrganizationCreate {
+  name: string;
+  slug: string;
+  description: string | null;
+  logoUrl: string | null;
+  website: string | null;
+  email: string | null;
+  phone: string | null;
+  address?: unknown;
+  settings?: unknown;
+  isPublic?: boolean;
+}
+
+export interface OrganizationUpdate {
+  name?: string;
+  slug?: string;
+  description?: string | null;
+  logoUrl?: string | null;
+  website?: string | null;
+  email?: string | null;
+  phone?: string | null;
+  address?: unknown;
+  settings?: unknown;
+  isPublic?: boolean;
+}
+
+export type OrganizationFilterField = 'id' | 'name' | 'slug' | 'description' | 'logoUrl' | 'website' | 'email' | 'phone' | 'isActive' | 'isPublic' | 'tenantId' | 'createdBy' | 'createdAt' | 'updatedAt';
+
+export type OrganizationBulkOperation = 'create' | 'update' | 'patch' | 'delete' | 'restore';
+
+// Stores - Retail stores and locations
+export interface Store {
+  id?: string;
+  name: string;
+  displayName: string | null;
+  description: string | null;
+  address: unknown;
+  phone: string | null;
+  email: string | null;
+  timezone: string | null;
+  isActive: boolean;
+  storeType: string | null;
+  operatingHours?: unknown;
+  organizationId: string;
+  tenantId: string | null;
+  createdBy: string | null;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface StoreCreate {
+  name: string;
+  displayName: string | null;
+  description: string | null;
+  address: unknown;
+  phone: string | null;
+  email: string | null;
+  timezone: string | null;
+  storeType: string | null;
+  operatingHours?: unknown;
+  organizationId: string;
+}
+
+export interface StoreUpdate {
+  name?: string;
+  displayName?: string | null;
+  description?: string | null;
+  address?: unknown;
+  phone?: string | null;
+  email?: string | null;
+  timezone?: string | null;
+  storeType?: string | null;
+  operatingHours?: unknown;
+  organizationId?: string;
+}
+
+export type StoreFilterField = 'id' | 'name' | 'displayName' | 'description' | 'phone' | 'email' | 'timezone' | 'isActive' | 'storeType' | 'organizationId' | 'tenantId' | 'createdBy' | 'createdAt' | 'updatedAt';
+
+export type StoreBulkOperation = 'create' | 'update' | 'patch' | 'delete' | 'restore';
+
+// Items - Product items and SKUs
+export interface Item {
+  id: string;
+  categoryType: string;
+  sku: string;
+  name: string;
+  description: string | null;
+  hasVariants: boolean;
+  variantGroups?: unknown;
+  fulfillmentMethod: string;
+  fulfillmentConfig: unknown;
+  regulatoryFlags: unknown;
+  complianceRequired: boolean;
+  basePrice: number;
+  currency: string;
+  pricingRules: unknown;
+  status: 'DRAFT' | 'ACTIVE' | 'ARCHIVED' | 'DELETED';
+  priority: 'LOW' | 'MEDIUM' | 'HIGH' | 'URGENT';
+  tags: string[];
+  metadata?: unknown;
+  organizationId: string;
+  storeId: string | null;
+  categoryId: string | null;
+  tenantId: string | null;
+  createdBy: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ItemCreate {
+  categoryType: string;
+  sku: string;
+  name: string;
+  description: string | null;
+  hasVariants?: boolean;
+  variantGroups?: unknown;
+  fulfillmentMethod?: string;
+  fulfillmentConfig?: unknown;
+  regulatoryFlags?: unknown;
+  complianceRequired?: boolean;
+  basePrice: number;
+  currency?: string;
+  pricingRules?: unknown;
+  status?: 'DRAFT' | 'ACTIVE' | 'ARCHIVED' | 'DELETED';
+  priority?: 'LOW' | 'MEDIUM' | 'HIGH' | 'URGENT';
+  tags?: string[];
+  metadata?: unknown;
+  organizationId: string;
+  storeId: string | null;
+  categoryId: string | null;
+}
+
+export interface ItemUpdate {
+  categoryType?: string;
+  sku?: string;
+  name?: string;
+  description?: string | null;
+  hasVariants?: boolean;
+  variantGroups?: unknown;
+  fulfillmentMethod?: string;
+  fulfillmentConfig?: unknown;
+  regulatoryFlags?: unknown;
+  complianceRequired?: boolean;
+  basePrice?: number;
+  currency?: string;
+  pricingRules?: unknown;
+  status?: 'DRAFT' | 'ACTIVE' | 'ARCHIVED' | 'DELETED';
+  priority?: 'LOW' | 'MEDIUM' | 'HIGH' | 'URGENT';
+  tags?: string[];
+  metadata?: unknown;
+  organizationId?: string;
+  storeId?: string | null;
+  categoryId?: string | null;
+}
+
+export type ItemFilterField = 'id' | 'categoryType' | 'sku' | 'name' | 'description' | 'hasVariants' | 'fulfillmentMethod' | 'complianceRequired' | 'basePrice' | 'currency' | 'status' | 'priority' | 'tags' | 'organizationId' | 'storeId' | 'categoryId' | 'tenantId' | 'createdBy' | 'createdAt' | 'updatedAt';
+
+export type ItemBulkOperation = 'create' | 'update' | 'patch' | 'delete' | 'restore' | 'archive' | 'activate' | 'updateStatus' | 'updatePriority';
+
+// Item Attributes - Attributes for items
+export interface ItemAttribute {
+  id?: string;
+  name: string;
+  displayName: string;
+  description: string | null;
+  attributeType: string;
+  dataType: string;
+  isRequired: boolean;
+  defaultValue?: unknown;
+  validationRules?: unknown;
+  sortOrder: number;
+  isActive: boolean;
+  organizationId: string;
+  tenantId: string | null;
+  createdBy: string | null;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface ItemAttributeCreate {
+  name: string;
+  displayName: string;
+  description: string | null;
+  attributeType: string;
+  dataType: string;
+  isRequired?: boolean;
+  defaultValue?: unknown;
+  validationRules?: unknown;
+  sortOrder?: number;
+  organizationId: string;
+}
+
+export interface ItemAttributeUpdate {
+  name?: string;
+  displayName?: string;
+  description?: string | null;
+  attributeType?: string;
+  dataType?: string;
+  isRequired?: boolean;
+  defaultValue?: unknown;
+  validationRules?: unknown;
+  sortOrder?: number;
+  organizationId?: string;
+}
+
+export type ItemAttributeFilterField = 'id' | 'name' | 'displayName' | 'description' | 'attributeType' | 'dataType' | 'isRequired' | 'sortOrder' | 'isActive' | 'organizationId' | 'tenantId' | 'createdBy' | 'createdAt' | 'updatedAt';
+
+export type ItemAttributeBulkOperation = 'create' | 'update' | 'patch' | 'delete' | 'restore';
+
+// Users - System users
+export interface User {
+  id?: string;
+  email: string;
+  name: string | null;
+  username: string | null;
+  organizationId: string | null;
+  tenantId: string | null;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface UserCreate {
+  email: string;
+  name: string | null;
+  username: string | null;
+  organizationId: string | null;
+}
+
+export interface UserUpdate {
+  email?: string;
+  name?: string | null;
+  username?: string | null;
+  organizationId?: string | null;
+}
+
+export type UserFilterField = 'id' | 'email' | 'name' | 'username' | 'organizationId' | 'tenantId' | 'createdAt' | 'updatedAt';
+
+export type UserBulkOperation = 'create' | 'update' | 'patch' | 'delete' | 'restore';
+
+// Webhooks - Outgoing event notifications
+export interface WebhookSubscription {
+  id: string;
+  name: string;
+  description: string | null;
+  url: string;
+  events: string[];
+  isActive: boolean;
+  tenantId: string | null;
+  createdBy: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface WebhookSubscriptionCreate {
+  name: string;
+  description: string | null;
+  url: string;
+  events: string[];
+  secret?: string;
+}
+
+export interface WebhookSubscriptionUpdate {
+  name?: string;
+  description?: string | null;
+  url?: string;
+  events?: string[];
+  secret?: string;
+}
+
+export type WebhookSubscriptionFilterField = 'id' | 'name' | 'description' | 'url' | 'events' | 'isActive' | 'tenantId' | 'createdBy' | 'createdAt' | 'updatedAt';
+
+export type WebhookSubscriptionBulkOperation = 'create' | 'update' | 'patch' | 'delete' | 'restore';
+
+// Types of each entity, keyed by entity name
+export interface EntityTypes {
+  category: {
+    record: Category;
+    create: CategoryCreate;
+    update: CategoryUpdate;
+    filterField: CategoryFilterField;
+    bulkOperation: CategoryBulkOperation;
+  };
+  organization: {
+    record: Organization;
+    create: OrganizationCreate;
+    update: OrganizationUpdate;
+    filterField: OrganizationFilterField;
+    bulkOperation: OrganizationBulkOperation;
+  };
+  store: {
+    record: Store;
+    create: StoreCreate;
+    update: StoreUpdate;
+    filterField: StoreFilterField;
+    bulkOperation: StoreBulkOperation;
+  };
+  item: {
+    record: Item;
+    create: ItemCreate;
+    update: ItemUpdate;
+    filterField: ItemFilterField;
+    bulkOperation: ItemBulkOperation;
+  };
+  itemattribute: {
+    record: ItemAttribute;
+    create: ItemAttributeCreate;
+    update: ItemAttributeUpdate;
+    filterField: ItemAttributeFilterField;
+    bulkOperation: ItemAttributeBulkOperation;
+  };
+  user: {
+    record: User;
+    create: UserCreate;
+    update: UserUpdate;
+    filterField: UserFilterField;
+    bulkOperation: UserBulkOperation;
+  };
+  webhook: {
+    record: WebhookSubscription;
+    create: WebhookSubscriptionCreate;
+    update: WebhookSubscriptionUpdate;
+    filterField: WebhookSubscriptionFilterField;
+    bulkOperation: WebhookSubscriptionBulkOperation;
+  };
+}
+
+// Mount path of each entity
+export const ENTITY_PATHS = {
+  category: '/api/category',
+  organization: '/api/organization',
+  store: '/api/store',
+  item: '/api/item',
+  itemattribute: '/api/itemattribute',
+  user: '/api/user',
+  webhook: '/api/webhook',
+} as const;
+
+export type EntityName = keyof EntityTypes;
@@ -0,0 +1,204 @@
+import { API_CONSTANTS } from '@humanui/constants';
+import { ApiNetworkError, toApiError } from './errors';
+
+// A value, or a function read on every request, e.g. the tenant of the signed-in user
+export type Resolvable<T> = T | (() => T);
+
+export interface RetryOptions {
+  // Attempts after the first one
+  retries?: number;
+  // First retry delay, doubled per attempt up to maxDelayMs
+  delayMs?: number;
+  maxDelayMs?: number;
+}
+
+export interface ClientOptions {
+  // API origin, e.g. http://localhost:3001
+  baseUrl: string;
+  // Sent as X-Tenant-ID
+  tenantId?: Resolvable<string | undefined>;
+  // Sent as Accept-Language
+  locale?: Resolvable<string | undefined>;
+  // Sent as X-User-ID and recorded as the actor of changes
+  userId?: Resolvable<string | undefined>;
+  headers?: Record<string, string>;
+  // Network failures, 408, 429 and 502-504 are retried; false turns retries off
+  retry?: RetryOptions | false;
+  timeoutMs?: number;
+  fetch?: typeof fetch;
+}
+
+export type QueryValue = string | number | boolean | undefined | null | Array<string | number>;
+
+export interface RequestOptions {
+  // Objects become `key[nested]=value`, e.g. filter[basePrice][gte]=10
+  query?: Record<string, QueryValue | Record<string, unknown>>;
+  body?: unknown;
+  headers?: Record<string, string>;
+  // Sent as Idempotency-Key; POST and PATCH get a generated one so they can be retried
+  idempotencyKey?: string;
+  signal?: AbortSignal;
+}
+
+export interface ApiResponse<T> {
+  status: number;
+  body: T;
+  headers: Headers;
+}
+
+const DEFAULT_RETRY: Required<RetryOptions> = {
+  retries: API_CONSTANTS.MAX_RETRIES,
+  delayMs: 300,
+  maxDelayMs: 5000,
+};
+
+const RETRY_STATUSES = new Set([408, 429, 502, 503, 504]);
+
+// Safe to send twice without an Idempotency-Key
+const IDEMPOTENT_METHODS = new Set(['GET', 'HEAD', 'PUT', 'DELETE']);
+
+const resolve = <T>(value: Resolvable<T>): T => (typeof value === 'function' ? (value as () => T)() : value);
+
+// JSON body of a response; proxies may answer with plain text or HTML
+const parseBody = (text: string): any => {
+  if (!text) return undefined;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return { error: text };
+  }
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const generateKey = (): string =>
+  globalThis.crypto?.randomUUID?.() ?? `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+
+// Append a query value; nested objects use the bracket syntax of the list endpoint
+function appendQuery(params: URLSearchParams, key: string, value: unknown) {
+  if (value === undefined || value === null) return;
+  if (Array.isArray(value)) {
+    params.append(key, value.join(','));
+  } else if (typeof value === 'object') {
+    for (const [nested, nestedValue] of Object.entries(value as Record<string, unknown>)) {
+      appendQuery(params, `${key}[${nested}]`, nestedValue);
+    }
+  } else {
+    params.append(key, String(value));
+  }
+}
+
+// Seconds or HTTP date of a Retry-After header, in milliseconds
+function retryAfter(headers: Headers): number | undefined {
+  const value = headers.get('retry-after');
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return seconds * 1000;
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Sends requests with the tenant, locale and actor headers, parses JSON bodies,
+ * turns error responses into ApiError subclasses and retries transient failures.
+ */
+export class HttpClient {
+  private options: ClientOptions;
+  private retry: Required<RetryOptions> | null;
+
+  constructor(options: ClientOptions) {
+    this.options = options;
+    this.retry = options.retry === false ? null : { ...DEFAULT_RETRY, ...options.retry };
+  }
+
+  url(path: string, query?: RequestOptions['query']): string {
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(query ?? {})) {
+      appendQuery(params, key, value);
+    }
+    const search = params.toString();
+    return `${this.options.baseUrl.replace(/\/$/, '')}${path}${search ? `?${search}` : ''}`;
+  }
+
+  async request<T>(method: string, path: string, options: RequestOptions = {}): Promise<ApiResponse<T>> {
+    const upperMethod = method.toUpperCase();
+    // Without a key a retried POST could create a second record
+    const idempotencyKey =
+      options.idempotencyKey ?? (this.retry && !IDEMPOTENT_METHODS.has(upperMethod) ? generateKey() : undefined);
+    const headers = this.headers(options, idempotencyKey);
+    const url = this.url(path, options.query);
+    const retries = this.retry && (IDEMPOTENT_METHODS.has(upperMethod) || idempotencyKey) ? this.retry.retries : 0;
+
+    for (let attempt = 0; ; attempt++) {
+      let response: Response;
+      try {
+        response = await this.send(url, {
+          method: upperMethod,
+          headers,
+          body: options.body === undefined ? undefined : JSON.stringify(options.body),
+          signal: options.signal,
+        });
+      } catch (error) {
+        if (options.signal?.aborted || attempt >= retries) throw error;
+        await sleep(this.delay(attempt));
+        continue;
+      }
+
+      if (RETRY_STATUSES.has(response.status) && attempt < retries) {
+        await sleep(retryAfter(response.headers) ?? this.delay(attempt));
+        continue;
+      }
+
+      const body = parseBody(await response.text());
+      if (!response.ok) {
+        throw toApiError(response.status, body, response.headers);
+      }
+      return { status: response.status, body: body as T, headers: response.headers };
+    }
+  }
+
+  private headers(options: RequestOptions, idempotencyKey?: string): Record<string, string> {
+    const tenantId = resolve(this.options.tenantId);
+    const locale = resolve(this.options.locale);
+    const userId = resolve(this.options.userId);
+
+    return {
+      Accept: 'application/json',
+      ...(options.body !== undefined && { 'Content-Type': 'application/json' }),
+      ...(tenantId && { 'X-Tenant-ID': tenantId }),
+      ...(locale && { 'Accept-Language': locale }),
+      ...(userId && { 'X-User-ID': userId }),
+      ...(idempotencyKey && { 'Idempotency-Key': idempotencyKey }),
+      ...this.options.headers,
+      ...options.headers,
+    };
+  }
+
+  // One attempt; a timeout or transport failure becomes an ApiNetworkError
+  private async send(url: string, init: RequestInit): Promise<Response> {
+    const fetchImpl = this.options.fetch ?? globalThis.fetch;
+    const controller = new AbortController();
+    const timeoutMs = this.options.timeoutMs ?? API_CONSTANTS.DEFAULT_TIMEOUT;
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+    const abort = () => controller.abort();
+    init.signal?.addEventListener('abort', abort);
+
+    try {
+      return await fetchImpl(url, { ...init, signal: controller.signal });
+    } catch (error) {
+      if (init.signal?.aborted) throw error;
+      throw new ApiNetworkError(
+        controller.signal.aborted ? `Request timed out after ${timeoutMs}ms` : `Request to ${url} failed`,
+        error
+      );
+    } finally {
+      clearTimeout(timer);
+      init.signal?.removeEventListener('abort', abort);
+    }
+  }
+
+  private delay(attempt: number): number {
+    const { delayMs, maxDelayMs } = this.retry ?? DEFAULT_RETRY;
+    return Math.min(delayMs * 2 ** attempt, maxDelayMs);
+  }
+}
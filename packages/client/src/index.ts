@@ -0,0 +1,7 @@
+// Typed client for the HumanUI API
+export * from './client';
+export * from './entity';
+export * from './errors';
+export * from './http';
+export { getEntityVersion } from './version';
+export * from './generated/entities';
@@ -0,0 +1,21 @@
+// Versions of records read through the client, taken from the ETag of their response
+const versions = new WeakMap<object, string>();
+
+// Version from an ETag header, e.g. `"1700000000000"` or `W/"1700000000000"`
+export const parseETag = (etag?: string | null): string | undefined =>
+  etag ? etag.trim().replace(/^W\//, '').replace(/"/g, '') || undefined : undefined;
+
+// Remember the version a record was returned with; records without an ETag are left alone
+export function attachVersion<TRecord>(record: TRecord, etag?: string | null): TRecord {
+  const version = parseETag(etag);
+  if (version && record && typeof record === 'object') versions.set(record, version);
+  return record;
+}
+
+/**
+ * Version to send as If-Match when writing back a record returned by get, create,
+ * update, patch or restore, or the `current` copy of an ApiConflictError. Response
+ * bodies format dates for the locale, so the version is never derived from them.
+ */
+export const getEntityVersion = (entity: unknown): string | undefined =>
+  entity && typeof entity === 'object' ? versions.get(entity) : undefined;
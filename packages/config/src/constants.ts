@@ -2,7 +2,7 @@ export const APP_NAME = 'HumanUI';
 export const APP_VERSION = '0.0.0';
 
 export const API_ENDPOINTS = {
-  ITEMS: '/api/items',
+  ITEMS: '/api/item',
   USERS: '/api/users',
 } as const;
 
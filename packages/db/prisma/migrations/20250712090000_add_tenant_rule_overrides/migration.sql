@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "tenant_rule_overrides" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "entityName" TEXT NOT NULL,
+    "rules" JSONB NOT NULL DEFAULT '{}',
+    "updatedBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "tenant_rule_overrides_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "tenant_rule_overrides_tenantId_idx" ON "tenant_rule_overrides"("tenantId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "tenant_rule_overrides_tenantId_entityName_key" ON "tenant_rule_overrides"("tenantId", "entityName");
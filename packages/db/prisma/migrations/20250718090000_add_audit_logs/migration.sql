@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "audit_logs" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT,
+    "entityName" TEXT NOT NULL,
+    "entityId" TEXT NOT NULL,
+    "operation" TEXT NOT NULL,
+    "actor" TEXT,
+    "requestId" TEXT,
+    "changes" JSONB NOT NULL DEFAULT '{}',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "audit_logs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "audit_logs_tenantId_createdAt_idx" ON "audit_logs"("tenantId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "audit_logs_tenantId_entityName_entityId_idx" ON "audit_logs"("tenantId", "entityName", "entityId");
+
+-- CreateIndex
+CREATE INDEX "audit_logs_actor_idx" ON "audit_logs"("actor");
@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "entity_versions" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT,
+    "entityName" TEXT NOT NULL,
+    "entityId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "operation" TEXT NOT NULL,
+    "actor" TEXT,
+    "snapshot" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "entity_versions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "entity_versions_tenantId_entityName_entityId_createdAt_idx" ON "entity_versions"("tenantId", "entityName", "entityId", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "entity_versions_entityName_entityId_version_key" ON "entity_versions"("entityName", "entityId", "version");
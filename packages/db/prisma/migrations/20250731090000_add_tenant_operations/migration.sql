@@ -0,0 +1,27 @@
+-- AlterEnum
+ALTER TYPE "TenantStatus" ADD VALUE 'DELETING';
+
+-- CreateEnum
+CREATE TYPE "TenantOperationType" AS ENUM ('PROVISION', 'CLONE', 'PURGE');
+
+-- CreateEnum
+CREATE TYPE "TenantOperationStatus" AS ENUM ('RUNNING', 'COMPLETED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "tenant_operations" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "type" "TenantOperationType" NOT NULL,
+    "status" "TenantOperationStatus" NOT NULL DEFAULT 'RUNNING',
+    "progress" JSONB NOT NULL DEFAULT '{}',
+    "error" TEXT,
+    "startedBy" TEXT,
+    "completedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "tenant_operations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "tenant_operations_tenantId_createdAt_idx" ON "tenant_operations"("tenantId", "createdAt");
@@ -120,6 +120,31 @@ exports.Prisma.TransactionIsolationLevel = makeStrictEnum({
   Serializable: 'Serializable'
 });
 
+exports.Prisma.TenantScalarFieldEnum = {
+  id: 'id',
+  slug: 'slug',
+  name: 'name',
+  domain: 'domain',
+  status: 'status',
+  settings: 'settings',
+  suspendedAt: 'suspendedAt',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
+exports.Prisma.TenantOperationScalarFieldEnum = {
+  id: 'id',
+  tenantId: 'tenantId',
+  type: 'type',
+  status: 'status',
+  progress: 'progress',
+  error: 'error',
+  startedBy: 'startedBy',
+  completedAt: 'completedAt',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
 exports.Prisma.OrganizationScalarFieldEnum = {
   id: 'id',
   name: 'name',
@@ -227,23 +252,125 @@ exports.Prisma.UserScalarFieldEnum = {
   id: 'id',
   email: 'email',
   name: 'name',
+  username: 'username',
   organizationId: 'organizationId',
   tenantId: 'tenantId',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt'
 };
 
+exports.Prisma.TenantRuleOverrideScalarFieldEnum = {
+  id: 'id',
+  tenantId: 'tenantId',
+  entityName: 'entityName',
+  rules: 'rules',
+  updatedBy: 'updatedBy',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
+exports.Prisma.AuditLogScalarFieldEnum = {
+  id: 'id',
+  tenantId: 'tenantId',
+  entityName: 'entityName',
+  entityId: 'entityId',
+  operation: 'operation',
+  actor: 'actor',
+  requestId: 'requestId',
+  changes: 'changes',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.EntityVersionScalarFieldEnum = {
+  id: 'id',
+  tenantId: 'tenantId',
+  entityName: 'entityName',
+  entityId: 'entityId',
+  version: 'version',
+  operation: 'operation',
+  actor: 'actor',
+  snapshot: 'snapshot',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.OutboxEventScalarFieldEnum = {
+  id: 'id',
+  tenantId: 'tenantId',
+  type: 'type',
+  entityName: 'entityName',
+  entityId: 'entityId',
+  actor: 'actor',
+  payload: 'payload',
+  status: 'status',
+  attempts: 'attempts',
+  deliveredTo: 'deliveredTo',
+  lastError: 'lastError',
+  availableAt: 'availableAt',
+  processedAt: 'processedAt',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.WebhookSubscriptionScalarFieldEnum = {
+  id: 'id',
+  name: 'name',
+  description: 'description',
+  url: 'url',
+  events: 'events',
+  secret: 'secret',
+  isActive: 'isActive',
+  tenantId: 'tenantId',
+  createdBy: 'createdBy',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
+exports.Prisma.WebhookDeliveryScalarFieldEnum = {
+  id: 'id',
+  subscriptionId: 'subscriptionId',
+  tenantId: 'tenantId',
+  eventId: 'eventId',
+  eventType: 'eventType',
+  payload: 'payload',
+  status: 'status',
+  attempts: 'attempts',
+  responseStatus: 'responseStatus',
+  responseBody: 'responseBody',
+  lastError: 'lastError',
+  durationMs: 'durationMs',
+  availableAt: 'availableAt',
+  deliveredAt: 'deliveredAt',
+  redeliveryOfId: 'redeliveryOfId',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
+exports.Prisma.IdempotencyKeyScalarFieldEnum = {
+  id: 'id',
+  tenantId: 'tenantId',
+  key: 'key',
+  method: 'method',
+  path: 'path',
+  fingerprint: 'fingerprint',
+  lockedUntil: 'lockedUntil',
+  responseStatus: 'responseStatus',
+  responseBody: 'responseBody',
+  responseHeaders: 'responseHeaders',
+  completedAt: 'completedAt',
+  expiresAt: 'expiresAt',
+  createdAt: 'createdAt'
+};
+
 exports.Prisma.SortOrder = {
   asc: 'asc',
   desc: 'desc'
 };
 
-exports.Prisma.NullableJsonNullValueInput = {
-  DbNull: Prisma.DbNull,
+exports.Prisma.JsonNullValueInput = {
   JsonNull: Prisma.JsonNull
 };
 
-exports.Prisma.JsonNullValueInput = {
+exports.Prisma.NullableJsonNullValueInput = {
+  DbNull: Prisma.DbNull,
   JsonNull: Prisma.JsonNull
 };
 
@@ -262,6 +389,24 @@ exports.Prisma.NullsOrder = {
   first: 'first',
   last: 'last'
 };
+exports.TenantStatus = exports.$Enums.TenantStatus = {
+  ACTIVE: 'ACTIVE',
+  SUSPENDED: 'SUSPENDED',
+  DELETING: 'DELETING'
+};
+
+exports.TenantOperationType = exports.$Enums.TenantOperationType = {
+  PROVISION: 'PROVISION',
+  CLONE: 'CLONE',
+  PURGE: 'PURGE'
+};
+
+exports.TenantOperationStatus = exports.$Enums.TenantOperationStatus = {
+  RUNNING: 'RUNNING',
+  COMPLETED: 'COMPLETED',
+  FAILED: 'FAILED'
+};
+
 exports.ItemStatus = exports.$Enums.ItemStatus = {
   DRAFT: 'DRAFT',
   ACTIVE: 'ACTIVE',
@@ -276,13 +421,36 @@ exports.Priority = exports.$Enums.Priority = {
   URGENT: 'URGENT'
 };
 
+exports.OutboxStatus = exports.$Enums.OutboxStatus = {
+  PENDING: 'PENDING',
+  PROCESSING: 'PROCESSING',
+  DELIVERED: 'DELIVERED',
+  DEAD: 'DEAD'
+};
+
+exports.WebhookDeliveryStatus = exports.$Enums.WebhookDeliveryStatus = {
+  PENDING: 'PENDING',
+  PROCESSING: 'PROCESSING',
+  SUCCEEDED: 'SUCCEEDED',
+  DEAD: 'DEAD'
+};
+
 exports.Prisma.ModelName = {
+  Tenant: 'Tenant',
+  TenantOperation: 'TenantOperation',
   Organization: 'Organization',
   Store: 'Store',
   Category: 'Category',
   Item: 'Item',
   ItemAttribute: 'ItemAttribute',
-  User: 'User'
+  User: 'User',
+  TenantRuleOverride: 'TenantRuleOverride',
+  AuditLog: 'AuditLog',
+  EntityVersion: 'EntityVersion',
+  OutboxEvent: 'OutboxEvent',
+  WebhookSubscription: 'WebhookSubscription',
+  WebhookDelivery: 'WebhookDelivery',
+  IdempotencyKey: 'IdempotencyKey'
 };
 
 /**
@@ -1,6 +1,6 @@
 export * from './generated';
 
-import { PrismaClient, ItemStatus, Priority } from './generated';
+import { PrismaClient, ItemStatus, Priority, OutboxStatus, WebhookDeliveryStatus, TenantStatus, TenantOperationType, TenantOperationStatus } from './generated';
 
 declare global {
   var __prisma: PrismaClient | undefined;
@@ -13,5 +13,5 @@ if (process.env.NODE_ENV !== 'production') {
 }
 
 // Re-export enums for use in other packages
-export { ItemStatus, Priority };
+export { ItemStatus, Priority, OutboxStatus, WebhookDeliveryStatus, TenantStatus, TenantOperationType, TenantOperationStatus };
 export * from './tenant'; 
\ No newline at end of file
@@ -0,0 +1,25 @@
+import { BulkOperationHandlers } from '../core/Bulk';
+import { ValidationError } from '../core/Errors';
+
+const requireId = (id: string | undefined, op: string) => {
+  if (!id) throw ValidationError.forField('id', 'required', `id is required for ${op}`);
+  return id;
+};
+
+// Category operations for POST /api/category/bulk, next to the standard ones
+export const categoryBulkOperations: BulkOperationHandlers = {
+  publish: ({ id }, { write }) => write(requireId(id, 'publish'), { isPublished: true }),
+
+  unpublish: ({ id }, { write }) => write(requireId(id, 'unpublish'), { isPublished: false }),
+
+  // Parent-only moves go through update() so the parent rules apply; storeId is not in the entity schema
+  move: ({ id, data, version }, { service, write, tenantId }) => {
+    if (!data?.parentId && !data?.storeId) {
+      throw ValidationError.forField('data', 'required', 'Target parentId or storeId is required for move');
+    }
+    if (data.storeId) {
+      return write(requireId(id, 'move'), { storeId: data.storeId, ...(data.parentId !== undefined && { parentId: data.parentId }) });
+    }
+    return service.update(requireId(id, 'move'), { parentId: data.parentId }, tenantId, { expectedVersion: version });
+  },
+};
@@ -0,0 +1,15 @@
+import { ItemStatus } from '@humanui/db';
+import { ComputedFields, countByForeignKey } from '../core/ComputedFields';
+
+export const categoryComputedFields: ComputedFields = {
+  itemCount: {
+    type: 'number',
+    description: 'Items in the category, excluding deleted items',
+    // One groupBy for the whole page
+    batch: (categories, { prisma, tenantId }) =>
+      countByForeignKey(prisma, 'Item', 'categoryId', categories.map(category => category.id), {
+        tenantId: tenantId ?? null,
+        status: { not: ItemStatus.DELETED },
+      }),
+  },
+};
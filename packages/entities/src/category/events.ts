@@ -0,0 +1,27 @@
+import { EntityEventDefinitions, EntityEventPayload } from '../core/EventBus';
+
+export interface CategoryMovedPayload extends EntityEventPayload {
+  fromParentId: string | null;
+  toParentId: string | null;
+  fromStoreId: string;
+  toStoreId: string;
+}
+
+// Emitted when a category gets a new parent or moves to another store
+export const categoryEvents: EntityEventDefinitions = {
+  moved: {
+    when: change => change.operation === 'update' && ('parentId' in change.changes || 'storeId' in change.changes),
+    payload: change => ({
+      fromParentId: change.before?.parentId ?? null,
+      toParentId: change.after?.parentId ?? null,
+      fromStoreId: change.before?.storeId,
+      toStoreId: change.after?.storeId,
+    }),
+  },
+};
+
+declare module '../core/EventBus' {
+  interface DomainEvents {
+    'category.moved': CategoryMovedPayload;
+  }
+}
@@ -1,11 +1,20 @@
-import { z } from 'zod';
 import { entityRegistry } from '../core/EntityRegistry';
 import { TenantRules, BusinessLogic } from '../core/SchemaBuilder';
+import { categorySchema } from './schema';
+import { parentCategoryValidator } from './validators';
+import { categoryComputedFields } from './computed';
+import { categoryEvents } from './events';
+import { categoryBulkOperations } from './bulk';
 
 // Export Category entity
 export * from './schema';
 export * from './config';
 export { CategoryService } from './service';
+export { parentCategoryValidator } from './validators';
+export { categoryComputedFields } from './computed';
+export { categoryEvents } from './events';
+export { categoryBulkOperations } from './bulk';
+export type { CategoryMovedPayload } from './events';
 // Export types separately to avoid conflicts
 export type {
   CategoryStatus,
@@ -21,31 +30,18 @@ export type {
   ICategoryService
 } from './types';
 
-// Category schema with proper nullable fields
-export const categorySchema = z.object({
-  id: z.string().cuid(),
-  name: z.string().min(1).max(255),
-  description: z.string().nullable(),
-  slug: z.string().min(1).max(255),
-  parentId: z.string().cuid().nullable(),
-  metadata: z.any().nullable(),
-  isActive: z.boolean().default(true),
-  tenantId: z.string().nullable(),
-  createdAt: z.date(),
-  updatedAt: z.date(),
-});
-
-export type Category = z.infer<typeof categorySchema>;
-
 // Tenant rules for category
 const categoryTenantRules: TenantRules = {
-  requiredFields: ['name', 'slug'],
-  optionalFields: ['description', 'parentId', 'metadata'],
+  requiredFields: ['name', 'slug', 'organizationId', 'storeId'],
+  optionalFields: ['description', 'imageUrl', 'isPublished', 'parentId', 'sortOrder'],
   uniqueConstraints: ['slug'],
   validationRules: {
     name: { minLength: 1, maxLength: 255 },
     slug: { pattern: '^[a-z0-9-]+$' },
   },
+  customValidators: {
+    parentId: parentCategoryValidator,
+  },
 };
 
 // Business logic for category
@@ -77,20 +73,33 @@ const categoryBusinessLogic: BusinessLogic = {
 // Register category entity
 entityRegistry.registerEntity({
   name: 'category',
+  model: 'Category',
   schema: categorySchema,
   tenantRules: categoryTenantRules,
   businessLogic: categoryBusinessLogic,
+  computed: categoryComputedFields,
+  events: categoryEvents,
+  bulkOperations: categoryBulkOperations,
+  relations: {
+    organization: { model: 'Organization', type: 'one' },
+    store: { model: 'Store', type: 'one' },
+    parent: { model: 'Category', type: 'one' },
+    children: { model: 'Category', type: 'many' },
+    items: { model: 'Item', type: 'many' },
+  },
   displayName: 'Categories',
   description: 'Product categories and classifications',
   icon: 'folder',
   color: 'blue',
 });
 
+declare module '../core/EntityRegistry' {
+  interface RegisteredEntities {
+    category: typeof categorySchema;
+  }
+}
+
 // Export the service generator
 export const createCategoryService = () => {
-  return entityRegistry.generateService('Category');
+  return entityRegistry.generateService('category');
 };
-
-// Export types
-export type CreateCategory = Omit<Category, 'id' | 'createdAt' | 'updatedAt'>;
-export type UpdateCategory = Partial<CreateCategory> & { id: string }; 
\ No newline at end of file
@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { cursorPaginationQuerySchema } from '../core/CursorPagination';
 
 // Base category schema - updated to match Prisma types
 export const categorySchema = z.object({
@@ -45,7 +46,7 @@ export const categoryQuerySchema = z.object({
   limit: z.number().min(1).max(100).default(20),
   sortBy: z.enum(['name', 'sortOrder', 'createdAt', 'updatedAt']).default('sortOrder'),
   sortOrder: z.enum(['asc', 'desc']).default('asc'),
-});
+}).merge(cursorPaginationQuerySchema);
 
 // Category response schema
 export const categoryResponseSchema = categorySchema;
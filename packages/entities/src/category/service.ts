@@ -1,6 +1,11 @@
 import { PrismaClient } from '@humanui/db';
 import { Category, CreateCategory, UpdateCategory, CategoryQuery, CategoryTreeNode, CategoryStats, CategoryBulkOperation, CategoryImportData, CategoryExportData } from './types';
 import { categorySchema, createCategorySchema, updateCategorySchema, categoryQuerySchema } from './schema';
+import { paginateByCursor, ServiceListResult } from '../core/CursorPagination';
+import { NotFoundError, ValidationError, BusinessLogicError, toEntityError } from '../core/Errors';
+import { recordEntityChange, recordBulkChanges } from '../core/ChangeLog';
+import { tenantRuleEngine, RuleOperation } from '../core/RuleEngine';
+import { parentCategoryValidator } from './validators';
 
 export class CategoryService {
   private prisma: PrismaClient;
@@ -25,44 +30,56 @@ export class CategoryService {
     });
 
     if (existingCategory) {
-      throw new Error(`Category with slug "${validatedData.slug}" already exists in this store`);
+      throw ValidationError.forField('slug', 'unique', `Category with slug "${validatedData.slug}" already exists in this store`);
     }
 
     // Check if parent category exists and belongs to the same store
-    if (validatedData.parentId) {
-      const parentCategory = await this.prisma.category.findFirst({
-        where: {
-          id: validatedData.parentId,
+    await this.validateParent(validatedData, 'create', tenantId);
+
+    const category = await this.prisma.$transaction(async tx => {
+      const row = await tx.category.create({
+        data: {
+          name: validatedData.name,
+          description: validatedData.description,
+          slug: validatedData.slug,
+          imageUrl: validatedData.imageUrl,
+          isActive: validatedData.isActive,
+          isPublished: validatedData.isPublished,
+          parentId: validatedData.parentId,
+          sortOrder: validatedData.sortOrder,
+          organizationId: validatedData.organizationId,
           storeId: validatedData.storeId,
           tenantId: tenantId || null,
+          createdBy: validatedData.createdBy,
         },
       });
-
-      if (!parentCategory) {
-        throw new Error('Parent category not found or does not belong to the same store');
-      }
-    }
-
-    const category = await this.prisma.category.create({
-      data: {
-        name: validatedData.name,
-        description: validatedData.description,
-        slug: validatedData.slug,
-        imageUrl: validatedData.imageUrl,
-        isActive: validatedData.isActive,
-        isPublished: validatedData.isPublished,
-        parentId: validatedData.parentId,
-        sortOrder: validatedData.sortOrder,
-        organizationId: validatedData.organizationId,
-        storeId: validatedData.storeId,
-        tenantId: tenantId || null,
-        createdBy: validatedData.createdBy,
-      },
+      await recordEntityChange(tx, { entityName: 'category', entityId: row.id, operation: 'create', tenantId, after: row });
+      return row;
     });
 
     return category;
   }
 
+  /**
+   * Run the shared parent category validator used by the generic service
+   */
+  private async validateParent(
+    data: Partial<CreateCategory>,
+    operation: RuleOperation,
+    tenantId?: string,
+    existing?: Category
+  ): Promise<void> {
+    const errors = await tenantRuleEngine.evaluate(
+      data,
+      { customValidators: { parentId: parentCategoryValidator } },
+      { operation, tenantId, existing, prisma: this.prisma }
+    );
+
+    if (errors.length > 0) {
+      throw new ValidationError(errors[0].message, errors);
+    }
+  }
+
   /**
    * Find category by ID
    */
@@ -89,15 +106,9 @@ export class CategoryService {
   /**
    * List categories with filtering and pagination
    */
-  async list(query: CategoryQuery, tenantId?: string): Promise<{
-    categories: Category[];
-    total: number;
-    page: number;
-    limit: number;
-    totalPages: number;
-  }> {
+  async list(query: CategoryQuery, tenantId?: string): Promise<ServiceListResult<'categories', Category>> {
     const validatedQuery = categoryQuerySchema.parse(query);
-    const { page, limit, search, isActive, isPublished, parentId, organizationId, storeId, sortBy, sortOrder } = validatedQuery;
+    const { page, limit, search, isActive, isPublished, parentId, organizationId, storeId, sortBy, sortOrder, pagination, cursor, includeTotal } = validatedQuery;
 
     const where: any = {
       tenantId: tenantId || null,
@@ -131,17 +142,32 @@ export class CategoryService {
       where.storeId = storeId;
     }
 
+    const include = {
+      parent: true,
+      _count: {
+        select: {
+          children: true,
+        },
+      },
+    };
+
+    // Opt-in keyset pagination, stable for large tables
+    if (pagination === 'cursor') {
+      const { items, ...page } = await paginateByCursor<Category>(this.prisma.category, {
+        where,
+        include,
+        orderBy: [{ [sortBy]: sortOrder }],
+        limit,
+        cursor,
+        includeTotal,
+      });
+      return { categories: items, ...page };
+    }
+
     const [categories, total] = await Promise.all([
       this.prisma.category.findMany({
         where,
-        include: {
-          parent: true,
-          _count: {
-            select: {
-              children: true,
-            },
-          },
-        },
+        include,
         orderBy: {
           [sortBy]: sortOrder,
         },
@@ -177,7 +203,7 @@ export class CategoryService {
     });
 
     if (!existingCategory) {
-      throw new Error('Category not found');
+      throw new NotFoundError('Category', id);
     }
 
     // Check if slug is unique (if being updated)
@@ -192,37 +218,26 @@ export class CategoryService {
       });
 
       if (slugExists) {
-        throw new Error(`Category with slug "${validatedData.slug}" already exists in this store`);
+        throw ValidationError.forField('slug', 'unique', `Category with slug "${validatedData.slug}" already exists in this store`);
       }
     }
 
-    // Check if parent category exists and belongs to the same store
+    // Check if parent category exists, belongs to the same store and is not the category itself
     if (validatedData.parentId && validatedData.parentId !== existingCategory.parentId) {
-      const parentCategory = await this.prisma.category.findFirst({
-        where: {
-          id: validatedData.parentId,
-          storeId: existingCategory.storeId,
-          tenantId: tenantId || null,
-        },
-      });
-
-      if (!parentCategory) {
-        throw new Error('Parent category not found or does not belong to the same store');
-      }
-
-      // Prevent circular references
-      if (validatedData.parentId === id) {
-        throw new Error('Category cannot be its own parent');
-      }
+      await this.validateParent(validatedData, 'update', tenantId, existingCategory);
     }
 
-    const category = await this.prisma.category.update({
-      where: { id },
-      data: validatedData,
-      include: {
-        parent: true,
-        children: true,
-      },
+    const category = await this.prisma.$transaction(async tx => {
+      const row = await tx.category.update({
+        where: { id },
+        data: validatedData,
+        include: {
+          parent: true,
+          children: true,
+        },
+      });
+      await recordEntityChange(tx, { entityName: 'category', entityId: id, operation: 'update', tenantId, before: existingCategory, after: row });
+      return row;
     });
 
     return category;
@@ -240,7 +255,7 @@ export class CategoryService {
     });
 
     if (!category) {
-      throw new Error('Category not found');
+      throw new NotFoundError('Category', id);
     }
 
     // Check if category has children
@@ -252,12 +267,16 @@ export class CategoryService {
     });
 
     if (hasChildren) {
-      throw new Error('Cannot delete category with children. Please move or delete children first.');
+      throw new BusinessLogicError('Cannot delete category with children. Please move or delete children first.');
     }
 
-    await this.prisma.category.update({
-      where: { id },
-      data: { isActive: false, isPublished: false },
+    await this.prisma.$transaction(async tx => {
+      const row = await tx.category.update({
+        where: { id },
+        data: { isActive: false, isPublished: false },
+      });
+      await recordEntityChange(tx, { entityName: 'category', entityId: id, operation: 'delete', tenantId, before: category, after: row });
+      return row;
     });
 
     return true;
@@ -390,63 +409,69 @@ export class CategoryService {
     });
 
     if (categories.length !== ids.length) {
-      throw new Error('Some categories not found or do not belong to the tenant');
+      throw new NotFoundError('One or more categories');
     }
 
-    switch (op) {
-      case 'activate':
-        await this.prisma.category.updateMany({
-          where: { id: { in: ids } },
-          data: { isActive: true },
-        });
-        break;
-
-      case 'deactivate':
-        await this.prisma.category.updateMany({
-          where: { id: { in: ids } },
-          data: { isActive: false, isPublished: false },
-        });
-        break;
-
-      case 'publish':
-        await this.prisma.category.updateMany({
-          where: { id: { in: ids } },
-          data: { isPublished: true },
-        });
-        break;
-
-      case 'unpublish':
-        await this.prisma.category.updateMany({
-          where: { id: { in: ids } },
-          data: { isPublished: false },
-        });
-        break;
-
-      case 'delete':
-        await this.prisma.category.updateMany({
-          where: { id: { in: ids } },
-          data: { isActive: false, isPublished: false },
-        });
-        break;
-
-      case 'move':
-        if (!targetParentId && !targetStoreId) {
-          throw new Error('Target parent ID or store ID is required for move operation');
-        }
+    await this.prisma.$transaction(async tx => {
+      switch (op) {
+        case 'activate':
+          await tx.category.updateMany({
+            where: { id: { in: ids } },
+            data: { isActive: true },
+          });
+          break;
+
+        case 'deactivate':
+          await tx.category.updateMany({
+            where: { id: { in: ids } },
+            data: { isActive: false, isPublished: false },
+          });
+          break;
+
+        case 'publish':
+          await tx.category.updateMany({
+            where: { id: { in: ids } },
+            data: { isPublished: true },
+          });
+          break;
+
+        case 'unpublish':
+          await tx.category.updateMany({
+            where: { id: { in: ids } },
+            data: { isPublished: false },
+          });
+          break;
+
+        case 'delete':
+          await tx.category.updateMany({
+            where: { id: { in: ids } },
+            data: { isActive: false, isPublished: false },
+          });
+          break;
+
+        case 'move':
+          if (!targetParentId && !targetStoreId) {
+            throw ValidationError.forField('data', 'required', 'Target parent ID or store ID is required for move operation');
+          }
         
-        const updateData: any = {};
-        if (targetParentId) updateData.parentId = targetParentId;
-        if (targetStoreId) updateData.storeId = targetStoreId;
-
-        await this.prisma.category.updateMany({
-          where: { id: { in: ids } },
-          data: updateData,
-        });
-        break;
-
-      default:
-        throw new Error(`Unknown operation: ${op}`);
-    }
+          const updateData: any = {};
+          if (targetParentId) updateData.parentId = targetParentId;
+          if (targetStoreId) updateData.storeId = targetStoreId;
+
+          await tx.category.updateMany({
+            where: { id: { in: ids } },
+            data: updateData,
+          });
+          break;
+
+        default:
+          throw ValidationError.forField('operation', 'enum', `Unknown operation: ${op}`);
+      }
+
+      // One audit entry per row; a bulk delete deactivates like delete()
+      const updated = await tx.category.findMany({ where: { id: { in: ids } } });
+      await recordBulkChanges(tx, 'category', op === 'delete' ? 'delete' : 'update', categories, updated, tenantId);
+    });
 
     return true;
   }
@@ -490,7 +515,8 @@ export class CategoryService {
         importedCategories.push(category);
       } catch (error) {
         console.error(`Failed to import category ${item.name}:`, error);
-        throw new Error(`Failed to import category ${item.name}: ${error}`);
+        const cause = toEntityError(error);
+        throw new BusinessLogicError(`Failed to import category ${item.name}: ${cause.message}`, { fields: cause.fields, cause: error });
       }
     }
 
@@ -1,5 +1,6 @@
 import { z } from 'zod';
 import { categorySchema, createCategorySchema, updateCategorySchema, categoryQuerySchema } from './schema';
+import { ServiceListResult } from '../core/CursorPagination';
 
 // Re-export schema types
 export type Category = z.infer<typeof categorySchema>;
@@ -110,13 +111,7 @@ export interface CategoryValidationError {
 export interface ICategoryService {
   create(data: CreateCategory, tenantId?: string): Promise<Category>;
   findById(id: string, tenantId?: string): Promise<Category | null>;
-  list(query: CategoryQuery, tenantId?: string): Promise<{
-    categories: Category[];
-    total: number;
-    page: number;
-    limit: number;
-    totalPages: number;
-  }>;
+  list(query: CategoryQuery, tenantId?: string): Promise<ServiceListResult<'categories', Category>>;
   update(id: string, data: UpdateCategory, tenantId?: string): Promise<Category>;
   delete(id: string, tenantId?: string): Promise<boolean>;
   getTree(storeId: string, tenantId?: string): Promise<CategoryTreeNode[]>;
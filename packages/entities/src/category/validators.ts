@@ -0,0 +1,34 @@
+import { CustomValidator } from '../core/SchemaBuilder';
+
+/**
+ * Parent category must exist in the tenant, belong to the same store
+ * and must not be the category itself
+ */
+export const parentCategoryValidator: CustomValidator = async (parentId, { record, existing, tenantId, prisma }) => {
+  if (!parentId || !prisma) return true;
+
+  if (existing?.id && parentId === existing.id) {
+    return { message: 'Category cannot be its own parent', code: 'CATEGORY_SELF_PARENT' };
+  }
+
+  const parent = await prisma.category.findFirst({
+    where: {
+      id: parentId,
+      tenantId: tenantId || null,
+    },
+    select: { id: true, storeId: true },
+  });
+
+  if (!parent) {
+    return { message: 'Parent category not found', code: 'PARENT_CATEGORY_NOT_FOUND' };
+  }
+
+  if (record.storeId && parent.storeId !== record.storeId) {
+    return {
+      message: 'Parent category not found or does not belong to the same store',
+      code: 'PARENT_CATEGORY_STORE_MISMATCH',
+    };
+  }
+
+  return true;
+};
@@ -0,0 +1,192 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { z } from 'zod';
+import { Prisma, PrismaClient } from '@humanui/db';
+import { DatabaseClient, ListResult } from './SchemaBuilder';
+import { InternalError } from './Errors';
+
+export type AuditOperation = 'create' | 'update' | 'delete' | 'purge' | 'restore';
+
+// A type alias rather than an interface, so change sets convert to a JSON column value
+export type AuditFieldChange = {
+  before: unknown;
+  after: unknown;
+};
+
+// Changed fields keyed by name
+export type AuditChanges = Record<string, AuditFieldChange>;
+
+// Who is making the current changes; set once per request
+export interface AuditContext {
+  actor?: string;
+  requestId?: string;
+}
+
+// A mutation to record; `before` is null for creates, `after` is null for purges
+export interface AuditEntry {
+  entityName: string;
+  entityId: string;
+  operation: AuditOperation;
+  tenantId?: string;
+  before?: Record<string, any> | null;
+  after?: Record<string, any> | null;
+}
+
+export interface AuditLogRecord {
+  id: string;
+  tenantId: string | null;
+  entityName: string;
+  entityId: string;
+  operation: string;
+  actor: string | null;
+  requestId: string | null;
+  changes: AuditChanges;
+  createdAt: Date;
+}
+
+// Filters for the tenant-wide audit log; history for one record uses entityName + entityId
+export const auditLogQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  entity: z.string().optional(),
+  entityId: z.string().optional(),
+  actor: z.string().optional(),
+  operation: z.enum(['create', 'update', 'delete', 'purge', 'restore']).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  order: z.enum(['asc', 'desc']).default('desc'),
+});
+
+export type AuditLogQuery = z.input<typeof auditLogQuerySchema>;
+
+// Maintained by the database, so not worth a diff entry
+const IGNORED_FIELDS = new Set(['updatedAt']);
+
+const normalize = (value: unknown): unknown => {
+  if (value instanceof Date) return value.toISOString();
+  return value === undefined ? null : value;
+};
+
+const isEqual = (a: unknown, b: unknown) => JSON.stringify(normalize(a)) === JSON.stringify(normalize(b));
+
+/**
+ * Field-level diff between two versions of a row. Either side may be null,
+ * e.g. for a create every stored field is reported with `before: null`.
+ * When both are given only the fields of `before` are compared, so relations
+ * included in a service's return value are not reported as changes.
+ */
+export function diffEntities(
+  before: Record<string, any> | null | undefined,
+  after: Record<string, any> | null | undefined
+): AuditChanges {
+  const changes: AuditChanges = {};
+  const fields = Object.keys(before ?? after ?? {});
+
+  for (const field of fields) {
+    if (IGNORED_FIELDS.has(field)) continue;
+
+    const previous = before?.[field];
+    const next = after?.[field];
+    if (!isEqual(previous, next)) {
+      changes[field] = { before: normalize(previous), after: normalize(next) };
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Records entity mutations with the actor from the current request context.
+ * Writes go through the client passed in, so changes made inside a transaction
+ * are only logged when it commits.
+ */
+export class AuditRecorder {
+  private prisma?: PrismaClient;
+  private storage = new AsyncLocalStorage<AuditContext>();
+
+  setPrisma(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  // Run `fn` with `context` as the source of the actor for every change it makes
+  run<T>(context: AuditContext, fn: () => T): T {
+    return this.storage.run(context, fn);
+  }
+
+  getContext(): AuditContext {
+    return this.storage.getStore() ?? {};
+  }
+
+  async record(client: DatabaseClient, entry: AuditEntry): Promise<void> {
+    await this.recordMany(client, [entry]);
+  }
+
+  // Updates that change nothing are skipped
+  async recordMany(client: DatabaseClient, entries: AuditEntry[]): Promise<void> {
+    const { actor, requestId } = this.getContext();
+
+    const rows = entries
+      .map(entry => ({ entry, changes: diffEntities(entry.before, entry.after) }))
+      .filter(({ entry, changes }) => entry.operation !== 'update' || Object.keys(changes).length > 0)
+      .map(({ entry, changes }) => ({
+        tenantId: entry.tenantId ?? null,
+        entityName: entry.entityName.toLowerCase(),
+        entityId: entry.entityId,
+        operation: entry.operation,
+        actor: actor ?? null,
+        requestId: requestId ?? null,
+        changes: changes as Prisma.InputJsonValue,
+      }));
+
+    if (rows.length > 0) {
+      await client.auditLog.createMany({ data: rows });
+    }
+  }
+
+  // Changes to one record
+  async history(
+    entityName: string,
+    entityId: string,
+    tenantId?: string,
+    query: AuditLogQuery = {}
+  ): Promise<ListResult<AuditLogRecord>> {
+    return this.list(tenantId, { ...query, entity: entityName, entityId });
+  }
+
+  // Tenant-wide audit log, newest first unless order=asc
+  async list(tenantId?: string, query: AuditLogQuery = {}): Promise<ListResult<AuditLogRecord>> {
+    if (!this.prisma) {
+      throw new InternalError('Audit log has no database client; call auditLog.setPrisma() first');
+    }
+
+    const { page, limit, entity, entityId, actor, operation, from, to, order } = auditLogQuerySchema.parse(query);
+    const where = {
+      tenantId: tenantId ?? null,
+      ...(entity && { entityName: entity.toLowerCase() }),
+      ...(entityId && { entityId }),
+      ...(actor && { actor }),
+      ...(operation && { operation }),
+      ...((from || to) && { createdAt: { ...(from && { gte: from }), ...(to && { lte: to }) } }),
+    };
+
+    const [total, items] = await Promise.all([
+      this.prisma.auditLog.count({ where }),
+      this.prisma.auditLog.findMany({
+        where,
+        orderBy: [{ createdAt: order }, { id: order }],
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+    ]);
+
+    return {
+      items: items.map(item => ({ ...item, changes: item.changes as unknown as AuditChanges })),
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+}
+
+// Global audit recorder instance
+export const auditLog = new AuditRecorder();
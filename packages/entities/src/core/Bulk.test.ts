@@ -0,0 +1,144 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { z } from 'zod';
+import { PrismaClient } from '@humanui/db';
+import { BaseService, getEntityVersion } from './SchemaBuilder';
+import { BulkOperationHandlers } from './Bulk';
+import { ValidationError } from './Errors';
+
+// The shared client in @humanui/db loads the query engine on import; only the generated types and enums are needed
+vi.mock('@humanui/db', () => import('../../../db/src/generated'));
+
+// Auditing and versioning have their own storage; these tests only cover the writes themselves
+vi.mock('./ChangeLog', () => ({ recordEntityChange: vi.fn() }));
+vi.mock('./Versioning', () => ({ versionStore: { record: vi.fn() } }));
+
+const schema = z.object({
+  id: z.string(),
+  tenantId: z.string().nullable(),
+  name: z.string(),
+  slug: z.string(),
+  isActive: z.boolean(),
+  updatedAt: z.date(),
+});
+
+type Row = z.infer<typeof schema>;
+
+const matches = (row: Row, where: Record<string, unknown>): boolean =>
+  Object.entries(where).every(([field, value]) =>
+    field === 'AND'
+      ? (value as Record<string, unknown>[]).every(part => matches(row, part))
+      : row[field as keyof Row] === value
+  );
+
+// In-memory Organization table whose transactions put the rows back when they throw
+function createClient(rows: Row[]) {
+  const organization = {
+    async findFirst({ where }: { where: Record<string, unknown> }) {
+      const found = rows.find(row => matches(row, where));
+      return found ? { ...found } : null;
+    },
+    async updateMany({ where, data }: { where: Record<string, unknown>; data: Partial<Row> }) {
+      const matched = rows.filter(row => matches(row, where));
+      for (const row of matched) Object.assign(row, data, { updatedAt: new Date(row.updatedAt.getTime() + 1000) });
+      return { count: matched.length };
+    },
+  };
+  const client = {
+    organization,
+    async $transaction(fn: (tx: unknown) => Promise<unknown>) {
+      const snapshot = rows.map(row => ({ ...row }));
+      try {
+        return await fn(client);
+      } catch (error) {
+        rows.splice(0, rows.length, ...snapshot);
+        throw error;
+      }
+    },
+  };
+  return client as unknown as PrismaClient;
+}
+
+const bulkOperations: BulkOperationHandlers = {
+  rename: (operation, { write }) => write(operation.id!, { name: operation.data?.name }),
+};
+
+const row = (id: string, name: string): Row => ({
+  id,
+  tenantId: 'tenant-a',
+  name,
+  slug: id,
+  isActive: true,
+  updatedAt: new Date('2025-01-02T00:00:00Z'),
+});
+
+const operations = [
+  { op: 'rename', id: 'org-1', data: { name: 'Acme Inc' } },
+  { op: 'rename', id: 'missing', data: { name: 'Ghost' } },
+  { op: 'rename', id: 'org-2', data: { name: 'Globex Inc' } },
+];
+
+describe('BaseService.bulk', () => {
+  let rows: Row[];
+  let service: BaseService<typeof schema, 'Organization'>;
+
+  beforeEach(() => {
+    rows = [row('org-1', 'Acme'), row('org-2', 'Globex')];
+    service = new BaseService(
+      schema, {}, undefined, 'Organization', 'Organization', { strategy: 'flag', field: 'isActive' }, undefined, {}, bulkOperations
+    );
+    service.setPrisma(createClient(rows));
+  });
+
+  it('rolls back every row of an atomic request when one fails', async () => {
+    const result = await service.bulk({ mode: 'atomic', operations }, 'tenant-a');
+
+    expect(result).toMatchObject({ mode: 'atomic', committed: false, succeeded: 0, failed: 1 });
+    expect(result.results.map(({ status }) => status)).toEqual(['rolledBack', 'failed', 'skipped']);
+    expect(result.results[1].error).toMatchObject({ code: 'NOT_FOUND' });
+    expect(rows.map(({ name }) => name)).toEqual(['Acme', 'Globex']);
+  });
+
+  it('keeps the rows that succeed in a best-effort request', async () => {
+    const result = await service.bulk({ mode: 'bestEffort', operations }, 'tenant-a');
+
+    expect(result).toMatchObject({ mode: 'bestEffort', committed: true, succeeded: 2, failed: 1 });
+    expect(result.results.map(({ status }) => status)).toEqual(['succeeded', 'failed', 'succeeded']);
+    expect(rows.map(({ name }) => name)).toEqual(['Acme Inc', 'Globex Inc']);
+  });
+
+  it('commits an atomic request when every row succeeds', async () => {
+    const result = await service.bulk({ operations: [operations[0], operations[2]] }, 'tenant-a');
+
+    expect(result).toMatchObject({ mode: 'atomic', committed: true, succeeded: 2, failed: 0 });
+    expect(rows.map(({ name }) => name)).toEqual(['Acme Inc', 'Globex Inc']);
+  });
+
+  it('does not touch rows of another tenant', async () => {
+    const result = await service.bulk({ mode: 'bestEffort', operations: [operations[0]] }, 'tenant-b');
+
+    expect(result.results[0]).toMatchObject({ status: 'failed', error: { code: 'NOT_FOUND' } });
+    expect(rows[0].name).toBe('Acme');
+  });
+
+  it('fails rows whose version is stale', async () => {
+    const current = getEntityVersion(rows[0]);
+    const result = await service.bulk({
+      mode: 'bestEffort',
+      operations: [
+        { ...operations[0], version: '1' },
+        { ...operations[2], id: 'org-1', version: current },
+      ],
+    }, 'tenant-a');
+
+    expect(result.results.map(({ status }) => status)).toEqual(['failed', 'succeeded']);
+    expect(result.results[0].error).toMatchObject({ code: 'CONFLICT' });
+    expect(rows[0].name).toBe('Globex Inc');
+  });
+
+  it('rejects unknown operations before running any row', async () => {
+    await expect(
+      service.bulk({ operations: [operations[0], { op: 'archive', id: 'org-2' }] }, 'tenant-a')
+    ).rejects.toBeInstanceOf(ValidationError);
+    expect(rows[0].name).toBe('Acme');
+  });
+});
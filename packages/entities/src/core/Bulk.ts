@@ -0,0 +1,93 @@
+import { z } from 'zod';
+import { BaseService, DatabaseClient } from './SchemaBuilder';
+import { ErrorPayload, toEntityError } from './Errors';
+
+// Rows accepted by one bulk request
+export const MAX_BULK_OPERATIONS = 500;
+
+// Atomic requests run in one transaction, which may take longer than a single write
+export const BULK_TRANSACTION_TIMEOUT_MS = 60 * 1000;
+
+export const STANDARD_BULK_OPERATIONS = ['create', 'update', 'patch', 'delete', 'restore'] as const;
+
+export const bulkOperationSchema = z.object({
+  // A standard operation or one of the entity's bulkOperations
+  op: z.string().min(1),
+  id: z.string().min(1).optional(),
+  data: z.record(z.any()).optional(),
+  // Version the caller last read, as in If-Match; stale rows fail with CONFLICT
+  version: z.string().optional(),
+});
+
+export const bulkRequestSchema = z.object({
+  // atomic: all rows or none; bestEffort: each row on its own
+  mode: z.enum(['atomic', 'bestEffort']).default('atomic'),
+  operations: z.array(bulkOperationSchema).min(1).max(MAX_BULK_OPERATIONS),
+});
+
+export type BulkMode = z.infer<typeof bulkRequestSchema>['mode'];
+export type BulkOperation = z.infer<typeof bulkOperationSchema>;
+export type BulkRequest = z.input<typeof bulkRequestSchema>;
+
+// rolledBack: succeeded, then undone because a later row failed an atomic request
+export type BulkRowStatus = 'succeeded' | 'failed' | 'rolledBack' | 'skipped';
+
+export interface BulkRowResult {
+  index: number;
+  op: string;
+  id?: string;
+  status: BulkRowStatus;
+  data?: unknown;
+  error?: ErrorPayload;
+}
+
+export interface BulkResult {
+  mode: BulkMode;
+  // Whether any writes were kept
+  committed: boolean;
+  succeeded: number;
+  failed: number;
+  results: BulkRowResult[];
+}
+
+export interface BulkOperationContext {
+  // The entity's service, bound to the row's transaction
+  service: BaseService;
+  tx: DatabaseClient;
+  tenantId?: string;
+  /**
+   * Set fields on a live record without hooks or schema validation, for fields the
+   * entity schema does not expose. Checks the row's `version` and is audited and
+   * versioned like update(); resolves to null when the record does not exist.
+   */
+  write: (id: string, data: Record<string, any>) => Promise<any>;
+}
+
+/**
+ * A named bulk operation such as `archive`, run once per row. Return the changed
+ * record; `false` or `null` reports the row as not found.
+ */
+export type BulkOperationHandler = (operation: BulkOperation, context: BulkOperationContext) => Promise<unknown>;
+
+export type BulkOperationHandlers = Record<string, BulkOperationHandler>;
+
+// Error body of a failed row; unexpected errors are logged and not exposed, as in API responses
+export function toBulkRowError(error: unknown): ErrorPayload {
+  const entityError = toEntityError(error);
+  if (entityError.status >= 500) {
+    console.error('Bulk operation failed:', error);
+    return { error: 'Bulk operation failed', code: entityError.code, details: entityError.message };
+  }
+  return entityError.toJSON();
+}
+
+// Totals for a set of row results
+export function summarizeBulkResults(mode: BulkMode, committed: boolean, results: BulkRowResult[]): BulkResult {
+  return {
+    mode,
+    committed,
+    succeeded: results.filter(result => result.status === 'succeeded').length,
+    failed: results.filter(result => result.status === 'failed').length,
+    results,
+  };
+}
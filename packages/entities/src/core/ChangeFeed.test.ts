@@ -0,0 +1,132 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { PrismaClient } from '@humanui/db';
+import { ChangeFeed, ChangeFeedEvent } from './ChangeFeed';
+
+// The shared client in @humanui/db loads the query engine on import; only the generated types and enums are needed
+vi.mock('@humanui/db', () => import('../../../db/src/generated'));
+
+interface EventRow {
+  id: string;
+  tenantId: string | null;
+  type: string;
+  entityId: string;
+  actor: string | null;
+  payload: unknown;
+  createdAt: Date;
+}
+
+type Where = {
+  id?: string;
+  tenantId: string | null;
+  type: { in: string[] };
+  createdAt?: { gte: Date };
+  OR?: [{ createdAt: { gt: Date } }, { createdAt: Date; id: { gt: string } }];
+};
+
+const after = (row: EventRow, where: Where) => {
+  if (where.createdAt) return row.createdAt >= where.createdAt.gte;
+  if (where.OR) {
+    const [later, same] = where.OR;
+    return row.createdAt > later.createdAt.gt || (row.createdAt.getTime() === same.createdAt.getTime() && row.id > same.id.gt);
+  }
+  return true;
+};
+
+// Outbox table with the findMany/findFirst conditions the feed uses
+function createClient(rows: EventRow[]) {
+  const matches = (row: EventRow, where: Where) =>
+    row.tenantId === where.tenantId && where.type.in.includes(row.type) && (!where.id || row.id === where.id);
+
+  const outboxEvent = {
+    findMany: vi.fn(async ({ where, take }: { where: Where; take: number }) =>
+      rows
+        .filter(row => matches(row, where) && after(row, where))
+        .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime() || a.id.localeCompare(b.id))
+        .slice(0, take)
+    ),
+    findFirst: vi.fn(async ({ where }: { where: Where }) => rows.find(row => matches(row, where)) ?? null),
+  };
+  return { prisma: { outboxEvent } as unknown as PrismaClient, outboxEvent };
+}
+
+const at = new Date('2026-01-01T00:00:00Z');
+
+const event = (index: number, overrides: Partial<EventRow> = {}): EventRow => ({
+  id: `evt-${String(index).padStart(4, '0')}`,
+  tenantId: 't1',
+  type: 'item.updated',
+  entityId: `item-${index}`,
+  actor: 'user-1',
+  payload: { data: { id: `item-${index}` }, changes: {} },
+  createdAt: at,
+  ...overrides,
+});
+
+describe('ChangeFeed', () => {
+  let stop: (() => void) | undefined;
+
+  beforeEach(() => {
+    vi.useFakeTimers({ now: at });
+  });
+
+  afterEach(() => {
+    stop?.();
+    vi.useRealTimers();
+  });
+
+  it('delivers a burst larger than batchSize once and then stops querying', async () => {
+    const rows = [event(0), ...Array.from({ length: 250 }, (_, index) => event(index + 1))];
+    const { prisma, outboxEvent } = createClient(rows);
+    const feed = new ChangeFeed({ batchSize: 100, pollIntervalMs: 1000 });
+    feed.setPrisma(prisma);
+
+    const received: ChangeFeedEvent[] = [];
+    stop = feed.subscribe('Item', 't1', 'evt-0000', { onChange: change => received.push(change) });
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(received.map(change => change.id)).toEqual(rows.slice(1).map(row => row.id));
+    expect(outboxEvent.findMany).toHaveBeenCalledTimes(3);
+
+    // The next poll reads the overlap window again but repeats nothing
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(outboxEvent.findMany).toHaveBeenCalledTimes(6);
+    expect(received).toHaveLength(250);
+  });
+
+  it('delivers changes of the tenant and entity committed after the subscription', async () => {
+    const rows: EventRow[] = [];
+    const { prisma } = createClient(rows);
+    const feed = new ChangeFeed({ pollIntervalMs: 1000 });
+    feed.setPrisma(prisma);
+
+    const received: ChangeFeedEvent[] = [];
+    stop = feed.subscribe('Item', 't1', undefined, { onChange: change => received.push(change) });
+    await vi.advanceTimersByTimeAsync(0);
+
+    const later = new Date(at.getTime() + 500);
+    rows.push(
+      event(1, { createdAt: later }),
+      event(2, { createdAt: later, tenantId: 't2' }),
+      event(3, { createdAt: later, type: 'category.updated' }),
+      event(4, { createdAt: later, type: 'item.created' })
+    );
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(received.map(({ id, operation, entityId }) => ({ id, operation, entityId }))).toEqual([
+      { id: 'evt-0001', operation: 'updated', entityId: 'item-1' },
+      { id: 'evt-0004', operation: 'created', entityId: 'item-4' },
+    ]);
+  });
+
+  it('asks the client to reload when the resume ID is unknown', async () => {
+    const { prisma } = createClient([]);
+    const feed = new ChangeFeed();
+    feed.setPrisma(prisma);
+
+    const onReset = vi.fn();
+    stop = feed.subscribe('Item', 't1', 'evt-missing', { onChange: vi.fn(), onReset });
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(onReset).toHaveBeenCalledTimes(1);
+  });
+});
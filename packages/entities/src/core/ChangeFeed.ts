@@ -0,0 +1,167 @@
+import { PrismaClient } from '@humanui/db';
+import { AuditChanges } from './AuditLog';
+import { InternalError } from './Errors';
+
+export type ChangeFeedOperation = 'created' | 'updated' | 'deleted' | 'restored' | 'purged';
+
+// One change as streamed to list views
+export interface ChangeFeedEvent {
+  // Outbox event ID; pass it back as Last-Event-ID to resume
+  id: string;
+  operation: ChangeFeedOperation;
+  entityName: string;
+  entityId: string;
+  // Row after the change, or before a purge
+  data: Record<string, any> | null;
+  changes: AuditChanges;
+  actor: string | null;
+  occurredAt: Date;
+}
+
+export interface ChangeFeedOptions {
+  pollIntervalMs?: number;
+  batchSize?: number;
+  // Each poll starts this far before the cursor, so changes that commit late are not skipped
+  overlapMs?: number;
+}
+
+export interface ChangeFeedListener {
+  onChange: (change: ChangeFeedEvent) => void;
+  // The resume ID is unknown; the client should reload and continue from now
+  onReset?: () => void;
+}
+
+const OPERATIONS: ChangeFeedOperation[] = ['created', 'updated', 'deleted', 'restored', 'purged'];
+
+const DEFAULT_OPTIONS: Required<ChangeFeedOptions> = {
+  pollIntervalMs: 1000,
+  batchSize: 100,
+  overlapMs: 2000,
+};
+
+/**
+ * Tenant-scoped stream of create/update/delete changes for one entity, read from the
+ * outbox so every API process sees every change. Delivery is at least once; a change
+ * may repeat after a resume.
+ */
+export class ChangeFeed {
+  private prisma?: PrismaClient;
+  private options: Required<ChangeFeedOptions>;
+
+  constructor(options: ChangeFeedOptions = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  setPrisma(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  configure(options: ChangeFeedOptions) {
+    this.options = { ...this.options, ...options };
+  }
+
+  private get client(): PrismaClient {
+    if (!this.prisma) {
+      throw new InternalError('Change feed has no database client; call changeFeed.setPrisma() first');
+    }
+    return this.prisma;
+  }
+
+  /**
+   * Follow changes after `lastEventId`, or from now when it is omitted.
+   * Returns a function that stops the subscription.
+   */
+  subscribe(entityName: string, tenantId: string | undefined, lastEventId: string | undefined, listener: ChangeFeedListener): () => void {
+    const entity = entityName.toLowerCase();
+    const types = OPERATIONS.map(operation => `${entity}.${operation}`);
+    // Recently sent IDs, so the overlap window does not repeat them
+    const sent = new Map<string, number>();
+    let cursor = new Date();
+    let timer: NodeJS.Timeout | undefined;
+    let stopped = false;
+
+    const poll = async () => {
+      try {
+        // The first page reads back into the overlap window; later pages continue after the last event read
+        let after: { createdAt: Date; id: string } | undefined;
+        for (;;) {
+          const events = await this.client.outboxEvent.findMany({
+            where: {
+              tenantId: tenantId ?? null,
+              type: { in: types },
+              ...(after
+                ? { OR: [{ createdAt: { gt: after.createdAt } }, { createdAt: after.createdAt, id: { gt: after.id } }] }
+                : { createdAt: { gte: new Date(cursor.getTime() - this.options.overlapMs) } }),
+            },
+            orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+            take: this.options.batchSize,
+          });
+
+          for (const event of events) {
+            if (stopped) return;
+            if (event.createdAt > cursor) cursor = event.createdAt;
+            if (sent.has(event.id)) continue;
+
+            sent.set(event.id, event.createdAt.getTime());
+            const payload = event.payload as Record<string, any>;
+            listener.onChange({
+              id: event.id,
+              operation: event.type.slice(entity.length + 1) as ChangeFeedOperation,
+              entityName: entity,
+              entityId: event.entityId,
+              data: payload?.data ?? null,
+              changes: payload?.changes ?? {},
+              actor: event.actor,
+              occurredAt: event.createdAt,
+            });
+          }
+
+          if (events.length < this.options.batchSize) break;
+          after = events[events.length - 1];
+        }
+
+        const horizon = cursor.getTime() - this.options.overlapMs;
+        for (const [id, time] of sent) {
+          if (time < horizon) sent.delete(id);
+        }
+      } catch (error) {
+        console.error(`Change feed for ${entity} failed:`, error);
+      }
+
+      if (!stopped) {
+        timer = setTimeout(poll, this.options.pollIntervalMs);
+      }
+    };
+
+    const start = async () => {
+      if (lastEventId) {
+        try {
+          const last = await this.client.outboxEvent.findFirst({
+            where: { id: lastEventId, tenantId: tenantId ?? null, type: { in: types } },
+            select: { id: true, createdAt: true },
+          });
+          if (last) {
+            cursor = last.createdAt;
+            sent.set(last.id, last.createdAt.getTime());
+          } else {
+            listener.onReset?.();
+          }
+        } catch (error) {
+          console.error(`Change feed for ${entity} could not resume:`, error);
+          listener.onReset?.();
+        }
+      }
+      if (!stopped) poll();
+    };
+
+    start();
+
+    return () => {
+      stopped = true;
+      if (timer) clearTimeout(timer);
+    };
+  }
+}
+
+// Global change feed instance
+export const changeFeed = new ChangeFeed();
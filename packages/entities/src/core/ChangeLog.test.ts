@@ -0,0 +1,39 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { recordBulkChanges, recordEntityChange } from './ChangeLog';
+import { auditLog } from './AuditLog';
+import { eventBus } from './EventBus';
+import { versionStore } from './Versioning';
+import { DatabaseClient } from './SchemaBuilder';
+
+// The shared client in @humanui/db loads the query engine on import; only the generated types and enums are needed
+vi.mock('@humanui/db', () => import('../../../db/src/generated'));
+
+const client = {} as DatabaseClient;
+
+describe('recordEntityChange', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    vi.spyOn(auditLog, 'recordMany').mockResolvedValue(undefined);
+    vi.spyOn(eventBus, 'emitChanges').mockResolvedValue(undefined);
+    vi.spyOn(versionStore, 'record').mockResolvedValue(undefined);
+    vi.spyOn(auditLog, 'getContext').mockReturnValue({ actor: 'user-1' });
+  });
+
+  it('audits, emits and versions a change of a custom service in the same client', async () => {
+    const entry = { entityName: 'item', entityId: 'item-1', operation: 'update' as const, tenantId: 't1', before: { name: 'A' }, after: { name: 'B' } };
+    await recordEntityChange(client, entry);
+
+    expect(auditLog.recordMany).toHaveBeenCalledWith(client, [entry]);
+    expect(eventBus.emitChanges).toHaveBeenCalledWith(client, [entry], 'user-1');
+    expect(versionStore.record).toHaveBeenCalledWith(client, entry, 'user-1');
+  });
+
+  it('versions every row of a bulk change', async () => {
+    await recordBulkChanges(client, 'category', 'update', [{ id: 'c1' }, { id: 'c2' }], [{ id: 'c2', name: 'B' }, { id: 'c1', name: 'A' }], 't1');
+
+    expect(vi.mocked(versionStore.record).mock.calls.map(([, entry]) => [entry.entityId, entry.after])).toEqual([
+      ['c1', { id: 'c1', name: 'A' }],
+      ['c2', { id: 'c2', name: 'B' }],
+    ]);
+  });
+});
@@ -0,0 +1,45 @@
+import { DatabaseClient } from './SchemaBuilder';
+import { auditLog, AuditEntry, AuditOperation } from './AuditLog';
+import { eventBus } from './EventBus';
+import { versionStore } from './Versioning';
+
+/**
+ * Record a committed change: an audit log entry, its domain events in the outbox and a
+ * version snapshot. Pass the transaction client of the write so all commit or roll back with it.
+ */
+export async function recordEntityChange(client: DatabaseClient, entry: AuditEntry): Promise<void> {
+  await recordEntityChanges(client, [entry]);
+}
+
+export async function recordEntityChanges(client: DatabaseClient, entries: AuditEntry[]): Promise<void> {
+  const { actor } = auditLog.getContext();
+  await auditLog.recordMany(client, entries);
+  await eventBus.emitChanges(client, entries, actor);
+  // One at a time, since each version is numbered after the previous one
+  for (const entry of entries) {
+    await versionStore.record(client, entry, actor);
+  }
+}
+
+/**
+ * Pair rows read before and after a bulk write by id and record one change per row
+ */
+export async function recordBulkChanges(
+  client: DatabaseClient,
+  entityName: string,
+  operation: AuditOperation,
+  before: Array<Record<string, any>>,
+  after: Array<Record<string, any>>,
+  tenantId?: string
+): Promise<void> {
+  const updated = new Map(after.map(row => [row.id, row]));
+
+  await recordEntityChanges(client, before.map(row => ({
+    entityName,
+    entityId: row.id,
+    operation,
+    tenantId,
+    before: row,
+    after: updated.get(row.id) ?? null,
+  })));
+}
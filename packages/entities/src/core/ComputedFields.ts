@@ -0,0 +1,97 @@
+import { DatabaseClient, ModelName, getDelegateKey } from './SchemaBuilder';
+
+export type ComputedFieldType = 'string' | 'number' | 'boolean' | 'date' | 'json';
+
+export interface ComputedFieldContext {
+  // Root client, for lookups that span rows
+  prisma: DatabaseClient;
+  tenantId?: string;
+}
+
+interface ComputedFieldBase {
+  type: ComputedFieldType;
+  description?: string;
+  // Stored fields the resolver reads; selected even when a sparse fieldset leaves them out
+  dependsOn?: string[];
+}
+
+// Derived from a single row, e.g. a price after discounts
+export interface RowComputedField<TEntity = any> extends ComputedFieldBase {
+  resolve: (entity: TEntity, context: ComputedFieldContext) => unknown;
+}
+
+// Resolved for a whole page at once, e.g. counts from one groupBy; returns one value per entity, in order
+export interface BatchComputedField<TEntity = any> extends ComputedFieldBase {
+  batch: (entities: TEntity[], context: ComputedFieldContext) => unknown[] | Promise<unknown[]>;
+}
+
+export type ComputedField<TEntity = any> = RowComputedField<TEntity> | BatchComputedField<TEntity>;
+
+// Virtual fields keyed by name; resolved after fetch when requested with ?fields=
+export type ComputedFields<TEntity = any> = Record<string, ComputedField<TEntity>>;
+
+// Serializable description for clients, e.g. admin table columns
+export interface ComputedFieldDescriptor {
+  name: string;
+  type: ComputedFieldType;
+  description?: string;
+}
+
+export function describeComputedFields(fields: ComputedFields = {}): ComputedFieldDescriptor[] {
+  return Object.entries(fields).map(([name, field]) => ({
+    name,
+    type: field.type,
+    description: field.description,
+  }));
+}
+
+/**
+ * Adds the named computed fields to each row. Batch resolvers run once per call,
+ * row resolvers once per row, and all fields are resolved concurrently.
+ */
+export async function resolveComputedFields<T extends Record<string, any>>(
+  rows: T[],
+  fields: ComputedFields<T>,
+  names: string[],
+  context: ComputedFieldContext
+): Promise<T[]> {
+  if (rows.length === 0 || names.length === 0) return rows;
+
+  const values = await Promise.all(
+    names.map(async name => {
+      const field = fields[name];
+      return 'batch' in field
+        ? field.batch(rows, context)
+        : Promise.all(rows.map(row => field.resolve(row, context)));
+    })
+  );
+
+  return rows.map((row, index) => ({
+    ...row,
+    ...Object.fromEntries(names.map((name, i) => [name, values[i][index] ?? null])),
+  }));
+}
+
+// groupBy's generics are too deep to check structurally, so it is looked up by model name
+interface GroupByDelegate {
+  groupBy(args: Record<string, any>): Promise<Array<Record<string, any>>>;
+}
+
+// Count related rows per id with a single groupBy, e.g. items per category
+export async function countByForeignKey(
+  prisma: DatabaseClient,
+  model: ModelName,
+  foreignKey: string,
+  ids: string[],
+  where: Record<string, any> = {}
+): Promise<number[]> {
+  const delegate = prisma[getDelegateKey(model)] as unknown as GroupByDelegate;
+  const groups = await delegate.groupBy({
+    by: [foreignKey],
+    where: { ...where, [foreignKey]: { in: ids } },
+    _count: { _all: true },
+  });
+
+  const counts = new Map(groups.map(group => [group[foreignKey], group._count._all as number]));
+  return ids.map(id => counts.get(id) ?? 0);
+}
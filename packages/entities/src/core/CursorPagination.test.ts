@@ -0,0 +1,135 @@
+import { describe, expect, it } from 'vitest';
+import { CursorDelegate, decodeCursor, encodeCursor, InvalidCursorError, paginateByCursor, withIdTieBreaker } from './CursorPagination';
+
+interface Row {
+  id: string;
+  price: number;
+  name: string | null;
+}
+
+// Evaluates the where shapes paginateByCursor builds: AND, OR, equality, gt and lt
+function matches(row: Record<string, any>, where: Record<string, any> = {}): boolean {
+  return Object.entries(where).every(([key, condition]) => {
+    if (key === 'AND') return condition.every((part: Record<string, any>) => matches(row, part));
+    if (key === 'OR') return condition.some((part: Record<string, any>) => matches(row, part));
+    if (condition && typeof condition === 'object') {
+      if ('gt' in condition) return row[key] > condition.gt;
+      if ('lt' in condition) return row[key] < condition.lt;
+    }
+    return row[key] === condition;
+  });
+}
+
+// In-memory table; `calls` keeps the where clause of every findMany
+function createDelegate(rows: Row[]): CursorDelegate<Row> & { calls: Array<Record<string, any> | undefined> } {
+  const calls: Array<Record<string, any> | undefined> = [];
+  return {
+    calls,
+    async findMany({ where, orderBy = [], take }) {
+      calls.push(where);
+      const sorted = rows.filter(row => matches(row, where)).sort((a, b) => {
+        for (const key of orderBy) {
+          const [field, direction] = Object.entries(key)[0];
+          const left = a[field as keyof Row] as any;
+          const right = b[field as keyof Row] as any;
+          if (left !== right) return (left < right ? -1 : 1) * (direction === 'asc' ? 1 : -1);
+        }
+        return 0;
+      });
+      return sorted.slice(0, take);
+    },
+    async count({ where }) {
+      return rows.filter(row => matches(row, where)).length;
+    },
+  };
+}
+
+// Prices repeat, so only the id tie-breaker gives every row a unique position
+const rows: Row[] = [
+  { id: 'a', price: 10, name: 'Lamp' },
+  { id: 'b', price: 20, name: 'Desk' },
+  { id: 'c', price: 10, name: 'Chair' },
+  { id: 'd', price: 20, name: 'Shelf' },
+  { id: 'e', price: 30, name: 'Sofa' },
+];
+
+describe('withIdTieBreaker', () => {
+  it('appends id in the direction of the last sort key', () => {
+    expect(withIdTieBreaker([{ price: 'desc' }])).toEqual([{ price: 'desc' }, { id: 'desc' }]);
+    expect(withIdTieBreaker([])).toEqual([{ id: 'asc' }]);
+  });
+
+  it('keeps an explicit id sort', () => {
+    expect(withIdTieBreaker([{ id: 'desc' }, { price: 'asc' }])).toEqual([{ id: 'desc' }, { price: 'asc' }]);
+  });
+});
+
+describe('paginateByCursor', () => {
+  const orderBy = [{ price: 'asc' as const }];
+
+  it('walks every row once across pages with duplicate sort values', async () => {
+    const delegate = createDelegate(rows);
+    const seen: string[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const page = await paginateByCursor(delegate, { where: {}, orderBy, limit: 2, cursor });
+      seen.push(...page.items.map(row => row.id));
+      cursor = page.nextCursor ?? undefined;
+    } while (cursor);
+
+    expect(seen).toEqual(['a', 'c', 'b', 'd', 'e']);
+  });
+
+  it('pages back to the same rows with the previous cursor', async () => {
+    const delegate = createDelegate(rows);
+    const first = await paginateByCursor(delegate, { where: {}, orderBy, limit: 2 });
+    const second = await paginateByCursor(delegate, { where: {}, orderBy, limit: 2, cursor: first.nextCursor! });
+    const back = await paginateByCursor(delegate, { where: {}, orderBy, limit: 2, cursor: second.prevCursor! });
+
+    expect(first.prevCursor).toBeNull();
+    expect(back.items.map(row => row.id)).toEqual(['a', 'c']);
+    expect(back.prevCursor).toBeNull();
+    expect(back.nextCursor).not.toBeNull();
+  });
+
+  it('counts the filtered rows only when asked', async () => {
+    const delegate = createDelegate(rows);
+    const where = { price: 20 };
+
+    expect((await paginateByCursor(delegate, { where, orderBy, limit: 1 })).total).toBeUndefined();
+    expect((await paginateByCursor(delegate, { where, orderBy, limit: 1, includeTotal: true })).total).toBe(2);
+  });
+
+  it('rejects a cursor issued for a different sort order', async () => {
+    const delegate = createDelegate(rows);
+    const { nextCursor } = await paginateByCursor(delegate, { where: {}, orderBy, limit: 2 });
+
+    await expect(
+      paginateByCursor(delegate, { where: {}, orderBy: [{ name: 'asc' }], limit: 2, cursor: nextCursor! })
+    ).rejects.toBeInstanceOf(InvalidCursorError);
+  });
+
+  it('refuses to issue a cursor at a null sort value instead of skipping rows', async () => {
+    const delegate = createDelegate([{ id: 'f', price: 40, name: null }, { id: 'g', price: 50, name: null }]);
+
+    await expect(
+      paginateByCursor(delegate, { where: {}, orderBy: [{ name: 'asc' }], limit: 1 })
+    ).rejects.toBeInstanceOf(InvalidCursorError);
+  });
+});
+
+describe('decodeCursor', () => {
+  it('round-trips dates', () => {
+    const createdAt = new Date('2025-01-01T00:00:00Z');
+    const decoded = decodeCursor(encodeCursor(['createdAt', 'id'], { createdAt, id: 'a' }, 'next'));
+
+    expect(decoded).toEqual({ fields: ['createdAt', 'id'], values: [createdAt, 'a'], direction: 'next' });
+  });
+
+  it('rejects malformed cursors and cursors with null values', () => {
+    expect(() => decodeCursor('not-a-cursor')).toThrow(InvalidCursorError);
+    const withNull = Buffer.from(JSON.stringify({ f: ['name', 'id'], v: [null, 'a'], d: 'next' })).toString('base64url');
+    expect(() => decodeCursor(withNull)).toThrow(InvalidCursorError);
+  });
+});
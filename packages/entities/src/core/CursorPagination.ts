@@ -0,0 +1,189 @@
+import { z } from 'zod';
+
+export type SortDirection = 'asc' | 'desc';
+export type CursorDirection = 'next' | 'prev';
+
+// Offset paging stays the default; cursor paging is opt-in per request
+export type PaginationMode = 'offset' | 'cursor';
+
+export interface CursorPage<T> {
+  items: T[];
+  limit: number;
+  nextCursor: string | null;
+  prevCursor: string | null;
+  // Only counted when requested
+  total?: number;
+}
+
+export interface CursorQuery {
+  where: Record<string, any>;
+  orderBy: Array<Record<string, SortDirection>>;
+  limit: number;
+  cursor?: string;
+  // Run the extra count query
+  includeTotal?: boolean;
+  include?: Record<string, any>;
+  select?: Record<string, any>;
+  omit?: Record<string, true>;
+}
+
+// Subset of a Prisma delegate used for keyset paging
+export interface CursorDelegate<T> {
+  findMany(args: {
+    where?: Record<string, any>;
+    orderBy?: Record<string, any>[];
+    take?: number;
+    include?: Record<string, any>;
+    select?: Record<string, any>;
+    omit?: Record<string, true>;
+  }): Promise<T[]>;
+  count(args: { where?: Record<string, any> }): Promise<number>;
+}
+
+interface DecodedCursor {
+  // Sort fields the cursor was issued for, including the id tie-breaker
+  fields: string[];
+  values: any[];
+  direction: CursorDirection;
+}
+
+// Thrown for malformed cursors or cursors issued for a different sort
+export class InvalidCursorError extends Error {
+  constructor(message = 'Invalid cursor') {
+    super(message);
+    this.name = 'InvalidCursorError';
+  }
+}
+
+const encodeValue = (value: any) => (value instanceof Date ? { $date: value.toISOString() } : value);
+const decodeValue = (value: any) => (value && typeof value === 'object' && '$date' in value ? new Date(value.$date) : value);
+
+export function encodeCursor(fields: string[], row: Record<string, any>, direction: CursorDirection): string {
+  const missing = fields.find(field => row[field] === null || row[field] === undefined);
+  if (missing) {
+    throw new InvalidCursorError(`Cannot use cursor pagination when sorting by nullable field ${missing}`);
+  }
+  const payload = { f: fields, v: fields.map(field => encodeValue(row[field])), d: direction };
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+export function decodeCursor(cursor: string): DecodedCursor {
+  try {
+    const payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (
+      !Array.isArray(payload.f) ||
+      !Array.isArray(payload.v) ||
+      payload.f.length !== payload.v.length ||
+      payload.v.some((value: unknown) => value === null || value === undefined)
+    ) {
+      throw new InvalidCursorError();
+    }
+    return {
+      fields: payload.f,
+      values: payload.v.map(decodeValue),
+      direction: payload.d === 'prev' ? 'prev' : 'next',
+    };
+  } catch {
+    throw new InvalidCursorError();
+  }
+}
+
+// Append the id tie-breaker so every row has a unique position
+export function withIdTieBreaker(orderBy: Array<Record<string, SortDirection>>): Array<Record<string, SortDirection>> {
+  if (orderBy.some(key => 'id' in key)) return orderBy;
+  const lastDirection = orderBy.length > 0 ? Object.values(orderBy[orderBy.length - 1])[0] : 'asc';
+  return [...orderBy, { id: lastDirection }];
+}
+
+/**
+ * Rows strictly after the cursor in the given order:
+ * (a > x) OR (a = x AND b > y) OR (a = x AND b = y AND id > z)
+ */
+function keysetWhere(orderBy: Array<Record<string, SortDirection>>, values: any[], reverse: boolean): Record<string, any> {
+  const branches = orderBy.map((key, index) => {
+    const [field, direction] = Object.entries(key)[0];
+    const ascending = (direction === 'asc') !== reverse;
+
+    const branch: Record<string, any> = {};
+    orderBy.slice(0, index).forEach((previous, i) => {
+      branch[Object.keys(previous)[0]] = values[i];
+    });
+    branch[field] = { [ascending ? 'gt' : 'lt']: values[index] };
+    return branch;
+  });
+
+  return { OR: branches };
+}
+
+const flip = (orderBy: Array<Record<string, SortDirection>>) =>
+  orderBy.map(key => {
+    const [field, direction] = Object.entries(key)[0];
+    return { [field]: direction === 'asc' ? 'desc' : 'asc' } as Record<string, SortDirection>;
+  });
+
+/**
+ * Keyset pagination over a Prisma delegate; `id` is always used as the final tie-breaker.
+ * `gt`/`lt` comparisons cannot place nulls, so callers must reject nullable sort fields;
+ * a page whose boundary row has a null sort value throws InvalidCursorError instead of skipping rows.
+ */
+export async function paginateByCursor<T extends Record<string, any>>(
+  delegate: CursorDelegate<T>,
+  query: CursorQuery
+): Promise<CursorPage<T>> {
+  const orderBy = withIdTieBreaker(query.orderBy);
+  const fields = orderBy.map(key => Object.keys(key)[0]);
+
+  const cursor = query.cursor ? decodeCursor(query.cursor) : undefined;
+  if (cursor && cursor.fields.join(',') !== fields.join(',')) {
+    throw new InvalidCursorError('Cursor was issued for a different sort order');
+  }
+
+  const backwards = cursor?.direction === 'prev';
+  const where = cursor
+    ? { AND: [query.where, keysetWhere(orderBy, cursor.values, backwards)] }
+    : query.where;
+
+  // One extra row tells whether another page exists
+  const [rows, total] = await Promise.all([
+    delegate.findMany({
+      where,
+      orderBy: backwards ? flip(orderBy) : orderBy,
+      take: query.limit + 1,
+      ...(query.include && { include: query.include }),
+      ...(query.select && { select: query.select }),
+      ...(query.omit && { omit: query.omit }),
+    }),
+    query.includeTotal ? delegate.count({ where: query.where }) : Promise.resolve(undefined),
+  ]);
+
+  const hasMore = rows.length > query.limit;
+  const items = rows.slice(0, query.limit);
+  if (backwards) items.reverse();
+
+  const first = items[0];
+  const last = items[items.length - 1];
+
+  // Moving forward there is a previous page whenever we started from a cursor, and vice versa
+  const hasNext = backwards ? !!cursor : hasMore;
+  const hasPrev = backwards ? hasMore : !!cursor;
+
+  return {
+    items,
+    limit: query.limit,
+    nextCursor: hasNext && last ? encodeCursor(fields, last, 'next') : null,
+    prevCursor: hasPrev && first ? encodeCursor(fields, first, 'prev') : null,
+    ...(total !== undefined && { total }),
+  };
+}
+
+// Query parameters custom services merge into their own query schemas
+export const cursorPaginationQuerySchema = z.object({
+  pagination: z.enum(['offset', 'cursor']).default('offset'),
+  cursor: z.string().optional(),
+  includeTotal: z.boolean().optional(),
+});
+
+// Offset or cursor page, keyed by the service's collection name (e.g. `stores`)
+export type ServiceListResult<K extends string, T> =
+  | ({ [P in K]: T[] } & { total: number; page: number; limit: number; totalPages: number })
+  | ({ [P in K]: T[] } & Omit<CursorPage<T>, 'items'>);
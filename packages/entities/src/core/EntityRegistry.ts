@@ -1,47 +1,103 @@
 import { z } from 'zod';
-import { SchemaBuilder, BaseService, TenantRules, BusinessLogic } from './SchemaBuilder';
-
-export interface EntityConfig {
+import { SchemaBuilder, BaseService, TenantRules, BusinessLogic, ModelName, ModelSchema, EntityRecord, HookName, HookHandler } from './SchemaBuilder';
+import { hookRegistry, HookOptions, HookRegistration } from './HookRegistry';
+import { SoftDeletePolicy } from './SoftDelete';
+import { EntityRelations } from './Projection';
+import { ComputedFields } from './ComputedFields';
+import { eventBus, EntityEventDefinitions } from './EventBus';
+import { BulkOperationHandlers } from './Bulk';
+
+export interface EntityConfig<TSchema extends ModelSchema<TSchema, M> = z.AnyZodObject, M extends ModelName = ModelName> {
   name: string;
-  schema: z.ZodObject<any>;
+  // Prisma model backing the entity, e.g. 'ItemAttribute'
+  model: M;
+  schema: TSchema;
   tenantRules: TenantRules;
-  businessLogic?: BusinessLogic;
+  businessLogic?: BusinessLogic<EntityRecord<TSchema>>;
+  // Defaults to an isActive flag
+  softDelete?: SoftDeletePolicy;
+  // Relations that may be requested with ?include=; anything else is rejected
+  relations?: EntityRelations;
+  // Virtual fields resolved after fetch, requested with ?fields=
+  computed?: ComputedFields<EntityRecord<TSchema>>;
+  // Entity-specific domain events, emitted as `{name}.{event}` next to the standard ones
+  events?: EntityEventDefinitions;
+  // Named operations for POST /bulk next to create/update/patch/delete/restore
+  bulkOperations?: BulkOperationHandlers;
+  // Write-only fields such as secrets: returned by create only, never read back, filtered on or recorded
+  hidden?: string[];
   displayName?: string;
   description?: string;
   icon?: string;
   color?: string;
 }
 
+/**
+ * Schemas of registered entities keyed by entity name.
+ * Each entity module augments this interface next to its registerEntity call; it stays
+ * an interface, and empty here, because only interfaces merge across modules.
+ */
+export interface RegisteredEntities {}
+
+export type RegisteredEntityName = keyof RegisteredEntities & string;
+
 export class EntityRegistry {
   private entities: Map<string, EntityConfig> = new Map();
   private builders: Map<string, SchemaBuilder> = new Map();
 
-  registerEntity(config: EntityConfig): void {
-    this.entities.set(config.name, config);
+  registerEntity<TSchema extends ModelSchema<TSchema, M>, M extends ModelName>(config: EntityConfig<TSchema, M>): void {
+    this.entities.set(config.name, config as unknown as EntityConfig);
     
     const builder = new SchemaBuilder(
       config.schema,
       config.tenantRules,
       config.businessLogic,
-      config.name
+      config.name,
+      config.model,
+      config.softDelete,
+      config.relations,
+      config.computed,
+      config.bulkOperations,
+      config.hidden
     );
     
-    this.builders.set(config.name, builder);
+    this.builders.set(config.name, builder as unknown as SchemaBuilder);
+
+    if (config.events) {
+      eventBus.defineEvents(config.name, config.events);
+    }
   }
 
   getEntity(name: string): EntityConfig | undefined {
     return this.entities.get(name);
   }
 
+  getBuilder<K extends RegisteredEntityName>(name: K): SchemaBuilder<RegisteredEntities[K]> | undefined;
+  getBuilder(name: string): SchemaBuilder | undefined;
   getBuilder(name: string): SchemaBuilder | undefined {
     return this.builders.get(name);
   }
 
+  // Registered names are declared by the module that registers them, so the typed overload is always defined
+  generateService<K extends RegisteredEntityName>(name: K): BaseService<RegisteredEntities[K]>;
+  generateService(name: string): BaseService | undefined;
   generateService(name: string): BaseService | undefined {
     const builder = this.builders.get(name);
     return builder?.generateService();
   }
 
+  /**
+   * Attach a lifecycle handler without editing the entity's config.
+   * Applies to every entity unless options.entities is given; returns an unregister function.
+   */
+  registerHook<E extends HookName>(event: E, handler: HookHandler<E>, options?: HookOptions): () => void {
+    return hookRegistry.register(event, handler, options);
+  }
+
+  getHooks(event?: HookName): HookRegistration[] {
+    return hookRegistry.getHooks(event);
+  }
+
   getAllEntities(): EntityConfig[] {
     return Array.from(this.entities.values());
   }
@@ -89,6 +145,10 @@ export class EntityRegistry {
         schema: this.serializeZodSchema(builder.createSchema()),
         updateSchema: this.serializeZodSchema(builder.updateSchema()),
         querySchema: this.serializeZodSchema(builder.querySchema()),
+        filters: builder.filterableFields(),
+        relations: Object.keys(builder.getRelations()),
+        computed: builder.computedFieldDescriptors(),
+        bulkOperations: builder.bulkOperationNames(),
         // Exclude Zod schemas to prevent serialization issues
         // zodSchema: builder.createSchema(),
         // zodUpdateSchema: builder.updateSchema(),
@@ -109,19 +169,32 @@ export class EntityRegistry {
 
       endpoints.push({
         entity: name,
+        model: builder.getModel(),
+        displayName: config.displayName || name,
+        description: config.description,
         routes: {
           create: `POST /api/${name}`,
           list: `GET /api/${name}`,
+          changes: `GET /api/${name}/changes`,
           get: `GET /api/${name}/:id`,
           update: `PUT /api/${name}/:id`,
           delete: `DELETE /api/${name}/:id`,
+          restore: `POST /api/${name}/:id/restore`,
+          purge: `DELETE /api/${name}/:id/hard`,
+          history: `GET /api/${name}/:id/history`,
+          versions: `GET /api/${name}/:id/versions`,
+          revert: `POST /api/${name}/:id/versions/:version/revert`,
           stats: `GET /api/${name}/stats`,
+          bulk: `POST /api/${name}/bulk`,
         },
         schemas: {
+          // Records as returned by the API
+          entity: builder.entitySchema(),
           create: builder.createSchema(),
           update: builder.updateSchema(),
           query: builder.querySchema(),
         },
+        bulkOperations: builder.bulkOperationNames(),
       });
     }
 
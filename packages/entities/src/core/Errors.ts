@@ -0,0 +1,190 @@
+import { z } from 'zod';
+import { Prisma } from '@humanui/db';
+import { ERROR_CODES, ErrorCode } from '@humanui/constants';
+import { FieldValidationError, HookName } from './SchemaBuilder';
+import { InvalidCursorError } from './CursorPagination';
+
+// HTTP status for each error code
+export const ERROR_STATUS: Record<ErrorCode, number> = {
+  VALIDATION_ERROR: 400,
+  TENANT_ERROR: 400,
+  UNAUTHORIZED: 401,
+  FORBIDDEN: 403,
+  NOT_FOUND: 404,
+  CONFLICT: 409,
+  BUSINESS_LOGIC_ERROR: 422,
+  INTERNAL_ERROR: 500,
+};
+
+// Body of every API error response
+export interface ErrorPayload {
+  error: string;
+  code: ErrorCode;
+  // Per-field failures, for forms to attach next to inputs
+  fields?: FieldValidationError[];
+  details?: any;
+}
+
+export interface EntityErrorOptions {
+  fields?: FieldValidationError[];
+  details?: any;
+  cause?: unknown;
+}
+
+/**
+ * Base class of every error thrown by entity services; `code` decides the HTTP status
+ */
+export class EntityError extends Error {
+  readonly code: ErrorCode;
+  readonly fields?: FieldValidationError[];
+  readonly details?: any;
+  readonly cause?: unknown;
+
+  constructor(code: ErrorCode, message: string, options: EntityErrorOptions = {}) {
+    super(message);
+    this.name = 'EntityError';
+    this.code = code;
+    this.fields = options.fields;
+    this.details = options.details;
+    this.cause = options.cause;
+  }
+
+  get status(): number {
+    return ERROR_STATUS[this.code];
+  }
+
+  toJSON(): ErrorPayload {
+    return {
+      error: this.message,
+      code: this.code,
+      ...(this.fields && { fields: this.fields }),
+      ...(this.details !== undefined && { details: this.details }),
+    };
+  }
+}
+
+// Input rejected by the schema, tenant rules or query grammar
+export class ValidationError extends EntityError {
+  constructor(message: string, fields: FieldValidationError[] = [], options: Omit<EntityErrorOptions, 'fields'> = {}) {
+    super(ERROR_CODES.VALIDATION_ERROR, message, { ...options, fields });
+    this.name = 'ValidationError';
+  }
+
+  // Single-field shorthand, e.g. a duplicate slug
+  static forField(field: string, rule: string, message: string): ValidationError {
+    return new ValidationError(message, [{ field, rule, message }]);
+  }
+}
+
+export class TenantError extends EntityError {
+  readonly field?: string;
+
+  constructor(message: string, field?: string) {
+    super(ERROR_CODES.TENANT_ERROR, message, field ? { fields: [{ field, rule: 'tenant', message }] } : {});
+    this.name = 'TenantError';
+    this.field = field;
+  }
+}
+
+// A lifecycle hook or domain rule refused the operation
+export class BusinessLogicError extends EntityError {
+  // Hook and handler that failed, when raised from a hook
+  readonly hook?: HookName;
+  readonly handler?: string;
+
+  constructor(message: string, options: EntityErrorOptions & { hook?: HookName; handler?: string } = {}) {
+    const { hook, handler, ...rest } = options;
+    super(ERROR_CODES.BUSINESS_LOGIC_ERROR, message, rest);
+    this.name = 'BusinessLogicError';
+    this.hook = hook;
+    this.handler = handler;
+  }
+
+  toJSON(): ErrorPayload {
+    return {
+      ...super.toJSON(),
+      ...(this.hook && { details: { hook: this.hook, handler: this.handler } }),
+    };
+  }
+}
+
+export class NotFoundError extends EntityError {
+  constructor(entityName: string, id?: string) {
+    super(ERROR_CODES.NOT_FOUND, id ? `${entityName} ${id} not found` : `${entityName} not found`);
+    this.name = 'NotFoundError';
+  }
+}
+
+export class UnauthorizedError extends EntityError {
+  constructor(message = 'Authentication required') {
+    super(ERROR_CODES.UNAUTHORIZED, message);
+    this.name = 'UnauthorizedError';
+  }
+}
+
+export class ForbiddenError extends EntityError {
+  constructor(message = 'Not allowed') {
+    super(ERROR_CODES.FORBIDDEN, message);
+    this.name = 'ForbiddenError';
+  }
+}
+
+// Stale write or unique constraint violation
+export class ConflictError extends EntityError {
+  // Current server copy, for optimistic locking conflicts
+  readonly current?: any;
+
+  constructor(message: string, options: EntityErrorOptions & { current?: any } = {}) {
+    const { current, ...rest } = options;
+    super(ERROR_CODES.CONFLICT, message, rest);
+    this.name = 'ConflictError';
+    this.current = current;
+  }
+}
+
+export class InternalError extends EntityError {
+  constructor(message = 'Internal server error', cause?: unknown) {
+    super(ERROR_CODES.INTERNAL_ERROR, message, { cause });
+    this.name = 'InternalError';
+  }
+}
+
+// One field error per Zod issue, keyed by the dotted path
+export function fromZodError(error: z.ZodError, message = 'Invalid data provided'): ValidationError {
+  return new ValidationError(
+    message,
+    error.errors.map(issue => ({
+      field: issue.path.join('.'),
+      rule: issue.code,
+      message: issue.message,
+    }))
+  );
+}
+
+/**
+ * Normalize anything thrown by a service into an EntityError.
+ * Unknown errors become INTERNAL_ERROR and keep the original as `cause`.
+ */
+export function toEntityError(error: unknown): EntityError {
+  if (error instanceof EntityError) return error;
+  if (error instanceof z.ZodError) return fromZodError(error);
+  if (error instanceof InvalidCursorError) return ValidationError.forField('cursor', 'cursor', error.message);
+
+  if (error instanceof Prisma.PrismaClientKnownRequestError) {
+    // Unique constraint
+    if (error.code === 'P2002') {
+      const target = error.meta?.target;
+      const fields = (Array.isArray(target) ? target : [target]).filter(Boolean).map(String);
+      return new ConflictError(`A record with the same ${fields.join(', ') || 'values'} already exists`, {
+        fields: fields.map(field => ({ field, rule: 'unique', message: `${field} must be unique` })),
+        cause: error,
+      });
+    }
+    // Record to update or delete does not exist
+    if (error.code === 'P2025') {
+      return new EntityError(ERROR_CODES.NOT_FOUND, 'Record not found', { cause: error });
+    }
+  }
+
+  return new InternalError(error instanceof Error ? error.message : String(error), error);
+}
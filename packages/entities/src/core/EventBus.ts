@@ -0,0 +1,181 @@
+import { Prisma } from '@humanui/db';
+import { DatabaseClient } from './SchemaBuilder';
+import { AuditChanges, AuditEntry, AuditOperation, diffEntities } from './AuditLog';
+import { InternalError } from './Errors';
+
+// Payload of every entity event; `data` is the row after the change, or before a purge
+export interface EntityEventPayload<TEntity = Record<string, any>> {
+  entityName: string;
+  entityId: string;
+  data: TEntity | null;
+  // Changed fields; empty for creates and purges
+  changes: AuditChanges;
+}
+
+/**
+ * Event types and their payloads. Every entity emits `{entity}.created`, `.updated`,
+ * `.deleted`, `.restored` and `.purged`; entities add specific events, e.g.
+ * `item.statusChanged`, by augmenting this interface next to their definitions.
+ */
+export interface DomainEvents {
+  [type: `${string}.created`]: EntityEventPayload;
+  [type: `${string}.updated`]: EntityEventPayload;
+  [type: `${string}.deleted`]: EntityEventPayload;
+  [type: `${string}.restored`]: EntityEventPayload;
+  [type: `${string}.purged`]: EntityEventPayload;
+}
+
+export type DomainEventType = keyof DomainEvents & string;
+
+// An event as delivered to subscribers
+export interface DomainEvent<TType extends DomainEventType = DomainEventType> {
+  id: string;
+  type: TType;
+  tenantId: string | null;
+  actor: string | null;
+  payload: DomainEvents[TType];
+  occurredAt: Date;
+  // 1 on the first delivery
+  attempt: number;
+}
+
+// A change as seen by event definitions
+export interface EntityChange extends AuditEntry {
+  changes: AuditChanges;
+}
+
+/**
+ * An entity-specific event derived from a change, e.g. `statusChanged` for items.
+ * `payload` adds fields to the standard entity payload.
+ */
+export interface EntityEventDefinition {
+  when: (change: EntityChange) => boolean;
+  payload?: (change: EntityChange) => Record<string, any>;
+}
+
+// Derived events keyed by name; the event type is `{entity}.{name}`
+export type EntityEventDefinitions = Record<string, EntityEventDefinition>;
+
+export type EventHandler<TType extends DomainEventType = DomainEventType> = (event: DomainEvent<TType>) => Promise<void> | void;
+
+export interface SubscribeOptions {
+  // Stable name used to track delivery across retries; defaults to the handler's name
+  name?: string;
+}
+
+interface Subscription {
+  name: string;
+  // Exact type, `{entity}.*` or `*`
+  pattern: string;
+  handler: EventHandler<any>;
+}
+
+const STANDARD_EVENTS: Record<AuditOperation, string> = {
+  create: 'created',
+  update: 'updated',
+  delete: 'deleted',
+  restore: 'restored',
+  purge: 'purged',
+};
+
+// Whether an exact type, `{entity}.*` or `*` pattern covers an event type
+export function matchesEventPattern(pattern: string, type: string): boolean {
+  return pattern === '*' || pattern === type || pattern === `${type.split('.')[0]}.*`;
+}
+
+// Dates and other non-JSON values as stored in the outbox
+const toJson = (value: unknown) => (value == null ? null : JSON.parse(JSON.stringify(value)));
+
+/**
+ * Typed domain events. Changes are written to the outbox with the client of the
+ * write, so an event exists exactly when its change committed; the outbox worker
+ * then hands it to subscribers at least once.
+ */
+export class EventBus {
+  private subscriptions: Subscription[] = [];
+  private definitions: Map<string, EntityEventDefinitions> = new Map();
+
+  /**
+   * Handle events of one type (`item.statusChanged`), of one entity (`item.*`) or all (`*`).
+   * Handlers may run more than once for the same event, so they should be idempotent.
+   * Returns a function that removes the subscription.
+   */
+  subscribe<TType extends DomainEventType>(type: TType, handler: EventHandler<TType>, options?: SubscribeOptions): () => void;
+  subscribe(type: `${string}.*` | '*', handler: EventHandler, options?: SubscribeOptions): () => void;
+  subscribe(type: string, handler: EventHandler<any>, options: SubscribeOptions = {}): () => void {
+    const name = options.name || handler.name || `${type}#${this.subscriptions.length + 1}`;
+    if (this.subscriptions.some(subscription => subscription.name === name)) {
+      throw new InternalError(`Event subscriber '${name}' is already registered`);
+    }
+
+    const subscription: Subscription = { name, pattern: type, handler };
+    this.subscriptions.push(subscription);
+
+    return () => {
+      this.subscriptions = this.subscriptions.filter(existing => existing !== subscription);
+    };
+  }
+
+  // Subscribers for an event type, in registration order
+  getSubscribers(type: string): Array<{ name: string; handler: EventHandler<any> }> {
+    return this.subscriptions.filter(({ pattern }) => matchesEventPattern(pattern, type));
+  }
+
+  // Entity-specific events, usually passed as `events` to entityRegistry.registerEntity()
+  defineEvents(entityName: string, definitions: EntityEventDefinitions) {
+    const key = entityName.toLowerCase();
+    this.definitions.set(key, { ...this.definitions.get(key), ...definitions });
+  }
+
+  // Event types an entity emits, e.g. for building subscription UIs
+  getEventTypes(entityName: string): string[] {
+    const key = entityName.toLowerCase();
+    return [
+      ...Object.values(STANDARD_EVENTS).map(name => `${key}.${name}`),
+      ...Object.keys(this.definitions.get(key) ?? {}).map(name => `${key}.${name}`),
+    ];
+  }
+
+  /**
+   * Write the standard event and any derived events for each change to the outbox.
+   * Updates that change nothing emit nothing.
+   */
+  async emitChanges(client: DatabaseClient, entries: AuditEntry[], actor?: string): Promise<void> {
+    const rows = entries.flatMap(entry => {
+      const changes = entry.before && entry.after ? diffEntities(entry.before, entry.after) : {};
+      if (entry.operation === 'update' && Object.keys(changes).length === 0) return [];
+
+      const entityName = entry.entityName.toLowerCase();
+      const change: EntityChange = { ...entry, changes };
+      const payload: EntityEventPayload = {
+        entityName,
+        entityId: entry.entityId,
+        data: toJson(entry.after ?? entry.before),
+        changes,
+      };
+
+      const derived = Object.entries(this.definitions.get(entityName) ?? {})
+        .filter(([, definition]) => definition.when(change))
+        .map(([name, definition]) => ({
+          type: `${entityName}.${name}`,
+          payload: { ...payload, ...toJson(definition.payload?.(change) ?? {}) },
+        }));
+
+      return [{ type: `${entityName}.${STANDARD_EVENTS[entry.operation]}`, payload }, ...derived].map(event => ({
+        tenantId: entry.tenantId ?? null,
+        type: event.type,
+        entityName,
+        entityId: entry.entityId,
+        actor: actor ?? null,
+        payload: event.payload as Prisma.InputJsonValue,
+      }));
+    });
+
+    if (rows.length > 0) {
+      await client.outboxEvent.createMany({ data: rows });
+    }
+  }
+}
+
+// Global event bus instance
+export const eventBus = new EventBus();
@@ -0,0 +1,98 @@
+import { BusinessLogic, HookEntry, HookHandler, HookName } from './SchemaBuilder';
+
+export const DEFAULT_HOOK_PRIORITY = 100;
+
+export interface HookOptions {
+  // Lower priorities run first
+  priority?: number;
+  // Shown in BUSINESS_LOGIC_ERROR when the handler fails
+  name?: string;
+  // Restrict a global hook to these entities, all entities when omitted
+  entities?: string[];
+}
+
+export interface HookRegistration<E extends HookName = HookName> {
+  event: E;
+  handler: HookHandler<E>;
+  priority: number;
+  name?: string;
+  entities?: string[];
+  // Registration order, used to keep equal priorities stable
+  sequence: number;
+}
+
+const isHookEntry = <T>(value: T | HookEntry<T>): value is HookEntry<T> =>
+  typeof value === 'object' && value !== null && 'handler' in value;
+
+/**
+ * Global lifecycle hooks shared by every entity, e.g. stamping or auditing plugins.
+ * Entity BusinessLogic handlers and global handlers are merged into one ordered chain.
+ */
+export class HookRegistry {
+  private hooks: HookRegistration[] = [];
+  private sequence = 0;
+
+  register<E extends HookName>(event: E, handler: HookHandler<E>, options: HookOptions = {}): () => void {
+    const registration: HookRegistration<E> = {
+      event,
+      handler,
+      priority: options.priority ?? DEFAULT_HOOK_PRIORITY,
+      name: options.name,
+      entities: options.entities?.map(entity => entity.toLowerCase()),
+      sequence: this.sequence++,
+    };
+
+    this.hooks.push(registration as unknown as HookRegistration);
+
+    // Unregister
+    return () => {
+      this.hooks = this.hooks.filter(hook => hook !== (registration as unknown as HookRegistration));
+    };
+  }
+
+  getHooks(event?: HookName): HookRegistration[] {
+    return event ? this.hooks.filter(hook => hook.event === event) : [...this.hooks];
+  }
+
+  clear(event?: HookName) {
+    this.hooks = event ? this.hooks.filter(hook => hook.event !== event) : [];
+  }
+
+  // Ordered handlers for one entity and event: its own BusinessLogic plus matching global hooks
+  resolve<E extends HookName>(event: E, entityName: string, businessLogic?: BusinessLogic): HookRegistration<E>[] {
+    const name = entityName.toLowerCase();
+
+    // Entity handlers sort ahead of global handlers with the same priority
+    const entityHooks = this.normalize(event, businessLogic?.[event]).map((hook, index) => ({
+      ...hook,
+      sequence: index - Number.MAX_SAFE_INTEGER,
+    }));
+
+    const globalHooks = this.hooks.filter(
+      hook => hook.event === event && (!hook.entities || hook.entities.includes(name))
+    ) as unknown as HookRegistration<E>[];
+
+    return [...entityHooks, ...globalHooks].sort(
+      (a, b) => a.priority - b.priority || a.sequence - b.sequence
+    );
+  }
+
+  private normalize<E extends HookName>(event: E, value: BusinessLogic[E]): HookRegistration<E>[] {
+    if (!value) return [];
+
+    const entries = (Array.isArray(value) ? value : [value]) as Array<HookHandler<E> | HookEntry<HookHandler<E>>>;
+    return entries.map((entry, index) => {
+      const hook: HookEntry<HookHandler<E>> = isHookEntry(entry) ? entry : { handler: entry };
+      return {
+        event,
+        handler: hook.handler as HookHandler<E>,
+        priority: hook.priority ?? DEFAULT_HOOK_PRIORITY,
+        name: hook.name,
+        sequence: index,
+      };
+    });
+  }
+}
+
+// Global hook registry instance
+export const hookRegistry = new HookRegistry();
@@ -0,0 +1,134 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { PrismaClient } from '@humanui/db';
+import { fingerprintRequest, IdempotencyStore } from './Idempotency';
+import { BusinessLogicError, ConflictError } from './Errors';
+
+// The shared client in @humanui/db loads the query engine on import; only the generated types and enums are needed
+vi.mock('@humanui/db', () => import('../../../db/src/generated'));
+
+interface KeyRow {
+  id: string;
+  tenantId: string;
+  key: string;
+  method: string;
+  path: string;
+  fingerprint: string;
+  lockedUntil: Date | null;
+  responseStatus: number | null;
+  responseBody: unknown;
+  responseHeaders: unknown;
+  completedAt: Date | null;
+  expiresAt: Date;
+}
+
+// In-memory idempotency_keys table with the delegate methods the store uses
+function createClient(rows: KeyRow[]) {
+  const idempotencyKey = {
+    async findUnique({ where }: { where: { tenantId_key: { tenantId: string; key: string } } }) {
+      const { tenantId, key } = where.tenantId_key;
+      return rows.find(row => row.tenantId === tenantId && row.key === key) ?? null;
+    },
+    async create({ data }: { data: Omit<KeyRow, 'id' | 'responseStatus' | 'responseBody' | 'responseHeaders' | 'completedAt'> }) {
+      const row: KeyRow = { id: `key-${rows.length + 1}`, responseStatus: null, responseBody: null, responseHeaders: null, completedAt: null, ...data };
+      rows.push(row);
+      return row;
+    },
+    async update({ where, data }: { where: { id: string }; data: Partial<KeyRow> }) {
+      const row = rows.find(candidate => candidate.id === where.id)!;
+      return Object.assign(row, data);
+    },
+    async updateMany({ where, data }: { where: { id: string; lockedUntil: Date | null }; data: Partial<KeyRow> }) {
+      const matched = rows.filter(row => row.id === where.id && !row.completedAt && row.lockedUntil === where.lockedUntil);
+      matched.forEach(row => Object.assign(row, data));
+      return { count: matched.length };
+    },
+    async deleteMany({ where }: { where: { id: string } }) {
+      const before = rows.length;
+      rows.splice(0, rows.length, ...rows.filter(row => row.id !== where.id));
+      return { count: before - rows.length };
+    },
+  };
+  return { idempotencyKey } as unknown as PrismaClient;
+}
+
+const request = { tenantId: 't1', method: 'POST', path: '/api/items', body: { name: 'Lamp', price: 10 } };
+
+describe('fingerprintRequest', () => {
+  it('ignores key order and undefined fields in the body', () => {
+    expect(fingerprintRequest({ ...request, body: { price: 10, name: 'Lamp', note: undefined } })).toBe(fingerprintRequest(request));
+  });
+
+  it('differs for another method, path or body', () => {
+    const fingerprint = fingerprintRequest(request);
+    expect(fingerprintRequest({ ...request, method: 'PUT' })).not.toBe(fingerprint);
+    expect(fingerprintRequest({ ...request, path: '/api/categories' })).not.toBe(fingerprint);
+    expect(fingerprintRequest({ ...request, body: { name: 'Lamp', price: 11 } })).not.toBe(fingerprint);
+  });
+});
+
+describe('IdempotencyStore', () => {
+  let rows: KeyRow[];
+  let store: IdempotencyStore;
+
+  beforeEach(() => {
+    rows = [];
+    store = new IdempotencyStore({ lockMs: 1000 });
+    store.setPrisma(createClient(rows));
+  });
+
+  it('replays the stored response of a completed request', async () => {
+    const claim = await store.begin('key-a', request);
+    expect(claim.replayed).toBe(false);
+    if (claim.replayed) return;
+
+    await store.complete(claim.id, { status: 201, body: { id: 'item-1' }, headers: { etag: '"1"' } });
+
+    await expect(store.begin('key-a', request)).resolves.toEqual({
+      replayed: true,
+      response: { status: 201, body: { id: 'item-1' }, headers: { etag: '"1"' } },
+    });
+  });
+
+  it('rejects a key reused with a different body', async () => {
+    await store.begin('key-a', request);
+
+    await expect(store.begin('key-a', { ...request, body: { name: 'Desk' } })).rejects.toBeInstanceOf(BusinessLogicError);
+  });
+
+  it('rejects a retry while the first request still runs', async () => {
+    await store.begin('key-a', request);
+
+    await expect(store.begin('key-a', request)).rejects.toBeInstanceOf(ConflictError);
+  });
+
+  it('lets a retry take over a key whose lock has passed', async () => {
+    await store.begin('key-a', request);
+    rows[0].lockedUntil = new Date(Date.now() - 1);
+
+    await expect(store.begin('key-a', request)).resolves.toEqual({ replayed: false, id: rows[0].id });
+    expect(rows[0].lockedUntil!.getTime()).toBeGreaterThan(Date.now());
+  });
+
+  it('runs a released request again', async () => {
+    const first = await store.begin('key-a', request);
+    if (!first.replayed) await store.release(first.id);
+
+    await expect(store.begin('key-a', request)).resolves.toMatchObject({ replayed: false });
+  });
+
+  it('keeps keys of different tenants apart', async () => {
+    await store.begin('key-a', request);
+
+    await expect(store.begin('key-a', { ...request, tenantId: 't2', body: { name: 'Desk' } })).resolves.toMatchObject({
+      replayed: false,
+    });
+  });
+
+  it('starts over once a key has expired', async () => {
+    await store.begin('key-a', request);
+    rows[0].expiresAt = new Date(Date.now() - 1);
+
+    await expect(store.begin('key-a', { ...request, body: { name: 'Desk' } })).resolves.toMatchObject({ replayed: false });
+    expect(rows).toHaveLength(1);
+  });
+});
@@ -0,0 +1,203 @@
+import { createHash } from 'crypto';
+import { PrismaClient, Prisma } from '@humanui/db';
+import { BusinessLogicError, ConflictError, InternalError } from './Errors';
+
+export interface IdempotencyOptions {
+  // How long a key and its response are kept
+  ttlMs?: number;
+  // How long a running request holds its key before a retry may take it over
+  lockMs?: number;
+  // How often expired keys are deleted once started
+  purgeIntervalMs?: number;
+}
+
+// The request a key was first used with
+export interface IdempotentRequest {
+  tenantId?: string;
+  method: string;
+  path: string;
+  body?: unknown;
+}
+
+// Response stored for replay; `body` is undefined for empty responses
+export interface IdempotentResponse {
+  status: number;
+  body?: unknown;
+  headers: Record<string, string>;
+}
+
+// Either the caller runs the request under `id`, or replays the stored response
+export type IdempotencyClaim =
+  | { replayed: false; id: string }
+  | { replayed: true; response: IdempotentResponse };
+
+const DEFAULT_OPTIONS: Required<IdempotencyOptions> = {
+  ttlMs: 24 * 60 * 60 * 1000,
+  lockMs: 60 * 1000,
+  purgeIntervalMs: 60 * 60 * 1000,
+};
+
+// JSON with sorted object keys, so the same body always hashes the same
+const canonicalJson = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    return `{${Object.keys(value)
+      .sort()
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .map(key => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+};
+
+// SHA-256 of method, path and body
+export function fingerprintRequest({ method, path, body }: IdempotentRequest): string {
+  return createHash('sha256')
+    .update(`${method.toUpperCase()}\n${path}\n${canonicalJson(body ?? null)}`)
+    .digest('hex');
+}
+
+/**
+ * Idempotency keys for mutating requests, scoped per tenant. The first request with a
+ * key runs and its response is stored; retries with the same body get that response
+ * back, retries with a different body are rejected. Keys expire after `ttlMs`.
+ */
+export class IdempotencyStore {
+  private prisma?: PrismaClient;
+  private options: Required<IdempotencyOptions>;
+  private timer?: NodeJS.Timeout;
+
+  constructor(options: IdempotencyOptions = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  setPrisma(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  configure(options: IdempotencyOptions) {
+    this.options = { ...this.options, ...options };
+  }
+
+  private get client(): PrismaClient {
+    if (!this.prisma) {
+      throw new InternalError('Idempotency store has no database client; call idempotencyStore.setPrisma() first');
+    }
+    return this.prisma;
+  }
+
+  // Delete expired keys periodically
+  start() {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      this.purgeExpired().catch(error => console.error('Idempotency key purge failed:', error));
+    }, this.options.purgeIntervalMs);
+    this.timer.unref();
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  /**
+   * Claim a key for a request. Throws a BusinessLogicError (422) when the key was used
+   * with a different request and a ConflictError (409) while the first request still runs.
+   */
+  async begin(key: string, request: IdempotentRequest): Promise<IdempotencyClaim> {
+    const tenantId = request.tenantId ?? '';
+    const fingerprint = fingerprintRequest(request);
+
+    // A second pass covers losing the create race to a concurrent request
+    for (let pass = 0; pass < 2; pass++) {
+      const now = new Date();
+      let existing = await this.client.idempotencyKey.findUnique({ where: { tenantId_key: { tenantId, key } } });
+
+      if (existing && existing.expiresAt <= now) {
+        await this.client.idempotencyKey.deleteMany({ where: { id: existing.id, expiresAt: { lte: now } } });
+        existing = null;
+      }
+
+      if (!existing) {
+        try {
+          const created = await this.client.idempotencyKey.create({
+            data: {
+              tenantId,
+              key,
+              method: request.method.toUpperCase(),
+              path: request.path,
+              fingerprint,
+              lockedUntil: new Date(now.getTime() + this.options.lockMs),
+              expiresAt: new Date(now.getTime() + this.options.ttlMs),
+            },
+          });
+          return { replayed: false, id: created.id };
+        } catch (error) {
+          if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') continue;
+          throw error;
+        }
+      }
+
+      if (existing.fingerprint !== fingerprint) {
+        throw new BusinessLogicError('Idempotency-Key was already used with a different request', {
+          details: { idempotencyKey: key, method: existing.method, path: existing.path },
+        });
+      }
+
+      if (existing.completedAt && existing.responseStatus !== null) {
+        return {
+          replayed: true,
+          response: {
+            status: existing.responseStatus,
+            body: existing.responseBody ?? undefined,
+            headers: (existing.responseHeaders as Record<string, string> | null) ?? {},
+          },
+        };
+      }
+
+      if (existing.lockedUntil && existing.lockedUntil > now) {
+        throw new ConflictError('A request with this Idempotency-Key is still being processed; retry later');
+      }
+
+      // The first request never finished; this retry takes the key over
+      const { count } = await this.client.idempotencyKey.updateMany({
+        where: { id: existing.id, completedAt: null, lockedUntil: existing.lockedUntil },
+        data: { lockedUntil: new Date(now.getTime() + this.options.lockMs) },
+      });
+      if (count === 1) {
+        return { replayed: false, id: existing.id };
+      }
+    }
+
+    throw new ConflictError('A request with this Idempotency-Key is still being processed; retry later');
+  }
+
+  // Store the response of a claimed request for replay
+  async complete(id: string, response: IdempotentResponse): Promise<void> {
+    await this.client.idempotencyKey.update({
+      where: { id },
+      data: {
+        responseStatus: response.status,
+        responseBody: response.body === undefined ? Prisma.DbNull : JSON.parse(JSON.stringify(response.body)),
+        responseHeaders: response.headers,
+        completedAt: new Date(),
+        lockedUntil: null,
+      },
+    });
+  }
+
+  // Free a claimed key whose request failed, so a retry runs it again
+  async release(id: string): Promise<void> {
+    await this.client.idempotencyKey.deleteMany({ where: { id, completedAt: null } });
+  }
+
+  // Delete expired keys; returns how many were removed
+  async purgeExpired(): Promise<number> {
+    const { count } = await this.client.idempotencyKey.deleteMany({ where: { expiresAt: { lte: new Date() } } });
+    return count;
+  }
+}
+
+// Global idempotency store instance
+export const idempotencyStore = new IdempotencyStore();
@@ -0,0 +1,162 @@
+import { z } from 'zod';
+
+// JSON Schema (draft 2020-12, as used by OpenAPI 3.1)
+export type JsonSchema = Record<string, any>;
+
+// Non-null JSON Schema type of a schema, when it is a single one
+const singleType = (schema: JsonSchema): string | undefined =>
+  typeof schema.type === 'string' && schema.type !== 'null' ? schema.type : undefined;
+
+function nullable(schema: JsonSchema): JsonSchema {
+  // `{}` already allows null
+  if (Object.keys(schema).length === 0) return schema;
+  const type = singleType(schema);
+  if (type) {
+    const { enum: values, ...rest } = schema;
+    return { ...rest, type: [type, 'null'], ...(values && { enum: [...values, null] }) };
+  }
+  return { anyOf: [schema, { type: 'null' }] };
+}
+
+function stringSchema(type: z.ZodString): JsonSchema {
+  const schema: JsonSchema = { type: 'string' };
+
+  for (const check of type._def.checks) {
+    switch (check.kind) {
+      case 'min':
+        schema.minLength = check.value;
+        break;
+      case 'max':
+        schema.maxLength = check.value;
+        break;
+      case 'length':
+        schema.minLength = check.value;
+        schema.maxLength = check.value;
+        break;
+      case 'email':
+        schema.format = 'email';
+        break;
+      case 'url':
+        schema.format = 'uri';
+        break;
+      case 'uuid':
+        schema.format = 'uuid';
+        break;
+      case 'datetime':
+        schema.format = 'date-time';
+        break;
+      case 'date':
+        schema.format = 'date';
+        break;
+      case 'regex':
+        schema.pattern = check.regex.source;
+        break;
+    }
+  }
+
+  return schema;
+}
+
+function numberSchema(type: z.ZodNumber): JsonSchema {
+  const schema: JsonSchema = { type: 'number' };
+
+  for (const check of type._def.checks) {
+    switch (check.kind) {
+      case 'int':
+        schema.type = 'integer';
+        break;
+      case 'min':
+        schema[check.inclusive ? 'minimum' : 'exclusiveMinimum'] = check.value;
+        break;
+      case 'max':
+        schema[check.inclusive ? 'maximum' : 'exclusiveMaximum'] = check.value;
+        break;
+      case 'multipleOf':
+        schema.multipleOf = check.value;
+        break;
+    }
+  }
+
+  return schema;
+}
+
+function objectSchema(type: z.AnyZodObject): JsonSchema {
+  const properties: Record<string, JsonSchema> = {};
+  const required: string[] = [];
+
+  for (const [name, field] of Object.entries(type.shape as Record<string, z.ZodTypeAny>)) {
+    properties[name] = zodToJsonSchema(field);
+    if (!field.isOptional()) required.push(name);
+  }
+
+  return {
+    type: 'object',
+    properties,
+    ...(required.length > 0 && { required }),
+    ...(type._def.unknownKeys === 'strict' && { additionalProperties: false }),
+  };
+}
+
+/**
+ * Describe a Zod schema as JSON Schema for API documentation. Refinements and
+ * transforms are documented by the type they accept; types JSON Schema cannot
+ * express (functions, promises) become `{}`.
+ */
+export function zodToJsonSchema(type: z.ZodTypeAny): JsonSchema {
+  const schema = convert(type);
+  return type.description ? { ...schema, description: type.description } : schema;
+}
+
+function convert(type: z.ZodTypeAny): JsonSchema {
+  if (type instanceof z.ZodString) return stringSchema(type);
+  if (type instanceof z.ZodNumber) return numberSchema(type);
+  if (type instanceof z.ZodBigInt) return { type: 'integer' };
+  if (type instanceof z.ZodBoolean) return { type: 'boolean' };
+  // Dates travel as ISO strings
+  if (type instanceof z.ZodDate) return { type: 'string', format: 'date-time' };
+  if (type instanceof z.ZodNull) return { type: 'null' };
+  if (type instanceof z.ZodLiteral) return { const: type.value };
+  if (type instanceof z.ZodEnum) return { type: 'string', enum: [...type.options] };
+  if (type instanceof z.ZodNativeEnum) {
+    // Numeric TypeScript enums map their values back to names; keep the values only
+    const values = Object.entries(type.enum)
+      .filter(([key]) => typeof type.enum[type.enum[key]] !== 'number')
+      .map(([, value]) => value);
+    return values.every(value => typeof value === 'string') ? { type: 'string', enum: values } : { enum: values };
+  }
+
+  if (type instanceof z.ZodObject) return objectSchema(type);
+  if (type instanceof z.ZodArray) {
+    return {
+      type: 'array',
+      items: zodToJsonSchema(type.element),
+      ...(type._def.minLength && { minItems: type._def.minLength.value }),
+      ...(type._def.maxLength && { maxItems: type._def.maxLength.value }),
+    };
+  }
+  if (type instanceof z.ZodTuple) {
+    return { type: 'array', prefixItems: type.items.map((item: z.ZodTypeAny) => zodToJsonSchema(item)) };
+  }
+  if (type instanceof z.ZodRecord) return { type: 'object', additionalProperties: zodToJsonSchema(type.valueSchema) };
+  if (type instanceof z.ZodUnion || type instanceof z.ZodDiscriminatedUnion) {
+    return { anyOf: (type.options as z.ZodTypeAny[]).map(option => zodToJsonSchema(option)) };
+  }
+  if (type instanceof z.ZodIntersection) {
+    return { allOf: [zodToJsonSchema(type._def.left), zodToJsonSchema(type._def.right)] };
+  }
+
+  // Wrappers
+  if (type instanceof z.ZodOptional) return zodToJsonSchema(type.unwrap());
+  if (type instanceof z.ZodNullable) return nullable(zodToJsonSchema(type.unwrap()));
+  if (type instanceof z.ZodDefault) {
+    return { ...zodToJsonSchema(type.removeDefault()), default: JSON.parse(JSON.stringify(type._def.defaultValue())) };
+  }
+  if (type instanceof z.ZodEffects) return zodToJsonSchema(type.innerType());
+  if (type instanceof z.ZodPipeline) return zodToJsonSchema(type._def.in);
+  if (type instanceof z.ZodBranded) return zodToJsonSchema(type.unwrap());
+  if (type instanceof z.ZodReadonly) return zodToJsonSchema(type._def.innerType);
+  if (type instanceof z.ZodCatch) return zodToJsonSchema(type.removeCatch());
+
+  // z.any(), z.unknown(), recursive z.lazy() and anything else
+  return {};
+}
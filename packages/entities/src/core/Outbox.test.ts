@@ -0,0 +1,137 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { OutboxStatus, PrismaClient } from '@humanui/db';
+import { OutboxEventRecord, OutboxWorker } from './Outbox';
+import { eventBus } from './EventBus';
+import { ConflictError } from './Errors';
+
+// The shared client in @humanui/db loads the query engine on import; only the generated types and enums are needed
+vi.mock('@humanui/db', () => import('../../../db/src/generated'));
+
+const outboxEvent = (overrides: Partial<OutboxEventRecord> = {}): OutboxEventRecord => ({
+  id: 'evt-1',
+  tenantId: 't1',
+  type: 'item.updated',
+  entityName: 'item',
+  entityId: 'item-1',
+  actor: 'user-1',
+  payload: { entityName: 'item', entityId: 'item-1', data: { id: 'item-1' }, changes: {} },
+  status: OutboxStatus.PENDING,
+  attempts: 0,
+  deliveredTo: [],
+  lastError: null,
+  availableAt: new Date(0),
+  processedAt: null,
+  createdAt: new Date(0),
+  ...overrides,
+});
+
+// An outbox table holding the given events; `claimable` is what updateMany reports for claims
+function createWorker(events: OutboxEventRecord[], options: { claimable?: number; maxAttempts?: number } = {}) {
+  const delegate = {
+    findMany: vi.fn().mockResolvedValue(events),
+    findFirst: vi.fn(async ({ where }: { where: { id: string } }) => events.find(event => event.id === where.id) ?? null),
+    updateMany: vi.fn().mockResolvedValue({ count: options.claimable ?? 1 }),
+    update: vi.fn(async ({ data }: { data: Partial<OutboxEventRecord> }) => ({ ...events[0], ...data })),
+  };
+  const worker = new OutboxWorker({ backoffMs: 1000, maxBackoffMs: 3000, maxAttempts: options.maxAttempts ?? 8 });
+  worker.setPrisma({ outboxEvent: delegate } as unknown as PrismaClient);
+  return { worker, delegate };
+}
+
+const unsubscribers: Array<() => void> = [];
+const subscribe = (name: string, handler: () => Promise<void> | void) => {
+  unsubscribers.push(eventBus.subscribe('item.*', handler, { name }));
+};
+
+describe('OutboxWorker', () => {
+  afterEach(() => {
+    unsubscribers.splice(0).forEach(unsubscribe => unsubscribe());
+  });
+
+  it('hands a claimed event to every subscriber and marks it delivered', async () => {
+    const handled: unknown[] = [];
+    subscribe('first', () => void handled.push('first'));
+    subscribe('second', () => void handled.push('second'));
+    const { worker, delegate } = createWorker([outboxEvent()]);
+
+    await expect(worker.dispatchPending()).resolves.toBe(1);
+
+    expect(handled).toEqual(['first', 'second']);
+    expect(delegate.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { id: 'evt-1', status: OutboxStatus.PENDING, availableAt: new Date(0) },
+    }));
+    expect(delegate.update.mock.calls[0][0].data).toMatchObject({
+      status: OutboxStatus.DELIVERED,
+      attempts: 1,
+      deliveredTo: ['first', 'second'],
+      lastError: null,
+    });
+  });
+
+  it('skips subscribers that already handled the event', async () => {
+    const first = vi.fn();
+    const second = vi.fn();
+    subscribe('first', first);
+    subscribe('second', second);
+    const { worker } = createWorker([outboxEvent({ attempts: 1, deliveredTo: ['first'] })]);
+
+    await worker.dispatchPending();
+
+    expect(first).not.toHaveBeenCalled();
+    expect(second).toHaveBeenCalledWith(expect.objectContaining({ id: 'evt-1', attempt: 2 }));
+  });
+
+  it('does not deliver events another worker claimed first', async () => {
+    const handler = vi.fn();
+    subscribe('first', handler);
+    const { worker, delegate } = createWorker([outboxEvent()], { claimable: 0 });
+
+    await expect(worker.dispatchPending()).resolves.toBe(0);
+
+    expect(handler).not.toHaveBeenCalled();
+    expect(delegate.update).not.toHaveBeenCalled();
+  });
+
+  it('keeps successful subscribers and retries failures with exponential backoff', async () => {
+    vi.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+    try {
+      subscribe('first', () => undefined);
+      subscribe('second', () => {
+        throw new Error('unavailable');
+      });
+      const { worker, delegate } = createWorker([outboxEvent({ attempts: 2 })]);
+
+      await worker.dispatchPending();
+
+      expect(delegate.update.mock.calls[0][0].data).toMatchObject({
+        status: OutboxStatus.PENDING,
+        attempts: 3,
+        deliveredTo: ['first'],
+        lastError: 'second: unavailable',
+        // 1s doubled twice, capped at maxBackoffMs
+        availableAt: new Date('2026-01-01T00:00:03Z'),
+      });
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('moves an event to DEAD after maxAttempts', async () => {
+    subscribe('first', () => {
+      throw new Error('unavailable');
+    });
+    const { worker, delegate } = createWorker([outboxEvent({ attempts: 1 })], { maxAttempts: 2 });
+
+    await worker.dispatchPending();
+
+    expect(delegate.update.mock.calls[0][0].data).toMatchObject({ status: OutboxStatus.DEAD, attempts: 2 });
+    expect(delegate.update.mock.calls[0][0].data.processedAt).toBeInstanceOf(Date);
+  });
+
+  it('refuses to retry an event that is being delivered', async () => {
+    const { worker, delegate } = createWorker([outboxEvent({ status: OutboxStatus.PROCESSING })]);
+
+    await expect(worker.retry('evt-1', 't1')).rejects.toBeInstanceOf(ConflictError);
+    expect(delegate.update).not.toHaveBeenCalled();
+  });
+});
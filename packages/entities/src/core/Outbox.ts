@@ -0,0 +1,260 @@
+import { z } from 'zod';
+import { PrismaClient, OutboxStatus } from '@humanui/db';
+import { ListResult } from './SchemaBuilder';
+import { eventBus, DomainEvent } from './EventBus';
+import { ConflictError, InternalError, NotFoundError } from './Errors';
+
+export interface OutboxWorkerOptions {
+  // Poll interval while idle
+  intervalMs?: number;
+  // Events claimed per poll
+  batchSize?: number;
+  // Attempts before an event is moved to DEAD
+  maxAttempts?: number;
+  // First retry delay, doubled per attempt up to maxBackoffMs
+  backoffMs?: number;
+  maxBackoffMs?: number;
+  // How long a claimed event stays PROCESSING before another poll may take it over
+  leaseMs?: number;
+}
+
+export interface OutboxEventRecord {
+  id: string;
+  tenantId: string | null;
+  type: string;
+  entityName: string;
+  entityId: string;
+  actor: string | null;
+  payload: any;
+  status: OutboxStatus;
+  attempts: number;
+  deliveredTo: string[];
+  lastError: string | null;
+  availableAt: Date;
+  processedAt: Date | null;
+  createdAt: Date;
+}
+
+export const outboxQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  status: z.nativeEnum(OutboxStatus).optional(),
+  type: z.string().optional(),
+  entityId: z.string().optional(),
+});
+
+export type OutboxQuery = z.input<typeof outboxQuerySchema>;
+
+const DEFAULT_OPTIONS: Required<OutboxWorkerOptions> = {
+  intervalMs: 1000,
+  batchSize: 50,
+  maxAttempts: 8,
+  backoffMs: 1000,
+  maxBackoffMs: 5 * 60 * 1000,
+  leaseMs: 60 * 1000,
+};
+
+/**
+ * Delivers outbox events to the event bus subscribers in-process.
+ * Delivery is at least once: an event is claimed, handed to every subscriber that
+ * has not handled it yet and marked DELIVERED once all succeed. Failed subscribers
+ * are retried with exponential backoff; after maxAttempts the event is DEAD.
+ */
+export class OutboxWorker {
+  private prisma?: PrismaClient;
+  private options: Required<OutboxWorkerOptions>;
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  constructor(options: OutboxWorkerOptions = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  setPrisma(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  configure(options: OutboxWorkerOptions) {
+    this.options = { ...this.options, ...options };
+  }
+
+  private get client(): PrismaClient {
+    if (!this.prisma) {
+      throw new InternalError('Outbox has no database client; call outboxWorker.setPrisma() first');
+    }
+    return this.prisma;
+  }
+
+  // Start polling; a full batch is followed immediately by the next one
+  start() {
+    if (this.timer) return;
+
+    const poll = async () => {
+      let processed = 0;
+      try {
+        processed = await this.dispatchPending();
+      } catch (error) {
+        console.error('Outbox dispatch failed:', error);
+      }
+      if (this.timer) {
+        this.timer = setTimeout(poll, processed >= this.options.batchSize ? 0 : this.options.intervalMs);
+      }
+    };
+
+    this.timer = setTimeout(poll, 0);
+  }
+
+  stop() {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = undefined;
+  }
+
+  /**
+   * Claim and deliver one batch of due events; returns how many were claimed.
+   * Overlapping calls in the same process are skipped.
+   */
+  async dispatchPending(): Promise<number> {
+    if (this.running) return 0;
+    this.running = true;
+
+    try {
+      const now = new Date();
+      const due = await this.client.outboxEvent.findMany({
+        where: {
+          status: { in: [OutboxStatus.PENDING, OutboxStatus.PROCESSING] },
+          availableAt: { lte: now },
+        },
+        orderBy: { createdAt: 'asc' },
+        take: this.options.batchSize,
+      });
+
+      let claimed = 0;
+      for (const event of due) {
+        // Only one worker wins the claim, even across processes
+        const { count } = await this.client.outboxEvent.updateMany({
+          where: { id: event.id, status: event.status, availableAt: event.availableAt },
+          data: {
+            status: OutboxStatus.PROCESSING,
+            availableAt: new Date(Date.now() + this.options.leaseMs),
+          },
+        });
+        if (count === 0) continue;
+
+        claimed++;
+        await this.deliver(event);
+      }
+
+      return claimed;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async deliver(event: OutboxEventRecord) {
+    const attempt = event.attempts + 1;
+    const delivered = new Set(event.deliveredTo);
+    const errors: string[] = [];
+
+    const domainEvent = {
+      id: event.id,
+      type: event.type,
+      tenantId: event.tenantId,
+      actor: event.actor,
+      payload: event.payload,
+      occurredAt: event.createdAt,
+      attempt,
+    } as DomainEvent;
+
+    for (const { name, handler } of eventBus.getSubscribers(event.type)) {
+      if (delivered.has(name)) continue;
+
+      try {
+        await handler(domainEvent);
+        delivered.add(name);
+      } catch (error) {
+        errors.push(`${name}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    if (errors.length === 0) {
+      await this.client.outboxEvent.update({
+        where: { id: event.id },
+        data: {
+          status: OutboxStatus.DELIVERED,
+          attempts: attempt,
+          deliveredTo: Array.from(delivered),
+          lastError: null,
+          processedAt: new Date(),
+        },
+      });
+      return;
+    }
+
+    const dead = attempt >= this.options.maxAttempts;
+    const delay = Math.min(this.options.backoffMs * 2 ** (attempt - 1), this.options.maxBackoffMs);
+    await this.client.outboxEvent.update({
+      where: { id: event.id },
+      data: {
+        status: dead ? OutboxStatus.DEAD : OutboxStatus.PENDING,
+        attempts: attempt,
+        deliveredTo: Array.from(delivered),
+        lastError: errors.join('; '),
+        availableAt: new Date(Date.now() + delay),
+        ...(dead && { processedAt: new Date() }),
+      },
+    });
+  }
+
+  // Outbox contents for inspection, newest first
+  async list(tenantId?: string, query: OutboxQuery = {}): Promise<ListResult<OutboxEventRecord>> {
+    const { page, limit, status, type, entityId } = outboxQuerySchema.parse(query);
+    const where = {
+      tenantId: tenantId ?? null,
+      ...(status && { status }),
+      ...(type && { type }),
+      ...(entityId && { entityId }),
+    };
+
+    const [total, items] = await Promise.all([
+      this.client.outboxEvent.count({ where }),
+      this.client.outboxEvent.findMany({
+        where,
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+    ]);
+
+    return { items, total, page, limit, totalPages: Math.ceil(total / limit) };
+  }
+
+  async get(id: string, tenantId?: string): Promise<OutboxEventRecord> {
+    const event = await this.client.outboxEvent.findFirst({ where: { id, tenantId: tenantId ?? null } });
+    if (!event) {
+      throw new NotFoundError('Outbox event', id);
+    }
+    return event;
+  }
+
+  // Queue a DEAD or DELIVERED event again; subscribers that handled it are skipped unless `reset`
+  async retry(id: string, tenantId?: string, reset = false): Promise<OutboxEventRecord> {
+    const event = await this.get(id, tenantId);
+    if (event.status === OutboxStatus.PROCESSING) {
+      throw new ConflictError('Event is being delivered; try again once it finishes');
+    }
+
+    return this.client.outboxEvent.update({
+      where: { id },
+      data: {
+        status: OutboxStatus.PENDING,
+        availableAt: new Date(),
+        attempts: 0,
+        processedAt: null,
+        ...(reset && { deliveredTo: [] }),
+      },
+    });
+  }
+}
+
+// Global outbox worker instance
+export const outboxWorker = new OutboxWorker();
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { z } from 'zod';
+import { ProjectionBuilder } from './Projection';
+
+const schema = z.object({
+  id: z.string(),
+  tenantId: z.string().nullable(),
+  url: z.string(),
+  secret: z.string(),
+  categoryId: z.string().nullable(),
+});
+
+const projection = new ProjectionBuilder(
+  schema,
+  { category: { model: 'Category', type: 'one' }, deliveries: { model: 'Item', type: 'many', limit: 10 } },
+  {},
+  ['secret']
+);
+
+describe('ProjectionBuilder hidden fields', () => {
+  it('omits hidden fields when every field is selected', () => {
+    expect(projection.build({}, 't1')).toEqual({ omit: { secret: true }, computed: [], errors: [] });
+    expect(projection.build({ include: 'category' }, 't1')).toMatchObject({
+      include: { category: true },
+      omit: { secret: true },
+    });
+  });
+
+  it('rejects requests for hidden fields', () => {
+    const result = projection.build({ fields: 'url,secret' }, 't1');
+
+    expect(result.select).toBeUndefined();
+    expect(result.errors).toEqual([{ field: 'secret', rule: 'fields', message: 'Unknown field: secret' }]);
+  });
+
+  it('never selects hidden fields in a sparse fieldset', () => {
+    const { select, omit, errors } = projection.build({ fields: 'url' }, 't1');
+
+    expect(errors).toEqual([]);
+    expect(select).toEqual({ id: true, url: true });
+    expect(omit).toBeUndefined();
+  });
+
+  it('strips hidden fields from rows read outside build()', () => {
+    const row = { id: 'w1', tenantId: 't1', url: 'https://example.com', secret: 'whsec_1', categoryId: null };
+
+    expect(projection.hide(row)).toEqual({ id: 'w1', tenantId: 't1', url: 'https://example.com', categoryId: null });
+    expect(row.secret).toBe('whsec_1');
+    expect(projection.hide(null)).toBeNull();
+  });
+});
+
+describe('ProjectionBuilder relations', () => {
+  it('limits included lists to the tenant and drops single rows of other tenants', () => {
+    expect(projection.build({ include: 'deliveries' }, 't1').include).toEqual({
+      deliveries: { where: { tenantId: 't1' }, take: 10 },
+    });
+
+    const rows = [
+      { id: 'w1', category: { id: 'c1', tenantId: 't1' } },
+      { id: 'w2', category: { id: 'c2', tenantId: 't2' } },
+    ];
+    expect(projection.scope(rows, 't1').map(row => row.category)).toEqual([{ id: 'c1', tenantId: 't1' }, null]);
+  });
+
+  it('rejects relations that are not declared', () => {
+    expect(projection.build({ include: 'owner' }).errors).toEqual([
+      { field: 'owner', rule: 'include', message: 'Cannot include owner; use one of: category, deliveries' },
+    ]);
+  });
+});
@@ -0,0 +1,157 @@
+import { z } from 'zod';
+import { FieldValidationError, ModelName } from './SchemaBuilder';
+import { ComputedFields } from './ComputedFields';
+
+// A related model that clients may request with `?include=`
+export interface RelationConfig {
+  // Prisma model on the other side, e.g. 'Category'
+  model: ModelName;
+  // A single row (belongs-to) or a list (has-many)
+  type: 'one' | 'many';
+  // Cap on rows returned for 'many' relations
+  limit?: number;
+}
+
+// Allow-list of includable relations keyed by the Prisma relation field, e.g. { category: {...} }
+export type EntityRelations = Record<string, RelationConfig>;
+
+const DEFAULT_RELATION_LIMIT = 50;
+
+// Parsed `fields=name,sku` and `include=category,store` query parameters
+export interface ProjectionInput {
+  fields?: string;
+  include?: string;
+}
+
+// Prisma select/include clause to spread into a find call; at most one of them is set.
+// `omit` leaves out write-only fields when everything else is selected.
+export interface Projection {
+  select?: Record<string, any>;
+  include?: Record<string, any>;
+  omit?: Record<string, true>;
+}
+
+export interface ProjectionResult extends Projection {
+  // Requested computed fields, resolved after fetch
+  computed: string[];
+  errors: FieldValidationError[];
+}
+
+const parseList = (value?: string) =>
+  Array.from(new Set((value ?? '').split(',').map(part => part.trim()).filter(Boolean)));
+
+/**
+ * Turns `fields` and `include` query parameters into Prisma select/include clauses,
+ * checked against the entity schema, its computed fields and its declared relations.
+ * Included rows are limited to the caller's tenant. Hidden fields are write-only:
+ * they are never selected and cannot be requested.
+ */
+export class ProjectionBuilder {
+  private fields: Set<string>;
+  private relations: EntityRelations;
+  private computed: ComputedFields;
+  private hidden: string[];
+
+  constructor(schema: z.AnyZodObject, relations: EntityRelations = {}, computed: ComputedFields = {}, hidden: string[] = []) {
+    this.fields = new Set(Object.keys(schema.shape).filter(field => !hidden.includes(field)));
+    this.relations = relations;
+    this.computed = computed;
+    this.hidden = hidden;
+  }
+
+  getRelations(): EntityRelations {
+    return this.relations;
+  }
+
+  /**
+   * `required` fields are always selected when a sparse fieldset is requested,
+   * e.g. the sort keys a cursor is built from. `id` is always returned.
+   * Computed fields are only resolved when listed; listing nothing but computed
+   * fields keeps every stored field.
+   */
+  build(input: ProjectionInput = {}, tenantId?: string, required: string[] = []): ProjectionResult {
+    const errors: FieldValidationError[] = [];
+    const requested = parseList(input.fields);
+    const includes = parseList(input.include);
+
+    const computed = requested.filter(field => this.computed[field]);
+    const fields = requested.filter(field => !this.computed[field]);
+
+    for (const field of fields) {
+      if (!this.fields.has(field)) {
+        errors.push({ field, rule: 'fields', message: `Unknown field: ${field}` });
+      }
+    }
+
+    const allowed = Object.keys(this.relations);
+    for (const name of includes) {
+      if (!this.relations[name]) {
+        errors.push({
+          field: name,
+          rule: 'include',
+          message: allowed.length > 0
+            ? `Cannot include ${name}; use one of: ${allowed.join(', ')}`
+            : `Cannot include ${name}; no relations are includable`,
+        });
+      }
+    }
+
+    if (errors.length > 0) {
+      return { computed, errors };
+    }
+
+    const omit = this.hidden.length > 0 ? { omit: Object.fromEntries(this.hidden.map(field => [field, true as const])) } : {};
+    if (fields.length === 0 && includes.length === 0) {
+      return { ...omit, computed, errors };
+    }
+
+    const relations = Object.fromEntries(includes.map(name => [name, this.relationArgs(this.relations[name], tenantId)]));
+
+    if (fields.length === 0) {
+      return { include: relations, ...omit, computed, errors };
+    }
+
+    const dependencies = computed.flatMap(name => this.computed[name].dependsOn ?? []);
+    const select: Record<string, any> = Object.fromEntries(
+      ['id', ...required, ...dependencies, ...fields].map(field => [field, true])
+    );
+    return { select: { ...select, ...relations }, computed, errors };
+  }
+
+  // A row without its hidden fields, for rows read or written outside build()
+  hide<T extends Record<string, any> | null>(row: T): T {
+    if (!row || this.hidden.length === 0) return row;
+    const visible: Record<string, any> = { ...row };
+    for (const field of this.hidden) delete visible[field];
+    return visible as T;
+  }
+
+  // Drop included single rows that belong to another tenant; lists are filtered in the query
+  scope<T extends Record<string, any>>(rows: T[], tenantId?: string): T[] {
+    const single = Object.entries(this.relations)
+      .filter(([, relation]) => relation.type === 'one')
+      .map(([name]) => name);
+
+    if (single.length === 0) return rows;
+
+    return rows.map(row => {
+      const scoped: Record<string, any> = { ...row };
+      for (const name of single) {
+        const related = scoped[name];
+        if (related && related.tenantId !== (tenantId ?? null)) {
+          scoped[name] = null;
+        }
+      }
+      return scoped as T;
+    });
+  }
+
+  private relationArgs(relation: RelationConfig, tenantId?: string) {
+    if (relation.type === 'one') return true;
+
+    return {
+      where: { tenantId: tenantId ?? null },
+      take: relation.limit ?? DEFAULT_RELATION_LIMIT,
+    };
+  }
+}
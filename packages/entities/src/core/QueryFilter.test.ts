@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import { z } from 'zod';
+import { describeFilterableFields, QueryFilterBuilder } from './QueryFilter';
+
+const schema = z.object({
+  id: z.string(),
+  name: z.string(),
+  basePrice: z.number(),
+  status: z.enum(['ACTIVE', 'DRAFT']),
+  isActive: z.boolean().default(true),
+  publishedAt: z.date().nullable(),
+  tags: z.array(z.string()),
+  metadata: z.record(z.unknown()).optional(),
+});
+
+const builder = new QueryFilterBuilder(schema);
+
+describe('describeFilterableFields', () => {
+  it('derives kinds and operators from the schema and leaves out JSON fields', () => {
+    const fields = Object.fromEntries(describeFilterableFields(schema).map(field => [field.name, field]));
+
+    expect(fields.metadata).toBeUndefined();
+    expect(fields.status).toEqual(expect.objectContaining({ kind: 'enum', values: ['ACTIVE', 'DRAFT'], sortable: true }));
+    expect(fields.tags).toEqual(expect.objectContaining({ kind: 'array', itemKind: 'string', sortable: false }));
+    expect(fields.publishedAt.operators).toContain('isNull');
+    expect(fields.basePrice.operators).not.toContain('isNull');
+  });
+});
+
+describe('QueryFilterBuilder.buildWhere', () => {
+  it('treats a bare value as eq and repeated values as in', () => {
+    const { where, errors } = builder.buildWhere({ status: 'ACTIVE', name: ['Lamp', 'Desk'] });
+
+    expect(errors).toEqual([]);
+    expect(where).toEqual({ AND: [{ status: { equals: 'ACTIVE' } }, { name: { in: ['Lamp', 'Desk'] } }] });
+  });
+
+  it('parses values by field kind and combines operators on one field', () => {
+    const { where, errors } = builder.buildWhere({
+      basePrice: { gte: '10', lt: '20.5' },
+      isActive: { eq: '0' },
+      publishedAt: { gt: '2025-01-01T00:00:00Z' },
+      status: { nin: 'DRAFT,ACTIVE' },
+    });
+
+    expect(errors).toEqual([]);
+    expect(where.AND).toEqual([
+      { basePrice: { gte: 10 } },
+      { basePrice: { lt: 20.5 } },
+      { isActive: { equals: false } },
+      { publishedAt: { gt: new Date('2025-01-01T00:00:00Z') } },
+      { status: { notIn: ['DRAFT', 'ACTIVE'] } },
+    ]);
+  });
+
+  it('matches text case-insensitively and supports null and array operators', () => {
+    const { where } = builder.buildWhere({
+      name: { contains: 'lamp' },
+      publishedAt: { isNull: 'false' },
+      tags: { hasSome: 'red,blue', isEmpty: 'false' },
+    });
+
+    expect(where.AND).toEqual([
+      { name: { contains: 'lamp', mode: 'insensitive' } },
+      { publishedAt: { not: null } },
+      { tags: { hasSome: ['red', 'blue'] } },
+      { tags: { isEmpty: false } },
+    ]);
+  });
+
+  it('reports every invalid field, operator and value instead of dropping them', () => {
+    const { where, errors } = builder.buildWhere({
+      color: 'red',
+      name: { gt: 'a' },
+      basePrice: 'cheap',
+      status: 'ARCHIVED',
+      publishedAt: { lt: 'yesterday' },
+      metadata: 'x',
+      isActive: { eq: ['true', 'false'] },
+    });
+
+    expect(where).toEqual({});
+    expect(errors.map(error => [error.field, error.rule])).toEqual([
+      ['color', 'filter'],
+      ['name', 'filter'],
+      ['basePrice', 'filter'],
+      ['status', 'filter'],
+      ['publishedAt', 'filter'],
+      ['metadata', 'filter'],
+      ['isActive', 'filter'],
+    ]);
+    expect(errors[3].message).toBe('status must be one of: ACTIVE, DRAFT');
+  });
+});
+
+describe('QueryFilterBuilder.parseSort', () => {
+  it('builds a multi-key order from a sort list', () => {
+    expect(builder.parseSort('-basePrice, name,+status')).toEqual({
+      orderBy: [{ basePrice: 'desc' }, { name: 'asc' }, { status: 'asc' }],
+      errors: [],
+    });
+  });
+
+  it('rejects unknown and unsortable fields', () => {
+    const { orderBy, errors } = builder.parseSort('-color,tags,name');
+
+    expect(orderBy).toEqual([{ name: 'asc' }]);
+    expect(errors.map(error => error.message)).toEqual(['Unknown sort field: color', 'Cannot sort by tags']);
+  });
+});
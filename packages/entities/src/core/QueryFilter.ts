@@ -0,0 +1,305 @@
+import { z } from 'zod';
+import { FieldValidationError } from './SchemaBuilder';
+
+export type FilterOperator =
+  | 'eq'
+  | 'ne'
+  | 'gt'
+  | 'gte'
+  | 'lt'
+  | 'lte'
+  | 'in'
+  | 'nin'
+  | 'contains'
+  | 'startsWith'
+  | 'endsWith'
+  | 'isNull'
+  | 'has'
+  | 'hasSome'
+  | 'hasEvery'
+  | 'isEmpty';
+
+export type FilterFieldKind = 'string' | 'number' | 'boolean' | 'date' | 'enum' | 'array';
+
+// A field that can be filtered on, as exposed to clients building filter UIs
+export interface FilterableField {
+  name: string;
+  kind: FilterFieldKind;
+  operators: FilterOperator[];
+  nullable: boolean;
+  // Allowed values for enums and enum arrays
+  values?: string[];
+  // Element kind for arrays
+  itemKind?: Exclude<FilterFieldKind, 'array'>;
+  sortable: boolean;
+}
+
+type FilterValue = string | string[];
+
+// Parsed `filter[field][op]=value` query, e.g. { basePrice: { gte: '10' }, status: 'ACTIVE' }
+export type FilterInput = Record<string, FilterValue | Record<string, FilterValue>>;
+
+export type SortOrder = 'asc' | 'desc';
+
+export interface FilterResult {
+  where: Record<string, any>;
+  errors: FieldValidationError[];
+}
+
+export interface SortResult {
+  orderBy: Array<Record<string, SortOrder>>;
+  errors: FieldValidationError[];
+}
+
+const OPERATORS: Record<FilterFieldKind, FilterOperator[]> = {
+  string: ['eq', 'ne', 'in', 'nin', 'contains', 'startsWith', 'endsWith'],
+  number: ['eq', 'ne', 'gt', 'gte', 'lt', 'lte', 'in', 'nin'],
+  date: ['eq', 'ne', 'gt', 'gte', 'lt', 'lte'],
+  boolean: ['eq', 'ne'],
+  enum: ['eq', 'ne', 'in', 'nin'],
+  array: ['has', 'hasSome', 'hasEvery', 'isEmpty'],
+};
+
+// Operators taking a comma separated list
+const LIST_OPERATORS: FilterOperator[] = ['in', 'nin', 'hasSome', 'hasEvery'];
+
+// Operators taking true/false regardless of the field type
+const FLAG_OPERATORS: FilterOperator[] = ['isNull', 'isEmpty'];
+
+// Operators matched case-insensitively
+const TEXT_OPERATORS: FilterOperator[] = ['contains', 'startsWith', 'endsWith'];
+
+// Strip optional/nullable/default/effects wrappers
+function unwrap(type: z.ZodTypeAny): { type: z.ZodTypeAny; nullable: boolean } {
+  let nullable = false;
+  let current = type;
+
+  for (;;) {
+    if (current instanceof z.ZodOptional || current instanceof z.ZodNullable) {
+      nullable = true;
+      current = current._def.innerType;
+    } else if (current instanceof z.ZodDefault) {
+      current = current._def.innerType;
+    } else if (current instanceof z.ZodEffects) {
+      current = current.innerType();
+    } else {
+      return { type: current, nullable };
+    }
+  }
+}
+
+function scalarKind(type: z.ZodTypeAny): { kind: Exclude<FilterFieldKind, 'array'>; values?: string[] } | null {
+  if (type instanceof z.ZodString) return { kind: 'string' };
+  if (type instanceof z.ZodNumber) return { kind: 'number' };
+  if (type instanceof z.ZodBoolean) return { kind: 'boolean' };
+  if (type instanceof z.ZodDate) return { kind: 'date' };
+  if (type instanceof z.ZodEnum) return { kind: 'enum', values: [...type.options] };
+  if (type instanceof z.ZodNativeEnum) return { kind: 'enum', values: Object.values(type.enum).map(String) };
+  return null;
+}
+
+/**
+ * Fields of a Zod object schema that support filtering. JSON/any fields are left out.
+ */
+export function describeFilterableFields(schema: z.AnyZodObject): FilterableField[] {
+  const fields: FilterableField[] = [];
+
+  for (const [name, fieldType] of Object.entries(schema.shape as Record<string, z.ZodTypeAny>)) {
+    const { type, nullable } = unwrap(fieldType);
+
+    if (type instanceof z.ZodArray) {
+      const item = scalarKind(unwrap(type.element).type);
+      if (!item) continue;
+
+      fields.push({
+        name,
+        kind: 'array',
+        operators: OPERATORS.array,
+        nullable: false,
+        values: item.values,
+        itemKind: item.kind,
+        sortable: false,
+      });
+      continue;
+    }
+
+    const scalar = scalarKind(type);
+    if (!scalar) continue;
+
+    fields.push({
+      name,
+      kind: scalar.kind,
+      operators: nullable ? [...OPERATORS[scalar.kind], 'isNull'] : OPERATORS[scalar.kind],
+      nullable,
+      values: scalar.values,
+      sortable: true,
+    });
+  }
+
+  return fields;
+}
+
+/**
+ * Turns `filter[field][op]=value` and `sort=-field,other` query parameters into Prisma
+ * where/orderBy clauses, validating fields, operators and values against the entity schema.
+ */
+export class QueryFilterBuilder {
+  private fields: Map<string, FilterableField>;
+
+  constructor(schema: z.AnyZodObject) {
+    this.fields = new Map(describeFilterableFields(schema).map(field => [field.name, field]));
+  }
+
+  getFields(): FilterableField[] {
+    return Array.from(this.fields.values());
+  }
+
+  buildWhere(filter: FilterInput = {}): FilterResult {
+    const conditions: Record<string, any>[] = [];
+    const errors: FieldValidationError[] = [];
+
+    for (const [name, raw] of Object.entries(filter)) {
+      const field = this.fields.get(name);
+      if (!field) {
+        errors.push({ field: name, rule: 'filter', message: `Unknown filter field: ${name}` });
+        continue;
+      }
+
+      // `filter[field]=value` is shorthand for eq, repeated values for in
+      const operations: Record<string, FilterValue> =
+        typeof raw === 'string' || Array.isArray(raw)
+          ? { [Array.isArray(raw) ? 'in' : 'eq']: raw }
+          : raw;
+
+      for (const [operator, value] of Object.entries(operations)) {
+        if (!field.operators.includes(operator as FilterOperator)) {
+          errors.push({
+            field: name,
+            rule: 'filter',
+            message: `Operator '${operator}' is not supported for ${name}; use one of: ${field.operators.join(', ')}`,
+          });
+          continue;
+        }
+
+        const condition = this.buildCondition(field, operator as FilterOperator, value, errors);
+        if (condition !== undefined) {
+          conditions.push({ [name]: condition });
+        }
+      }
+    }
+
+    return { where: conditions.length > 0 ? { AND: conditions } : {}, errors };
+  }
+
+  // `sort=-basePrice,name` sorts by basePrice descending, then name ascending
+  parseSort(sort?: string): SortResult {
+    const orderBy: Array<Record<string, SortOrder>> = [];
+    const errors: FieldValidationError[] = [];
+
+    for (const key of (sort ?? '').split(',').map(part => part.trim()).filter(Boolean)) {
+      const descending = key.startsWith('-');
+      const name = key.replace(/^[-+]/, '');
+      const field = this.fields.get(name);
+
+      if (!field?.sortable) {
+        errors.push({
+          field: name,
+          rule: 'sort',
+          message: field ? `Cannot sort by ${name}` : `Unknown sort field: ${name}`,
+        });
+        continue;
+      }
+
+      orderBy.push({ [name]: descending ? 'desc' : 'asc' });
+    }
+
+    return { orderBy, errors };
+  }
+
+  private buildCondition(
+    field: FilterableField,
+    operator: FilterOperator,
+    raw: FilterValue,
+    errors: FieldValidationError[]
+  ): any {
+    const fail = (message: string) => {
+      errors.push({ field: field.name, rule: 'filter', message });
+      return undefined;
+    };
+
+    const isList = LIST_OPERATORS.includes(operator);
+    const parts = (Array.isArray(raw) ? raw : [raw])
+      .flatMap(value => (isList ? value.split(',') : [value]))
+      .map(value => value.trim());
+
+    if (!isList && parts.length !== 1) {
+      return fail(`Operator '${operator}' on ${field.name} expects a single value`);
+    }
+
+    if (FLAG_OPERATORS.includes(operator)) {
+      const flag = this.parseValue('boolean', parts[0]);
+      if (flag === undefined) return fail(`${operator} on ${field.name} must be true or false`);
+
+      if (operator === 'isEmpty') return { isEmpty: flag };
+      return flag ? null : { not: null };
+    }
+
+    const kind = field.kind === 'array' ? field.itemKind! : field.kind;
+    const values: any[] = [];
+    for (const part of parts) {
+      const value = this.parseValue(kind, part, field.values);
+      if (value === undefined) {
+        return fail(
+          field.values
+            ? `${field.name} must be one of: ${field.values.join(', ')}`
+            : `Invalid ${kind} value for ${field.name}: ${part}`
+        );
+      }
+      values.push(value);
+    }
+
+    switch (operator) {
+      case 'eq':
+        return { equals: values[0] };
+      case 'ne':
+        return { not: values[0] };
+      case 'in':
+        return { in: values };
+      case 'nin':
+        return { notIn: values };
+      case 'has':
+        return { has: values[0] };
+      case 'hasSome':
+        return { hasSome: values };
+      case 'hasEvery':
+        return { hasEvery: values };
+      default:
+        if (TEXT_OPERATORS.includes(operator)) {
+          return { [operator]: values[0], mode: 'insensitive' };
+        }
+        // gt, gte, lt, lte
+        return { [operator]: values[0] };
+    }
+  }
+
+  private parseValue(kind: Exclude<FilterFieldKind, 'array'>, raw: string, allowed?: string[]): any {
+    switch (kind) {
+      case 'number': {
+        const value = Number(raw);
+        return raw !== '' && Number.isFinite(value) ? value : undefined;
+      }
+      case 'boolean':
+        if (raw === 'true' || raw === '1') return true;
+        if (raw === 'false' || raw === '0') return false;
+        return undefined;
+      case 'date': {
+        const value = new Date(raw);
+        return Number.isNaN(value.getTime()) ? undefined : value;
+      }
+      case 'enum':
+        return allowed?.includes(raw) ? raw : undefined;
+      default:
+        return raw;
+    }
+  }
+}
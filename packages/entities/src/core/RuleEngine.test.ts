@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { TenantRuleEngine, UniqueLookupDelegate } from './RuleEngine';
+import { TenantRules } from './SchemaBuilder';
+
+const engine = new TenantRuleEngine();
+
+const rules: TenantRules = {
+  requiredFields: ['name', 'sku'],
+  maxNameLength: 10,
+  allowedTypes: ['retail', 'online'],
+  typeField: 'storeType',
+  uniqueConstraints: ['sku'],
+  validationRules: {
+    sku: { pattern: '^[A-Z0-9-]+$', maxLength: 8 },
+    price: { min: 0, max: 100 },
+  },
+};
+
+// Delegate that reports a clash for the given where values
+const delegateWith = (taken: Record<string, unknown> | null): UniqueLookupDelegate & { calls: any[] } => {
+  const calls: any[] = [];
+  return {
+    calls,
+    async findFirst(args) {
+      calls.push(args.where);
+      if (!taken) return null;
+      return Object.entries(taken).every(([field, value]) => args.where[field] === value) ? { id: 'other' } : null;
+    },
+  };
+};
+
+describe('TenantRuleEngine', () => {
+  it('accepts valid data', async () => {
+    const errors = await engine.evaluate({ name: 'Shop', sku: 'AB-1', storeType: 'retail', price: 5 }, rules, { operation: 'create' });
+    expect(errors).toEqual([]);
+  });
+
+  it('collects every failed rule instead of stopping at the first', async () => {
+    const errors = await engine.evaluate(
+      { name: 'A very long name', sku: 'bad sku!!', storeType: 'popup', price: 101 },
+      rules,
+      { operation: 'create' }
+    );
+    expect(errors.map(error => `${error.field}:${error.rule}`).sort()).toEqual([
+      'name:maxLength',
+      'price:max',
+      'sku:maxLength',
+      'sku:pattern',
+      'storeType:allowedTypes',
+    ]);
+  });
+
+  it('requires fields on create but only rejects cleared fields on update', async () => {
+    const created = await engine.evaluate({ name: 'Shop' }, rules, { operation: 'create' });
+    expect(created).toContainEqual(expect.objectContaining({ field: 'sku', rule: 'required' }));
+
+    expect(await engine.evaluate({ name: 'Shop' }, rules, { operation: 'update' })).toEqual([]);
+    const cleared = await engine.evaluate({ sku: '' }, rules, { operation: 'update' });
+    expect(cleared).toContainEqual(expect.objectContaining({ field: 'sku', rule: 'required' }));
+  });
+
+  it('checks uniqueness within the tenant and excludes the record being updated', async () => {
+    const delegate = delegateWith({ sku: 'AB-1' });
+    const errors = await engine.evaluate({ sku: 'AB-1' }, rules, { operation: 'update', id: 'item-1', tenantId: 't1', delegate });
+
+    expect(errors).toEqual([expect.objectContaining({ field: 'sku', rule: 'unique' })]);
+    expect(delegate.calls).toEqual([{ tenantId: 't1', id: { not: 'item-1' }, sku: 'AB-1' }]);
+  });
+
+  it('skips the uniqueness lookup for fields that already failed', async () => {
+    const delegate = delegateWith(null);
+    await engine.evaluate({ name: 'Shop', sku: 'lower' }, rules, { operation: 'create', delegate });
+    expect(delegate.calls).toEqual([]);
+  });
+
+  it('normalizes custom validator results and turns throws into failures', async () => {
+    const custom: TenantRules = {
+      customValidators: {
+        name: value => value === 'ok' || 'Name must be ok',
+        sku: () => [{ field: 'sku', message: 'Taken', code: 'SKU_TAKEN' }],
+        price: () => {
+          throw new Error('Price service down');
+        },
+      },
+    };
+    const errors = await engine.evaluate({ name: 'nope', sku: 'X', price: 1 }, custom, { operation: 'create' });
+
+    expect(errors).toEqual([
+      { field: 'name', rule: 'custom', message: 'Name must be ok' },
+      { field: 'sku', rule: 'custom', message: 'Taken', code: 'SKU_TAKEN' },
+      { field: 'price', rule: 'custom', message: 'Price service down' },
+    ]);
+  });
+
+  it('fails the pattern rule instead of throwing for a pattern that does not compile', async () => {
+    const broken: TenantRules = { validationRules: { sku: { pattern: '([A-Z' } } };
+    const errors = await engine.evaluate({ sku: 'AB-1' }, broken, { operation: 'create' });
+
+    expect(errors).toEqual([expect.objectContaining({ field: 'sku', rule: 'pattern' })]);
+  });
+});
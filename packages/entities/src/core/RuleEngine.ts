@@ -0,0 +1,238 @@
+import {
+  DatabaseClient,
+  TenantRules,
+  FieldValidationError,
+  FieldValidationRule,
+  ValidatorContext,
+  ValidatorResult,
+  ValidatorFailure,
+} from './SchemaBuilder';
+
+export type RuleOperation = 'create' | 'update';
+
+// Minimal delegate surface needed for uniqueness lookups
+export interface UniqueLookupDelegate {
+  findFirst(args: { where: Record<string, any>; select?: Record<string, boolean> }): Promise<any | null>;
+}
+
+export interface RuleEvaluationContext {
+  operation: RuleOperation;
+  tenantId?: string;
+  // Id of the record being updated, excluded from uniqueness checks
+  id?: string;
+  // Current state of the record being updated
+  existing?: Record<string, any> | null;
+  prisma?: DatabaseClient;
+  delegate?: UniqueLookupDelegate;
+}
+
+const isEmpty = (value: any) => value === undefined || value === null || value === '';
+
+/**
+ * Evaluates declarative TenantRules against incoming data and collects every failure
+ */
+export class TenantRuleEngine {
+  async evaluate(data: Record<string, any>, rules: TenantRules, context: RuleEvaluationContext): Promise<FieldValidationError[]> {
+    const record = { ...context.existing, ...data };
+    const errors: FieldValidationError[] = [
+      ...this.checkRequiredFields(data, rules, context.operation),
+      ...this.checkLimits(data, rules),
+      ...this.checkFieldRules(data, rules.validationRules ?? {}),
+    ];
+
+    // Only run async validators and hit the database for fields that passed the cheap checks
+    const failedFields = new Set(errors.map(error => error.field));
+    errors.push(...await this.checkCustomValidators(data, record, rules, context, failedFields));
+
+    for (const error of errors) failedFields.add(error.field);
+    errors.push(...await this.checkUniqueConstraints(data, record, rules, context, failedFields));
+
+    return errors;
+  }
+
+  private checkRequiredFields(data: Record<string, any>, rules: TenantRules, operation: RuleOperation): FieldValidationError[] {
+    const errors: FieldValidationError[] = [];
+
+    for (const field of rules.requiredFields ?? []) {
+      // Updates are partial, so only reject required fields that are explicitly cleared
+      const provided = operation === 'create' || field in data;
+      if (provided && isEmpty(data[field])) {
+        errors.push({ field, rule: 'required', message: `${field} is required` });
+      }
+    }
+
+    return errors;
+  }
+
+  private checkLimits(data: Record<string, any>, rules: TenantRules): FieldValidationError[] {
+    const errors: FieldValidationError[] = [];
+
+    if (rules.maxNameLength && typeof data.name === 'string' && data.name.length > rules.maxNameLength) {
+      errors.push({ field: 'name', rule: 'maxLength', message: `Name cannot exceed ${rules.maxNameLength} characters` });
+    }
+
+    if (rules.maxDescriptionLength && typeof data.description === 'string' && data.description.length > rules.maxDescriptionLength) {
+      errors.push({
+        field: 'description',
+        rule: 'maxLength',
+        message: `Description cannot exceed ${rules.maxDescriptionLength} characters`,
+      });
+    }
+
+    const typeField = rules.typeField ?? 'type';
+    if (rules.allowedTypes && !isEmpty(data[typeField]) && !rules.allowedTypes.includes(data[typeField])) {
+      errors.push({
+        field: typeField,
+        rule: 'allowedTypes',
+        message: `${typeField} must be one of: ${rules.allowedTypes.join(', ')}`,
+      });
+    }
+
+    return errors;
+  }
+
+  private checkFieldRules(data: Record<string, any>, validationRules: Record<string, FieldValidationRule>): FieldValidationError[] {
+    const errors: FieldValidationError[] = [];
+
+    for (const [field, rule] of Object.entries(validationRules)) {
+      const value = data[field];
+      if (isEmpty(value)) continue;
+
+      const length = typeof value === 'string' || Array.isArray(value) ? value.length : undefined;
+
+      if (rule.minLength !== undefined && length !== undefined && length < rule.minLength) {
+        errors.push({ field, rule: 'minLength', message: `${field} must be at least ${rule.minLength} characters` });
+      }
+
+      if (rule.maxLength !== undefined && length !== undefined && length > rule.maxLength) {
+        errors.push({ field, rule: 'maxLength', message: `${field} cannot exceed ${rule.maxLength} characters` });
+      }
+
+      if (rule.pattern && !this.matchesPattern(rule.pattern, String(value))) {
+        errors.push({ field, rule: 'pattern', message: `${field} must match pattern ${rule.pattern}` });
+      }
+
+      if (typeof value === 'number') {
+        if (rule.min !== undefined && value < rule.min) {
+          errors.push({ field, rule: 'min', message: `${field} must be at least ${rule.min}` });
+        }
+
+        if (rule.max !== undefined && value > rule.max) {
+          errors.push({ field, rule: 'max', message: `${field} cannot exceed ${rule.max}` });
+        }
+      }
+    }
+
+    return errors;
+  }
+
+  // A pattern that does not compile, e.g. one stored before overrides were validated, matches nothing
+  private matchesPattern(pattern: string, value: string): boolean {
+    try {
+      return new RegExp(pattern).test(value);
+    } catch {
+      return false;
+    }
+  }
+
+  private async checkCustomValidators(
+    data: Record<string, any>,
+    record: Record<string, any>,
+    rules: TenantRules,
+    context: RuleEvaluationContext,
+    failedFields: Set<string>
+  ): Promise<FieldValidationError[]> {
+    const errors: FieldValidationError[] = [];
+
+    for (const [field, validator] of Object.entries(rules.customValidators ?? {})) {
+      if (data[field] === undefined || failedFields.has(field)) continue;
+
+      const validatorContext: ValidatorContext = {
+        field,
+        record,
+        existing: context.existing,
+        operation: context.operation,
+        tenantId: context.tenantId,
+        prisma: context.prisma,
+      };
+
+      try {
+        const result = await validator(data[field], validatorContext);
+        errors.push(...this.toFieldErrors(field, result));
+      } catch (error) {
+        errors.push({
+          field,
+          rule: 'custom',
+          message: error instanceof Error ? error.message : `Validation failed for field: ${field}`,
+        });
+      }
+    }
+
+    return errors;
+  }
+
+  // Normalize the different validator return shapes
+  private toFieldErrors(field: string, result: ValidatorResult): FieldValidationError[] {
+    if (result === undefined || result === true) return [];
+
+    if (result === false) {
+      return [{ field, rule: 'custom', message: `Validation failed for field: ${field}` }];
+    }
+
+    if (typeof result === 'string') {
+      return [{ field, rule: 'custom', message: result }];
+    }
+
+    const failures: ValidatorFailure[] = Array.isArray(result) ? result : [result as ValidatorFailure];
+    return failures.map(failure => ({
+      field: failure.field ?? field,
+      rule: 'custom',
+      message: failure.message,
+      code: failure.code,
+    }));
+  }
+
+  private async checkUniqueConstraints(
+    data: Record<string, any>,
+    record: Record<string, any>,
+    rules: TenantRules,
+    context: RuleEvaluationContext,
+    failedFields: Set<string>
+  ): Promise<FieldValidationError[]> {
+    const errors: FieldValidationError[] = [];
+    if (!context.delegate) return errors;
+
+    for (const constraint of rules.uniqueConstraints ?? []) {
+      // Composite constraints are declared as `field_otherField`
+      const fields = constraint.split('_');
+
+      // Skip constraints the write does not touch; composite parts fall back to the existing record
+      if (!fields.some(field => field in data)) continue;
+      if (fields.some(field => isEmpty(record[field]) || failedFields.has(field))) continue;
+
+      const where: Record<string, any> = {
+        tenantId: context.tenantId ?? null,
+        ...(context.id && { id: { not: context.id } }),
+      };
+      for (const field of fields) {
+        where[field] = record[field];
+      }
+
+      const existing = await context.delegate.findFirst({ where, select: { id: true } });
+      if (existing) {
+        errors.push({
+          field: fields[0],
+          rule: 'unique',
+          message: fields.length > 1
+            ? `A record with the same ${fields.join(', ')} already exists`
+            : `${fields[0]} "${record[fields[0]]}" is already in use`,
+        });
+      }
+    }
+
+    return errors;
+  }
+}
+
+// Global rule engine instance
+export const tenantRuleEngine = new TenantRuleEngine();
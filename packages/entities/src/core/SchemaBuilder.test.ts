@@ -0,0 +1,194 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { z } from 'zod';
+import { PrismaClient } from '@humanui/db';
+import { BaseService, getEntityVersion } from './SchemaBuilder';
+import { tenantRuleStore } from './TenantRuleStore';
+import { ConflictError, NotFoundError } from './Errors';
+
+// The shared client in @humanui/db loads the query engine on import; only the generated types and enums are needed
+vi.mock('@humanui/db', () => import('../../../db/src/generated'));
+
+// Auditing and versioning have their own storage; these tests only cover the write itself
+vi.mock('./ChangeLog', () => ({ recordEntityChange: vi.fn() }));
+vi.mock('./Versioning', () => ({ versionStore: { record: vi.fn() } }));
+
+const schema = z.object({
+  id: z.string(),
+  tenantId: z.string().nullable(),
+  name: z.string(),
+  url: z.string(),
+  events: z.array(z.string()),
+  secret: z.string(),
+  isActive: z.boolean(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+type Row = z.infer<typeof schema>;
+
+const same = (a: unknown, b: unknown) => (a instanceof Date && b instanceof Date ? a.getTime() === b.getTime() : a === b);
+const matches = (row: Row, where: Record<string, unknown>): boolean =>
+  Object.entries(where).every(([field, value]) =>
+    field === 'AND'
+      ? (value as Record<string, unknown>[]).every(part => matches(row, part))
+      : same(row[field as keyof Row], value)
+  );
+
+// In-memory WebhookSubscription table with the delegate methods BaseService.update uses
+function createClient(rows: Row[]) {
+  const webhookSubscription = {
+    async findFirst({ where }: { where: Record<string, unknown> }) {
+      return rows.find(row => matches(row, where)) ?? null;
+    },
+    async updateMany({ where, data }: { where: Record<string, unknown>; data: Partial<Row> }) {
+      const matched = rows.filter(row => matches(row, where));
+      for (const row of matched) Object.assign(row, data, { updatedAt: new Date(row.updatedAt.getTime() + 1000) });
+      return { count: matched.length };
+    },
+  };
+  const client = { webhookSubscription, $transaction: (fn: (tx: unknown) => unknown) => fn(client) };
+  return client as unknown as PrismaClient;
+}
+
+// Empty table that records the where clauses list queries are made with
+function createListClient() {
+  const webhookSubscription = { findMany: vi.fn(async () => []), count: vi.fn(async () => 0) };
+  return { client: { webhookSubscription } as unknown as PrismaClient, webhookSubscription };
+}
+
+const row = (overrides: Partial<Row> = {}): Row => ({
+  id: 'hook-1',
+  tenantId: 'tenant-a',
+  name: 'Orders',
+  url: 'https://example.com/hooks',
+  events: ['item.updated'],
+  secret: 'whsec_1',
+  isActive: true,
+  createdAt: new Date('2025-01-01T00:00:00Z'),
+  updatedAt: new Date('2025-01-02T00:00:00Z'),
+  ...overrides,
+});
+
+describe('BaseService.update', () => {
+  let rows: Row[];
+  let service: BaseService<typeof schema, 'WebhookSubscription'>;
+
+  beforeEach(() => {
+    vi.spyOn(tenantRuleStore, 'resolve').mockImplementation(async (_entity, rules) => rules);
+    rows = [row()];
+    service = new BaseService(schema, {}, undefined, 'WebhookSubscription', 'WebhookSubscription', { strategy: 'flag', field: 'isActive' });
+    service.setPrisma(createClient(rows));
+  });
+
+  it('updates the tenant\'s row and returns it with a new version', async () => {
+    const before = getEntityVersion(rows[0]);
+    const updated = await service.update('hook-1', { name: 'Order events' }, 'tenant-a');
+
+    expect(updated.name).toBe('Order events');
+    expect(getEntityVersion(updated)).not.toBe(before);
+  });
+
+  it('does not update a row belonging to another tenant', async () => {
+    await expect(service.update('hook-1', { name: 'Taken' }, 'tenant-b')).rejects.toBeInstanceOf(NotFoundError);
+    expect(rows[0].name).toBe('Orders');
+  });
+
+  it('does not update a soft-deleted row', async () => {
+    rows[0].isActive = false;
+    await expect(service.update('hook-1', { name: 'Back' }, 'tenant-a')).rejects.toBeInstanceOf(NotFoundError);
+    expect(rows[0].name).toBe('Orders');
+  });
+
+  it('writes when If-Match names the current version', async () => {
+    const updated = await service.update('hook-1', { name: 'Order events' }, 'tenant-a', {
+      expectedVersion: getEntityVersion(rows[0]),
+    });
+    expect(updated.name).toBe('Order events');
+  });
+
+  it('rejects a stale If-Match with the current record', async () => {
+    const error = await service
+      .update('hook-1', { name: 'Order events' }, 'tenant-a', { expectedVersion: '1' })
+      .catch(caught => caught);
+
+    expect(error).toBeInstanceOf(ConflictError);
+    expect(error.current).toEqual(expect.objectContaining({ name: 'Orders' }));
+    expect(rows[0].name).toBe('Orders');
+  });
+});
+
+describe('BaseService.list', () => {
+  const service = new BaseService(schema, {}, undefined, 'WebhookSubscription', 'WebhookSubscription', { strategy: 'flag', field: 'isActive' });
+
+  it('keeps filters on the soft-delete field and the search alongside the default exclusion', async () => {
+    const { client, webhookSubscription } = createListClient();
+    service.setPrisma(client);
+
+    await service.list({ filter: { isActive: 'false' }, search: 'order' }, 'tenant-a');
+
+    expect(webhookSubscription.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: {
+        AND: [
+          {
+            AND: [
+              { AND: [{ isActive: { equals: false } }] },
+              { tenantId: 'tenant-a' },
+              {
+                OR: [
+                  { name: { contains: 'order', mode: 'insensitive' } },
+                  { description: { contains: 'order', mode: 'insensitive' } },
+                ],
+              },
+            ],
+          },
+          { isActive: true },
+        ],
+      },
+    }));
+  });
+});
+
+describe('BaseService hidden fields', () => {
+  let rows: Row[];
+  let service: BaseService<typeof schema, 'WebhookSubscription'>;
+
+  beforeEach(() => {
+    vi.spyOn(tenantRuleStore, 'resolve').mockImplementation(async (_entity, rules) => rules);
+    rows = [row()];
+    service = new BaseService(
+      schema, {}, undefined, 'WebhookSubscription', 'WebhookSubscription', { strategy: 'flag', field: 'isActive' },
+      undefined, {}, {}, ['secret']
+    );
+    service.setPrisma(createClient(rows));
+  });
+
+  it('leaves hidden fields out of the updated record', async () => {
+    const updated = await service.update('hook-1', { name: 'Order events' }, 'tenant-a');
+
+    expect(updated).not.toHaveProperty('secret');
+    expect(rows[0].secret).toBe('whsec_1');
+  });
+
+  it('leaves hidden fields out of the current record of a conflict', async () => {
+    const error = await service
+      .update('hook-1', { name: 'Order events' }, 'tenant-a', { expectedVersion: '1' })
+      .catch(caught => caught);
+
+    expect(error).toBeInstanceOf(ConflictError);
+    expect(error.current).toEqual(expect.objectContaining({ name: 'Orders' }));
+    expect(error.current).not.toHaveProperty('secret');
+    expect(getEntityVersion(error.current)).toBe(getEntityVersion(rows[0]));
+  });
+});
+
+describe('getEntityVersion', () => {
+  it('derives the version from updatedAt', () => {
+    expect(getEntityVersion({ updatedAt: new Date(1700000000000) })).toBe('1700000000000');
+    expect(getEntityVersion({ updatedAt: '2023-11-14T22:13:20.000Z' })).toBe('1700000000000');
+  });
+
+  it('has no version without updatedAt', () => {
+    expect(getEntityVersion({ updatedAt: null })).toBeUndefined();
+    expect(getEntityVersion(null)).toBeUndefined();
+  });
+});
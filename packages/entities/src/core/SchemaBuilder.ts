@@ -1,16 +1,87 @@
 import { z } from 'zod';
-import { PrismaClient } from '@humanui/db';
+import { PrismaClient, Prisma } from '@humanui/db';
+import { tenantRuleEngine, RuleOperation } from './RuleEngine';
+import { tenantRuleStore } from './TenantRuleStore';
+import { hookRegistry } from './HookRegistry';
+import { SoftDeleteHandler, SoftDeletePolicy } from './SoftDelete';
+import { QueryFilterBuilder, FilterInput, FilterableField, describeFilterableFields } from './QueryFilter';
+import { paginateByCursor, CursorPage, InvalidCursorError } from './CursorPagination';
+import { ProjectionBuilder, EntityRelations, ProjectionInput } from './Projection';
+import { ComputedFields, ComputedFieldDescriptor, describeComputedFields, resolveComputedFields } from './ComputedFields';
+import { auditLog, AuditEntry, AuditOperation } from './AuditLog';
+import { recordEntityChange } from './ChangeLog';
+import { versionStore } from './Versioning';
+import {
+  bulkRequestSchema,
+  BulkOperation,
+  BulkOperationHandlers,
+  BulkRequest,
+  BulkResult,
+  BulkRowResult,
+  BULK_TRANSACTION_TIMEOUT_MS,
+  STANDARD_BULK_OPERATIONS,
+  summarizeBulkResults,
+  toBulkRowError,
+} from './Bulk';
+import {
+  EntityError,
+  ValidationError,
+  TenantError,
+  BusinessLogicError,
+  ConflictError,
+  NotFoundError,
+  fromZodError,
+  toEntityError,
+} from './Errors';
+
+// Root client or the transaction-scoped client handed to hooks
+export type DatabaseClient = PrismaClient | Prisma.TransactionClient;
+
+// Per-field declarative validation rule
+export interface FieldValidationRule {
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  min?: number;
+  max?: number;
+}
+
+// Context handed to custom validators
+export interface ValidatorContext {
+  field: string;
+  // Incoming data merged over the existing record on update
+  record: Record<string, any>;
+  existing?: Record<string, any> | null;
+  operation: RuleOperation;
+  tenantId?: string;
+  // Transaction-scoped client when the write runs inside the hook pipeline
+  prisma?: DatabaseClient;
+}
+
+export interface ValidatorFailure {
+  message: string;
+  code?: string;
+  // Report against a different field than the one being validated
+  field?: string;
+}
+
+// true/undefined passes, false fails generically, a string or failure object fails with details
+export type ValidatorResult = boolean | void | string | ValidatorFailure | ValidatorFailure[];
+
+export type CustomValidator = (value: any, context: ValidatorContext) => ValidatorResult | Promise<ValidatorResult>;
 
 // Enhanced tenant validation rules
 export interface TenantValidationRules {
   maxNameLength?: number;
   maxDescriptionLength?: number;
   allowedTypes?: string[];
-  customValidators?: Record<string, (value: any) => boolean>;
+  // Field checked against allowedTypes, defaults to `type`
+  typeField?: string;
+  customValidators?: Record<string, CustomValidator>;
   requiredFields?: string[];
   optionalFields?: string[];
   uniqueConstraints?: string[];
-  validationRules?: Record<string, any>;
+  validationRules?: Record<string, FieldValidationRule>;
 }
 
 // Types for tenant rules and business logic
@@ -18,129 +89,442 @@ export interface TenantRules extends TenantValidationRules {
   requiredFields?: string[];
   optionalFields?: string[];
   uniqueConstraints?: string[];
-  validationRules?: Record<string, any>;
+  validationRules?: Record<string, FieldValidationRule>;
+}
+
+// Writes through `tx` commit or roll back with the operation
+export interface OperationContext {
+  tx: Prisma.TransactionClient;
+  entityName: string;
+  // delete is a soft delete, purge removes the row
+  operation: 'create' | 'update' | 'delete' | 'purge';
+  tenantId?: string;
+  // User making the change, from the audit context
+  actor?: string;
+}
+
+// Passed to every hook handler
+export interface HookContext extends OperationContext {
+  // Skip the remaining handlers for this event
+  stop(): void;
+}
+
+// before* handlers may return the (modified) data; returning nothing keeps it unchanged
+export interface HookHandlers<TEntity = any> {
+  beforeCreate: (data: any, tenantId: string | undefined, context: HookContext) => Promise<any>;
+  afterCreate: (entity: TEntity, tenantId: string | undefined, context: HookContext) => Promise<any>;
+  beforeUpdate: (id: string, data: any, tenantId: string | undefined, context: HookContext) => Promise<any>;
+  afterUpdate: (entity: TEntity, tenantId: string | undefined, context: HookContext) => Promise<any>;
+  // Returning false cancels the delete and skips the remaining handlers
+  beforeDelete: (id: string, tenantId: string | undefined, context: HookContext) => Promise<boolean>;
+  afterDelete: (id: string, tenantId: string | undefined, context: HookContext) => Promise<void>;
+}
+
+export type HookName = keyof HookHandlers;
+export type HookHandler<E extends HookName, TEntity = any> = HookHandlers<TEntity>[E];
+
+// A handler with ordering metadata; lower priority runs first
+export interface HookEntry<THandler> {
+  handler: THandler;
+  priority?: number;
+  name?: string;
+}
+
+// One handler, or several ordered handlers, per lifecycle event
+export type BusinessLogic<TEntity = any> = {
+  [E in HookName]?: HookHandler<E, TEntity> | Array<HookHandler<E, TEntity> | HookEntry<HookHandler<E, TEntity>>>;
+};
+
+// Prisma model backing an entity, e.g. 'ItemAttribute'
+export type ModelName = Prisma.ModelName;
+
+// Fields managed by the framework rather than by callers
+export const SYSTEM_FIELDS = ['id', 'createdAt', 'updatedAt', 'createdBy', 'updatedBy', 'tenantId', 'isActive'] as const;
+export type SystemField = typeof SYSTEM_FIELDS[number];
+
+// Types derived from an entity's Zod schema
+export type EntityShape<TSchema extends z.AnyZodObject> = TSchema['shape'];
+export type EntityRecord<TSchema extends z.AnyZodObject> = z.infer<TSchema>;
+export type CreateSchema<TSchema extends z.AnyZodObject> = z.ZodObject<
+  Omit<EntityShape<TSchema>, SystemField>,
+  'strip',
+  z.ZodTypeAny,
+  Omit<z.output<TSchema>, SystemField>,
+  Omit<z.input<TSchema>, SystemField>
+>;
+export type CreateInput<TSchema extends z.AnyZodObject> = z.input<CreateSchema<TSchema>>;
+export type UpdateInput<TSchema extends z.AnyZodObject> = Partial<CreateInput<TSchema>>;
+
+export interface ListQuery<TEntity = any> {
+  page?: number;
+  limit?: number;
+  search?: string;
+  sortBy?: keyof TEntity & string;
+  sortOrder?: 'asc' | 'desc';
+  // Multi-key sort, e.g. `-basePrice,name`; takes precedence over sortBy/sortOrder
+  sort?: string;
+  // Field filters, e.g. { basePrice: { gte: '10' } }
+  filter?: FilterInput;
+  // Include soft-deleted rows
+  includeDeleted?: boolean;
+  // Sparse fieldset and relation includes, e.g. fields=name,sku&include=category
+  fields?: string;
+  include?: string;
+}
+
+// Keyset pagination; page is ignored and the total is only counted on request
+export interface CursorListQuery<TEntity = any> extends Omit<ListQuery<TEntity>, 'page'> {
+  // nextCursor/prevCursor from the previous page, omitted for the first page
+  cursor?: string;
+  includeTotal?: boolean;
+}
+
+export type CursorListResult<TEntity> = CursorPage<TEntity>;
+
+export interface FindOptions extends ProjectionInput {
+  // Include soft-deleted rows
+  includeDeleted?: boolean;
+}
+
+export interface ListResult<TEntity> {
+  items: TEntity[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
+
+export interface EntityStats {
+  total: number;
+  // Rows that are not soft-deleted
+  active: number;
+  inactive: number;
+}
+
+type ModelOperations<M extends ModelName> = Prisma.TypeMap['model'][M]['operations'];
+
+// Prisma arguments of one operation on a model, e.g. ModelArgs<'Item', 'findMany'>
+export type ModelArgs<M extends ModelName, Op extends keyof ModelOperations<M>> =
+  ModelOperations<M>[Op] extends { args: infer A } ? A : never;
+
+// A model's columns as createMany takes them: scalars, with relations as foreign keys
+export type ModelCreateData<M extends ModelName> =
+  Extract<Exclude<ModelOperations<M>['createMany']['args']['data'], readonly unknown[]>, Record<string, any>>;
+
+// What a service writes to create a row: the caller's fields plus tenant and author
+export type ModelCreateInput<M extends ModelName> =
+  Omit<ModelCreateData<M>, SystemField> & { tenantId: string | null; createdBy?: string };
+
+// Columns the generic services read from rows of any model: the ID and, where there is one, the version
+type EntityRow = { id?: any; updatedAt?: any };
+
+/**
+ * A schema of model M: its records must be valid create input for the model and have no other
+ * fields, so a field the model lacks or a missing required column fails to compile. Schemas of
+ * unknown shape and services of any model are not checked, nor are schemas compiled without
+ * strictNullChecks, where Zod makes every field optional.
+ */
+type ModelRecord<TSchema extends z.AnyZodObject, M extends ModelName> =
+  undefined extends string ? any
+  : string extends keyof z.output<TSchema> ? any
+  : ModelName extends M ? any
+  : ModelCreateData<M> & { [K in Exclude<keyof z.output<TSchema>, keyof ModelCreateData<M>>]: never };
+export type ModelSchema<TSchema extends z.AnyZodObject, M extends ModelName> =
+  z.ZodObject<any, any, any, ModelRecord<TSchema, M> & EntityRow & Record<string, any>, any>;
+
+/**
+ * The subset of a Prisma model delegate used by the generic services, with the arguments of model M.
+ * Services read with filters built at runtime, so their reads are typed for any model: where and
+ * select must then fit at least one model rather than the entity's own. Rows are created with
+ * the entity's model, as createMany-shaped data that Prisma's create also accepts.
+ */
+export interface CrudDelegate<TEntity = Record<string, unknown>, M extends ModelName = ModelName> {
+  create(args: { data: ModelCreateInput<M> }): Promise<TEntity>;
+  createMany(args: ModelArgs<M, 'createMany'>): Promise<{ count: number }>;
+  findFirst(args: ModelArgs<M, 'findFirst'>): Promise<TEntity | null>;
+  findMany(args: ModelArgs<M, 'findMany'>): Promise<TEntity[]>;
+  update(args: ModelArgs<M, 'update'>): Promise<TEntity>;
+  deleteMany(args: ModelArgs<M, 'deleteMany'>): Promise<{ count: number }>;
+  updateMany(args: ModelArgs<M, 'updateMany'>): Promise<{ count: number }>;
+  count(args: ModelArgs<M, 'count'>): Promise<number>;
+}
+
+// Options for writes that can be guarded by optimistic locking
+export interface MutationOptions {
+  // Version the caller last read, see getEntityVersion; stale writes throw CONFLICT
+  expectedVersion?: string;
+}
+
+// Opaque record version derived from updatedAt, used for ETag / If-Match
+export function getEntityVersion(entity: { updatedAt?: Date | string | null } | null | undefined): string | undefined {
+  if (!entity?.updatedAt) return undefined;
+  return String(new Date(entity.updatedAt).getTime());
+}
+
+// Client accessor for a model, e.g. 'ItemAttribute' -> prisma.itemAttribute
+export function getDelegateKey<M extends ModelName>(model: M): Uncapitalize<M> {
+  return (model.charAt(0).toLowerCase() + model.slice(1)) as Uncapitalize<M>;
+}
+
+export function getModelDelegate<TEntity = Record<string, unknown>, M extends ModelName = ModelName>(
+  prisma: DatabaseClient,
+  model: M
+): CrudDelegate<TEntity, M> {
+  return prisma[getDelegateKey(model)] as unknown as CrudDelegate<TEntity, M>;
+}
+
+// `true`/`false` (or 1/0) from a query string
+export const queryBoolean = z.union([z.boolean(), z.enum(['true', 'false', '1', '0'])])
+  .transform(value => value === true || value === 'true' || value === '1');
+
+// Single or repeated query string value
+const queryValue = z.union([z.string(), z.array(z.string())]);
+
+// The schema without write-only fields, as records are returned and filtered
+export function omitHiddenFields<TSchema extends z.AnyZodObject>(schema: TSchema, hidden: string[]): z.AnyZodObject {
+  const mask: Record<string, true> = Object.fromEntries(
+    hidden.filter(field => field in schema.shape).map(field => [field, true as const])
+  );
+  return hidden.length > 0 ? schema.omit(mask) : schema;
 }
 
-export interface BusinessLogic {
-  beforeCreate?: (data: any, tenantId?: string) => Promise<any>;
-  afterCreate?: (entity: any, tenantId?: string) => Promise<any>;
-  beforeUpdate?: (id: string, data: any, tenantId?: string) => Promise<any>;
-  afterUpdate?: (entity: any, tenantId?: string) => Promise<any>;
-  beforeDelete?: (id: string, tenantId?: string) => Promise<boolean>;
-  afterDelete?: (id: string, tenantId?: string) => Promise<void>;
+// Strip framework-managed fields from an entity schema
+export function omitSystemFields<TSchema extends z.AnyZodObject>(schema: TSchema): CreateSchema<TSchema> {
+  const mask: Record<string, true> = Object.fromEntries(
+    SYSTEM_FIELDS.filter(field => field in schema.shape).map(field => [field, true as const])
+  );
+  return schema.omit(mask) as unknown as CreateSchema<TSchema>;
 }
 
-// Enhanced error handling
-export interface ValidationError {
-  code: 'VALIDATION_ERROR' | 'TENANT_ERROR' | 'BUSINESS_LOGIC_ERROR';
+// A single failed rule for a single field
+export interface FieldValidationError {
+  field: string;
+  rule: string;
   message: string;
-  details?: any;
-  field?: string;
+  code?: string;
 }
 
+
 // Base service class with common CRUD operations
-export class BaseService {
+export class BaseService<TSchema extends ModelSchema<TSchema, M> = z.AnyZodObject, M extends ModelName = ModelName> {
   private prisma!: PrismaClient;
-  private schema: z.ZodObject<any>;
+  private schema: TSchema;
   private tenantRules: TenantRules;
-  private businessLogic?: BusinessLogic;
+  private businessLogic?: BusinessLogic<EntityRecord<TSchema>>;
   private entityName: string;
+  private model: M;
+  private softDelete: SoftDeleteHandler;
+  private queryFilter: QueryFilterBuilder;
+  private projection: ProjectionBuilder;
+  private computedFields: ComputedFields<EntityRecord<TSchema>>;
+  private bulkOperations: BulkOperationHandlers;
 
   constructor(
-    schema: z.ZodObject<any>,
+    schema: TSchema,
     tenantRules: TenantRules,
-    businessLogic: BusinessLogic | undefined,
-    entityName: string
+    businessLogic: BusinessLogic<EntityRecord<TSchema>> | undefined,
+    entityName: string,
+    model: M,
+    softDeletePolicy?: SoftDeletePolicy,
+    relations?: EntityRelations,
+    computedFields: ComputedFields<EntityRecord<TSchema>> = {},
+    bulkOperations: BulkOperationHandlers = {},
+    hiddenFields: string[] = []
   ) {
     this.schema = schema;
     this.tenantRules = tenantRules;
     this.businessLogic = businessLogic;
     this.entityName = entityName;
+    this.model = model;
+    this.softDelete = new SoftDeleteHandler(softDeletePolicy);
+    this.queryFilter = new QueryFilterBuilder(omitHiddenFields(schema, hiddenFields));
+    this.projection = new ProjectionBuilder(schema, relations, computedFields, hiddenFields);
+    this.computedFields = computedFields;
+    this.bulkOperations = bulkOperations;
   }
 
   setPrisma(prisma: PrismaClient) {
     this.prisma = prisma;
   }
 
+  // Typed Prisma delegate for the entity's model
+  protected get delegate(): CrudDelegate<EntityRecord<TSchema>> {
+    return this.delegateFor(this.prisma);
+  }
+
+  protected delegateFor(client: DatabaseClient): CrudDelegate<EntityRecord<TSchema>> {
+    return getModelDelegate<EntityRecord<TSchema>, ModelName>(client, this.model);
+  }
+
+  // Tenant-scope included rows, then add the requested computed fields
+  protected async finalizeRows(
+    rows: EntityRecord<TSchema>[],
+    computed: string[],
+    tenantId?: string
+  ): Promise<EntityRecord<TSchema>[]> {
+    return resolveComputedFields(this.projection.scope(rows, tenantId), this.computedFields, computed, {
+      prisma: this.prisma,
+      tenantId,
+    });
+  }
+
   // Enhanced error handling
   protected handleValidationError(error: z.ZodError): ValidationError {
-    return {
-      code: 'VALIDATION_ERROR',
-      message: 'Invalid data provided',
-      details: error.errors,
-    };
+    return fromZodError(error);
   }
 
-  protected handleTenantError(message: string, field?: string): ValidationError {
-    return {
-      code: 'TENANT_ERROR',
-      message,
-      field,
-    };
+  protected handleTenantError(message: string, field?: string): TenantError {
+    return new TenantError(message, field);
   }
 
-  protected handleBusinessLogicError(message: string): ValidationError {
-    return {
-      code: 'BUSINESS_LOGIC_ERROR',
-      message,
+  protected handleBusinessLogicError(message: string, hook?: HookName, cause?: unknown, handler?: string): BusinessLogicError {
+    return new BusinessLogicError(message, { hook, handler, cause });
+  }
+
+  protected handleConflictError(current: EntityRecord<TSchema> | null): ConflictError {
+    return new ConflictError(`${this.entityName} was modified by another request`, { current });
+  }
+
+  // Run the operation and its hooks in one interactive transaction
+  protected async runInTransaction<T>(
+    operation: OperationContext['operation'],
+    tenantId: string | undefined,
+    fn: (context: OperationContext) => Promise<T>
+  ): Promise<T> {
+    const { actor } = auditLog.getContext();
+    return this.prisma.$transaction(tx => fn({ tx, entityName: this.entityName, operation, tenantId, actor }));
+  }
+
+  // The same service bound to an open transaction; its own transactions run inside it
+  protected joinTransaction(tx: DatabaseClient): this {
+    const scoped = Object.create(this) as this;
+    scoped.prisma = new Proxy(tx, {
+      get: (target, key) =>
+        key === '$transaction' ? (fn: (client: DatabaseClient) => unknown) => fn(target) : Reflect.get(target, key),
+    }) as unknown as PrismaClient;
+    return scoped;
+  }
+
+  // Audit, emit events for and snapshot a change, inside the operation's transaction.
+  // Hidden fields are left out, so history and events never carry them.
+  protected async recordChange(
+    client: DatabaseClient,
+    operation: AuditOperation,
+    id: string,
+    tenantId: string | undefined,
+    before: EntityRecord<TSchema> | null,
+    after: EntityRecord<TSchema> | null
+  ): Promise<void> {
+    const entry: AuditEntry = {
+      entityName: this.entityName,
+      entityId: id,
+      operation,
+      tenantId,
+      before: this.projection.hide(before),
+      after: this.projection.hide(after),
     };
+    await recordEntityChange(client, entry);
   }
 
-  // Apply tenant-specific validation rules
-  protected applyTenantRules(data: any, tenantId?: string): any {
-    const rules = this.tenantRules;
-    
-    // Apply custom validators
-    if (rules.customValidators) {
-      for (const [field, validator] of Object.entries(rules.customValidators)) {
-        if (data[field] !== undefined && !validator(data[field])) {
-          throw new Error(`Validation failed for field: ${field}`);
-        }
-      }
-    }
+  // Invoke a hook handler, converting untyped failures into a BUSINESS_LOGIC_ERROR naming the hook.
+  // Typed errors (e.g. ValidationError for a field) pass through unchanged.
+  protected async runHook<T>(hook: HookName, handler: string | undefined, invoke: () => Promise<T>): Promise<T> {
+    try {
+      return await invoke();
+    } catch (error) {
+      if (error instanceof EntityError) throw error;
 
-    // Apply field length restrictions
-    if (rules.maxNameLength && data.name && data.name.length > rules.maxNameLength) {
-      throw new Error(`Name cannot exceed ${rules.maxNameLength} characters`);
+      const reason = error instanceof Error ? error.message : String(error);
+      const label = handler ? `${hook} hook (${handler})` : `${hook} hook`;
+      throw this.handleBusinessLogicError(`${label} failed for ${this.entityName}: ${reason}`, hook, error, handler);
     }
+  }
+
+  // Run the entity's and global handlers for an event in priority order.
+  // A handler ends the chain by calling context.stop() or by returning false from invoke.
+  protected async runHooks<E extends HookName>(
+    event: E,
+    context: OperationContext,
+    invoke: (handler: HookHandler<E, EntityRecord<TSchema>>, context: HookContext) => Promise<boolean | void>
+  ): Promise<void> {
+    let stopped = false;
+    const hookContext: HookContext = { ...context, stop: () => { stopped = true; } };
 
-    if (rules.maxDescriptionLength && data.description && data.description.length > rules.maxDescriptionLength) {
-      throw new Error(`Description cannot exceed ${rules.maxDescriptionLength} characters`);
+    for (const registration of hookRegistry.resolve(event, this.entityName, this.businessLogic)) {
+      const proceed = await this.runHook(event, registration.name, () => invoke(registration.handler, hookContext));
+      if (proceed === false || stopped) break;
     }
+  }
+
+  protected handleRuleErrors(errors: FieldValidationError[]): ValidationError {
+    return new ValidationError(
+      `Validation failed for ${this.entityName}: ${errors.map(error => error.message).join('; ')}`,
+      errors
+    );
+  }
+
+  // Static rules merged with the tenant's stored overrides
+  protected async resolveTenantRules(tenantId?: string): Promise<TenantRules> {
+    return tenantRuleStore.resolve(this.entityName, this.tenantRules, tenantId);
+  }
+
+  // Apply tenant-specific validation rules
+  protected async applyTenantRules(
+    data: any,
+    tenantId: string | undefined,
+    operation: RuleOperation,
+    existing?: Record<string, any> | null,
+    client: DatabaseClient = this.prisma
+  ): Promise<any> {
+    const rules = await this.resolveTenantRules(tenantId);
+    const errors = await tenantRuleEngine.evaluate(data, rules, {
+      operation,
+      tenantId,
+      id: existing?.id,
+      existing,
+      prisma: client,
+      delegate: this.delegateFor(client),
+    });
 
-    // Apply type restrictions
-    if (rules.allowedTypes && data.type && !rules.allowedTypes.includes(data.type)) {
-      throw new Error(`Type must be one of: ${rules.allowedTypes.join(', ')}`);
+    if (errors.length > 0) {
+      throw this.handleRuleErrors(errors);
     }
 
     return data;
   }
 
-  async create(data: any, tenantId?: string): Promise<any> {
+  async create(data: CreateInput<TSchema>, tenantId?: string): Promise<EntityRecord<TSchema>> {
     try {
-      // Apply tenant rules
-      data = this.applyTenantRules(data, tenantId);
+      return await this.runInTransaction('create', tenantId, async context => {
+        const { tx } = context;
 
-      // Apply business logic hooks
-      if (this.businessLogic?.beforeCreate) {
-        data = await this.businessLogic.beforeCreate(data, tenantId);
-      }
+        // Apply business logic hooks
+        await this.runHooks('beforeCreate', context, async (handler, hookContext) => {
+          data = (await handler(data, tenantId, hookContext)) ?? data;
+        });
 
-      const validatedData = this.schema.parse(data);
-      
-      const entity = await (this.prisma as any)[this.entityName.toLowerCase()].create({
-        data: {
-          ...validatedData,
-          tenantId: tenantId ?? null,
-        },
-      });
+        // Apply tenant rules to the normalized data
+        data = await this.applyTenantRules(data, tenantId, 'create', undefined, tx);
 
-      // Apply after create hooks
-      if (this.businessLogic?.afterCreate) {
-        await this.businessLogic.afterCreate(entity, tenantId);
-      }
+        // Parsed as the model's create input, which the schema was checked against on registration
+        const validatedData = omitSystemFields(this.schema).parse(data);
+
+        const entity = await getModelDelegate<EntityRecord<TSchema>, M>(tx, this.model).create({
+          data: {
+            ...validatedData,
+            ...('createdBy' in this.schema.shape && context.actor && { createdBy: context.actor }),
+            tenantId: tenantId ?? null,
+          },
+        });
+        await this.recordChange(tx, 'create', entity.id, tenantId, null, entity);
 
-      return entity;
+        // Apply after create hooks
+        await this.runHooks('afterCreate', context, async (handler, hookContext) => {
+          await handler(entity, tenantId, hookContext);
+        });
+
+        return entity;
+      });
     } catch (error) {
       if (error instanceof z.ZodError) {
         throw this.handleValidationError(error);
@@ -149,47 +533,40 @@ export class BaseService {
     }
   }
 
-  async findById(id: string, tenantId?: string): Promise<any | null> {
-    return (this.prisma as any)[this.entityName.toLowerCase()].findFirst({
-      where: {
+  async findById(id: string, tenantId?: string, options: FindOptions = {}): Promise<EntityRecord<TSchema> | null> {
+    const { errors, computed, ...projection } = this.projection.build(options, tenantId);
+    if (errors.length > 0) {
+      throw this.handleRuleErrors(errors);
+    }
+
+    const entity = await this.delegate.findFirst({
+      where: this.softDelete.scope({
         id,
         tenantId: tenantId ?? null,
-      },
+      }, options.includeDeleted),
+      ...projection,
     });
-  }
-
-  async list(query: any, tenantId?: string): Promise<{
-    items: any[];
-    total: number;
-    page: number;
-    limit: number;
-    totalPages: number;
-  }> {
-    const { page = 1, limit = 20, search, sortBy = 'createdAt', sortOrder = 'desc' } = query;
 
-    const where: any = {
-      tenantId: tenantId ?? null,
-    };
+    return entity && (await this.finalizeRows([entity], computed, tenantId))[0];
+  }
 
-    if (search) {
-      where.OR = [
-        { name: { contains: search, mode: 'insensitive' } },
-        { description: { contains: search, mode: 'insensitive' } },
-      ];
-    }
+  async list(query: ListQuery<EntityRecord<TSchema>>, tenantId?: string): Promise<ListResult<EntityRecord<TSchema>>> {
+    const { page = 1, limit = 20 } = query;
+    const { where, orderBy, projection, computed } = this.buildListQuery(query, tenantId);
 
     const [items, total] = await Promise.all([
-      (this.prisma as any)[this.entityName.toLowerCase()].findMany({
+      this.delegate.findMany({
         where,
-        orderBy: { [sortBy]: sortOrder },
+        orderBy,
         skip: (page - 1) * limit,
         take: limit,
+        ...projection,
       }),
-      (this.prisma as any)[this.entityName.toLowerCase()].count({ where }),
+      this.delegate.count({ where }),
     ]);
 
     return {
-      items,
+      items: await this.finalizeRows(items, computed, tenantId),
       total,
       page,
       limit,
@@ -197,29 +574,129 @@ export class BaseService {
     };
   }
 
-  async update(id: string, data: any, tenantId?: string): Promise<any> {
+  // Opt-in keyset pagination, stable for large tables; ties are broken on id
+  async listByCursor(
+    query: CursorListQuery<EntityRecord<TSchema>>,
+    tenantId?: string
+  ): Promise<CursorListResult<EntityRecord<TSchema>>> {
+    const { limit = 20, cursor, includeTotal } = query;
+    const { where, orderBy, projection, computed } = this.buildListQuery(query, tenantId, true);
+
     try {
-      // Apply tenant rules
-      data = this.applyTenantRules(data, tenantId);
+      const page = await paginateByCursor(this.delegate, { where, orderBy, limit, cursor, includeTotal, ...projection });
+      return { ...page, items: await this.finalizeRows(page.items, computed, tenantId) };
+    } catch (error) {
+      if (error instanceof InvalidCursorError) {
+        throw this.handleRuleErrors([{ field: 'cursor', rule: 'cursor', message: error.message }]);
+      }
+      throw error;
+    }
+  }
+
+  // Validated where/orderBy/projection shared by offset and cursor listing
+  protected buildListQuery(
+    query: Omit<ListQuery<EntityRecord<TSchema>>, 'page'>,
+    tenantId: string | undefined,
+    keyset = false
+  ) {
+    const { search, sortBy = 'createdAt', sortOrder = 'desc', includeDeleted } = query;
+
+    const filter = this.queryFilter.buildWhere(query.filter);
+    const sort = this.queryFilter.parseSort(query.sort ?? `${sortOrder === 'desc' ? '-' : ''}${sortBy}`);
+    const errors = [...filter.errors, ...sort.errors];
 
-      // Apply business logic hooks
-      if (this.businessLogic?.beforeUpdate) {
-        data = await this.businessLogic.beforeUpdate(id, data, tenantId);
+    // Keyset comparisons cannot order nulls, so cursor sorts need non-nullable fields
+    if (keyset) {
+      const nullable = new Set(this.queryFilter.getFields().filter(field => field.nullable).map(field => field.name));
+      for (const key of sort.orderBy) {
+        const field = Object.keys(key)[0];
+        if (nullable.has(field)) {
+          errors.push({ field, rule: 'sort', message: `Cannot use cursor pagination when sorting by nullable field ${field}` });
+        }
       }
+    }
 
-      const validatedData = this.schema.partial().parse(data);
+    // Cursors are built from the sort keys, so they stay selected in sparse fieldsets
+    const { errors: projectionErrors, computed, ...projection } = this.projection.build(
+      query,
+      tenantId,
+      keyset ? sort.orderBy.map(key => Object.keys(key)[0]) : []
+    );
+    errors.push(...projectionErrors);
+
+    if (errors.length > 0) {
+      throw this.handleRuleErrors(errors);
+    }
 
-      const entity = await (this.prisma as any)[this.entityName.toLowerCase()].update({
-        where: { id },
-        data: validatedData,
+    // Filters, search and tenant are separate conditions so none replaces another's OR or field
+    const conditions: Record<string, any>[] = [filter.where, { tenantId: tenantId ?? null }];
+    if (search) {
+      conditions.push({
+        OR: [
+          { name: { contains: search, mode: 'insensitive' } },
+          { description: { contains: search, mode: 'insensitive' } },
+        ],
       });
+    }
+    const where = this.softDelete.scope({ AND: conditions }, includeDeleted);
 
-      // Apply after update hooks
-      if (this.businessLogic?.afterUpdate) {
-        await this.businessLogic.afterUpdate(entity, tenantId);
-      }
+    return { where, orderBy: sort.orderBy, projection, computed };
+  }
+
+  async update(
+    id: string,
+    data: UpdateInput<TSchema>,
+    tenantId?: string,
+    options: MutationOptions = {}
+  ): Promise<EntityRecord<TSchema>> {
+    try {
+      return await this.runInTransaction('update', tenantId, async context => {
+        const { tx } = context;
+
+        // Apply business logic hooks
+        await this.runHooks('beforeUpdate', context, async (handler, hookContext) => {
+          data = (await handler(id, data, tenantId, hookContext)) ?? data;
+        });
+
+        // Only the tenant's live rows can be updated
+        const delegate = this.delegateFor(tx);
+        const where = this.softDelete.scope({ id, tenantId: tenantId ?? null });
+        const existing = await delegate.findFirst({ where });
+        if (!existing) {
+          throw new NotFoundError(this.entityName, id);
+        }
 
-      return entity;
+        // Reject writes based on a stale read before doing any work
+        const { expectedVersion } = options;
+        if (expectedVersion !== undefined && getEntityVersion(existing) !== expectedVersion) {
+          throw this.handleConflictError(this.projection.hide(existing));
+        }
+
+        // Apply tenant rules to the normalized data
+        data = await this.applyTenantRules(data, tenantId, 'update', existing, tx);
+
+        const validatedData = omitSystemFields<TSchema>(this.schema).partial().parse(data);
+
+        // Conditional write also catches a concurrent update or delete since the read above
+        const { count } = await delegate.updateMany({
+          where: { ...where, ...(expectedVersion !== undefined && { updatedAt: existing.updatedAt }) },
+          data: validatedData,
+        });
+        if (count === 0) {
+          const current = await delegate.findFirst({ where });
+          if (!current) throw new NotFoundError(this.entityName, id);
+          throw this.handleConflictError(this.projection.hide(current));
+        }
+        const entity = (await delegate.findFirst({ where: { id, tenantId: tenantId ?? null } }))!;
+        await this.recordChange(tx, 'update', id, tenantId, existing, entity);
+
+        // Apply after update hooks
+        await this.runHooks('afterUpdate', context, async (handler, hookContext) => {
+          await handler(entity, tenantId, hookContext);
+        });
+
+        return this.projection.hide(entity);
+      });
     } catch (error) {
       if (error instanceof z.ZodError) {
         throw this.handleValidationError(error);
@@ -228,40 +705,249 @@ export class BaseService {
     }
   }
 
+  // Soft delete according to the entity's policy; entities without one are purged
   async delete(id: string, tenantId?: string): Promise<boolean> {
+    if (!this.softDelete.enabled) {
+      return this.purge(id, tenantId);
+    }
+
+    return this.remove('delete', id, tenantId, async tx => {
+      const { count } = await this.delegateFor(tx).updateMany({
+        where: this.softDelete.scope({ id, tenantId: tenantId ?? null }),
+        data: this.softDelete.deleteData(),
+      });
+      return count > 0;
+    });
+  }
+
+  // Permanently remove the row, whether or not it was soft-deleted
+  async purge(id: string, tenantId?: string): Promise<boolean> {
+    return this.remove('purge', id, tenantId, async tx => {
+      const { count } = await this.delegateFor(tx).deleteMany({
+        where: { id, tenantId: tenantId ?? null },
+      });
+      return count > 0;
+    });
+  }
+
+  // Undo a soft delete; null when the row does not exist or is not deleted
+  async restore(id: string, tenantId?: string): Promise<EntityRecord<TSchema> | null> {
+    if (!this.softDelete.enabled) return null;
+
+    const where = { id, tenantId: tenantId ?? null };
+    return this.prisma.$transaction(async tx => {
+      const delegate = this.delegateFor(tx);
+      const before = await delegate.findFirst({ where: { ...where, ...this.softDelete.deletedWhere() } });
+      if (!before) return null;
+
+      await delegate.updateMany({ where, data: this.softDelete.restoreData() });
+      const entity = await delegate.findFirst({ where });
+      await this.recordChange(tx, 'restore', id, tenantId, before, entity);
+
+      return this.projection.hide(entity);
+    });
+  }
+
+  /**
+   * Run a batch of create/update/patch/delete/restore and custom operations row by row.
+   * Atomic requests share one transaction and stop at the first failing row; best-effort
+   * requests commit each row on its own and report every failure.
+   */
+  async bulk(request: BulkRequest, tenantId?: string): Promise<BulkResult> {
+    const parsed = bulkRequestSchema.safeParse(request);
+    if (!parsed.success) {
+      throw this.handleValidationError(parsed.error);
+    }
+    const { mode, operations } = parsed.data;
+
+    // Unknown operations fail the request before anything runs
+    const known = new Set<string>([...STANDARD_BULK_OPERATIONS, ...Object.keys(this.bulkOperations)]);
+    const unknown = operations.flatMap((operation, index) =>
+      known.has(operation.op)
+        ? []
+        : [{ field: `operations.${index}.op`, rule: 'enum', message: `Unsupported bulk operation: ${operation.op}` }]
+    );
+    if (unknown.length > 0) {
+      throw new ValidationError(`Validation failed for ${this.entityName} bulk request`, unknown);
+    }
+
+    const results: BulkRowResult[] = [];
+    const row = (index: number, operation: BulkOperation): Pick<BulkRowResult, 'index' | 'op' | 'id'> => ({
+      index,
+      op: operation.op,
+      ...(operation.id && { id: operation.id }),
+    });
+
+    if (mode === 'bestEffort') {
+      for (const [index, operation] of operations.entries()) {
+        try {
+          const data = await this.prisma.$transaction(
+            tx => this.joinTransaction(tx).runBulkOperation(operation, tx, tenantId),
+            { timeout: BULK_TRANSACTION_TIMEOUT_MS }
+          );
+          results.push({ ...row(index, operation), status: 'succeeded', data });
+        } catch (error) {
+          results.push({ ...row(index, operation), status: 'failed', error: toBulkRowError(error) });
+        }
+      }
+      return summarizeBulkResults(mode, results.some(result => result.status === 'succeeded'), results);
+    }
+
+    let failedAt: number | undefined;
     try {
-      // Apply business logic hooks
-      if (this.businessLogic?.beforeDelete) {
-        const canDelete = await this.businessLogic.beforeDelete(id, tenantId);
-        if (!canDelete) return false;
+      await this.prisma.$transaction(
+        async tx => {
+          const scoped = this.joinTransaction(tx);
+          for (const [index, operation] of operations.entries()) {
+            try {
+              const data = await scoped.runBulkOperation(operation, tx, tenantId);
+              results.push({ ...row(index, operation), status: 'succeeded', data });
+            } catch (error) {
+              failedAt = index;
+              results.push({ ...row(index, operation), status: 'failed', error: toBulkRowError(error) });
+              throw error;
+            }
+          }
+        },
+        { timeout: BULK_TRANSACTION_TIMEOUT_MS }
+      );
+    } catch (error) {
+      // Failures outside a row, e.g. the commit itself, are not per-row results
+      if (failedAt === undefined) throw error;
+
+      return summarizeBulkResults(mode, false, [
+        ...results.map(result => (result.status === 'succeeded' ? { ...result, status: 'rolledBack' as const, data: undefined } : result)),
+        ...operations.slice(failedAt + 1).map((operation, offset) => ({
+          ...row(failedAt! + 1 + offset, operation),
+          status: 'skipped' as const,
+        })),
+      ]);
+    }
+
+    return summarizeBulkResults(mode, true, results);
+  }
+
+  // One bulk row through the regular service methods, so hooks, rules and auditing apply
+  private async runBulkOperation(operation: BulkOperation, tx: DatabaseClient, tenantId?: string): Promise<unknown> {
+    const { op, id, data, version } = operation;
+    const requireId = () => {
+      if (!id) throw ValidationError.forField('id', 'required', `id is required for ${op}`);
+      return id;
+    };
+    const requireData = () => {
+      if (!data) throw ValidationError.forField('data', 'required', `data is required for ${op}`);
+      return data;
+    };
+
+    switch (op) {
+      case 'create':
+        return this.create(requireData() as CreateInput<TSchema>, tenantId);
+      case 'update':
+      case 'patch':
+        return this.update(requireId(), requireData() as UpdateInput<TSchema>, tenantId, { expectedVersion: version });
+      case 'delete':
+        if (!(await this.delete(requireId(), tenantId))) throw new NotFoundError(this.entityName, id);
+        return undefined;
+      case 'restore': {
+        const restored = await this.restore(requireId(), tenantId);
+        if (!restored) throw new NotFoundError(this.entityName, id);
+        return restored;
       }
+      default: {
+        const write = async (rowId: string, fields: Record<string, any>) => {
+          const delegate = this.delegateFor(tx);
+          const where = this.softDelete.scope({ id: rowId, tenantId: tenantId ?? null });
+          const before = await delegate.findFirst({ where });
+          if (!before) return null;
+          if (version && getEntityVersion(before) !== version) {
+            throw this.handleConflictError(this.projection.hide(before));
+          }
 
-      await (this.prisma as any)[this.entityName.toLowerCase()].update({
-        where: { id },
-        data: { isActive: false },
-      });
+          await delegate.updateMany({ where, data: fields });
+          const after = await delegate.findFirst({ where: { id: rowId, tenantId: tenantId ?? null } });
+          await this.recordChange(tx, 'update', rowId, tenantId, before, after);
+          return this.projection.hide(after);
+        };
 
-      // Apply after delete hooks
-      if (this.businessLogic?.afterDelete) {
-        await this.businessLogic.afterDelete(id, tenantId);
+        const result = await this.bulkOperations[op](operation, { service: this as unknown as BaseService, tx, tenantId, write });
+        if (result === false || result === null) throw new NotFoundError(this.entityName, id);
+        return result === true ? undefined : result;
       }
+    }
+  }
+
+  /**
+   * Revert a record to an earlier version through update(), so hooks, tenant rules
+   * and validation apply as for any other edit. System fields and the soft-delete
+   * state are left as they are; the revert itself becomes the newest version.
+   */
+  async revert(
+    id: string,
+    version: number,
+    tenantId?: string,
+    options: MutationOptions = {}
+  ): Promise<EntityRecord<TSchema>> {
+    const { snapshot = {} } = await versionStore.get(this.entityName, id, version, tenantId);
 
-      return true;
+    const skipped = new Set<string>([...SYSTEM_FIELDS, ...(this.softDelete.field ? [this.softDelete.field] : [])]);
+    const dates = new Set(describeFilterableFields(this.schema).filter(field => field.kind === 'date').map(field => field.name));
+
+    const data = Object.fromEntries(
+      Object.entries(snapshot)
+        .filter(([field]) => field in this.schema.shape && !skipped.has(field))
+        .map(([field, value]) => [field, dates.has(field) && typeof value === 'string' ? new Date(value) : value])
+    );
+
+    return this.update(id, data as UpdateInput<TSchema>, tenantId, options);
+  }
+
+  // Delete hooks around a soft or hard delete, in one transaction
+  private async remove(
+    operation: 'delete' | 'purge',
+    id: string,
+    tenantId: string | undefined,
+    write: (tx: Prisma.TransactionClient) => Promise<boolean>
+  ): Promise<boolean> {
+    try {
+      return await this.runInTransaction(operation, tenantId, async context => {
+        // Apply business logic hooks
+        let canDelete = true;
+        await this.runHooks('beforeDelete', context, async (handler, hookContext) => {
+          canDelete = await handler(id, tenantId, hookContext);
+          return canDelete;
+        });
+        if (!canDelete) return false;
+
+        const delegate = this.delegateFor(context.tx);
+        const before = await delegate.findFirst({ where: { id, tenantId: tenantId ?? null } });
+        if (!await write(context.tx)) return false;
+
+        // A soft-deleted row is still there; record the flag it changed
+        const after = operation === 'delete' ? await delegate.findFirst({ where: { id, tenantId: tenantId ?? null } }) : null;
+        await this.recordChange(context.tx, operation, id, tenantId, before, after);
+
+        // Apply after delete hooks
+        await this.runHooks('afterDelete', context, async (handler, hookContext) => {
+          await handler(id, tenantId, hookContext);
+        });
+
+        return true;
+      });
     } catch (error) {
-      throw this.handleBusinessLogicError(`Failed to delete ${this.entityName}: ${error}`);
+      if (error instanceof EntityError) {
+        throw error;
+      }
+      throw this.handleBusinessLogicError(`Failed to ${operation} ${this.entityName}: ${toEntityError(error).message}`, undefined, error);
     }
   }
 
-  async getStats(tenantId?: string): Promise<any> {
+  async getStats(tenantId?: string): Promise<EntityStats> {
     const [total, active] = await Promise.all([
-      (this.prisma as any)[this.entityName.toLowerCase()].count({
+      this.delegate.count({
         where: { tenantId: tenantId ?? null },
       }),
-      (this.prisma as any)[this.entityName.toLowerCase()].count({
-        where: { 
-          tenantId: tenantId ?? null,
-          isActive: true,
-        },
+      this.delegate.count({
+        where: this.softDelete.scope({ tenantId: tenantId ?? null }),
       }),
     ]);
 
@@ -273,60 +959,113 @@ export class BaseService {
   }
 }
 
-export class SchemaBuilder {
-  private baseSchema: z.ZodObject<any>;
+export class SchemaBuilder<TSchema extends ModelSchema<TSchema, M> = z.AnyZodObject, M extends ModelName = ModelName> {
+  private baseSchema: TSchema;
   private tenantRules: TenantRules;
-  private businessLogic?: BusinessLogic;
+  private businessLogic?: BusinessLogic<EntityRecord<TSchema>>;
   private entityName: string;
+  private model: M;
+  private softDeletePolicy?: SoftDeletePolicy;
+  private relations: EntityRelations;
+  private computedFields: ComputedFields<EntityRecord<TSchema>>;
+  private bulkOperations: BulkOperationHandlers;
+  private hiddenFields: string[];
 
   constructor(
-    baseSchema: z.ZodObject<any>,
+    baseSchema: TSchema,
     tenantRules: TenantRules,
-    businessLogic: BusinessLogic | undefined,
-    entityName: string
+    businessLogic: BusinessLogic<EntityRecord<TSchema>> | undefined,
+    entityName: string,
+    model: M,
+    softDeletePolicy?: SoftDeletePolicy,
+    relations: EntityRelations = {},
+    computedFields: ComputedFields<EntityRecord<TSchema>> = {},
+    bulkOperations: BulkOperationHandlers = {},
+    hiddenFields: string[] = []
   ) {
     this.baseSchema = baseSchema;
     this.tenantRules = tenantRules;
     this.businessLogic = businessLogic;
     this.entityName = entityName;
+    this.model = model;
+    this.softDeletePolicy = softDeletePolicy;
+    this.relations = relations;
+    this.computedFields = computedFields;
+    this.bulkOperations = bulkOperations;
+    this.hiddenFields = hiddenFields;
+  }
+
+  // Records as returned by the API, without write-only fields
+  entitySchema(): z.AnyZodObject {
+    return omitHiddenFields(this.baseSchema, this.hiddenFields);
   }
 
   // Auto-generate CRUD schemas
-  createSchema() {
-    return this.baseSchema.omit({
-      id: true,
-      createdAt: true,
-      updatedAt: true,
-      createdBy: true,
-      updatedBy: true,
-      tenantId: true,
-      isActive: true,
-    });
+  createSchema(): CreateSchema<TSchema> {
+    return omitSystemFields<TSchema>(this.baseSchema);
   }
 
   updateSchema() {
-    return this.baseSchema.partial().omit({
-      id: true,
-      createdAt: true,
-      updatedAt: true,
-      createdBy: true,
-      updatedBy: true,
-      tenantId: true,
-      isActive: true,
-    });
+    return omitSystemFields<TSchema>(this.baseSchema).partial();
   }
 
   querySchema() {
+    // Query strings arrive as text, so numbers and flags are coerced
     return z.object({
-      page: z.number().min(1).optional(),
-      limit: z.number().min(1).max(100).optional(),
+      page: z.coerce.number().min(1).optional(),
+      limit: z.coerce.number().min(1).max(100).optional(),
       search: z.string().optional(),
       sortBy: z.string().optional(),
       sortOrder: z.enum(['asc', 'desc']).optional(),
+      sort: z.string().optional(),
+      // filter[field]=value or filter[field][op]=value, checked against filterableFields()
+      filter: z.record(z.union([queryValue, z.record(queryValue)])).optional(),
+      includeDeleted: queryBoolean.optional(),
+      // `cursor` opts into keyset pagination; offset stays the default
+      pagination: z.enum(['offset', 'cursor']).optional(),
+      cursor: z.string().optional(),
+      includeTotal: queryBoolean.optional(),
+      // Comma separated, checked against the schema and relations()
+      fields: z.string().optional(),
+      include: z.string().optional(),
     });
   }
 
-  generateService(): BaseService {
-    return new BaseService(this.baseSchema, this.tenantRules, this.businessLogic, this.entityName);
+  filterableFields(): FilterableField[] {
+    return new QueryFilterBuilder(this.entitySchema()).getFields();
+  }
+
+  getModel(): M {
+    return this.model;
+  }
+
+  // Relations clients may request with ?include=
+  getRelations(): EntityRelations {
+    return this.relations;
+  }
+
+  // Standard and custom operations accepted by POST /bulk
+  bulkOperationNames(): string[] {
+    return [...STANDARD_BULK_OPERATIONS, ...Object.keys(this.bulkOperations)];
+  }
+
+  // Virtual fields clients may request with ?fields=
+  computedFieldDescriptors(): ComputedFieldDescriptor[] {
+    return describeComputedFields(this.computedFields);
   }
-} 
\ No newline at end of file
+
+  generateService(): BaseService<TSchema, M> {
+    return new BaseService(
+      this.baseSchema,
+      this.tenantRules,
+      this.businessLogic,
+      this.entityName,
+      this.model,
+      this.softDeletePolicy,
+      this.relations,
+      this.computedFields,
+      this.bulkOperations,
+      this.hiddenFields
+    );
+  }
+}
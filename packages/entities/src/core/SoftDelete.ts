@@ -0,0 +1,103 @@
+// How an entity marks rows as deleted without removing them
+export type SoftDeletePolicy =
+  // Boolean column that is false once deleted, e.g. isActive
+  | { strategy: 'flag'; field?: string }
+  // Enum/string column set to a dedicated value, e.g. status = DELETED
+  | { strategy: 'status'; field?: string; deletedValue: string; restoredValue: string }
+  // Nullable timestamp set when deleted, e.g. deletedAt
+  | { strategy: 'timestamp'; field?: string }
+  // No soft delete; delete removes the row
+  | { strategy: 'none' };
+
+// Used by entities that do not declare a policy
+export const DEFAULT_SOFT_DELETE_POLICY: SoftDeletePolicy = { strategy: 'flag', field: 'isActive' };
+
+const DEFAULT_FIELDS = {
+  flag: 'isActive',
+  status: 'status',
+  timestamp: 'deletedAt',
+} as const;
+
+/**
+ * Translates a SoftDeletePolicy into Prisma where clauses and write payloads
+ */
+export class SoftDeleteHandler {
+  readonly policy: SoftDeletePolicy;
+
+  constructor(policy: SoftDeletePolicy = DEFAULT_SOFT_DELETE_POLICY) {
+    this.policy = policy;
+  }
+
+  get enabled(): boolean {
+    return this.policy.strategy !== 'none';
+  }
+
+  get field(): string | undefined {
+    if (this.policy.strategy === 'none') return undefined;
+    return this.policy.field ?? DEFAULT_FIELDS[this.policy.strategy];
+  }
+
+  // Matches rows that are not soft-deleted
+  notDeletedWhere(): Record<string, any> {
+    const field = this.field!;
+    switch (this.policy.strategy) {
+      case 'flag':
+        return { [field]: true };
+      case 'status':
+        return { [field]: { not: this.policy.deletedValue } };
+      case 'timestamp':
+        return { [field]: null };
+      default:
+        return {};
+    }
+  }
+
+  // Matches rows that are soft-deleted
+  deletedWhere(): Record<string, any> {
+    const field = this.field!;
+    switch (this.policy.strategy) {
+      case 'flag':
+        return { [field]: false };
+      case 'status':
+        return { [field]: this.policy.deletedValue };
+      case 'timestamp':
+        return { [field]: { not: null } };
+      default:
+        return { id: { in: [] } };
+    }
+  }
+
+  deleteData(): Record<string, any> {
+    const field = this.field!;
+    switch (this.policy.strategy) {
+      case 'flag':
+        return { [field]: false };
+      case 'status':
+        return { [field]: this.policy.deletedValue };
+      case 'timestamp':
+        return { [field]: new Date() };
+      default:
+        return {};
+    }
+  }
+
+  restoreData(): Record<string, any> {
+    const field = this.field!;
+    switch (this.policy.strategy) {
+      case 'flag':
+        return { [field]: true };
+      case 'status':
+        return { [field]: this.policy.restoredValue };
+      case 'timestamp':
+        return { [field]: null };
+      default:
+        return {};
+    }
+  }
+
+  // Apply the default exclusion of soft-deleted rows to a where clause, alongside any condition it has on the same field
+  scope(where: Record<string, any>, includeDeleted = false): Record<string, any> {
+    if (includeDeleted || !this.enabled) return where;
+    return { AND: [where, this.notDeletedWhere()] };
+  }
+}
@@ -0,0 +1,196 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { Prisma, PrismaClient, Tenant, TenantOperationStatus, TenantStatus } from '@humanui/db';
+import { TenantLifecycle, tenantScopedModels } from './TenantLifecycle';
+import { getDelegateKey } from './SchemaBuilder';
+import { tenantService } from './Tenants';
+import { ConflictError, InternalError } from './Errors';
+
+// The shared client in @humanui/db loads the query engine on import; only the generated types, enums and dmmf are needed
+vi.mock('@humanui/db', () => import('../../../db/src/generated'));
+
+type Datamodel = Pick<Prisma.DMMF.Datamodel, 'models'>;
+
+// Minimal DMMF: every model has a tenantId; `references` are foreign keys held by the model
+const datamodel = (models: Record<string, string[]>): Datamodel => ({
+  models: Object.entries(models).map(([name, references]) => ({
+    name,
+    fields: [
+      { name: 'id', kind: 'scalar', type: 'String' },
+      { name: 'tenantId', kind: 'scalar', type: 'String' },
+      ...references.map(type => ({ name: type.toLowerCase(), kind: 'object', type, relationFromFields: [`${type.toLowerCase()}Id`] })),
+    ],
+  })) as unknown as Prisma.DMMF.Model[],
+});
+
+describe('tenantScopedModels', () => {
+  it('orders referencing models before the models they reference', () => {
+    const order = tenantScopedModels(datamodel({
+      Organization: [],
+      Store: ['Organization'],
+      Item: ['Store', 'Organization'],
+      Tenant: [],
+    }));
+
+    expect(order).toEqual(['Item', 'Store', 'Organization']);
+  });
+
+  it('ignores self references', () => {
+    expect(tenantScopedModels(datamodel({ Category: ['Category'] }))).toEqual(['Category']);
+  });
+
+  it('throws on a reference cycle instead of recursing forever', () => {
+    const cyclic = datamodel({ Organization: [], Store: ['Organization', 'Item'], Item: ['Store'] });
+
+    expect(() => tenantScopedModels(cyclic)).toThrow(InternalError);
+    expect(() => tenantScopedModels(cyclic)).toThrow(/Store <- Item <- Store/);
+  });
+
+  it('orders the generated schema', () => {
+    const order = tenantScopedModels();
+
+    expect(order).not.toContain('Tenant');
+    expect(order.indexOf('Item')).toBeLessThan(order.indexOf('Store'));
+    expect(order.indexOf('Store')).toBeLessThan(order.indexOf('Organization'));
+  });
+});
+
+interface ScopedRow {
+  id: string;
+  tenantId: string;
+}
+
+const tenant = { id: 't1', slug: 'acme', name: 'Acme', status: TenantStatus.ACTIVE, suspendedAt: null } as Tenant;
+const modelOf = (key: string) => tenantScopedModels().find(model => getDelegateKey(model) === key) ?? key;
+const seedRows = (tenantId: string, prefix: string, count: number) =>
+  Array.from({ length: count }, (_, index) => ({ id: `${prefix}-${tenantId}-${index}`, tenantId }));
+
+// In-memory tables for every tenant-scoped model, plus the tenant and its operations
+function createClient(tables: Record<string, ScopedRow[]>, operations: Array<Record<string, any>> = []) {
+  const deleted: string[] = [];
+  let failOn: string | undefined;
+  let tenantDeleted = false;
+
+  const delegate = (model: string) => {
+    const rows = (tables[model] ??= []);
+    const scoped = (tenantId: string) => rows.filter(row => row.tenantId === tenantId);
+    return {
+      count: async ({ where: { tenantId } }: { where: { tenantId: string } }) => scoped(tenantId).length,
+      findMany: async ({ where: { tenantId }, take }: { where: { tenantId: string }; take: number }) =>
+        scoped(tenantId).slice(0, take).map(({ id }) => ({ id })),
+      deleteMany: async ({ where: { id } }: { where: { id: { in: string[] } } }) => {
+        if (failOn === model) throw new Error(`${model} rows are locked`);
+        const remaining = rows.filter(row => !id.in.includes(row.id));
+        const count = rows.length - remaining.length;
+        rows.splice(0, rows.length, ...remaining);
+        deleted.push(model);
+        return { count };
+      },
+    };
+  };
+
+  const operationDelegate = {
+    findFirst: async ({ where }: { where: { status: TenantOperationStatus; updatedAt: { gt: Date } } }) =>
+      operations.find(operation => operation.status === where.status && operation.updatedAt > where.updatedAt.gt) ?? null,
+    create: async ({ data }: { data: Record<string, any> }) => {
+      const operation = { id: `op-${operations.length + 1}`, status: TenantOperationStatus.RUNNING, updatedAt: new Date(), ...data };
+      operations.push(operation);
+      return operation;
+    },
+    update: async ({ where, data }: { where: { id: string }; data: Record<string, any> }) =>
+      Object.assign(operations.find(operation => operation.id === where.id)!, data, { updatedAt: new Date() }),
+  };
+
+  const tenantDelegate = {
+    update: async ({ data }: { data: Partial<Tenant> }) => ({ ...tenant, ...data }),
+    delete: async () => {
+      tenantDeleted = true;
+      return tenant;
+    },
+  };
+
+  const client = new Proxy({}, {
+    get: (_target, key: string) =>
+      key === 'tenant' ? tenantDelegate : key === 'tenantOperation' ? operationDelegate : delegate(modelOf(key)),
+  }) as PrismaClient;
+
+  return {
+    client,
+    deleted,
+    operations,
+    failOn: (model?: string) => (failOn = model),
+    isTenantDeleted: () => tenantDeleted,
+  };
+}
+
+describe('TenantLifecycle.delete', () => {
+  let tables: Record<string, ScopedRow[]>;
+
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    vi.spyOn(tenantService, 'get').mockResolvedValue(tenant);
+    vi.spyOn(tenantService, 'invalidate').mockImplementation(() => undefined);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    tables = {
+      Organization: [...seedRows('t1', 'org', 1), ...seedRows('t2', 'org', 1)],
+      Store: seedRows('t1', 'store', 2),
+      Item: [...seedRows('t1', 'item', 5), ...seedRows('t2', 'item', 2)],
+    };
+  });
+
+  it('deletes referencing rows first, in batches, and only the tenant\'s', async () => {
+    const { client, deleted, isTenantDeleted } = createClient(tables);
+    const lifecycle = new TenantLifecycle({ batchSize: 2 });
+    lifecycle.setPrisma(client);
+
+    const operation = await lifecycle.delete('t1');
+    const finished = await lifecycle.waitFor(operation.id);
+
+    expect(finished).toMatchObject({
+      status: TenantOperationStatus.COMPLETED,
+      progress: expect.objectContaining({
+        Item: { done: 5, total: 5 },
+        Store: { done: 2, total: 2 },
+        Organization: { done: 1, total: 1 },
+      }),
+    });
+    expect(deleted).toEqual(['Item', 'Item', 'Item', 'Store', 'Organization']);
+    expect(tables.Item.map(row => row.tenantId)).toEqual(['t2', 't2']);
+    expect(tables.Organization.map(row => row.tenantId)).toEqual(['t2']);
+    expect(isTenantDeleted()).toBe(true);
+  });
+
+  it('keeps the tenant when a batch fails and resumes on the next run', async () => {
+    const database = createClient(tables);
+    const lifecycle = new TenantLifecycle({ batchSize: 2 });
+    lifecycle.setPrisma(database.client);
+
+    database.failOn('Store');
+    const failed = await lifecycle.waitFor((await lifecycle.delete('t1')).id);
+
+    expect(failed).toMatchObject({ status: TenantOperationStatus.FAILED, error: 'Store rows are locked' });
+    expect(tables.Item.filter(row => row.tenantId === 't1')).toEqual([]);
+    expect(tables.Store).toHaveLength(2);
+    expect(database.isTenantDeleted()).toBe(false);
+
+    database.failOn(undefined);
+    const resumed = await lifecycle.waitFor((await lifecycle.delete('t1')).id);
+
+    expect(resumed).toMatchObject({
+      status: TenantOperationStatus.COMPLETED,
+      progress: expect.objectContaining({ Item: { done: 0, total: 0 }, Store: { done: 2, total: 2 } }),
+    });
+    expect(database.isTenantDeleted()).toBe(true);
+  });
+
+  it('refuses to start while another operation runs, but takes over a stale one', async () => {
+    const running = { id: 'op-running', type: 'CLONE', status: TenantOperationStatus.RUNNING, updatedAt: new Date() };
+    const lifecycle = new TenantLifecycle({ staleAfterMs: 60 * 1000 });
+    lifecycle.setPrisma(createClient(tables, [running]).client);
+
+    await expect(lifecycle.delete('t1')).rejects.toBeInstanceOf(ConflictError);
+
+    running.updatedAt = new Date(Date.now() - 2 * 60 * 1000);
+    const operation = await lifecycle.delete('t1');
+    await expect(lifecycle.waitFor(operation.id)).resolves.toMatchObject({ status: TenantOperationStatus.COMPLETED });
+  });
+});
@@ -0,0 +1,538 @@
+import { z } from 'zod';
+import {
+  Prisma,
+  PrismaClient,
+  Tenant,
+  TenantOperation,
+  TenantOperationStatus,
+  TenantOperationType,
+  TenantStatus,
+} from '@humanui/db';
+import { ModelArgs, ModelName, getModelDelegate } from './SchemaBuilder';
+import { tenantCreateSchema, tenantService } from './Tenants';
+import { auditLog } from './AuditLog';
+import { BusinessLogicError, ConflictError, InternalError, NotFoundError } from './Errors';
+
+const seedAttributeSchema = z.object({
+  name: z.string().min(1).max(255),
+  displayName: z.string().min(1).max(255),
+  description: z.string().max(1000).optional(),
+  attributeType: z.enum(['string', 'number', 'boolean', 'enum', 'json']),
+  dataType: z.string().max(100),
+  isRequired: z.boolean().optional(),
+  defaultValue: z.unknown().optional(),
+  validationRules: z.record(z.unknown()).optional(),
+  sortOrder: z.number().int().min(0).optional(),
+}).strict();
+
+export type SeedAttribute = z.input<typeof seedAttributeSchema>;
+
+// Item attributes every new organization starts with
+export const DEFAULT_ITEM_ATTRIBUTES: SeedAttribute[] = [
+  { name: 'brand', displayName: 'Brand', attributeType: 'string', dataType: 'string', sortOrder: 0 },
+  {
+    name: 'color',
+    displayName: 'Color',
+    attributeType: 'enum',
+    dataType: 'string',
+    validationRules: { options: ['black', 'white', 'red', 'blue', 'green'] },
+    sortOrder: 1,
+  },
+  {
+    name: 'size',
+    displayName: 'Size',
+    attributeType: 'enum',
+    dataType: 'string',
+    validationRules: { options: ['XS', 'S', 'M', 'L', 'XL'] },
+    sortOrder: 2,
+  },
+  { name: 'weight', displayName: 'Weight (kg)', attributeType: 'number', dataType: 'decimal', sortOrder: 3 },
+];
+
+export const tenantProvisionSchema = z.object({
+  tenant: tenantCreateSchema,
+  // Defaults to the tenant's name and slug
+  organization: z.object({
+    name: z.string().min(1).max(255),
+    slug: z.string().min(1).max(255).optional(),
+    email: z.string().email().optional(),
+    website: z.string().url().optional(),
+  }).strict().optional(),
+  store: z.object({
+    name: z.string().min(1).max(255),
+    timezone: z.string().max(50).optional(),
+    address: z.record(z.unknown()).optional(),
+  }).strict().default({ name: 'Main store' }),
+  admin: z.object({
+    email: z.string().email(),
+    name: z.string().min(1).max(255).optional(),
+  }).strict(),
+  // Replaces DEFAULT_ITEM_ATTRIBUTES; an empty list seeds none
+  attributes: z.array(seedAttributeSchema).max(100).optional(),
+  // Copy this tenant's catalog once the new tenant exists
+  templateTenantId: z.string().min(1).optional(),
+}).strict();
+
+export type TenantProvisionInput = z.input<typeof tenantProvisionSchema>;
+
+export const tenantCloneSchema = z.object({
+  templateTenantId: z.string().min(1),
+  // Where copied rows go; default to the tenant's oldest organization and store
+  organizationId: z.string().min(1).optional(),
+  storeId: z.string().min(1).optional(),
+}).strict();
+
+export type TenantCloneInput = z.input<typeof tenantCloneSchema>;
+
+export const tenantOperationQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  type: z.nativeEnum(TenantOperationType).optional(),
+  status: z.nativeEnum(TenantOperationStatus).optional(),
+});
+
+export type TenantOperationQuery = z.input<typeof tenantOperationQuerySchema>;
+
+export interface TenantProvisionResult {
+  tenant: Tenant;
+  organization: { id: string; name: string; slug: string };
+  store: { id: string; name: string };
+  admin: { id: string; email: string; name: string | null };
+  attributes: number;
+  // The running clone, when provisioned from a template
+  clone?: TenantOperation;
+}
+
+// Rows done and, when known up front, the total per model
+export type TenantOperationProgress = Record<string, { done: number; total?: number }>;
+
+export interface TenantLifecycleOptions {
+  // Rows read, written or deleted per statement
+  batchSize?: number;
+  // A RUNNING operation not updated for this long is treated as abandoned by a crashed process
+  staleAfterMs?: number;
+}
+
+const DEFAULT_OPTIONS: Required<TenantLifecycleOptions> = {
+  batchSize: 500,
+  staleAfterMs: 10 * 60 * 1000,
+};
+
+// Catalog models copied by clone, in an order where references are copied first
+const CATALOG_MODELS = ['Category', 'Item', 'ItemAttribute'] as const;
+
+// Tenant-scoped models that outlive the tenant's data
+const PURGE_EXCLUDED = new Set(['Tenant', 'TenantOperation']);
+
+// Columns the copy sets itself
+const REMAPPED_FIELDS = ['id', 'tenantId', 'organizationId', 'storeId', 'categoryId', 'parentId', 'createdBy', 'createdAt', 'updatedAt'];
+
+// Copy of a row without remapped columns; nulls are left out so nullable JSON columns stay NULL
+function copyColumns(row: Record<string, any>): Record<string, any> {
+  return Object.fromEntries(
+    Object.entries(row).filter(([key, value]) => value !== null && !REMAPPED_FIELDS.includes(key))
+  );
+}
+
+/**
+ * Models with a tenantId column, ordered so that rows referencing another model
+ * are deleted before the rows they reference. Throws when two models reference
+ * each other, since no order can delete them safely.
+ */
+export function tenantScopedModels(datamodel: Pick<Prisma.DMMF.Datamodel, 'models'> = Prisma.dmmf.datamodel): ModelName[] {
+  const models = datamodel.models.filter(
+    model => !PURGE_EXCLUDED.has(model.name) && model.fields.some(field => field.name === 'tenantId')
+  );
+  const names = new Set(models.map(model => model.name));
+  // Models each model references through a foreign key of its own
+  const references = new Map(models.map(model => [
+    model.name,
+    model.fields
+      .filter(field => field.kind === 'object' && field.relationFromFields?.length && field.type !== model.name && names.has(field.type))
+      .map(field => field.type),
+  ]));
+
+  const ordered: string[] = [];
+  // Models whose referencing models are being ordered; meeting one again means a cycle
+  const visiting: string[] = [];
+  const visit = (name: string) => {
+    if (ordered.includes(name)) return;
+    if (visiting.includes(name)) {
+      const cycle = [...visiting.slice(visiting.indexOf(name)), name].join(' <- ');
+      throw new InternalError(`Tenant-scoped models reference each other (${cycle}); purge order cannot be determined`);
+    }
+
+    visiting.push(name);
+    // Referencing models go first
+    for (const [other, targets] of references) {
+      if (targets.includes(name) && other !== name) visit(other);
+    }
+    visiting.pop();
+    ordered.push(name);
+  };
+  models.forEach(model => visit(model.name));
+
+  return ordered as ModelName[];
+}
+
+/**
+ * Tenant onboarding and teardown. Provisioning creates a tenant with its first
+ * organization, store, admin user and item attributes in one transaction. Cloning
+ * a template's catalog and purging a tenant's rows can take a while, so they run
+ * in the background as operations whose progress is saved after every batch.
+ * Rows are written directly, without entity hooks, audit entries or events.
+ */
+export class TenantLifecycle {
+  private prisma?: PrismaClient;
+  private options: Required<TenantLifecycleOptions>;
+  // Operations running in this process, for callers that want to wait for one
+  private running = new Map<string, Promise<TenantOperation>>();
+
+  constructor(options: TenantLifecycleOptions = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  setPrisma(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  configure(options: TenantLifecycleOptions) {
+    this.options = { ...this.options, ...options };
+  }
+
+  private get client(): PrismaClient {
+    if (!this.prisma) {
+      throw new InternalError('TenantLifecycle has no database client');
+    }
+    return this.prisma;
+  }
+
+  async provision(input: TenantProvisionInput): Promise<TenantProvisionResult> {
+    const { tenant: tenantInput, organization, store, admin, attributes, templateTenantId } = tenantProvisionSchema.parse(input);
+    const startedBy = auditLog.getContext().actor;
+    const seeds = attributes ?? DEFAULT_ITEM_ATTRIBUTES;
+
+    // Check the template first so a bad id does not leave a half-onboarded tenant behind
+    if (templateTenantId) await tenantService.get(templateTenantId);
+
+    const result = await this.client.$transaction(async tx => {
+      const tenant = await tx.tenant.create({
+        data: {
+          slug: tenantInput.slug,
+          name: tenantInput.name,
+          domain: tenantInput.domain,
+          settings: (tenantInput.settings ?? {}) as Prisma.InputJsonValue,
+        },
+      });
+      const createdOrganization = await tx.organization.create({
+        data: {
+          name: organization?.name ?? tenant.name,
+          slug: organization?.slug ?? tenant.slug,
+          email: organization?.email,
+          website: organization?.website,
+          tenantId: tenant.id,
+          createdBy: startedBy,
+        },
+      });
+      const createdStore = await tx.store.create({
+        data: {
+          name: store.name,
+          timezone: store.timezone,
+          address: (store.address ?? {}) as Prisma.InputJsonValue,
+          organizationId: createdOrganization.id,
+          tenantId: tenant.id,
+          createdBy: startedBy,
+        },
+      });
+      const createdAdmin = await tx.user.create({
+        data: { email: admin.email, name: admin.name, organizationId: createdOrganization.id, tenantId: tenant.id },
+      });
+      const { count } = await tx.itemAttribute.createMany({
+        data: seeds.map(({ defaultValue, validationRules, ...seed }) => ({
+          ...seed,
+          ...(defaultValue !== undefined && { defaultValue: defaultValue as Prisma.InputJsonValue }),
+          ...(validationRules && { validationRules: validationRules as Prisma.InputJsonValue }),
+          organizationId: createdOrganization.id,
+          tenantId: tenant.id,
+          createdBy: startedBy,
+        })) as Prisma.ItemAttributeCreateManyInput[],
+      });
+
+      await tx.tenantOperation.create({
+        data: {
+          tenantId: tenant.id,
+          type: TenantOperationType.PROVISION,
+          status: TenantOperationStatus.COMPLETED,
+          progress: { Organization: { done: 1 }, Store: { done: 1 }, User: { done: 1 }, ItemAttribute: { done: count } },
+          startedBy,
+          completedAt: new Date(),
+        },
+      });
+
+      return {
+        tenant,
+        organization: { id: createdOrganization.id, name: createdOrganization.name, slug: createdOrganization.slug },
+        store: { id: createdStore.id, name: createdStore.name },
+        admin: { id: createdAdmin.id, email: createdAdmin.email, name: createdAdmin.name },
+        attributes: count,
+      };
+    });
+
+    // Drop cached misses for the new slug and domain
+    tenantService.invalidate(result.tenant);
+
+    if (!templateTenantId) return result;
+    return { ...result, clone: await this.clone(result.tenant.id, { templateTenantId }) };
+  }
+
+  /**
+   * Copy the template tenant's categories, items and item attributes into a
+   * tenant. Rows get new ids and their references are remapped to the copies;
+   * organization and store references point at the target organization and store.
+   * Rows that already exist in the target (same category slug, item SKU or
+   * attribute name) are kept, so a failed clone can be run again.
+   */
+  async clone(tenantId: string, input: TenantCloneInput): Promise<TenantOperation> {
+    const { templateTenantId, ...target } = tenantCloneSchema.parse(input);
+    if (templateTenantId === tenantId) {
+      throw new BusinessLogicError('A tenant cannot be cloned from itself');
+    }
+
+    const tenant = await this.writableTenant(tenantId);
+    await tenantService.get(templateTenantId);
+
+    const organization = await this.client.organization.findFirst({
+      where: { tenantId: tenant.id, ...(target.organizationId && { id: target.organizationId }) },
+      orderBy: { createdAt: 'asc' },
+    });
+    if (!organization) {
+      throw target.organizationId
+        ? new NotFoundError('Organization', target.organizationId)
+        : new BusinessLogicError(`Tenant ${tenant.slug} has no organization to clone into`);
+    }
+    const store = await this.client.store.findFirst({
+      where: { tenantId: tenant.id, organizationId: organization.id, ...(target.storeId && { id: target.storeId }) },
+      orderBy: { createdAt: 'asc' },
+    });
+    if (!store) {
+      throw target.storeId
+        ? new NotFoundError('Store', target.storeId)
+        : new BusinessLogicError(`Organization ${organization.slug} has no store to clone into`);
+    }
+
+    return this.start(tenant.id, TenantOperationType.CLONE, async (progress, save) => {
+      for (const model of CATALOG_MODELS) {
+        progress[model] = { done: 0, total: await getModelDelegate(this.client, model).count({ where: { tenantId: templateTenantId } }) };
+      }
+      await save();
+
+      const context = { from: templateTenantId, to: tenant.id, organizationId: organization.id, storeId: store.id };
+      const categoryIds = await this.cloneCategories(context, progress, save);
+      await this.cloneRows('Item', context, progress, save, row => ({
+        ...copyColumns(row),
+        storeId: row.storeId ? store.id : undefined,
+        categoryId: row.categoryId ? categoryIds.get(row.categoryId) : undefined,
+      }));
+      await this.cloneRows('ItemAttribute', context, progress, save, copyColumns);
+    });
+  }
+
+  /**
+   * Delete a tenant: block its requests, delete every tenant-scoped row in
+   * batches, then remove the tenant itself. Running it again resumes a purge
+   * that was interrupted.
+   */
+  async delete(tenantId: string): Promise<TenantOperation> {
+    const tenant = await tenantService.get(tenantId);
+    await this.assertIdle(tenant.id);
+
+    const deleting = await this.client.tenant.update({
+      where: { id: tenant.id },
+      data: { status: TenantStatus.DELETING, suspendedAt: tenant.suspendedAt ?? new Date() },
+    });
+    tenantService.invalidate(deleting);
+
+    return this.start(tenant.id, TenantOperationType.PURGE, async (progress, save) => {
+      const models = tenantScopedModels();
+      for (const model of models) {
+        progress[model] = { done: 0, total: await getModelDelegate(this.client, model).count({ where: { tenantId: tenant.id } }) };
+      }
+      await save();
+
+      for (const model of models) {
+        const delegate = getModelDelegate<{ id: string }>(this.client, model);
+        for (;;) {
+          const rows = await delegate.findMany({ where: { tenantId: tenant.id }, select: { id: true }, take: this.options.batchSize });
+          if (rows.length === 0) break;
+
+          const { count } = await delegate.deleteMany({ where: { id: { in: rows.map(row => row.id) } } });
+          progress[model].done += count;
+          await save();
+        }
+      }
+
+      await this.client.tenant.delete({ where: { id: tenant.id } });
+      tenantService.invalidate(tenant);
+    });
+  }
+
+  async getOperation(id: string, tenantId?: string): Promise<TenantOperation> {
+    const operation = await this.client.tenantOperation.findFirst({ where: { id, ...(tenantId && { tenantId }) } });
+    if (!operation) throw new NotFoundError('Tenant operation', id);
+    return operation;
+  }
+
+  async listOperations(tenantId: string, query: TenantOperationQuery = {}) {
+    const { page, limit, type, status } = tenantOperationQuerySchema.parse(query);
+    const where: Prisma.TenantOperationWhereInput = { tenantId, ...(type && { type }), ...(status && { status }) };
+
+    const [items, total] = await Promise.all([
+      this.client.tenantOperation.findMany({ where, orderBy: { createdAt: 'desc' }, skip: (page - 1) * limit, take: limit }),
+      this.client.tenantOperation.count({ where }),
+    ]);
+
+    return { items, total, page, limit, totalPages: Math.ceil(total / limit) };
+  }
+
+  // Settles when an operation started by this process finishes
+  async waitFor(id: string): Promise<TenantOperation> {
+    return this.running.get(id) ?? this.getOperation(id);
+  }
+
+  private async writableTenant(tenantId: string): Promise<Tenant> {
+    const tenant = await tenantService.get(tenantId);
+    if (tenant.status === TenantStatus.DELETING) {
+      throw new ConflictError(`Tenant ${tenant.slug} is being deleted`);
+    }
+    await this.assertIdle(tenant.id);
+    return tenant;
+  }
+
+  // One clone or purge at a time per tenant
+  private async assertIdle(tenantId: string) {
+    const active = await this.client.tenantOperation.findFirst({
+      where: {
+        tenantId,
+        status: TenantOperationStatus.RUNNING,
+        updatedAt: { gt: new Date(Date.now() - this.options.staleAfterMs) },
+      },
+    });
+    if (active) {
+      throw new ConflictError(`Tenant operation ${active.id} (${active.type}) is still running`);
+    }
+  }
+
+  // Record the operation and run it in the background; failures are saved on the operation
+  private async start(
+    tenantId: string,
+    type: TenantOperationType,
+    work: (progress: TenantOperationProgress, save: () => Promise<void>) => Promise<void>
+  ): Promise<TenantOperation> {
+    const operation = await this.client.tenantOperation.create({
+      data: { tenantId, type, startedBy: auditLog.getContext().actor },
+    });
+
+    const progress: TenantOperationProgress = {};
+    const save = async () => {
+      await this.client.tenantOperation.update({
+        where: { id: operation.id },
+        data: { progress: progress as Prisma.InputJsonValue },
+      });
+    };
+
+    const finish = (status: TenantOperationStatus, error?: string) =>
+      this.client.tenantOperation.update({
+        where: { id: operation.id },
+        data: { status, error, progress: progress as Prisma.InputJsonValue, completedAt: new Date() },
+      });
+
+    const run = work(progress, save)
+      .then(() => finish(TenantOperationStatus.COMPLETED))
+      .catch(async error => {
+        console.error(`Tenant operation ${operation.id} (${type}) failed:`, error);
+        return finish(TenantOperationStatus.FAILED, error instanceof Error ? error.message : String(error));
+      })
+      .finally(() => this.running.delete(operation.id));
+    this.running.set(operation.id, run);
+
+    return operation;
+  }
+
+  // Categories are copied parents first so each copy can point at its parent's copy
+  private async cloneCategories(
+    context: { from: string; to: string; organizationId: string; storeId: string },
+    progress: TenantOperationProgress,
+    save: () => Promise<void>
+  ): Promise<Map<string, string>> {
+    const ids = new Map<string, string>();
+    let pending = await this.client.category.findMany({ where: { tenantId: context.from }, orderBy: { createdAt: 'asc' } });
+
+    while (pending.length > 0) {
+      // Categories whose parent is copied already, or that have no parent in the template
+      const ready = pending.filter(category => !category.parentId || ids.has(category.parentId) || !pending.some(other => other.id === category.parentId));
+      if (ready.length === 0) {
+        throw new BusinessLogicError('Template categories contain a parent cycle');
+      }
+
+      for (const category of ready) {
+        const existing = await this.client.category.findFirst({
+          where: { tenantId: context.to, storeId: context.storeId, slug: category.slug },
+          select: { id: true },
+        });
+        const copy = existing ?? await this.client.category.create({
+          data: {
+            ...(copyColumns(category) as Prisma.CategoryUncheckedCreateInput),
+            parentId: category.parentId ? ids.get(category.parentId) : undefined,
+            organizationId: context.organizationId,
+            storeId: context.storeId,
+            tenantId: context.to,
+          },
+          select: { id: true },
+        });
+        ids.set(category.id, copy.id);
+
+        progress.Category.done++;
+        if (progress.Category.done % this.options.batchSize === 0) await save();
+      }
+
+      pending = pending.filter(category => !ready.includes(category));
+    }
+
+    await save();
+    return ids;
+  }
+
+  // Copy a model's rows in id-ordered batches
+  private async cloneRows(
+    model: ModelName,
+    context: { from: string; to: string; organizationId: string },
+    progress: TenantOperationProgress,
+    save: () => Promise<void>,
+    map: (row: Record<string, any>) => Record<string, any>
+  ) {
+    const delegate = getModelDelegate<{ id: string } & Record<string, unknown>>(this.client, model);
+    let cursor: string | undefined;
+
+    for (;;) {
+      const rows = await delegate.findMany({
+        where: { tenantId: context.from, ...(cursor && { id: { gt: cursor } }) },
+        orderBy: { id: 'asc' },
+        take: this.options.batchSize,
+      });
+      if (rows.length === 0) break;
+
+      // Rows are copied into the model they were read from, which the compiler cannot follow for a runtime model
+      await delegate.createMany({
+        data: rows.map(row => ({ ...map(row), organizationId: context.organizationId, tenantId: context.to })),
+        skipDuplicates: true,
+      } as ModelArgs<ModelName, 'createMany'>);
+
+      progress[model].done += rows.length;
+      await save();
+      cursor = rows[rows.length - 1].id;
+    }
+  }
+}
+
+// Global tenant lifecycle instance
+export const tenantLifecycle = new TenantLifecycle();
@@ -0,0 +1,78 @@
+import { describe, expect, it, vi } from 'vitest';
+import { hasNestedQuantifier, tenantRuleOverridesSchema, tenantRuleOverridesSchemaFor } from './TenantRuleStore';
+
+// The shared client in @humanui/db loads the query engine on import; only the generated types are needed
+vi.mock('@humanui/db', () => import('../../../db/src/generated'));
+
+describe('tenantRuleOverridesSchema', () => {
+  it('accepts a pattern that compiles', () => {
+    const result = tenantRuleOverridesSchema.safeParse({ validationRules: { sku: { pattern: '^[A-Z0-9-]+$' } } });
+    expect(result.success).toBe(true);
+  });
+
+  it('rejects a pattern that does not compile', () => {
+    const result = tenantRuleOverridesSchema.safeParse({ validationRules: { sku: { pattern: '([A-Z' } } });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.issues[0].path).toEqual(['validationRules', 'sku', 'pattern']);
+  });
+
+  it('rejects a pattern that can backtrack catastrophically', () => {
+    const result = tenantRuleOverridesSchema.safeParse({ validationRules: { sku: { pattern: '^(a+)+$' } } });
+    expect(result.success).toBe(false);
+  });
+});
+
+describe('hasNestedQuantifier', () => {
+  it('flags quantified groups that contain a quantifier', () => {
+    expect(hasNestedQuantifier('(a+)+')).toBe(true);
+    expect(hasNestedQuantifier('^(\\w*,?)*$')).toBe(true);
+    expect(hasNestedQuantifier('((ab)*c)+')).toBe(true);
+  });
+
+  it('allows single quantifiers, optional groups and literal characters', () => {
+    expect(hasNestedQuantifier('^[A-Z]+(-[0-9]+)?$')).toBe(false);
+    expect(hasNestedQuantifier('(ab)+')).toBe(false);
+    expect(hasNestedQuantifier('\\(a+\\)+')).toBe(false);
+    expect(hasNestedQuantifier('([+*])+')).toBe(false);
+  });
+});
+
+describe('tenantRuleOverridesSchemaFor', () => {
+  const schema = tenantRuleOverridesSchemaFor(['name', 'sku', 'storeType']);
+
+  it('accepts rules for the entity\'s fields', () => {
+    const result = schema.safeParse({
+      requiredFields: ['sku'],
+      uniqueConstraints: ['sku'],
+      typeField: 'storeType',
+      validationRules: { name: { maxLength: 20 } },
+    });
+    expect(result.success).toBe(true);
+  });
+
+  it('rejects every field the entity does not have', () => {
+    const result = schema.safeParse({
+      requiredFields: ['name', 'barcode'],
+      uniqueConstraints: ['slug'],
+      typeField: 'kind',
+      validationRules: { color: { maxLength: 3 } },
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.issues.map(issue => issue.path.join('.'))).toEqual([
+      'typeField',
+      'requiredFields.1',
+      'uniqueConstraints.0',
+      'validationRules.color',
+    ]);
+  });
+
+  it('checks each field of a composite unique constraint', () => {
+    expect(schema.safeParse({ uniqueConstraints: ['name_storeType'] }).success).toBe(true);
+
+    const result = schema.safeParse({ uniqueConstraints: ['sku_barcode'] });
+    expect(result.success).toBe(false);
+    expect(result.error?.issues.map(issue => issue.message)).toEqual(["Unknown field 'barcode'"]);
+  });
+});
@@ -0,0 +1,244 @@
+import { z } from 'zod';
+import { PrismaClient } from '@humanui/db';
+import { TenantRules } from './SchemaBuilder';
+import { InternalError } from './Errors';
+
+// Overrides are persisted as JSON, so function-valued rules cannot be overridden
+export type TenantRuleOverrides = Omit<TenantRules, 'customValidators'>;
+
+const MAX_PATTERN_LENGTH = 200;
+
+// A quantified group that itself contains a quantifier, e.g. `(a+)+` or `(\w*,?)*`, can backtrack exponentially
+export function hasNestedQuantifier(pattern: string): boolean {
+  const groups: boolean[] = [];
+  let quantified = false;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '\\') {
+      i++;
+    } else if (char === '[') {
+      // Skip character classes, whose brackets and quantifier characters are literal
+      while (i < pattern.length && pattern[i] !== ']') i += pattern[i] === '\\' ? 2 : 1;
+    } else if (char === '(') {
+      groups.push(quantified);
+      quantified = false;
+    } else if (char === ')') {
+      const inner: boolean = quantified;
+      quantified = groups.pop() ?? false;
+      const next = pattern[i + 1];
+      if (next === '*' || next === '+' || next === '{') {
+        if (inner) return true;
+        quantified = true;
+      } else {
+        quantified ||= inner;
+      }
+    } else if (char === '*' || char === '+' || char === '{') {
+      quantified = true;
+    }
+  }
+
+  return false;
+}
+
+// Stored patterns run on every write of the tenant, so they must compile and match in linear time
+const patternSchema = z
+  .string()
+  .max(MAX_PATTERN_LENGTH)
+  .superRefine((pattern, ctx) => {
+    try {
+      new RegExp(pattern);
+    } catch (error) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Invalid pattern: ${(error as Error).message}` });
+      return;
+    }
+    if (hasNestedQuantifier(pattern)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Pattern must not repeat a group that contains a quantifier' });
+    }
+  });
+
+const fieldValidationRuleSchema = z.object({
+  minLength: z.number().int().min(0).optional(),
+  maxLength: z.number().int().min(0).optional(),
+  pattern: patternSchema.optional(),
+  min: z.number().optional(),
+  max: z.number().optional(),
+}).strict();
+
+// Schema used to validate overrides before they are stored
+export const tenantRuleOverridesSchema = z.object({
+  maxNameLength: z.number().int().positive().optional(),
+  maxDescriptionLength: z.number().int().positive().optional(),
+  allowedTypes: z.array(z.string().min(1)).optional(),
+  typeField: z.string().min(1).optional(),
+  requiredFields: z.array(z.string().min(1)).optional(),
+  optionalFields: z.array(z.string().min(1)).optional(),
+  uniqueConstraints: z.array(z.string().min(1)).optional(),
+  validationRules: z.record(fieldValidationRuleSchema).optional(),
+}).strict();
+
+// Overrides schema that also rejects field names the entity does not have
+export function tenantRuleOverridesSchemaFor(fields: string[]) {
+  const known = new Set(fields);
+
+  return tenantRuleOverridesSchema.superRefine((overrides, ctx) => {
+    const check = (field: string, path: Array<string | number>) => {
+      if (!known.has(field)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path, message: `Unknown field '${field}'` });
+      }
+    };
+
+    if (overrides.typeField) check(overrides.typeField, ['typeField']);
+    for (const key of ['requiredFields', 'optionalFields'] as const) {
+      overrides[key]?.forEach((field, index) => check(field, [key, index]));
+    }
+    // Composite constraints are declared as `field_otherField`
+    overrides.uniqueConstraints?.forEach((constraint, index) => {
+      for (const field of constraint.split('_')) check(field, ['uniqueConstraints', index]);
+    });
+    for (const field of Object.keys(overrides.validationRules ?? {})) {
+      check(field, ['validationRules', field]);
+    }
+  });
+}
+
+interface CacheEntry {
+  overrides: TenantRuleOverrides | null;
+  expiresAt: number;
+}
+
+/**
+ * Merge tenant overrides over the statically registered rules.
+ * Scalars and lists replace the base value, validation rules merge per field.
+ */
+export function mergeTenantRules(base: TenantRules, overrides?: TenantRuleOverrides | null): TenantRules {
+  if (!overrides) return base;
+
+  const validationRules = { ...base.validationRules };
+  for (const [field, rule] of Object.entries(overrides.validationRules ?? {})) {
+    validationRules[field] = { ...validationRules[field], ...rule };
+  }
+
+  return {
+    ...base,
+    ...overrides,
+    validationRules,
+    customValidators: base.customValidators,
+  };
+}
+
+/**
+ * Loads per-tenant rule overrides from the database with a TTL cache
+ */
+export class TenantRuleStore {
+  private prisma?: PrismaClient;
+  private cache: Map<string, CacheEntry> = new Map();
+  private ttlMs: number;
+
+  constructor(ttlMs = 5 * 60 * 1000) {
+    this.ttlMs = ttlMs;
+  }
+
+  setPrisma(prisma: PrismaClient) {
+    this.prisma = prisma;
+    this.cache.clear();
+  }
+
+  private cacheKey(entityName: string, tenantId: string) {
+    return `${tenantId}:${entityName.toLowerCase()}`;
+  }
+
+  async getOverrides(entityName: string, tenantId?: string): Promise<TenantRuleOverrides | null> {
+    if (!tenantId || !this.prisma) return null;
+
+    const key = this.cacheKey(entityName, tenantId);
+    const cached = this.cache.get(key);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.overrides;
+    }
+
+    const record = await this.prisma.tenantRuleOverride.findUnique({
+      where: {
+        tenantId_entityName: { tenantId, entityName: entityName.toLowerCase() },
+      },
+    });
+
+    const overrides = record ? (record.rules as TenantRuleOverrides) : null;
+    this.cache.set(key, { overrides, expiresAt: Date.now() + this.ttlMs });
+
+    return overrides;
+  }
+
+  async getAllOverrides(tenantId: string): Promise<Record<string, TenantRuleOverrides>> {
+    if (!this.prisma) return {};
+
+    const records = await this.prisma.tenantRuleOverride.findMany({
+      where: { tenantId },
+      orderBy: { entityName: 'asc' },
+    });
+
+    return Object.fromEntries(
+      records.map((record: { entityName: string; rules: unknown }) => [record.entityName, record.rules as TenantRuleOverrides])
+    );
+  }
+
+  // `fields` are the entity's schema fields; rules naming any other field are rejected
+  async setOverrides(
+    entityName: string,
+    tenantId: string,
+    overrides: TenantRuleOverrides,
+    updatedBy?: string,
+    fields?: string[]
+  ): Promise<TenantRuleOverrides> {
+    if (!this.prisma) {
+      throw new InternalError('TenantRuleStore has no database client');
+    }
+
+    const rules = (fields ? tenantRuleOverridesSchemaFor(fields) : tenantRuleOverridesSchema).parse(overrides);
+    const name = entityName.toLowerCase();
+
+    await this.prisma.tenantRuleOverride.upsert({
+      where: { tenantId_entityName: { tenantId, entityName: name } },
+      create: { tenantId, entityName: name, rules, updatedBy },
+      update: { rules, updatedBy },
+    });
+
+    this.invalidate(entityName, tenantId);
+    return rules;
+  }
+
+  async clearOverrides(entityName: string, tenantId: string): Promise<boolean> {
+    if (!this.prisma) return false;
+
+    const { count } = await this.prisma.tenantRuleOverride.deleteMany({
+      where: { tenantId, entityName: entityName.toLowerCase() },
+    });
+
+    this.invalidate(entityName, tenantId);
+    return count > 0;
+  }
+
+  // Drop cached overrides for one entity, one tenant, or everything
+  invalidate(entityName?: string, tenantId?: string) {
+    if (entityName && tenantId) {
+      this.cache.delete(this.cacheKey(entityName, tenantId));
+      return;
+    }
+
+    for (const key of Array.from(this.cache.keys())) {
+      const [keyTenant, keyEntity] = key.split(':');
+      if ((!tenantId || keyTenant === tenantId) && (!entityName || keyEntity === entityName.toLowerCase())) {
+        this.cache.delete(key);
+      }
+    }
+  }
+
+  // Effective rules for a tenant at request time
+  async resolve(entityName: string, baseRules: TenantRules, tenantId?: string): Promise<TenantRules> {
+    const overrides = await this.getOverrides(entityName, tenantId);
+    return mergeTenantRules(baseRules, overrides);
+  }
+}
+
+// Global tenant rule store instance
+export const tenantRuleStore = new TenantRuleStore();
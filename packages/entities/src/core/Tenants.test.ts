@@ -0,0 +1,38 @@
+import { describe, expect, it, vi } from 'vitest';
+import { PrismaClient, Tenant, TenantStatus } from '@humanui/db';
+import { TenantService } from './Tenants';
+
+// The shared client in @humanui/db loads the query engine on import; only the generated types and enums are needed
+vi.mock('@humanui/db', () => import('../../../db/src/generated'));
+
+const acme = { id: 'tenant-a', slug: 'acme', domain: 'shop.acme.com', status: TenantStatus.ACTIVE } as Tenant;
+
+// Tenant table holding acme, with findUnique counting lookups
+function createService() {
+  const findUnique = vi.fn(async ({ where }: { where: Partial<Tenant> }) =>
+    Object.entries(where).every(([field, value]) => acme[field as keyof Tenant] === value) ? acme : null
+  );
+  const service = new TenantService();
+  service.setPrisma({ tenant: { findUnique } } as unknown as PrismaClient);
+  return { service, findUnique };
+}
+
+describe('TenantService.find', () => {
+  it('caches tenants it finds', async () => {
+    const { service, findUnique } = createService();
+
+    expect(await service.find('slug', 'ACME')).toBe(acme);
+    expect(await service.find('slug', 'acme')).toBe(acme);
+    expect(findUnique).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not cache misses', async () => {
+    const { service, findUnique } = createService();
+
+    for (let index = 0; index < 3; index++) {
+      expect(await service.find('domain', `unknown-${index}.example.com`)).toBeNull();
+    }
+    expect(await service.find('domain', 'unknown-0.example.com')).toBeNull();
+    expect(findUnique).toHaveBeenCalledTimes(4);
+  });
+});
@@ -0,0 +1,189 @@
+import { z } from 'zod';
+import { Prisma, PrismaClient, Tenant, TenantStatus } from '@humanui/db';
+import { ConflictError, ForbiddenError, InternalError, NotFoundError, TenantError } from './Errors';
+
+// Tenant columns a request can be resolved by
+export type TenantLookup = 'id' | 'slug' | 'domain';
+
+// Single DNS label, usable as a subdomain
+const slugSchema = z.string()
+  .min(2)
+  .max(63)
+  .regex(/^[a-z0-9](?:[a-z0-9-]*[a-z0-9])?$/, 'Slug must be lowercase letters, digits and hyphens');
+
+const domainSchema = z.string()
+  .max(253)
+  .transform(domain => domain.toLowerCase())
+  .pipe(z.string().regex(/^(?=.{1,253}$)(?:[a-z0-9](?:[a-z0-9-]*[a-z0-9])?\.)+[a-z]{2,}$/, 'Domain must be a hostname such as shop.example.com'));
+
+export const tenantCreateSchema = z.object({
+  slug: slugSchema,
+  name: z.string().min(1).max(200),
+  domain: domainSchema.nullable().optional(),
+  settings: z.record(z.unknown()).optional(),
+}).strict();
+
+export const tenantUpdateSchema = tenantCreateSchema.partial();
+
+export type TenantCreateInput = z.input<typeof tenantCreateSchema>;
+export type TenantUpdateInput = z.input<typeof tenantUpdateSchema>;
+
+export interface TenantServiceOptions {
+  // How long lookups are cached; suspensions made by another process apply within this window
+  cacheTtlMs?: number;
+}
+
+interface CacheEntry {
+  tenant: Tenant;
+  expiresAt: number;
+}
+
+/**
+ * Registry of tenants and their settings. Lookups by id, slug and domain are
+ * cached since every tenant-scoped request resolves one; writes made through
+ * the service drop the affected entries. Misses are not cached: their keys come
+ * from requests, so a client could otherwise grow the cache without bound.
+ */
+export class TenantService {
+  private prisma?: PrismaClient;
+  private cache: Map<string, CacheEntry> = new Map();
+  private ttlMs = 60 * 1000;
+
+  setPrisma(prisma: PrismaClient) {
+    this.prisma = prisma;
+    this.cache.clear();
+  }
+
+  configure(options: TenantServiceOptions) {
+    if (options.cacheTtlMs !== undefined) this.ttlMs = options.cacheTtlMs;
+  }
+
+  private get client(): PrismaClient {
+    if (!this.prisma) {
+      throw new InternalError('TenantService has no database client');
+    }
+    return this.prisma;
+  }
+
+  private cacheKey(by: TenantLookup, value: string) {
+    return `${by}:${by === 'id' ? value : value.toLowerCase()}`;
+  }
+
+  async find(by: TenantLookup, value: string): Promise<Tenant | null> {
+    const key = this.cacheKey(by, value);
+    const cached = this.cache.get(key);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.tenant;
+    }
+
+    const where: Prisma.TenantWhereUniqueInput =
+      by === 'id' ? { id: value } : by === 'slug' ? { slug: value.toLowerCase() } : { domain: value.toLowerCase() };
+    const tenant = await this.client.tenant.findUnique({ where });
+    if (tenant) {
+      this.cache.set(key, { tenant, expiresAt: Date.now() + this.ttlMs });
+    }
+
+    return tenant;
+  }
+
+  // Active tenant for a request; unknown tenants are a TenantError, suspended or deleting ones forbidden
+  async resolve(by: TenantLookup, value: string): Promise<Tenant> {
+    const tenant = await this.find(by, value);
+    if (!tenant) {
+      throw new TenantError(`Unknown tenant: ${value}`, 'tenantId');
+    }
+    if (tenant.status === TenantStatus.SUSPENDED) {
+      throw new ForbiddenError(`Tenant ${tenant.slug} is suspended`);
+    }
+    if (tenant.status === TenantStatus.DELETING) {
+      throw new ForbiddenError(`Tenant ${tenant.slug} is being deleted`);
+    }
+    return tenant;
+  }
+
+  async get(id: string): Promise<Tenant> {
+    const tenant = await this.client.tenant.findUnique({ where: { id } });
+    if (!tenant) throw new NotFoundError('Tenant', id);
+    return tenant;
+  }
+
+  async list(filter: { status?: TenantStatus } = {}): Promise<Tenant[]> {
+    return this.client.tenant.findMany({
+      where: filter.status ? { status: filter.status } : {},
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  async create(input: TenantCreateInput): Promise<Tenant> {
+    const { settings, ...data } = tenantCreateSchema.parse(input);
+    const tenant = await this.client.tenant.create({
+      data: { ...data, settings: (settings ?? {}) as Prisma.InputJsonValue } as Prisma.TenantCreateInput,
+    });
+
+    // Drop entries left by an earlier tenant with the same slug or domain
+    this.invalidate(tenant);
+    return tenant;
+  }
+
+  async update(id: string, input: TenantUpdateInput): Promise<Tenant> {
+    const { settings, ...data } = tenantUpdateSchema.parse(input);
+    const before = await this.get(id);
+    const tenant = await this.client.tenant.update({
+      where: { id },
+      data: { ...data, ...(settings && { settings: settings as Prisma.InputJsonValue }) },
+    });
+
+    this.invalidate(before);
+    this.invalidate(tenant);
+    return tenant;
+  }
+
+  // Shallow-merge into the stored settings; null values remove a key
+  async updateSettings(id: string, patch: Record<string, unknown>): Promise<Tenant> {
+    const before = await this.get(id);
+    const settings: Record<string, unknown> = { ...(before.settings as Record<string, unknown>) };
+    for (const [key, value] of Object.entries(patch)) {
+      if (value === null) delete settings[key];
+      else settings[key] = value;
+    }
+    return this.update(id, { settings });
+  }
+
+  // Requests for a suspended tenant are rejected; its data is kept
+  async suspend(id: string): Promise<Tenant> {
+    return this.setStatus(id, TenantStatus.SUSPENDED);
+  }
+
+  async activate(id: string): Promise<Tenant> {
+    return this.setStatus(id, TenantStatus.ACTIVE);
+  }
+
+  private async setStatus(id: string, status: TenantStatus): Promise<Tenant> {
+    const current = await this.get(id);
+    if (current.status === TenantStatus.DELETING) {
+      throw new ConflictError(`Tenant ${current.slug} is being deleted`);
+    }
+    const tenant = await this.client.tenant.update({
+      where: { id },
+      data: { status, suspendedAt: status === TenantStatus.SUSPENDED ? new Date() : null },
+    });
+
+    this.invalidate(tenant);
+    return tenant;
+  }
+
+  // Drop cached lookups for one tenant, or everything
+  invalidate(tenant?: Pick<Tenant, 'id' | 'slug' | 'domain'>) {
+    if (!tenant) {
+      this.cache.clear();
+      return;
+    }
+
+    this.cache.delete(this.cacheKey('id', tenant.id));
+    this.cache.delete(this.cacheKey('slug', tenant.slug));
+    if (tenant.domain) this.cache.delete(this.cacheKey('domain', tenant.domain));
+  }
+}
+
+// Global tenant service instance
+export const tenantService = new TenantService();
@@ -0,0 +1,165 @@
+import { z } from 'zod';
+import { PrismaClient } from '@humanui/db';
+import { DatabaseClient, ListResult } from './SchemaBuilder';
+import { AuditChanges, AuditEntry, diffEntities } from './AuditLog';
+import { InternalError, NotFoundError } from './Errors';
+
+// A numbered copy of a record; `snapshot` is omitted from version lists
+export interface EntityVersionRecord {
+  id: string;
+  tenantId: string | null;
+  entityName: string;
+  entityId: string;
+  version: number;
+  operation: string;
+  actor: string | null;
+  snapshot?: Record<string, any>;
+  createdAt: Date;
+}
+
+export interface VersionDiff {
+  from: number;
+  to: number;
+  changes: AuditChanges;
+}
+
+export const versionQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+export type VersionQuery = z.input<typeof versionQuerySchema>;
+
+// Dates and other non-JSON values as they come back from a Json column
+const toJson = (row: Record<string, any>): Record<string, any> => JSON.parse(JSON.stringify(row));
+
+const withoutSnapshot = ({ snapshot, ...version }: EntityVersionRecord) => version;
+
+/**
+ * Keeps a full snapshot of a record after every change, so earlier states can be
+ * viewed, compared and reverted to. Purges keep the versions of the removed row.
+ */
+export class EntityVersionStore {
+  private prisma?: PrismaClient;
+
+  setPrisma(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  private get client(): PrismaClient {
+    if (!this.prisma) {
+      throw new InternalError('Version store has no database client; call versionStore.setPrisma() first');
+    }
+    return this.prisma;
+  }
+
+  /**
+   * Snapshot the row after a change, numbered after the latest version of the record.
+   * Purges and updates that change nothing are skipped.
+   */
+  async record(client: DatabaseClient, entry: AuditEntry, actor?: string): Promise<void> {
+    if (!entry.after) return;
+    if (entry.operation === 'update' && Object.keys(diffEntities(entry.before, entry.after)).length === 0) return;
+
+    const entityName = entry.entityName.toLowerCase();
+    const latest = await client.entityVersion.findFirst({
+      where: { entityName, entityId: entry.entityId },
+      orderBy: { version: 'desc' },
+      select: { version: true },
+    });
+
+    await client.entityVersion.create({
+      data: {
+        tenantId: entry.tenantId ?? null,
+        entityName,
+        entityId: entry.entityId,
+        version: (latest?.version ?? 0) + 1,
+        operation: entry.operation,
+        actor: actor ?? null,
+        snapshot: toJson(entry.after),
+      },
+    });
+  }
+
+  // Versions of one record, newest first, without snapshots
+  async list(
+    entityName: string,
+    entityId: string,
+    tenantId?: string,
+    query: VersionQuery = {}
+  ): Promise<ListResult<EntityVersionRecord>> {
+    const { page, limit } = versionQuerySchema.parse(query);
+    const where = { tenantId: tenantId ?? null, entityName: entityName.toLowerCase(), entityId };
+
+    const [total, versions] = await Promise.all([
+      this.client.entityVersion.count({ where }),
+      this.client.entityVersion.findMany({
+        where,
+        orderBy: { version: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+    ]);
+
+    return {
+      items: versions.map(version => withoutSnapshot(version as EntityVersionRecord)),
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
+  // One version with its snapshot; the latest when `version` is omitted
+  async get(entityName: string, entityId: string, version?: number, tenantId?: string): Promise<EntityVersionRecord> {
+    const found = await this.client.entityVersion.findFirst({
+      where: {
+        tenantId: tenantId ?? null,
+        entityName: entityName.toLowerCase(),
+        entityId,
+        ...(version !== undefined && { version }),
+      },
+      orderBy: { version: 'desc' },
+    });
+
+    if (!found) {
+      throw new NotFoundError(`${entityName} ${entityId} version`, version !== undefined ? String(version) : undefined);
+    }
+    return found as EntityVersionRecord;
+  }
+
+  // The version in effect at `date`, i.e. the last one recorded at or before it
+  async at(entityName: string, entityId: string, date: Date, tenantId?: string): Promise<EntityVersionRecord> {
+    const found = await this.client.entityVersion.findFirst({
+      where: {
+        tenantId: tenantId ?? null,
+        entityName: entityName.toLowerCase(),
+        entityId,
+        createdAt: { lte: date },
+      },
+      orderBy: { version: 'desc' },
+    });
+
+    if (!found) {
+      throw new NotFoundError(`${entityName} ${entityId} at ${date.toISOString()}`);
+    }
+    return found as EntityVersionRecord;
+  }
+
+  // Field-level changes from one version to another; `to` defaults to the latest
+  async diff(entityName: string, entityId: string, from: number, to?: number, tenantId?: string): Promise<VersionDiff> {
+    const [older, newer] = await Promise.all([
+      this.get(entityName, entityId, from, tenantId),
+      this.get(entityName, entityId, to, tenantId),
+    ]);
+
+    return {
+      from: older.version,
+      to: newer.version,
+      changes: diffEntities(older.snapshot, newer.snapshot),
+    };
+  }
+}
+
+// Global version store instance
+export const versionStore = new EntityVersionStore();
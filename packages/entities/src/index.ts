@@ -1,6 +1,26 @@
 // Core framework exports
 export * from './core/SchemaBuilder';
 export * from './core/EntityRegistry';
+export * from './core/RuleEngine';
+export * from './core/TenantRuleStore';
+export * from './core/Tenants';
+export * from './core/TenantLifecycle';
+export * from './core/HookRegistry';
+export * from './core/SoftDelete';
+export * from './core/QueryFilter';
+export * from './core/CursorPagination';
+export * from './core/Projection';
+export * from './core/ComputedFields';
+export * from './core/Errors';
+export * from './core/AuditLog';
+export * from './core/Versioning';
+export * from './core/EventBus';
+export * from './core/Outbox';
+export * from './core/ChangeLog';
+export * from './core/ChangeFeed';
+export * from './core/Bulk';
+export * from './core/Idempotency';
+export * from './core/JsonSchema';
 
 // Entity exports
 export * from './category';
@@ -9,6 +29,7 @@ export * from './store';
 export * from './item';
 export * from './itemAttribute';
 export * from './user';
+export * from './webhook';
 
 // Import entity registry instance
 import { entityRegistry } from './core/EntityRegistry';
@@ -35,6 +56,7 @@ export const createStoreService = () => entityRegistry.generateService('store');
 export const createItemService = () => entityRegistry.generateService('item');
 export const createItemAttributeService = () => entityRegistry.generateService('itemattribute');
 export const createUserService = () => entityRegistry.generateService('user');
+export const createWebhookService = () => entityRegistry.generateService('webhook');
 
 // Export entity configurations
 export { itemConfig } from './item/config';
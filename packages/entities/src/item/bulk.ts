@@ -0,0 +1,31 @@
+import { ItemStatus, Priority } from '@humanui/db';
+import { BulkOperationHandlers } from '../core/Bulk';
+import { ValidationError } from '../core/Errors';
+
+const requireId = (id: string | undefined, op: string) => {
+  if (!id) throw ValidationError.forField('id', 'required', `id is required for ${op}`);
+  return id;
+};
+
+// Item operations for POST /api/item/bulk, next to the standard ones
+export const itemBulkOperations: BulkOperationHandlers = {
+  archive: ({ id }, { write }) => write(requireId(id, 'archive'), { status: ItemStatus.ARCHIVED }),
+
+  activate: ({ id }, { write }) => write(requireId(id, 'activate'), { status: ItemStatus.ACTIVE }),
+
+  updateStatus: ({ id, data }, { write }) => {
+    // DELETED is reached through delete so the soft-delete policy applies
+    const statuses = Object.values(ItemStatus).filter(status => status !== ItemStatus.DELETED);
+    if (!statuses.includes(data?.status)) {
+      throw ValidationError.forField('data.status', 'enum', `status must be one of ${statuses.join(', ')}`);
+    }
+    return write(requireId(id, 'updateStatus'), { status: data!.status });
+  },
+
+  updatePriority: ({ id, data }, { write }) => {
+    if (!Object.values(Priority).includes(data?.priority)) {
+      throw ValidationError.forField('data.priority', 'enum', `priority must be one of ${Object.values(Priority).join(', ')}`);
+    }
+    return write(requireId(id, 'updatePriority'), { priority: data!.priority });
+  },
+};
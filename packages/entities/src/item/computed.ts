@@ -0,0 +1,44 @@
+import { ComputedFields } from '../core/ComputedFields';
+
+// One entry of Item.pricingRules; a single rule object or a list of them is accepted
+export interface PricingRule {
+  // Replaces the base price
+  salePrice?: number;
+  discountPercent?: number;
+  discountAmount?: number;
+  // ISO dates bounding when the rule applies
+  startsAt?: string;
+  endsAt?: string;
+}
+
+const isActiveAt = (rule: PricingRule, now: Date) =>
+  (!rule.startsAt || new Date(rule.startsAt) <= now) && (!rule.endsAt || new Date(rule.endsAt) > now);
+
+/**
+ * Price after applying the rules active at `now`, in order; never below zero
+ */
+export function applyPricingRules(basePrice: number, pricingRules: unknown, now = new Date()): number {
+  const rules: PricingRule[] = Array.isArray(pricingRules)
+    ? pricingRules
+    : pricingRules && typeof pricingRules === 'object'
+      ? [pricingRules as PricingRule]
+      : [];
+
+  let price = basePrice;
+  for (const rule of rules.filter(rule => isActiveAt(rule, now))) {
+    if (typeof rule.salePrice === 'number') price = rule.salePrice;
+    if (typeof rule.discountPercent === 'number') price -= (price * rule.discountPercent) / 100;
+    if (typeof rule.discountAmount === 'number') price -= rule.discountAmount;
+  }
+
+  return Math.max(0, Math.round(price * 100) / 100);
+}
+
+export const itemComputedFields: ComputedFields = {
+  effectivePrice: {
+    type: 'number',
+    description: 'basePrice after the currently active pricingRules',
+    dependsOn: ['basePrice', 'pricingRules'],
+    resolve: item => applyPricingRules(item.basePrice, item.pricingRules),
+  },
+};
@@ -0,0 +1,21 @@
+import { ItemStatus } from '@humanui/db';
+import { EntityEventDefinitions, EntityEventPayload } from '../core/EventBus';
+
+export interface ItemStatusChangedPayload extends EntityEventPayload {
+  from: ItemStatus;
+  to: ItemStatus;
+}
+
+// Emitted next to item.updated/item.deleted/item.restored when the status moves
+export const itemEvents: EntityEventDefinitions = {
+  statusChanged: {
+    when: change => 'status' in change.changes,
+    payload: change => ({ from: change.changes.status.before, to: change.changes.status.after }),
+  },
+};
+
+declare module '../core/EventBus' {
+  interface DomainEvents {
+    'item.statusChanged': ItemStatusChangedPayload;
+  }
+}
@@ -1,11 +1,22 @@
-import { z } from 'zod';
+import { ItemStatus } from '@humanui/db';
 import { entityRegistry } from '../core/EntityRegistry';
 import { TenantRules, BusinessLogic } from '../core/SchemaBuilder';
+import { itemSchema } from './schema';
+import { crossOrganizationSkuValidator } from './validators';
+import { itemComputedFields } from './computed';
+import { itemEvents } from './events';
+import { itemBulkOperations } from './bulk';
 
 // Export Item entity
 export * from './schema';
 export * from './config';
 export { ItemService } from './service';
+export { crossOrganizationSkuValidator } from './validators';
+export { itemComputedFields, applyPricingRules } from './computed';
+export type { PricingRule } from './computed';
+export { itemEvents } from './events';
+export { itemBulkOperations } from './bulk';
+export type { ItemStatusChangedPayload } from './events';
 // Export types separately to avoid conflicts
 export type {
   ItemStats,
@@ -17,42 +28,21 @@ export type {
   ItemSortOrder
 } from './types';
 
-// Item schema with proper nullable fields
-export const itemSchema = z.object({
-  id: z.string().cuid(),
-  name: z.string().min(1).max(255),
-  description: z.string().nullable(),
-  sku: z.string().min(1).max(255),
-  categoryId: z.string().cuid().nullable(),
-  storeId: z.string().cuid(),
-  price: z.number().positive(),
-  cost: z.number().positive().nullable(),
-  quantity: z.number().int().min(0),
-  minQuantity: z.number().int().min(0).nullable(),
-  maxQuantity: z.number().int().min(0).nullable(),
-  weight: z.number().positive().nullable(),
-  dimensions: z.any().nullable(),
-  images: z.any().nullable(),
-  tags: z.any().nullable(),
-  metadata: z.any().nullable(),
-  isActive: z.boolean().default(true),
-  tenantId: z.string().nullable(),
-  createdAt: z.date(),
-  updatedAt: z.date(),
-});
-
-export type Item = z.infer<typeof itemSchema>;
-
 // Tenant rules for item
 const itemTenantRules: TenantRules = {
-  requiredFields: ['name', 'sku', 'storeId', 'price', 'quantity'],
-  optionalFields: ['description', 'categoryId', 'cost', 'minQuantity', 'maxQuantity', 'weight', 'dimensions', 'images', 'tags', 'metadata'],
+  requiredFields: ['name', 'sku', 'categoryType', 'basePrice', 'organizationId'],
+  optionalFields: [
+    'description', 'storeId', 'categoryId', 'hasVariants', 'variantGroups', 'fulfillmentMethod', 'fulfillmentConfig',
+    'regulatoryFlags', 'complianceRequired', 'currency', 'pricingRules', 'status', 'priority', 'tags', 'metadata',
+  ],
   uniqueConstraints: ['sku'],
   validationRules: {
     name: { minLength: 1, maxLength: 255 },
     sku: { pattern: '^[A-Z0-9-]+$' },
-    price: { min: 0 },
-    quantity: { min: 0 },
+    basePrice: { min: 0 },
+  },
+  customValidators: {
+    sku: crossOrganizationSkuValidator,
   },
 };
 
@@ -61,21 +51,13 @@ const itemBusinessLogic: BusinessLogic = {
   beforeCreate: async (data: any, tenantId?: string) => {
     // Generate SKU if not provided
     if (!data.sku) {
-      data.sku = `SKU-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-    }
-    
-    // Set default values
-    if (data.quantity === undefined) {
-      data.quantity = 0;
-    }
-    
-    if (data.minQuantity === undefined) {
-      data.minQuantity = 0;
+      // Upper-cased to satisfy the SKU pattern rule
+      data.sku = `SKU-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`.toUpperCase();
     }
     
     // Ensure price is positive
-    if (data.price < 0) {
-      data.price = 0;
+    if (data.basePrice < 0) {
+      data.basePrice = 0;
     }
     
     return data;
@@ -83,13 +65,8 @@ const itemBusinessLogic: BusinessLogic = {
   
   beforeUpdate: async (id: string, data: any, tenantId?: string) => {
     // Ensure price is positive
-    if (data.price !== undefined && data.price < 0) {
-      data.price = 0;
-    }
-    
-    // Ensure quantity is non-negative
-    if (data.quantity !== undefined && data.quantity < 0) {
-      data.quantity = 0;
+    if (data.basePrice !== undefined && data.basePrice < 0) {
+      data.basePrice = 0;
     }
     
     return data;
@@ -105,20 +82,38 @@ const itemBusinessLogic: BusinessLogic = {
 // Register item entity
 entityRegistry.registerEntity({
   name: 'item',
+  model: 'Item',
   schema: itemSchema,
   tenantRules: itemTenantRules,
   businessLogic: itemBusinessLogic,
+  computed: itemComputedFields,
+  events: itemEvents,
+  bulkOperations: itemBulkOperations,
+  // Items have no isActive column; restored items come back as drafts
+  softDelete: {
+    strategy: 'status',
+    field: 'status',
+    deletedValue: ItemStatus.DELETED,
+    restoredValue: ItemStatus.DRAFT,
+  },
+  relations: {
+    organization: { model: 'Organization', type: 'one' },
+    store: { model: 'Store', type: 'one' },
+    category: { model: 'Category', type: 'one' },
+  },
   displayName: 'Items',
   description: 'Product items and SKUs',
   icon: 'package',
   color: 'green',
 });
 
+declare module '../core/EntityRegistry' {
+  interface RegisteredEntities {
+    item: typeof itemSchema;
+  }
+}
+
 // Export the service generator
 export const createItemService = () => {
-  return entityRegistry.generateService('Item');
+  return entityRegistry.generateService('item');
 };
-
-// Export types
-export type CreateItem = Omit<Item, 'id' | 'createdAt' | 'updatedAt'>;
-export type UpdateItem = Partial<CreateItem> & { id: string }; 
\ No newline at end of file
@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { cursorPaginationQuerySchema } from '../core/CursorPagination';
 import { ITEM_TYPES, FULFILLMENT_METHODS, VALIDATION_RULES } from '@humanui/constants';
 import { ItemStatus, Priority } from '@humanui/db';
 
@@ -74,7 +75,7 @@ export const itemQuerySchema = z.object({
   limit: z.number().min(1).max(100).default(20),
   sortBy: z.enum(['name', 'basePrice', 'status', 'priority', 'createdAt', 'updatedAt', 'sku']).default('createdAt'),
   sortOrder: z.enum(['asc', 'desc']).default('desc'),
-});
+}).merge(cursorPaginationQuerySchema);
 
 // Item search schema
 export const itemSearchSchema = z.object({
@@ -9,6 +9,10 @@ import {
   BulkItemOperation 
 } from './types';
 import { createItemSchema, updateItemSchema, itemQuerySchema } from './schema';
+import { paginateByCursor } from '../core/CursorPagination';
+import { NotFoundError, ValidationError } from '../core/Errors';
+import { auditLog } from '../core/AuditLog';
+import { recordEntityChange, recordBulkChanges } from '../core/ChangeLog';
 
 export class ItemService {
   constructor(private prisma: PrismaClient) {}
@@ -19,34 +23,37 @@ export class ItemService {
   async create(data: CreateItem, tenantId?: string, createdBy?: string): Promise<CreateItem> {
     const validatedData = createItemSchema.parse(data);
     
-    const item = await this.prisma.item.create({
-      data: {
-        categoryType: validatedData.categoryType,
-        sku: validatedData.sku,
-        name: validatedData.name,
-        description: validatedData.description,
-        hasVariants: validatedData.hasVariants,
-        variantGroups: validatedData.variantGroups,
-        fulfillmentMethod: validatedData.fulfillmentMethod,
-        fulfillmentConfig: validatedData.fulfillmentConfig,
-        regulatoryFlags: validatedData.regulatoryFlags,
-        complianceRequired: validatedData.complianceRequired,
-        basePrice: validatedData.basePrice,
-        currency: validatedData.currency,
-        pricingRules: validatedData.pricingRules,
-        status: validatedData.status,
-        priority: validatedData.priority,
-        tags: validatedData.tags,
-        metadata: validatedData.metadata,
-        organizationId: validatedData.organizationId,
-        storeId: validatedData.storeId,
-        categoryId: validatedData.categoryId,
-        tenantId: tenantId || validatedData.tenantId,
-        createdBy: createdBy || validatedData.createdBy,
-      },
-    });
+    return this.prisma.$transaction(async tx => {
+      const item = await tx.item.create({
+        data: {
+          categoryType: validatedData.categoryType,
+          sku: validatedData.sku,
+          name: validatedData.name,
+          description: validatedData.description,
+          hasVariants: validatedData.hasVariants,
+          variantGroups: validatedData.variantGroups,
+          fulfillmentMethod: validatedData.fulfillmentMethod,
+          fulfillmentConfig: validatedData.fulfillmentConfig,
+          regulatoryFlags: validatedData.regulatoryFlags,
+          complianceRequired: validatedData.complianceRequired,
+          basePrice: validatedData.basePrice,
+          currency: validatedData.currency,
+          pricingRules: validatedData.pricingRules,
+          status: validatedData.status,
+          priority: validatedData.priority,
+          tags: validatedData.tags,
+          metadata: validatedData.metadata,
+          organizationId: validatedData.organizationId,
+          storeId: validatedData.storeId,
+          categoryId: validatedData.categoryId,
+          tenantId: tenantId || validatedData.tenantId,
+          createdBy: createdBy || validatedData.createdBy || auditLog.getContext().actor,
+        },
+      });
 
-    return item;
+      await recordEntityChange(tx, { entityName: 'item', entityId: item.id, operation: 'create', tenantId, after: item });
+      return item;
+    });
   }
 
   /**
@@ -68,33 +75,76 @@ export class ItemService {
    */
   async update(data: UpdateItem, tenantId?: string): Promise<CreateItem> {
     const validatedData = updateItemSchema.parse(data);
-    
-    const item = await this.prisma.item.update({
-      where: {
-        id: validatedData.id,
-        ...(tenantId && { tenantId }),
-      },
-      data: validatedData,
-    });
+    const where = { id: validatedData.id, ...(tenantId && { tenantId }) };
 
-    return item;
+    return this.prisma.$transaction(async tx => {
+      const before = await tx.item.findFirst({ where });
+      const item = await tx.item.update({
+        where,
+        data: validatedData,
+      });
+
+      await recordEntityChange(tx, { entityName: 'item', entityId: item.id, operation: 'update', tenantId, before, after: item });
+      return item;
+    });
   }
 
   /**
    * Delete an item (soft delete by setting status to DELETED)
    */
   async delete(id: string, tenantId?: string): Promise<CreateItem> {
-    const item = await this.prisma.item.update({
-      where: {
-        id,
-        ...(tenantId && { tenantId }),
-      },
-      data: {
-        status: ItemStatus.DELETED,
-      },
+    const where = { id, ...(tenantId && { tenantId }) };
+
+    return this.prisma.$transaction(async tx => {
+      const before = await tx.item.findFirst({ where });
+      const item = await tx.item.update({
+        where,
+        data: {
+          status: ItemStatus.DELETED,
+        },
+      });
+
+      await recordEntityChange(tx, { entityName: 'item', entityId: id, operation: 'delete', tenantId, before, after: item });
+      return item;
     });
+  }
 
-    return item;
+  /**
+   * Restore a soft-deleted item as a draft
+   */
+  async restore(id: string, tenantId?: string): Promise<CreateItem | null> {
+    const where = { id, ...(tenantId && { tenantId }) };
+
+    return this.prisma.$transaction(async tx => {
+      const before = await tx.item.findFirst({ where: { ...where, status: ItemStatus.DELETED } });
+      if (!before) return null;
+
+      const item = await tx.item.update({
+        where,
+        data: {
+          status: ItemStatus.DRAFT,
+        },
+      });
+
+      await recordEntityChange(tx, { entityName: 'item', entityId: id, operation: 'restore', tenantId, before, after: item });
+      return item;
+    });
+  }
+
+  /**
+   * Permanently delete an item
+   */
+  async purge(id: string, tenantId?: string): Promise<boolean> {
+    const where = { id, ...(tenantId && { tenantId }) };
+
+    return this.prisma.$transaction(async tx => {
+      const before = await tx.item.findFirst({ where });
+      if (!before) return false;
+
+      await tx.item.delete({ where });
+      await recordEntityChange(tx, { entityName: 'item', entityId: id, operation: 'purge', tenantId, before });
+      return true;
+    });
   }
 
   /**
@@ -102,7 +152,7 @@ export class ItemService {
    */
   async list(query: ItemQuery, tenantId?: string): Promise<ItemsListResponse> {
     const validatedQuery = itemQuerySchema.parse(query);
-    const { page = 1, limit = 20, sortBy = 'createdAt', sortOrder = 'desc', ...filters } = validatedQuery;
+    const { page = 1, limit = 20, sortBy = 'createdAt', sortOrder = 'desc', pagination, cursor, includeTotal, ...filters } = validatedQuery;
 
     // Build where clause
     const where: any = {
@@ -130,6 +180,18 @@ export class ItemService {
       status: { not: ItemStatus.DELETED },
     };
 
+    // Opt-in keyset pagination, stable for large tables
+    if (pagination === 'cursor') {
+      const { items, ...cursorPage } = await paginateByCursor(this.prisma.item, {
+        where,
+        orderBy: [{ [sortBy]: sortOrder }],
+        limit,
+        cursor,
+        includeTotal,
+      });
+      return { items, ...cursorPage };
+    }
+
     // Build order by clause
     const orderBy: any = {
       [sortBy]: sortOrder,
@@ -216,91 +278,58 @@ export class ItemService {
   }
 
   /**
-   * Bulk operations on items
+   * Bulk operations on items; every item gets the same change in one statement,
+   * and nothing is written when any of the IDs is missing. Per-row results are
+   * available through the generic bulk endpoint.
    */
   async bulkOperation(operation: BulkItemOperation, tenantId?: string): Promise<number> {
     const { ids, operation: op, data } = operation;
+    const where = { id: { in: ids }, ...(tenantId && { tenantId }) };
 
-    let affectedCount = 0;
-
+    let changes: Prisma.ItemUpdateManyMutationInput | undefined;
     switch (op) {
       case 'update':
-        if (data) {
-          const updatePromises = ids.map(id =>
-            this.prisma.item.update({
-              where: { id, ...(tenantId && { tenantId }) },
-              data,
-            })
-          );
-          await Promise.all(updatePromises);
-          affectedCount = ids.length;
-        }
+        changes = data as Prisma.ItemUpdateManyMutationInput | undefined;
         break;
-
       case 'delete':
-        const deletePromises = ids.map(id =>
-          this.prisma.item.update({
-            where: { id, ...(tenantId && { tenantId }) },
-            data: { status: ItemStatus.DELETED },
-          })
-        );
-        await Promise.all(deletePromises);
-        affectedCount = ids.length;
+        changes = { status: ItemStatus.DELETED };
         break;
-
       case 'archive':
-        const archivePromises = ids.map(id =>
-          this.prisma.item.update({
-            where: { id, ...(tenantId && { tenantId }) },
-            data: { status: ItemStatus.ARCHIVED },
-          })
-        );
-        await Promise.all(archivePromises);
-        affectedCount = ids.length;
+        changes = { status: ItemStatus.ARCHIVED };
         break;
-
       case 'activate':
-        const activatePromises = ids.map(id =>
-          this.prisma.item.update({
-            where: { id, ...(tenantId && { tenantId }) },
-            data: { status: ItemStatus.ACTIVE },
-          })
-        );
-        await Promise.all(activatePromises);
-        affectedCount = ids.length;
+        changes = { status: ItemStatus.ACTIVE };
         break;
-
       case 'updateStatus':
-        if (data?.status) {
-          const updateStatusPromises = ids.map(id =>
-            this.prisma.item.update({
-              where: { id, ...(tenantId && { tenantId }) },
-              data: { status: data.status },
-            })
-          );
-          await Promise.all(updateStatusPromises);
-          affectedCount = ids.length;
-        }
+        changes = data?.status && { status: data.status };
         break;
-
       case 'updatePriority':
-        if (data?.priority) {
-          const updatePriorityPromises = ids.map(id =>
-            this.prisma.item.update({
-              where: { id, ...(tenantId && { tenantId }) },
-              data: { priority: data.priority },
-            })
-          );
-          await Promise.all(updatePriorityPromises);
-          affectedCount = ids.length;
-        }
+        changes = data?.priority && { priority: data.priority };
         break;
-
       default:
-        throw new Error(`Unsupported bulk operation: ${op}`);
+        throw ValidationError.forField('operation', 'enum', `Unsupported bulk operation: ${op}`);
+    }
+
+    if (!changes || Object.keys(changes).length === 0) {
+      throw ValidationError.forField('data', 'required', `Data is required for the ${op} operation`);
     }
 
-    return affectedCount;
+    return this.prisma.$transaction(async tx => {
+      const before = await tx.item.findMany({ where });
+      const found = new Set(before.map(item => item.id));
+      const missing = ids.filter(id => !found.has(id));
+      if (missing.length > 0) {
+        throw new NotFoundError(`Items ${missing.join(', ')}`);
+      }
+
+      const { count } = await tx.item.updateMany({ where, data: changes });
+
+      // One audit entry per item; a bulk delete is a soft delete like delete()
+      const after = await tx.item.findMany({ where });
+      await recordBulkChanges(tx, 'item', op === 'delete' ? 'delete' : 'update', before, after, tenantId);
+
+      return count;
+    });
   }
 
   /**
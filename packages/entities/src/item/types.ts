@@ -1,4 +1,5 @@
 import { ItemStatus, Priority } from '@humanui/db';
+import { PaginationMode, ServiceListResult } from '../core/CursorPagination';
 
 // Base Item type matching Prisma schema
 export interface Item {
@@ -53,19 +54,16 @@ export interface ItemQuery {
   limit?: number;
   sortBy?: 'name' | 'status' | 'priority' | 'createdAt' | 'updatedAt' | 'basePrice' | 'sku';
   sortOrder?: 'asc' | 'desc';
+  pagination?: PaginationMode;
+  cursor?: string;
+  includeTotal?: boolean;
 }
 
 // Item response type
 export type ItemResponse = Item;
 
-// Items list response type
-export interface ItemsListResponse {
-  items: ItemResponse[];
-  total: number;
-  page: number;
-  limit: number;
-  totalPages: number;
-}
+// Items list response type, offset or cursor paged
+export type ItemsListResponse = ServiceListResult<'items', ItemResponse>;
 
 // Item filters type
 export interface ItemFilters {
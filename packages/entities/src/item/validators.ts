@@ -0,0 +1,27 @@
+import { CustomValidator } from '../core/SchemaBuilder';
+
+/**
+ * SKU must not already be used by another organization in the same tenant
+ */
+export const crossOrganizationSkuValidator: CustomValidator = async (sku, { record, existing, tenantId, prisma }) => {
+  if (!sku || !prisma || !record.organizationId) return true;
+
+  const clash = await prisma.item.findFirst({
+    where: {
+      sku,
+      tenantId: tenantId || null,
+      organizationId: { not: record.organizationId },
+      ...(existing?.id && { id: { not: existing.id } }),
+    },
+    select: { id: true, organizationId: true },
+  });
+
+  if (clash) {
+    return {
+      message: `SKU "${sku}" is already used by another organization`,
+      code: 'SKU_ORGANIZATION_CONFLICT',
+    };
+  }
+
+  return true;
+};
@@ -1,6 +1,7 @@
-import { z } from 'zod';
 import { entityRegistry } from '../core/EntityRegistry';
 import { TenantRules, BusinessLogic } from '../core/SchemaBuilder';
+import { ValidationError } from '../core/Errors';
+import { itemAttributeSchema } from './schema';
 
 // Export ItemAttribute entity
 export * from './schema';
@@ -20,71 +21,45 @@ export type {
   IItemAttributeService
 } from './types';
 
-// ItemAttribute schema with proper nullable fields
-export const itemAttributeSchema = z.object({
-  id: z.string().cuid(),
-  name: z.string().min(1).max(255),
-  value: z.string().min(1).max(1000),
-  itemId: z.string().cuid(),
-  type: z.enum(['text', 'number', 'boolean', 'date', 'json']).default('text'),
-  isRequired: z.boolean().default(false),
-  isSearchable: z.boolean().default(false),
-  isFilterable: z.boolean().default(false),
-  displayOrder: z.number().int().min(0).nullable(),
-  metadata: z.any().nullable(),
-  isActive: z.boolean().default(true),
-  tenantId: z.string().nullable(),
-  createdAt: z.date(),
-  updatedAt: z.date(),
-});
-
-export type ItemAttribute = z.infer<typeof itemAttributeSchema>;
-
 // Tenant rules for itemAttribute
 const itemAttributeTenantRules: TenantRules = {
-  requiredFields: ['name', 'value', 'itemId'],
-  optionalFields: ['type', 'isRequired', 'isSearchable', 'isFilterable', 'displayOrder', 'metadata'],
-  uniqueConstraints: ['name_itemId'],
+  requiredFields: ['name', 'displayName', 'attributeType', 'dataType', 'organizationId'],
+  optionalFields: ['description', 'isRequired', 'defaultValue', 'validationRules', 'sortOrder'],
+  uniqueConstraints: ['name_organizationId'],
   validationRules: {
     name: { minLength: 1, maxLength: 255 },
-    value: { minLength: 1, maxLength: 1000 },
+    displayName: { minLength: 1, maxLength: 255 },
   },
 };
 
+// A default value must parse as the attribute's data type
+const checkDefaultValue = (dataType: string | undefined, value: unknown) => {
+  if (value === null || value === undefined) return;
+
+  if (dataType === 'number' && isNaN(Number(value))) {
+    throw ValidationError.forField('defaultValue', 'type', 'Default value must be a number for number attributes');
+  }
+  
+  if (dataType === 'boolean' && !['true', 'false', '0', '1'].includes(String(value).toLowerCase())) {
+    throw ValidationError.forField('defaultValue', 'type', 'Default value must be a boolean for boolean attributes');
+  }
+};
+
 // Business logic for itemAttribute
 const itemAttributeBusinessLogic: BusinessLogic = {
   beforeCreate: async (data: any, tenantId?: string) => {
-    // Set default type if not provided
-    if (!data.type) {
-      data.type = 'text';
-    }
-    
-    // Set default display order if not provided
-    if (data.displayOrder === undefined) {
-      data.displayOrder = 0;
+    // Set default data type if not provided
+    if (!data.dataType) {
+      data.dataType = 'text';
     }
     
-    // Validate value based on type
-    if (data.type === 'number' && isNaN(Number(data.value))) {
-      throw new Error('Value must be a number for number type attributes');
-    }
-    
-    if (data.type === 'boolean' && !['true', 'false', '0', '1'].includes(data.value.toLowerCase())) {
-      throw new Error('Value must be a boolean for boolean type attributes');
-    }
+    checkDefaultValue(data.dataType, data.defaultValue);
     
     return data;
   },
   
   beforeUpdate: async (id: string, data: any, tenantId?: string) => {
-    // Validate value based on type
-    if (data.type === 'number' && data.value && isNaN(Number(data.value))) {
-      throw new Error('Value must be a number for number type attributes');
-    }
-    
-    if (data.type === 'boolean' && data.value && !['true', 'false', '0', '1'].includes(data.value.toLowerCase())) {
-      throw new Error('Value must be a boolean for boolean type attributes');
-    }
+    checkDefaultValue(data.dataType, data.defaultValue);
     
     return data;
   },
@@ -99,20 +74,26 @@ const itemAttributeBusinessLogic: BusinessLogic = {
 // Register itemAttribute entity
 entityRegistry.registerEntity({
   name: 'itemattribute',
+  model: 'ItemAttribute',
   schema: itemAttributeSchema,
   tenantRules: itemAttributeTenantRules,
   businessLogic: itemAttributeBusinessLogic,
+  relations: {
+    organization: { model: 'Organization', type: 'one' },
+  },
   displayName: 'Item Attributes',
   description: 'Attributes for items',
   icon: 'tag',
   color: 'yellow',
 });
 
+declare module '../core/EntityRegistry' {
+  interface RegisteredEntities {
+    itemattribute: typeof itemAttributeSchema;
+  }
+}
+
 // Export the service generator
 export const createItemAttributeService = () => {
-  return entityRegistry.generateService('ItemAttribute');
+  return entityRegistry.generateService('itemattribute');
 };
-
-// Export types
-export type CreateItemAttribute = Omit<ItemAttribute, 'id' | 'createdAt' | 'updatedAt'>;
-export type UpdateItemAttribute = Partial<CreateItemAttribute> & { id: string }; 
\ No newline at end of file
@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { cursorPaginationQuerySchema } from '../core/CursorPagination';
 
 // Base itemAttribute schema - updated to match Prisma types
 export const itemAttributeSchema = z.object({
@@ -45,7 +46,7 @@ export const itemAttributeQuerySchema = z.object({
   limit: z.number().min(1).max(100).default(20),
   sortBy: z.enum(['name', 'displayName', 'sortOrder', 'createdAt', 'updatedAt']).default('sortOrder'),
   sortOrder: z.enum(['asc', 'desc']).default('asc'),
-});
+}).merge(cursorPaginationQuerySchema);
 
 // ItemAttribute response schema
 export const itemAttributeResponseSchema = itemAttributeSchema;
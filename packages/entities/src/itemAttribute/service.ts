@@ -1,6 +1,9 @@
 import { PrismaClient } from '@humanui/db';
 import { ItemAttribute, CreateItemAttribute, UpdateItemAttribute, ItemAttributeQuery, ItemAttributeStats, ItemAttributeBulkOperation, ItemAttributeImportData, ItemAttributeExportData } from './types';
 import { itemAttributeSchema, createItemAttributeSchema, updateItemAttributeSchema, itemAttributeQuerySchema } from './schema';
+import { paginateByCursor, ServiceListResult } from '../core/CursorPagination';
+import { NotFoundError, ValidationError, BusinessLogicError, toEntityError } from '../core/Errors';
+import { recordEntityChange, recordBulkChanges } from '../core/ChangeLog';
 
 export class ItemAttributeService {
   private prisma: PrismaClient;
@@ -24,7 +27,7 @@ export class ItemAttributeService {
     });
 
     if (!organization) {
-      throw new Error('Organization not found or does not belong to the tenant');
+      throw ValidationError.forField('organizationId', 'exists', 'Organization not found or does not belong to the tenant');
     }
 
     // Check if attribute name is unique within the organization
@@ -37,25 +40,29 @@ export class ItemAttributeService {
     });
 
     if (existingAttribute) {
-      throw new Error(`Item attribute with name "${validatedData.name}" already exists in this organization`);
+      throw ValidationError.forField('name', 'unique', `Item attribute with name "${validatedData.name}" already exists in this organization`);
     }
 
-    const itemAttribute = await this.prisma.itemAttribute.create({
-      data: {
-        name: validatedData.name,
-        displayName: validatedData.displayName,
-        description: validatedData.description,
-        attributeType: validatedData.attributeType,
-        dataType: validatedData.dataType,
-        isRequired: validatedData.isRequired,
-        defaultValue: validatedData.defaultValue,
-        validationRules: validatedData.validationRules,
-        sortOrder: validatedData.sortOrder,
-        isActive: validatedData.isActive,
-        organizationId: validatedData.organizationId,
-        tenantId: tenantId || null,
-        createdBy: validatedData.createdBy,
-      },
+    const itemAttribute = await this.prisma.$transaction(async tx => {
+      const row = await tx.itemAttribute.create({
+        data: {
+          name: validatedData.name,
+          displayName: validatedData.displayName,
+          description: validatedData.description,
+          attributeType: validatedData.attributeType,
+          dataType: validatedData.dataType,
+          isRequired: validatedData.isRequired,
+          defaultValue: validatedData.defaultValue,
+          validationRules: validatedData.validationRules,
+          sortOrder: validatedData.sortOrder,
+          isActive: validatedData.isActive,
+          organizationId: validatedData.organizationId,
+          tenantId: tenantId || null,
+          createdBy: validatedData.createdBy,
+        },
+      });
+      await recordEntityChange(tx, { entityName: 'itemattribute', entityId: row.id, operation: 'create', tenantId, after: row });
+      return row;
     });
 
     return itemAttribute;
@@ -81,15 +88,9 @@ export class ItemAttributeService {
   /**
    * List item attributes with filtering and pagination
    */
-  async list(query: ItemAttributeQuery, tenantId?: string): Promise<{
-    itemAttributes: ItemAttribute[];
-    total: number;
-    page: number;
-    limit: number;
-    totalPages: number;
-  }> {
+  async list(query: ItemAttributeQuery, tenantId?: string): Promise<ServiceListResult<'itemAttributes', ItemAttribute>> {
     const validatedQuery = itemAttributeQuerySchema.parse(query);
-    const { page, limit, search, attributeType, organizationId, isActive, isRequired, sortBy, sortOrder } = validatedQuery;
+    const { page, limit, search, attributeType, organizationId, isActive, isRequired, sortBy, sortOrder, pagination, cursor, includeTotal } = validatedQuery;
 
     const where: any = {
       tenantId: tenantId || null,
@@ -119,12 +120,27 @@ export class ItemAttributeService {
       where.isRequired = isRequired;
     }
 
+    const include = {
+      organization: true,
+    };
+
+    // Opt-in keyset pagination, stable for large tables
+    if (pagination === 'cursor') {
+      const { items, ...page } = await paginateByCursor<ItemAttribute>(this.prisma.itemAttribute, {
+        where,
+        include,
+        orderBy: [{ [sortBy]: sortOrder }],
+        limit,
+        cursor,
+        includeTotal,
+      });
+      return { itemAttributes: items, ...page };
+    }
+
     const [itemAttributes, total] = await Promise.all([
       this.prisma.itemAttribute.findMany({
         where,
-        include: {
-          organization: true,
-        },
+        include,
         orderBy: {
           [sortBy]: sortOrder,
         },
@@ -160,7 +176,7 @@ export class ItemAttributeService {
     });
 
     if (!existingAttribute) {
-      throw new Error('Item attribute not found');
+      throw new NotFoundError('Item attribute', id);
     }
 
     // Check if name is unique (if being updated)
@@ -175,7 +191,7 @@ export class ItemAttributeService {
       });
 
       if (nameExists) {
-        throw new Error(`Item attribute with name "${validatedData.name}" already exists in this organization`);
+        throw ValidationError.forField('name', 'unique', `Item attribute with name "${validatedData.name}" already exists in this organization`);
       }
     }
 
@@ -189,16 +205,20 @@ export class ItemAttributeService {
       });
 
       if (!organization) {
-        throw new Error('Organization not found or does not belong to the tenant');
+        throw ValidationError.forField('organizationId', 'exists', 'Organization not found or does not belong to the tenant');
       }
     }
 
-    const itemAttribute = await this.prisma.itemAttribute.update({
-      where: { id },
-      data: validatedData,
-      include: {
-        organization: true,
-      },
+    const itemAttribute = await this.prisma.$transaction(async tx => {
+      const row = await tx.itemAttribute.update({
+        where: { id },
+        data: validatedData,
+        include: {
+          organization: true,
+        },
+      });
+      await recordEntityChange(tx, { entityName: 'itemattribute', entityId: id, operation: 'update', tenantId, before: existingAttribute, after: row });
+      return row;
     });
 
     return itemAttribute;
@@ -216,12 +236,16 @@ export class ItemAttributeService {
     });
 
     if (!itemAttribute) {
-      throw new Error('Item attribute not found');
+      throw new NotFoundError('Item attribute', id);
     }
 
-    await this.prisma.itemAttribute.update({
-      where: { id },
-      data: { isActive: false },
+    await this.prisma.$transaction(async tx => {
+      const row = await tx.itemAttribute.update({
+        where: { id },
+        data: { isActive: false },
+      });
+      await recordEntityChange(tx, { entityName: 'itemattribute', entityId: id, operation: 'delete', tenantId, before: itemAttribute, after: row });
+      return row;
     });
 
     return true;
@@ -306,44 +330,50 @@ export class ItemAttributeService {
     });
 
     if (itemAttributes.length !== ids.length) {
-      throw new Error('Some item attributes not found or do not belong to the tenant');
+      throw new NotFoundError('One or more item attributes');
     }
 
-    switch (op) {
-      case 'activate':
-        await this.prisma.itemAttribute.updateMany({
-          where: { id: { in: ids } },
-          data: { isActive: true },
-        });
-        break;
-
-      case 'deactivate':
-        await this.prisma.itemAttribute.updateMany({
-          where: { id: { in: ids } },
-          data: { isActive: false },
-        });
-        break;
-
-      case 'delete':
-        await this.prisma.itemAttribute.updateMany({
-          where: { id: { in: ids } },
-          data: { isActive: false },
-        });
-        break;
-
-      case 'update':
-        if (!data) {
-          throw new Error('Update data is required for update operation');
-        }
-        await this.prisma.itemAttribute.updateMany({
-          where: { id: { in: ids } },
-          data,
-        });
-        break;
-
-      default:
-        throw new Error(`Unknown operation: ${op}`);
-    }
+    await this.prisma.$transaction(async tx => {
+      switch (op) {
+        case 'activate':
+          await tx.itemAttribute.updateMany({
+            where: { id: { in: ids } },
+            data: { isActive: true },
+          });
+          break;
+
+        case 'deactivate':
+          await tx.itemAttribute.updateMany({
+            where: { id: { in: ids } },
+            data: { isActive: false },
+          });
+          break;
+
+        case 'delete':
+          await tx.itemAttribute.updateMany({
+            where: { id: { in: ids } },
+            data: { isActive: false },
+          });
+          break;
+
+        case 'update':
+          if (!data) {
+            throw ValidationError.forField('data', 'required', 'Update data is required for update operation');
+          }
+          await tx.itemAttribute.updateMany({
+            where: { id: { in: ids } },
+            data,
+          });
+          break;
+
+        default:
+          throw ValidationError.forField('operation', 'enum', `Unknown operation: ${op}`);
+      }
+
+      // One audit entry per row; a bulk delete deactivates like delete()
+      const updated = await tx.itemAttribute.findMany({ where: { id: { in: ids } } });
+      await recordBulkChanges(tx, 'itemattribute', op === 'delete' ? 'delete' : 'update', itemAttributes, updated, tenantId);
+    });
 
     return true;
   }
@@ -375,7 +405,8 @@ export class ItemAttributeService {
         importedItemAttributes.push(itemAttribute);
       } catch (error) {
         console.error(`Failed to import item attribute ${item.name}:`, error);
-        throw new Error(`Failed to import item attribute ${item.name}: ${error}`);
+        const cause = toEntityError(error);
+        throw new BusinessLogicError(`Failed to import item attribute ${item.name}: ${cause.message}`, { fields: cause.fields, cause: error });
       }
     }
 
@@ -0,0 +1,14 @@
+import { ComputedFields, countByForeignKey } from '../core/ComputedFields';
+
+export const organizationComputedFields: ComputedFields = {
+  storeCount: {
+    type: 'number',
+    description: 'Active stores in the organization',
+    // One groupBy for the whole page
+    batch: (organizations, { prisma, tenantId }) =>
+      countByForeignKey(prisma, 'Store', 'organizationId', organizations.map(organization => organization.id), {
+        tenantId: tenantId ?? null,
+        isActive: true,
+      }),
+  },
+};
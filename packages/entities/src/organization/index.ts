@@ -1,11 +1,13 @@
-import { z } from 'zod';
 import { entityRegistry } from '../core/EntityRegistry';
 import { TenantRules, BusinessLogic } from '../core/SchemaBuilder';
+import { organizationSchema } from './schema';
+import { organizationComputedFields } from './computed';
 
 // Export Organization entity
 export * from './schema';
 export * from './config';
 export { OrganizationService } from './service';
+export { organizationComputedFields } from './computed';
 // Export types separately to avoid conflicts
 export type {
   OrganizationStatus,
@@ -20,32 +22,15 @@ export type {
   IOrganizationService
 } from './types';
 
-// Organization schema with proper nullable fields
-export const organizationSchema = z.object({
-  id: z.string().cuid(),
-  name: z.string().min(1).max(255),
-  description: z.string().nullable(),
-  slug: z.string().min(1).max(255),
-  domain: z.string().nullable(),
-  settings: z.any().nullable(),
-  metadata: z.any().nullable(),
-  isActive: z.boolean().default(true),
-  tenantId: z.string().nullable(),
-  createdAt: z.date(),
-  updatedAt: z.date(),
-});
-
-export type Organization = z.infer<typeof organizationSchema>;
-
 // Tenant rules for organization
 const organizationTenantRules: TenantRules = {
   requiredFields: ['name', 'slug'],
-  optionalFields: ['description', 'domain', 'settings', 'metadata'],
-  uniqueConstraints: ['slug', 'domain'],
+  optionalFields: ['description', 'logoUrl', 'website', 'email', 'phone', 'address', 'settings', 'isPublic'],
+  uniqueConstraints: ['slug'],
   validationRules: {
     name: { minLength: 1, maxLength: 255 },
     slug: { pattern: '^[a-z0-9-]+$' },
-    domain: { pattern: '^[a-zA-Z0-9.-]+$' },
+    email: { pattern: '^[^@]+@[^@]+\\.[^@]+$' },
   },
 };
 
@@ -91,20 +76,31 @@ const organizationBusinessLogic: BusinessLogic = {
 // Register organization entity
 entityRegistry.registerEntity({
   name: 'organization',
+  model: 'Organization',
   schema: organizationSchema,
   tenantRules: organizationTenantRules,
   businessLogic: organizationBusinessLogic,
+  computed: organizationComputedFields,
+  relations: {
+    stores: { model: 'Store', type: 'many' },
+    users: { model: 'User', type: 'many' },
+    categories: { model: 'Category', type: 'many' },
+    items: { model: 'Item', type: 'many' },
+    itemAttributes: { model: 'ItemAttribute', type: 'many' },
+  },
   displayName: 'Organizations',
   description: 'Business organizations',
   icon: 'building',
   color: 'purple',
 });
 
+declare module '../core/EntityRegistry' {
+  interface RegisteredEntities {
+    organization: typeof organizationSchema;
+  }
+}
+
 // Export the service generator
 export const createOrganizationService = () => {
-  return entityRegistry.generateService('Organization');
+  return entityRegistry.generateService('organization');
 };
-
-// Export types
-export type CreateOrganization = Omit<Organization, 'id' | 'createdAt' | 'updatedAt'>;
-export type UpdateOrganization = Partial<CreateOrganization> & { id: string }; 
\ No newline at end of file
@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { cursorPaginationQuerySchema } from '../core/CursorPagination';
 
 // Base organization schema - updated to match Prisma types
 export const organizationSchema = z.object({
@@ -43,7 +44,7 @@ export const organizationQuerySchema = z.object({
   limit: z.number().min(1).max(100).default(20),
   sortBy: z.enum(['name', 'slug', 'createdAt', 'updatedAt']).default('createdAt'),
   sortOrder: z.enum(['asc', 'desc']).default('desc'),
-});
+}).merge(cursorPaginationQuerySchema);
 
 // Organization response schema
 export const organizationResponseSchema = organizationSchema;
@@ -1,6 +1,9 @@
 import { PrismaClient } from '@humanui/db';
 import { Organization, CreateOrganization, UpdateOrganization, OrganizationQuery, OrganizationStats, OrganizationBulkOperation, OrganizationImportData, OrganizationExportData, OrganizationSettings } from './types';
 import { organizationSchema, createOrganizationSchema, updateOrganizationSchema, organizationQuerySchema } from './schema';
+import { paginateByCursor, ServiceListResult } from '../core/CursorPagination';
+import { NotFoundError, ValidationError, BusinessLogicError, toEntityError } from '../core/Errors';
+import { recordEntityChange, recordBulkChanges } from '../core/ChangeLog';
 
 export class OrganizationService {
   private prisma: PrismaClient;
@@ -24,25 +27,29 @@ export class OrganizationService {
     });
 
     if (existingOrganization) {
-      throw new Error(`Organization with slug "${validatedData.slug}" already exists`);
+      throw ValidationError.forField('slug', 'unique', `Organization with slug "${validatedData.slug}" already exists`);
     }
 
-    const organization = await this.prisma.organization.create({
-      data: {
-        name: validatedData.name,
-        slug: validatedData.slug,
-        description: validatedData.description,
-        logoUrl: validatedData.logoUrl,
-        website: validatedData.website,
-        email: validatedData.email,
-        phone: validatedData.phone,
-        address: validatedData.address,
-        settings: validatedData.settings,
-        isActive: validatedData.isActive,
-        isPublic: validatedData.isPublic,
-        tenantId: tenantId || null,
-        createdBy: validatedData.createdBy,
-      },
+    const organization = await this.prisma.$transaction(async tx => {
+      const row = await tx.organization.create({
+        data: {
+          name: validatedData.name,
+          slug: validatedData.slug,
+          description: validatedData.description,
+          logoUrl: validatedData.logoUrl,
+          website: validatedData.website,
+          email: validatedData.email,
+          phone: validatedData.phone,
+          address: validatedData.address,
+          settings: validatedData.settings,
+          isActive: validatedData.isActive,
+          isPublic: validatedData.isPublic,
+          tenantId: tenantId || null,
+          createdBy: validatedData.createdBy,
+        },
+      });
+      await recordEntityChange(tx, { entityName: 'organization', entityId: row.id, operation: 'create', tenantId, after: row });
+      return row;
     });
 
     return organization;
@@ -95,15 +102,9 @@ export class OrganizationService {
   /**
    * List organizations with filtering and pagination
    */
-  async list(query: OrganizationQuery, tenantId?: string): Promise<{
-    organizations: Organization[];
-    total: number;
-    page: number;
-    limit: number;
-    totalPages: number;
-  }> {
+  async list(query: OrganizationQuery, tenantId?: string): Promise<ServiceListResult<'organizations', Organization>> {
     const validatedQuery = organizationQuerySchema.parse(query);
-    const { page, limit, search, isActive, isPublic, sortBy, sortOrder } = validatedQuery;
+    const { page, limit, search, isActive, isPublic, sortBy, sortOrder, pagination, cursor, includeTotal } = validatedQuery;
 
     const where: any = {
       tenantId: tenantId || null,
@@ -126,17 +127,32 @@ export class OrganizationService {
       where.isPublic = isPublic;
     }
 
+    const include = {
+      _count: {
+        select: {
+          stores: true,
+          users: true,
+        },
+      },
+    };
+
+    // Opt-in keyset pagination, stable for large tables
+    if (pagination === 'cursor') {
+      const { items, ...page } = await paginateByCursor<Organization>(this.prisma.organization, {
+        where,
+        include,
+        orderBy: [{ [sortBy]: sortOrder }],
+        limit,
+        cursor,
+        includeTotal,
+      });
+      return { organizations: items, ...page };
+    }
+
     const [organizations, total] = await Promise.all([
       this.prisma.organization.findMany({
         where,
-        include: {
-          _count: {
-            select: {
-              stores: true,
-              users: true,
-            },
-          },
-        },
+        include,
         orderBy: {
           [sortBy]: sortOrder,
         },
@@ -172,7 +188,7 @@ export class OrganizationService {
     });
 
     if (!existingOrganization) {
-      throw new Error('Organization not found');
+      throw new NotFoundError('Organization', id);
     }
 
     // Check if slug is unique (if being updated)
@@ -186,21 +202,25 @@ export class OrganizationService {
       });
 
       if (slugExists) {
-        throw new Error(`Organization with slug "${validatedData.slug}" already exists`);
+        throw ValidationError.forField('slug', 'unique', `Organization with slug "${validatedData.slug}" already exists`);
       }
     }
 
-    const organization = await this.prisma.organization.update({
-      where: { id },
-      data: validatedData,
-      include: {
-        _count: {
-          select: {
-            stores: true,
-            users: true,
+    const organization = await this.prisma.$transaction(async tx => {
+      const row = await tx.organization.update({
+        where: { id },
+        data: validatedData,
+        include: {
+          _count: {
+            select: {
+              stores: true,
+              users: true,
+            },
           },
         },
-      },
+      });
+      await recordEntityChange(tx, { entityName: 'organization', entityId: id, operation: 'update', tenantId, before: existingOrganization, after: row });
+      return row;
     });
 
     return organization;
@@ -218,7 +238,7 @@ export class OrganizationService {
     });
 
     if (!organization) {
-      throw new Error('Organization not found');
+      throw new NotFoundError('Organization', id);
     }
 
     // Check if organization has stores or users
@@ -238,12 +258,16 @@ export class OrganizationService {
     ]);
 
     if (storeCount > 0 || userCount > 0) {
-      throw new Error('Cannot delete organization with stores or users. Please remove them first.');
+      throw new BusinessLogicError('Cannot delete organization with stores or users. Please remove them first.');
     }
 
-    await this.prisma.organization.update({
-      where: { id },
-      data: { isActive: false },
+    await this.prisma.$transaction(async tx => {
+      const row = await tx.organization.update({
+        where: { id },
+        data: { isActive: false },
+      });
+      await recordEntityChange(tx, { entityName: 'organization', entityId: id, operation: 'delete', tenantId, before: organization, after: row });
+      return row;
     });
 
     return true;
@@ -261,7 +285,7 @@ export class OrganizationService {
     });
 
     if (!organization) {
-      throw new Error('Organization not found');
+      throw new NotFoundError('Organization', id);
     }
 
     // TODO: Implement actual statistics calculation
@@ -298,44 +322,50 @@ export class OrganizationService {
     });
 
     if (organizations.length !== ids.length) {
-      throw new Error('Some organizations not found or do not belong to the tenant');
+      throw new NotFoundError('One or more organizations');
     }
 
-    switch (op) {
-      case 'activate':
-        await this.prisma.organization.updateMany({
-          where: { id: { in: ids } },
-          data: { isActive: true },
-        });
-        break;
-
-      case 'deactivate':
-        await this.prisma.organization.updateMany({
-          where: { id: { in: ids } },
-          data: { isActive: false },
-        });
-        break;
-
-      case 'delete':
-        await this.prisma.organization.updateMany({
-          where: { id: { in: ids } },
-          data: { isActive: false },
-        });
-        break;
-
-      case 'update':
-        if (!data) {
-          throw new Error('Update data is required for update operation');
-        }
-        await this.prisma.organization.updateMany({
-          where: { id: { in: ids } },
-          data,
-        });
-        break;
-
-      default:
-        throw new Error(`Unknown operation: ${op}`);
-    }
+    await this.prisma.$transaction(async tx => {
+      switch (op) {
+        case 'activate':
+          await tx.organization.updateMany({
+            where: { id: { in: ids } },
+            data: { isActive: true },
+          });
+          break;
+
+        case 'deactivate':
+          await tx.organization.updateMany({
+            where: { id: { in: ids } },
+            data: { isActive: false },
+          });
+          break;
+
+        case 'delete':
+          await tx.organization.updateMany({
+            where: { id: { in: ids } },
+            data: { isActive: false },
+          });
+          break;
+
+        case 'update':
+          if (!data) {
+            throw ValidationError.forField('data', 'required', 'Update data is required for update operation');
+          }
+          await tx.organization.updateMany({
+            where: { id: { in: ids } },
+            data,
+          });
+          break;
+
+        default:
+          throw ValidationError.forField('operation', 'enum', `Unknown operation: ${op}`);
+      }
+
+      // One audit entry per row; a bulk delete deactivates like delete()
+      const updated = await tx.organization.findMany({ where: { id: { in: ids } } });
+      await recordBulkChanges(tx, 'organization', op === 'delete' ? 'delete' : 'update', organizations, updated, tenantId);
+    });
 
     return true;
   }
@@ -367,7 +397,8 @@ export class OrganizationService {
         importedOrganizations.push(organization);
       } catch (error) {
         console.error(`Failed to import organization ${item.name}:`, error);
-        throw new Error(`Failed to import organization ${item.name}: ${error}`);
+        const cause = toEntityError(error);
+        throw new BusinessLogicError(`Failed to import organization ${item.name}: ${cause.message}`, { fields: cause.fields, cause: error });
       }
     }
 
@@ -438,15 +469,19 @@ export class OrganizationService {
     });
 
     if (!organization) {
-      throw new Error('Organization not found');
+      throw new NotFoundError('Organization', id);
     }
 
     const currentSettings = organization.settings as unknown as OrganizationSettings;
     const updatedSettings = { ...currentSettings, ...settings };
 
-    const updatedOrganization = await this.prisma.organization.update({
-      where: { id },
-      data: { settings: updatedSettings },
+    const updatedOrganization = await this.prisma.$transaction(async tx => {
+      const row = await tx.organization.update({
+        where: { id },
+        data: { settings: updatedSettings },
+      });
+      await recordEntityChange(tx, { entityName: 'organization', entityId: id, operation: 'update', tenantId, before: organization, after: row });
+      return row;
     });
 
     return updatedOrganization;
@@ -464,7 +499,7 @@ export class OrganizationService {
     });
 
     if (!organization) {
-      throw new Error('Organization not found');
+      throw new NotFoundError('Organization', id);
     }
 
     return organization.settings as unknown as OrganizationSettings;
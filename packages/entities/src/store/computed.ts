@@ -0,0 +1,56 @@
+import { ComputedFields } from '../core/ComputedFields';
+
+interface DayHours {
+  open: string;
+  close: string;
+  isClosed?: boolean;
+  breakStart?: string;
+  breakEnd?: string;
+}
+
+// Weekday and HH:MM at `date` in the store's timezone, falling back to server time
+function localTime(date: Date, timeZone?: string | null): { day: string; time: string } {
+  const format = (zone?: string) =>
+    new Intl.DateTimeFormat('en-US', {
+      timeZone: zone,
+      weekday: 'long',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    }).formatToParts(date);
+
+  let parts: Intl.DateTimeFormatPart[];
+  try {
+    parts = format(timeZone || undefined);
+  } catch {
+    // Unknown timezone names throw a RangeError
+    parts = format();
+  }
+
+  const part = (type: string) => parts.find(p => p.type === type)?.value ?? '';
+  return { day: part('weekday').toLowerCase(), time: `${part('hour')}:${part('minute')}` };
+}
+
+/**
+ * Whether the store is open at `date` according to its weekly operating hours
+ */
+export function isOpenAt(operatingHours: unknown, date: Date, timeZone?: string | null): boolean {
+  if (!operatingHours || typeof operatingHours !== 'object') return false;
+
+  const { day, time } = localTime(date, timeZone);
+  const hours = (operatingHours as Record<string, DayHours | undefined>)[day];
+
+  if (!hours || hours.isClosed || !hours.open || !hours.close) return false;
+  if (hours.breakStart && hours.breakEnd && time >= hours.breakStart && time < hours.breakEnd) return false;
+
+  return time >= hours.open && time < hours.close;
+}
+
+export const storeComputedFields: ComputedFields = {
+  isOpenNow: {
+    type: 'boolean',
+    description: 'Open right now according to operatingHours, in the store timezone',
+    dependsOn: ['operatingHours', 'timezone'],
+    resolve: store => isOpenAt(store.operatingHours, new Date(), store.timezone),
+  },
+};
@@ -0,0 +1,14 @@
+import { EntityEventDefinitions, EntityEventPayload } from '../core/EventBus';
+
+// Emitted when an active store is switched off by an update; soft deletes emit store.deleted instead
+export const storeEvents: EntityEventDefinitions = {
+  deactivated: {
+    when: change => change.operation === 'update' && change.changes.isActive?.before === true && change.changes.isActive?.after === false,
+  },
+};
+
+declare module '../core/EventBus' {
+  interface DomainEvents {
+    'store.deactivated': EntityEventPayload;
+  }
+}
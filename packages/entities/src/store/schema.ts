@@ -1,4 +1,6 @@
 import { z } from 'zod';
+import { Prisma } from '@humanui/db';
+import { cursorPaginationQuerySchema } from '../core/CursorPagination';
 
 // Address schema
 export const addressSchema = z.object({
@@ -22,7 +24,7 @@ export const storeSchema = z.object({
   name: z.string().min(1, 'Name is required').max(255, 'Name must be less than 255 characters'),
   displayName: z.string().max(255, 'Display name must be less than 255 characters').nullable(),
   description: z.string().max(1000, 'Description must be less than 1000 characters').nullable(),
-  address: z.any(), // JsonValue in Prisma
+  address: z.custom<Prisma.InputJsonValue>(value => value != null, 'Address is required'), // Json in Prisma
   phone: z.string().max(20, 'Phone must be less than 20 characters').nullable(),
   email: z.string().email('Invalid email format').nullable(),
   timezone: z.string().max(50, 'Timezone must be less than 50 characters').nullable(),
@@ -60,7 +62,7 @@ export const storeQuerySchema = z.object({
   limit: z.number().min(1).max(100).default(20),
   sortBy: z.enum(['name', 'displayName', 'createdAt', 'updatedAt']).default('createdAt'),
   sortOrder: z.enum(['asc', 'desc']).default('desc'),
-});
+}).merge(cursorPaginationQuerySchema);
 
 // Store response schema
 export const storeResponseSchema = storeSchema;
@@ -75,7 +77,8 @@ export const storesListResponseSchema = z.object({
 });
 
 // Export types
-export type Store = z.infer<typeof storeSchema>;
+// Rows read back hold whatever JSON the address column has, including JSON null
+export type Store = Omit<z.infer<typeof storeSchema>, 'address'> & { address: Prisma.JsonValue };
 export type CreateStore = z.infer<typeof createStoreSchema>;
 export type UpdateStore = z.infer<typeof updateStoreSchema>;
 export type StoreQuery = z.infer<typeof storeQuerySchema>;
@@ -1,6 +1,9 @@
 import { PrismaClient } from '@humanui/db';
 import { Store, CreateStore, UpdateStore, StoreQuery, StoreStats, StoreBulkOperation, StoreImportData, StoreExportData, OperatingHours } from './types';
 import { storeSchema, createStoreSchema, updateStoreSchema, storeQuerySchema } from './schema';
+import { paginateByCursor, ServiceListResult } from '../core/CursorPagination';
+import { NotFoundError, ValidationError, BusinessLogicError, toEntityError } from '../core/Errors';
+import { recordEntityChange, recordBulkChanges } from '../core/ChangeLog';
 
 export class StoreService {
   private prisma: PrismaClient;
@@ -24,25 +27,29 @@ export class StoreService {
     });
 
     if (!organization) {
-      throw new Error('Organization not found or does not belong to the tenant');
+      throw ValidationError.forField('organizationId', 'exists', 'Organization not found or does not belong to the tenant');
     }
 
-    const store = await this.prisma.store.create({
-      data: {
-        name: validatedData.name,
-        displayName: validatedData.displayName,
-        description: validatedData.description,
-        address: validatedData.address ?? {},
-        phone: validatedData.phone,
-        email: validatedData.email,
-        timezone: validatedData.timezone,
-        isActive: validatedData.isActive,
-        storeType: validatedData.storeType,
-        operatingHours: validatedData.operatingHours,
-        organizationId: validatedData.organizationId,
-        tenantId: tenantId || null,
-        createdBy: validatedData.createdBy,
-      },
+    const store = await this.prisma.$transaction(async tx => {
+      const row = await tx.store.create({
+        data: {
+          name: validatedData.name,
+          displayName: validatedData.displayName,
+          description: validatedData.description,
+          address: validatedData.address ?? {},
+          phone: validatedData.phone,
+          email: validatedData.email,
+          timezone: validatedData.timezone,
+          isActive: validatedData.isActive,
+          storeType: validatedData.storeType,
+          operatingHours: validatedData.operatingHours,
+          organizationId: validatedData.organizationId,
+          tenantId: tenantId || null,
+          createdBy: validatedData.createdBy,
+        },
+      });
+      await recordEntityChange(tx, { entityName: 'store', entityId: row.id, operation: 'create', tenantId, after: row });
+      return row;
     });
 
     return store;
@@ -74,15 +81,9 @@ export class StoreService {
   /**
    * List stores with filtering and pagination
    */
-  async list(query: StoreQuery, tenantId?: string): Promise<{
-    stores: Store[];
-    total: number;
-    page: number;
-    limit: number;
-    totalPages: number;
-  }> {
+  async list(query: StoreQuery, tenantId?: string): Promise<ServiceListResult<'stores', Store>> {
     const validatedQuery = storeQuerySchema.parse(query);
-    const { page, limit, search, organizationId, isActive, storeType, sortBy, sortOrder } = validatedQuery;
+    const { page, limit, search, organizationId, isActive, storeType, sortBy, sortOrder, pagination, cursor, includeTotal } = validatedQuery;
 
     const where: any = {
       tenantId: tenantId || null,
@@ -109,18 +110,36 @@ export class StoreService {
       where.storeType = storeType;
     }
 
+    const include = {
+      organization: true,
+      _count: {
+        select: {
+          categories: true,
+          items: true,
+        },
+      },
+    };
+
+    // Opt-in keyset pagination, stable for large tables; displayName may be null, which keysets cannot order
+    if (pagination === 'cursor') {
+      if (sortBy === 'displayName') {
+        throw ValidationError.forField('sortBy', 'sort', 'Cannot use cursor pagination when sorting by nullable field displayName');
+      }
+      const { items, ...page } = await paginateByCursor<Store>(this.prisma.store, {
+        where,
+        include,
+        orderBy: [{ [sortBy]: sortOrder }],
+        limit,
+        cursor,
+        includeTotal,
+      });
+      return { stores: items, ...page };
+    }
+
     const [stores, total] = await Promise.all([
       this.prisma.store.findMany({
         where,
-        include: {
-          organization: true,
-          _count: {
-            select: {
-              categories: true,
-              items: true,
-            },
-          },
-        },
+        include,
         orderBy: {
           [sortBy]: sortOrder,
         },
@@ -156,7 +175,7 @@ export class StoreService {
     });
 
     if (!existingStore) {
-      throw new Error('Store not found');
+      throw new NotFoundError('Store', id);
     }
 
     // Check if organization exists (if being updated)
@@ -169,22 +188,26 @@ export class StoreService {
       });
 
       if (!organization) {
-        throw new Error('Organization not found or does not belong to the tenant');
+        throw ValidationError.forField('organizationId', 'exists', 'Organization not found or does not belong to the tenant');
       }
     }
 
-    const store = await this.prisma.store.update({
-      where: { id },
-      data: validatedData,
-      include: {
-        organization: true,
-        _count: {
-          select: {
-            categories: true,
-            items: true,
+    const store = await this.prisma.$transaction(async tx => {
+      const row = await tx.store.update({
+        where: { id },
+        data: validatedData,
+        include: {
+          organization: true,
+          _count: {
+            select: {
+              categories: true,
+              items: true,
+            },
           },
         },
-      },
+      });
+      await recordEntityChange(tx, { entityName: 'store', entityId: id, operation: 'update', tenantId, before: existingStore, after: row });
+      return row;
     });
 
     return store;
@@ -202,7 +225,7 @@ export class StoreService {
     });
 
     if (!store) {
-      throw new Error('Store not found');
+      throw new NotFoundError('Store', id);
     }
 
     // Check if store has categories or items
@@ -222,12 +245,16 @@ export class StoreService {
     ]);
 
     if (categoryCount > 0 || itemCount > 0) {
-      throw new Error('Cannot delete store with categories or items. Please remove them first.');
+      throw new BusinessLogicError('Cannot delete store with categories or items. Please remove them first.');
     }
 
-    await this.prisma.store.update({
-      where: { id },
-      data: { isActive: false },
+    await this.prisma.$transaction(async tx => {
+      const row = await tx.store.update({
+        where: { id },
+        data: { isActive: false },
+      });
+      await recordEntityChange(tx, { entityName: 'store', entityId: id, operation: 'delete', tenantId, before: store, after: row });
+      return row;
     });
 
     return true;
@@ -245,7 +272,7 @@ export class StoreService {
     });
 
     if (!store) {
-      throw new Error('Store not found');
+      throw new NotFoundError('Store', id);
     }
 
     // TODO: Implement actual statistics calculation
@@ -280,44 +307,50 @@ export class StoreService {
     });
 
     if (stores.length !== ids.length) {
-      throw new Error('Some stores not found or do not belong to the tenant');
+      throw new NotFoundError('One or more stores');
     }
 
-    switch (op) {
-      case 'activate':
-        await this.prisma.store.updateMany({
-          where: { id: { in: ids } },
-          data: { isActive: true },
-        });
-        break;
-
-      case 'deactivate':
-        await this.prisma.store.updateMany({
-          where: { id: { in: ids } },
-          data: { isActive: false },
-        });
-        break;
-
-      case 'delete':
-        await this.prisma.store.updateMany({
-          where: { id: { in: ids } },
-          data: { isActive: false },
-        });
-        break;
-
-      case 'update':
-        if (!data) {
-          throw new Error('Update data is required for update operation');
-        }
-        await this.prisma.store.updateMany({
-          where: { id: { in: ids } },
-          data,
-        });
-        break;
-
-      default:
-        throw new Error(`Unknown operation: ${op}`);
-    }
+    await this.prisma.$transaction(async tx => {
+      switch (op) {
+        case 'activate':
+          await tx.store.updateMany({
+            where: { id: { in: ids } },
+            data: { isActive: true },
+          });
+          break;
+
+        case 'deactivate':
+          await tx.store.updateMany({
+            where: { id: { in: ids } },
+            data: { isActive: false },
+          });
+          break;
+
+        case 'delete':
+          await tx.store.updateMany({
+            where: { id: { in: ids } },
+            data: { isActive: false },
+          });
+          break;
+
+        case 'update':
+          if (!data) {
+            throw ValidationError.forField('data', 'required', 'Update data is required for update operation');
+          }
+          await tx.store.updateMany({
+            where: { id: { in: ids } },
+            data,
+          });
+          break;
+
+        default:
+          throw ValidationError.forField('operation', 'enum', `Unknown operation: ${op}`);
+      }
+
+      // One audit entry per row; a bulk delete deactivates like delete()
+      const updated = await tx.store.findMany({ where: { id: { in: ids } } });
+      await recordBulkChanges(tx, 'store', op === 'delete' ? 'delete' : 'update', stores, updated, tenantId);
+    });
 
     return true;
   }
@@ -349,7 +382,8 @@ export class StoreService {
         importedStores.push(store);
       } catch (error) {
         console.error(`Failed to import store ${item.name}:`, error);
-        throw new Error(`Failed to import store ${item.name}: ${error}`);
+        const cause = toEntityError(error);
+        throw new BusinessLogicError(`Failed to import store ${item.name}: ${cause.message}`, { fields: cause.fields, cause: error });
       }
     }
 
@@ -1,8 +1,8 @@
 import { z } from 'zod';
-import { storeSchema, createStoreSchema, updateStoreSchema, storeQuerySchema } from './schema';
+import { createStoreSchema, updateStoreSchema, storeQuerySchema, Store } from './schema';
 
 // Re-export schema types
-export type Store = z.infer<typeof storeSchema>;
+export type { Store };
 export type CreateStore = z.infer<typeof createStoreSchema>;
 export type UpdateStore = z.infer<typeof updateStoreSchema>;
 export type StoreQuery = z.infer<typeof storeQuerySchema>;
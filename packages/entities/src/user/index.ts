@@ -1,38 +1,18 @@
-import { z } from 'zod';
 import { entityRegistry } from '../core/EntityRegistry';
 import { TenantRules, BusinessLogic } from '../core/SchemaBuilder';
+import { userSchema } from './schema';
+import { usernameFor } from './username';
 
-// User schema with proper nullable fields
-export const userSchema = z.object({
-  id: z.string().cuid(),
-  email: z.string().email(),
-  firstName: z.string().min(1).max(255),
-  lastName: z.string().min(1).max(255),
-  username: z.string().min(3).max(50).nullable(),
-  phone: z.string().nullable(),
-  avatar: z.string().nullable(),
-  role: z.enum(['admin', 'manager', 'user']).default('user'),
-  organizationId: z.string().cuid().nullable(),
-  storeId: z.string().cuid().nullable(),
-  preferences: z.any().nullable(),
-  metadata: z.any().nullable(),
-  isActive: z.boolean().default(true),
-  tenantId: z.string().nullable(),
-  createdAt: z.date(),
-  updatedAt: z.date(),
-});
-
-export type User = z.infer<typeof userSchema>;
+// Export User entity
+export * from './schema';
 
 // Tenant rules for user
 const userTenantRules: TenantRules = {
-  requiredFields: ['email', 'firstName', 'lastName'],
-  optionalFields: ['username', 'phone', 'avatar', 'role', 'organizationId', 'storeId', 'preferences', 'metadata'],
+  requiredFields: ['email'],
+  optionalFields: ['name', 'username', 'organizationId'],
   uniqueConstraints: ['email', 'username'],
   validationRules: {
     email: { pattern: '^[^@]+@[^@]+\\.[^@]+$' },
-    firstName: { minLength: 1, maxLength: 255 },
-    lastName: { minLength: 1, maxLength: 255 },
     username: { pattern: '^[a-zA-Z0-9_-]+$' },
   },
 };
@@ -42,19 +22,7 @@ const userBusinessLogic: BusinessLogic = {
   beforeCreate: async (data: any, tenantId?: string) => {
     // Generate username if not provided
     if (!data.username) {
-      data.username = `${data.firstName.toLowerCase()}.${data.lastName.toLowerCase()}`;
-    }
-    
-    // Set default preferences if not provided
-    if (!data.preferences) {
-      data.preferences = {
-        theme: 'light',
-        language: 'en',
-        notifications: {
-          email: true,
-          push: false,
-        },
-      };
+      data.username = usernameFor(data.name, data.email);
     }
     
     // Ensure email is lowercase
@@ -84,20 +52,28 @@ const userBusinessLogic: BusinessLogic = {
 // Register user entity
 entityRegistry.registerEntity({
   name: 'user',
+  model: 'User',
+  // Users have no isActive column, so deleting removes the row
+  softDelete: { strategy: 'none' },
   schema: userSchema,
   tenantRules: userTenantRules,
   businessLogic: userBusinessLogic,
+  relations: {
+    organization: { model: 'Organization', type: 'one' },
+  },
   displayName: 'Users',
   description: 'System users',
   icon: 'user',
   color: 'teal',
 });
 
+declare module '../core/EntityRegistry' {
+  interface RegisteredEntities {
+    user: typeof userSchema;
+  }
+}
+
 // Export the service generator
 export const createUserService = () => {
-  return entityRegistry.generateService('User');
+  return entityRegistry.generateService('user');
 };
-
-// Export types
-export type CreateUser = Omit<User, 'id' | 'createdAt' | 'updatedAt'>;
-export type UpdateUser = Partial<CreateUser> & { id: string }; 
\ No newline at end of file
@@ -4,6 +4,7 @@ export const userSchema = z.object({
   id: z.string().cuid().optional(),
   email: z.string().email('Invalid email format'),
   name: z.string().nullable(),
+  username: z.string().min(3).max(50).nullable(),
   organizationId: z.string().nullable(),
   tenantId: z.string().nullable(),
   createdAt: z.date().optional(),
@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { usernameFor } from './username';
+
+const pattern = /^[a-zA-Z0-9_-]+$/;
+
+describe('usernameFor', () => {
+  it('joins the name with underscores', () => {
+    expect(usernameFor('Ada Lovelace', 'ada@example.com')).toBe('ada_lovelace');
+    expect(usernameFor('  Grace  M. Hopper ', 'grace@example.com')).toBe('grace_m_hopper');
+  });
+
+  it('drops characters the username pattern does not allow', () => {
+    const username = usernameFor("Zoë O'Brien-Smith", 'zoe@example.com');
+
+    expect(username).toBe('zo_obrien-smith');
+    expect(username).toMatch(pattern);
+  });
+
+  it('falls back to the email when the name leaves too little', () => {
+    expect(usernameFor(null, 'j.doe+shop@example.com')).toBe('j_doeshop');
+    expect(usernameFor('李', 'li.wei@example.com')).toBe('li_wei');
+  });
+
+  it('is null when neither source yields a username', () => {
+    expect(usernameFor('', 'ab@example.com')).toBeNull();
+  });
+});
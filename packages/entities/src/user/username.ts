@@ -0,0 +1,15 @@
+// Lowercase, with runs of spaces and dots joined by `_` and anything outside the username pattern dropped
+const toUsername = (value: string) =>
+  value.trim().toLowerCase().replace(/[\s.]+/g, '_').replace(/[^a-z0-9_-]/g, '');
+
+/**
+ * Default username for a new user: `first_last` from their name, else the local part of their email.
+ * Null when neither leaves the three characters a username needs.
+ */
+export function usernameFor(name: string | null | undefined, email: string | undefined): string | null {
+  for (const source of [name, email?.split('@')[0]]) {
+    const username = source ? toUsername(source).slice(0, 50) : '';
+    if (username.length >= 3) return username;
+  }
+  return null;
+}
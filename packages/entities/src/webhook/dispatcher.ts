@@ -0,0 +1,410 @@
+import { randomUUID } from 'crypto';
+import { request as httpRequest } from 'http';
+import { request as httpsRequest } from 'https';
+import { Prisma, PrismaClient, WebhookDeliveryStatus } from '@humanui/db';
+import { ListResult } from '../core/SchemaBuilder';
+import { eventBus, matchesEventPattern, DomainEvent } from '../core/EventBus';
+import { ConflictError, InternalError, NotFoundError } from '../core/Errors';
+import { signWebhookPayload } from './signing';
+import { webhookTargetGuard } from './targets';
+import { webhookDeliveryQuerySchema, WebhookDeliveryQuery, WebhookDeliveryRecord } from './schema';
+
+export interface WebhookDispatcherOptions {
+  // Poll interval while idle
+  intervalMs?: number;
+  // Deliveries claimed per poll
+  batchSize?: number;
+  // Attempts before a delivery is moved to DEAD
+  maxAttempts?: number;
+  // First retry delay, doubled per attempt up to maxBackoffMs
+  backoffMs?: number;
+  maxBackoffMs?: number;
+  // How long a claimed delivery stays PROCESSING before another poll may take it over
+  leaseMs?: number;
+  // Per-request timeout; a timeout counts as a failed attempt
+  timeoutMs?: number;
+}
+
+// Body of every webhook request; a type alias so it converts to the delivery's JSON payload column
+export type WebhookEnvelope = {
+  id: string;
+  type: string;
+  tenantId: string | null;
+  occurredAt: string;
+  data: unknown;
+};
+
+const DEFAULT_OPTIONS: Required<WebhookDispatcherOptions> = {
+  intervalMs: 1000,
+  batchSize: 20,
+  maxAttempts: 10,
+  backoffMs: 10 * 1000,
+  maxBackoffMs: 60 * 60 * 1000,
+  leaseMs: 60 * 1000,
+  timeoutMs: 10 * 1000,
+};
+
+// Response bodies kept in the delivery log
+const MAX_RESPONSE_BODY = 2000;
+
+// Name of the event bus subscriber that turns events into deliveries
+const SUBSCRIBER_NAME = 'webhooks';
+
+/**
+ * Sends domain events to tenant webhook subscriptions.
+ * The outbox hands each event to `enqueue`, which records one delivery per matching
+ * subscription; deliveries are then POSTed with a signature and retried with
+ * exponential backoff until they succeed or reach maxAttempts and become DEAD.
+ */
+export class WebhookDispatcher {
+  private prisma?: PrismaClient;
+  private options: Required<WebhookDispatcherOptions>;
+  private timer?: NodeJS.Timeout;
+  private running = false;
+  private unsubscribe?: () => void;
+
+  constructor(options: WebhookDispatcherOptions = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  setPrisma(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  configure(options: WebhookDispatcherOptions) {
+    this.options = { ...this.options, ...options };
+  }
+
+  private get client(): PrismaClient {
+    if (!this.prisma) {
+      throw new InternalError('Webhook dispatcher has no database client; call webhookDispatcher.setPrisma() first');
+    }
+    return this.prisma;
+  }
+
+  // Subscribe to the event bus and start polling for due deliveries
+  start() {
+    if (this.timer) return;
+
+    this.unsubscribe = eventBus.subscribe(
+      '*',
+      async event => {
+        await this.enqueue(event);
+      },
+      { name: SUBSCRIBER_NAME }
+    );
+
+    const poll = async () => {
+      let processed = 0;
+      try {
+        processed = await this.dispatchPending();
+      } catch (error) {
+        console.error('Webhook dispatch failed:', error);
+      }
+      if (this.timer) {
+        this.timer = setTimeout(poll, processed >= this.options.batchSize ? 0 : this.options.intervalMs);
+      }
+    };
+
+    this.timer = setTimeout(poll, 0);
+  }
+
+  stop() {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = undefined;
+    this.unsubscribe?.();
+    this.unsubscribe = undefined;
+  }
+
+  /**
+   * Record a delivery for every active subscription of the event's tenant whose
+   * filter matches. Safe to call again for the same event: existing deliveries are kept.
+   */
+  async enqueue(event: DomainEvent): Promise<number> {
+    if (event.type.startsWith('webhook.')) return 0;
+
+    const subscriptions = await this.client.webhookSubscription.findMany({
+      where: { tenantId: event.tenantId, isActive: true },
+      select: { id: true, events: true },
+    });
+    const matching = subscriptions.filter(subscription =>
+      subscription.events.some(pattern => matchesEventPattern(pattern, event.type))
+    );
+    if (matching.length === 0) return 0;
+
+    const existing = await this.client.webhookDelivery.findMany({
+      where: { eventId: event.id, redeliveryOfId: null },
+      select: { subscriptionId: true },
+    });
+    const delivered = new Set(existing.map(delivery => delivery.subscriptionId));
+
+    const envelope: WebhookEnvelope = {
+      id: event.id,
+      type: event.type,
+      tenantId: event.tenantId,
+      occurredAt: new Date(event.occurredAt).toISOString(),
+      data: event.payload,
+    };
+
+    const { count } = await this.client.webhookDelivery.createMany({
+      data: matching
+        .filter(subscription => !delivered.has(subscription.id))
+        .map(subscription => ({
+          subscriptionId: subscription.id,
+          tenantId: event.tenantId,
+          eventId: event.id,
+          eventType: event.type,
+          payload: envelope as Prisma.InputJsonValue,
+        })),
+    });
+    return count;
+  }
+
+  /**
+   * Claim and send one batch of due deliveries; returns how many were claimed.
+   * Overlapping calls in the same process are skipped.
+   */
+  async dispatchPending(): Promise<number> {
+    if (this.running) return 0;
+    this.running = true;
+
+    try {
+      const due = await this.client.webhookDelivery.findMany({
+        where: {
+          status: { in: [WebhookDeliveryStatus.PENDING, WebhookDeliveryStatus.PROCESSING] },
+          availableAt: { lte: new Date() },
+        },
+        orderBy: { createdAt: 'asc' },
+        take: this.options.batchSize,
+      });
+
+      let claimed = 0;
+      for (const delivery of due) {
+        // Only one worker wins the claim, even across processes
+        const { count } = await this.client.webhookDelivery.updateMany({
+          where: { id: delivery.id, status: delivery.status, availableAt: delivery.availableAt },
+          data: {
+            status: WebhookDeliveryStatus.PROCESSING,
+            availableAt: new Date(Date.now() + this.options.leaseMs),
+          },
+        });
+        if (count === 0) continue;
+
+        claimed++;
+        await this.attempt(delivery);
+      }
+
+      return claimed;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async attempt(delivery: WebhookDeliveryRecord): Promise<WebhookDeliveryRecord> {
+    const attempts = delivery.attempts + 1;
+    const subscription = await this.client.webhookSubscription.findUnique({ where: { id: delivery.subscriptionId } });
+
+    // Deleted subscriptions keep their log but receive nothing more
+    if (!subscription?.isActive) {
+      return this.client.webhookDelivery.update({
+        where: { id: delivery.id },
+        data: { status: WebhookDeliveryStatus.DEAD, lastError: 'Subscription is inactive' },
+      });
+    }
+
+    const body = JSON.stringify(delivery.payload);
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), this.options.timeoutMs);
+    const startedAt = Date.now();
+
+    let responseStatus: number | null = null;
+    let responseBody: string | null = null;
+    let error: string | null = null;
+
+    try {
+      // The host may resolve elsewhere since the subscription was saved
+      const rejected = await webhookTargetGuard.check(subscription.url);
+      if (rejected) {
+        error = rejected.message;
+      } else {
+        const response = await this.post(subscription.url, body, controller.signal, {
+          'X-Webhook-Id': delivery.eventId,
+          'X-Webhook-Delivery': delivery.id,
+          'X-Webhook-Event': delivery.eventType,
+          'X-Webhook-Signature': signWebhookPayload(subscription.secret, body),
+        });
+        responseStatus = response.status;
+        responseBody = response.body;
+        if (response.status < 200 || response.status >= 300) error = `Endpoint responded with ${response.status}`;
+      }
+    } catch (cause) {
+      error = controller.signal.aborted
+        ? `Timed out after ${this.options.timeoutMs}ms`
+        : cause instanceof Error ? cause.message : String(cause);
+    } finally {
+      clearTimeout(timeout);
+    }
+
+    const result = { attempts, responseStatus, responseBody, lastError: error, durationMs: Date.now() - startedAt };
+
+    if (!error) {
+      return this.client.webhookDelivery.update({
+        where: { id: delivery.id },
+        data: { ...result, status: WebhookDeliveryStatus.SUCCEEDED, deliveredAt: new Date() },
+      });
+    }
+
+    const dead = attempts >= this.options.maxAttempts;
+    const delay = Math.min(this.options.backoffMs * 2 ** (attempts - 1), this.options.maxBackoffMs);
+    return this.client.webhookDelivery.update({
+      where: { id: delivery.id },
+      data: {
+        ...result,
+        status: dead ? WebhookDeliveryStatus.DEAD : WebhookDeliveryStatus.PENDING,
+        availableAt: new Date(Date.now() + delay),
+      },
+    });
+  }
+
+  /**
+   * POST the body without following redirects. Connections go through the target
+   * guard's lookup, so nothing is sent to, or read from, a non-public address.
+   */
+  private post(
+    url: string,
+    body: string,
+    signal: AbortSignal,
+    headers: Record<string, string>
+  ): Promise<{ status: number; body: string }> {
+    const request = new URL(url).protocol === 'https:' ? httpsRequest : httpRequest;
+
+    return new Promise((resolve, reject) => {
+      const req = request(
+        url,
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'Content-Length': Buffer.byteLength(body),
+            'User-Agent': 'HumanUI-Webhooks/1.0',
+            ...headers,
+          },
+          lookup: webhookTargetGuard.lookup,
+          signal,
+        },
+        response => {
+          let text = '';
+          response.setEncoding('utf8');
+          response.on('data', (chunk: string) => {
+            if (text.length < MAX_RESPONSE_BODY) text += chunk;
+          });
+          response.on('end', () => resolve({ status: response.statusCode ?? 0, body: text.slice(0, MAX_RESPONSE_BODY) }));
+          response.on('error', reject);
+        }
+      );
+      req.on('error', reject);
+      req.end(body);
+    });
+  }
+
+  // Delivery log of one subscription, newest first
+  async listDeliveries(
+    subscriptionId: string,
+    tenantId?: string,
+    query: WebhookDeliveryQuery = {}
+  ): Promise<ListResult<WebhookDeliveryRecord>> {
+    const { page, limit, status, eventType } = webhookDeliveryQuerySchema.parse(query);
+    await this.getSubscription(subscriptionId, tenantId);
+
+    const where = {
+      subscriptionId,
+      ...(status && { status }),
+      ...(eventType && { eventType }),
+    };
+
+    const [total, items] = await Promise.all([
+      this.client.webhookDelivery.count({ where }),
+      this.client.webhookDelivery.findMany({
+        where,
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+    ]);
+
+    return { items, total, page, limit, totalPages: Math.ceil(total / limit) };
+  }
+
+  async getDelivery(subscriptionId: string, id: string, tenantId?: string): Promise<WebhookDeliveryRecord> {
+    const delivery = await this.client.webhookDelivery.findFirst({
+      where: { id, subscriptionId, tenantId: tenantId ?? null },
+    });
+    if (!delivery) {
+      throw new NotFoundError('Webhook delivery', id);
+    }
+    return delivery;
+  }
+
+  /**
+   * Send a delivery's payload again as a new delivery, leaving the original in the log.
+   * Receivers see the same X-Webhook-Id and can deduplicate on it.
+   */
+  async redeliver(subscriptionId: string, id: string, tenantId?: string): Promise<WebhookDeliveryRecord> {
+    const [subscription, original] = await Promise.all([
+      this.getSubscription(subscriptionId, tenantId),
+      this.getDelivery(subscriptionId, id, tenantId),
+    ]);
+    if (!subscription.isActive) {
+      throw new ConflictError('Webhook subscription is inactive; restore it before redelivering');
+    }
+
+    return this.client.webhookDelivery.create({
+      data: {
+        subscriptionId,
+        tenantId: original.tenantId,
+        eventId: original.eventId,
+        eventType: original.eventType,
+        payload: original.payload,
+        redeliveryOfId: original.id,
+      },
+    });
+  }
+
+  // Send a `webhook.ping` right away, e.g. to check a new endpoint and its signature handling
+  async ping(subscriptionId: string, tenantId?: string): Promise<WebhookDeliveryRecord> {
+    const subscription = await this.getSubscription(subscriptionId, tenantId);
+    const eventId = randomUUID();
+    const envelope: WebhookEnvelope = {
+      id: eventId,
+      type: 'webhook.ping',
+      tenantId: tenantId ?? null,
+      occurredAt: new Date().toISOString(),
+      data: { subscriptionId, name: subscription.name },
+    };
+
+    const delivery = await this.client.webhookDelivery.create({
+      data: {
+        subscriptionId,
+        tenantId: tenantId ?? null,
+        eventId,
+        eventType: envelope.type,
+        payload: envelope as Prisma.InputJsonValue,
+        // Leased up front so the poller leaves it to this call
+        status: WebhookDeliveryStatus.PROCESSING,
+        availableAt: new Date(Date.now() + this.options.leaseMs),
+      },
+    });
+    return this.attempt(delivery);
+  }
+
+  private async getSubscription(id: string, tenantId?: string) {
+    const subscription = await this.client.webhookSubscription.findFirst({ where: { id, tenantId: tenantId ?? null } });
+    if (!subscription) {
+      throw new NotFoundError('Webhook', id);
+    }
+    return subscription;
+  }
+}
+
+// Global webhook dispatcher instance
+export const webhookDispatcher = new WebhookDispatcher();
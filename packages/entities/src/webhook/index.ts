@@ -0,0 +1,51 @@
+import { entityRegistry } from '../core/EntityRegistry';
+import { TenantRules } from '../core/SchemaBuilder';
+import { webhookSchema } from './schema';
+import { webhookEventsValidator, webhookUrlValidator } from './validators';
+
+// Export Webhook entity
+export * from './schema';
+export * from './signing';
+export { WebhookDispatcher, webhookDispatcher } from './dispatcher';
+export type { WebhookDispatcherOptions, WebhookEnvelope } from './dispatcher';
+export { webhookEventsValidator, webhookUrlValidator } from './validators';
+export { WebhookTargetGuard, webhookTargetGuard, isPublicAddress } from './targets';
+export type { WebhookTargetOptions } from './targets';
+
+// Tenant rules for webhook subscriptions
+const webhookTenantRules: TenantRules = {
+  requiredFields: ['name', 'url', 'events'],
+  optionalFields: ['description', 'secret'],
+  validationRules: {
+    name: { minLength: 1, maxLength: 255 },
+  },
+  customValidators: {
+    url: webhookUrlValidator,
+    events: webhookEventsValidator,
+  },
+};
+
+// Register webhook entity; deleting a subscription deactivates it and stops its deliveries.
+// The secret is only returned by create.
+entityRegistry.registerEntity({
+  name: 'webhook',
+  model: 'WebhookSubscription',
+  schema: webhookSchema,
+  tenantRules: webhookTenantRules,
+  hidden: ['secret'],
+  displayName: 'Webhooks',
+  description: 'Outgoing event notifications',
+  icon: 'send',
+  color: 'orange',
+});
+
+declare module '../core/EntityRegistry' {
+  interface RegisteredEntities {
+    webhook: typeof webhookSchema;
+  }
+}
+
+// Export the service generator
+export const createWebhookService = () => {
+  return entityRegistry.generateService('webhook');
+};
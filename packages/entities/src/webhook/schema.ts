@@ -0,0 +1,50 @@
+import { z } from 'zod';
+import { WebhookDeliveryStatus } from '@humanui/db';
+import { generateWebhookSecret } from './signing';
+
+// Webhook subscription schema; `secret` is generated on create when omitted
+export const webhookSchema = z.object({
+  id: z.string().cuid(),
+  name: z.string().min(1).max(255),
+  description: z.string().nullable(),
+  url: z.string().url(),
+  events: z.array(z.string().min(1)).min(1),
+  secret: z.string().min(16).max(255).optional().transform(secret => secret ?? generateWebhookSecret()),
+  isActive: z.boolean().default(true),
+  tenantId: z.string().nullable(),
+  createdBy: z.string().nullable(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+export type Webhook = z.infer<typeof webhookSchema>;
+
+export const webhookDeliveryQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  status: z.nativeEnum(WebhookDeliveryStatus).optional(),
+  eventType: z.string().optional(),
+});
+
+export type WebhookDeliveryQuery = z.input<typeof webhookDeliveryQuerySchema>;
+
+// One delivery of the log; the response fields describe the latest attempt
+export interface WebhookDeliveryRecord {
+  id: string;
+  subscriptionId: string;
+  tenantId: string | null;
+  eventId: string;
+  eventType: string;
+  payload: any;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  responseStatus: number | null;
+  responseBody: string | null;
+  lastError: string | null;
+  durationMs: number | null;
+  availableAt: Date;
+  deliveredAt: Date | null;
+  redeliveryOfId: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { generateWebhookSecret, signWebhookPayload, verifyWebhookSignature } from './signing';
+
+const secret = generateWebhookSecret();
+const body = JSON.stringify({ type: 'item.updated', data: { id: 'item-1' } });
+
+describe('webhook signatures', () => {
+  it('generates distinct prefixed secrets', () => {
+    expect(secret).toMatch(/^whsec_[0-9a-f]{48}$/);
+    expect(generateWebhookSecret()).not.toBe(secret);
+  });
+
+  it('verifies a signature made with the same secret and body', () => {
+    expect(verifyWebhookSignature(secret, body, signWebhookPayload(secret, body))).toBe(true);
+  });
+
+  it('rejects another secret, a modified body or a missing header', () => {
+    const header = signWebhookPayload(secret, body);
+
+    expect(verifyWebhookSignature(generateWebhookSecret(), body, header)).toBe(false);
+    expect(verifyWebhookSignature(secret, body.replace('item-1', 'item-2'), header)).toBe(false);
+    expect(verifyWebhookSignature(secret, body, undefined)).toBe(false);
+    expect(verifyWebhookSignature(secret, body, 'v1=abc')).toBe(false);
+  });
+
+  it('rejects signatures outside the tolerance', () => {
+    const tenMinutesAgo = Math.floor(Date.now() / 1000) - 600;
+    const header = signWebhookPayload(secret, body, tenMinutesAgo);
+
+    expect(verifyWebhookSignature(secret, body, header)).toBe(false);
+    expect(verifyWebhookSignature(secret, body, header, 900)).toBe(true);
+  });
+});
@@ -0,0 +1,41 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+// Signatures older than this are rejected by verifyWebhookSignature
+const DEFAULT_TOLERANCE_SECONDS = 5 * 60;
+
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString('hex')}`;
+}
+
+const hmac = (secret: string, timestamp: number, body: string) =>
+  createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+
+/**
+ * Value of the X-Webhook-Signature header: `t={unix seconds},v1={hex HMAC-SHA256}`.
+ * The HMAC covers `{t}.{raw body}`, so a captured request cannot be replayed later.
+ */
+export function signWebhookPayload(secret: string, body: string, timestamp = Math.floor(Date.now() / 1000)): string {
+  return `t=${timestamp},v1=${hmac(secret, timestamp, body)}`;
+}
+
+/**
+ * Check a signature header against the raw request body, as receivers should.
+ * Fails on a wrong secret, a modified body or a timestamp outside the tolerance.
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  body: string,
+  header: string | undefined,
+  toleranceSeconds = DEFAULT_TOLERANCE_SECONDS
+): boolean {
+  if (!header) return false;
+
+  const parts = Object.fromEntries(header.split(',').map(part => part.trim().split('=') as [string, string]));
+  const timestamp = Number(parts.t);
+  if (!Number.isInteger(timestamp) || !parts.v1) return false;
+  if (Math.abs(Math.floor(Date.now() / 1000) - timestamp) > toleranceSeconds) return false;
+
+  const expected = Buffer.from(hmac(secret, timestamp, body), 'hex');
+  const actual = Buffer.from(parts.v1, 'hex');
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
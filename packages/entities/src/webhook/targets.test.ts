@@ -0,0 +1,110 @@
+import { promises as dns } from 'dns';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { isPublicAddress, WebhookTargetGuard } from './targets';
+
+describe('isPublicAddress', () => {
+  it.each(['93.184.216.34', '2606:2800:220:1:248:1893:25c8:1946'])('allows %s', address => {
+    expect(isPublicAddress(address)).toBe(true);
+  });
+
+  it.each([
+    '127.0.0.1',
+    '10.1.2.3',
+    '172.16.0.1',
+    '192.168.1.1',
+    '169.254.169.254',
+    '100.64.0.1',
+    '0.0.0.0',
+    '::1',
+    '::',
+    'fd00::1',
+    'fe80::1',
+    '::ffff:127.0.0.1',
+    '::ffff:169.254.169.254',
+  ])('rejects %s', address => {
+    expect(isPublicAddress(address)).toBe(false);
+  });
+
+  it('rejects anything that is not an IP address', () => {
+    expect(isPublicAddress('example.com')).toBe(false);
+  });
+});
+
+describe('WebhookTargetGuard.check', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('rejects URLs that cannot be parsed or use another protocol', async () => {
+    const guard = new WebhookTargetGuard();
+
+    await expect(guard.check('not a url')).resolves.toMatchObject({ code: 'WEBHOOK_INVALID_URL' });
+    await expect(guard.check('ftp://example.com/hook')).resolves.toMatchObject({ code: 'WEBHOOK_INVALID_URL' });
+    await expect(guard.check('file:///etc/passwd')).resolves.toMatchObject({ code: 'WEBHOOK_INVALID_URL' });
+  });
+
+  it.each([
+    'http://127.0.0.1:4000/hook',
+    'http://[::1]/hook',
+    'https://169.254.169.254/latest/meta-data',
+    'http://[::ffff:10.0.0.1]/hook',
+    'http://2130706433/hook',
+  ])('rejects the private address in %s', async url => {
+    await expect(new WebhookTargetGuard().check(url)).resolves.toMatchObject({ code: 'WEBHOOK_FORBIDDEN_TARGET' });
+  });
+
+  it('rejects hosts when any resolved address is private', async () => {
+    vi.spyOn(dns, 'lookup').mockResolvedValue([
+      { address: '93.184.216.34', family: 4 },
+      { address: '10.0.0.5', family: 4 },
+    ] as never);
+
+    await expect(new WebhookTargetGuard().check('https://hooks.example.com/in')).resolves.toMatchObject({
+      code: 'WEBHOOK_FORBIDDEN_TARGET',
+      message: expect.stringContaining('10.0.0.5'),
+    });
+  });
+
+  it('rejects hosts that do not resolve', async () => {
+    vi.spyOn(dns, 'lookup').mockRejectedValue(Object.assign(new Error('not found'), { code: 'ENOTFOUND' }));
+
+    await expect(new WebhookTargetGuard().check('https://missing.example.com/in')).resolves.toMatchObject({
+      code: 'WEBHOOK_FORBIDDEN_TARGET',
+    });
+  });
+
+  it('accepts hosts that only resolve to public addresses', async () => {
+    vi.spyOn(dns, 'lookup').mockResolvedValue([{ address: '93.184.216.34', family: 4 }] as never);
+
+    await expect(new WebhookTargetGuard().check('https://hooks.example.com/in')).resolves.toBeUndefined();
+  });
+
+  it('accepts private targets once allowPrivateTargets is set', async () => {
+    const guard = new WebhookTargetGuard();
+    guard.configure({ allowPrivateTargets: true });
+
+    await expect(guard.check('http://127.0.0.1:4000/hook')).resolves.toBeUndefined();
+    await expect(guard.check('ftp://127.0.0.1/hook')).resolves.toMatchObject({ code: 'WEBHOOK_INVALID_URL' });
+  });
+});
+
+describe('WebhookTargetGuard.lookup', () => {
+  const lookup = (guard: WebhookTargetGuard, hostname: string) =>
+    new Promise<{ error: NodeJS.ErrnoException | null; address: unknown }>(resolve => {
+      guard.lookup(hostname, {}, (error, address) => resolve({ error, address }));
+    });
+
+  it('refuses connections to hosts that resolve to loopback', async () => {
+    const { error } = await lookup(new WebhookTargetGuard(), 'localhost');
+    expect(error).toMatchObject({ code: 'EWEBHOOKTARGET' });
+  });
+
+  it('connects to them when private targets are allowed', async () => {
+    const guard = new WebhookTargetGuard();
+    guard.configure({ allowPrivateTargets: true });
+
+    const { error, address } = await lookup(guard, 'localhost');
+    expect(error).toBeNull();
+    expect(isPublicAddress(address as string)).toBe(false);
+  });
+});
@@ -0,0 +1,100 @@
+import { lookup as dnsLookup, promises as dns } from 'dns';
+import { BlockList, isIP, LookupFunction } from 'net';
+import { ValidatorFailure } from '../core/SchemaBuilder';
+
+export interface WebhookTargetOptions {
+  // Let webhooks reach loopback and private networks, e.g. the local stub server in development
+  allowPrivateTargets?: boolean;
+}
+
+// Loopback, private, link-local, shared, multicast and reserved ranges; IPv4 rules also match IPv4-mapped IPv6
+const BLOCKED_RANGES: Array<[string, number, 'ipv4' | 'ipv6']> = [
+  ['0.0.0.0', 8, 'ipv4'],
+  ['10.0.0.0', 8, 'ipv4'],
+  ['100.64.0.0', 10, 'ipv4'],
+  ['127.0.0.0', 8, 'ipv4'],
+  ['169.254.0.0', 16, 'ipv4'],
+  ['172.16.0.0', 12, 'ipv4'],
+  ['192.0.0.0', 24, 'ipv4'],
+  ['192.168.0.0', 16, 'ipv4'],
+  ['198.18.0.0', 15, 'ipv4'],
+  ['224.0.0.0', 4, 'ipv4'],
+  ['240.0.0.0', 4, 'ipv4'],
+  ['::', 128, 'ipv6'],
+  ['::1', 128, 'ipv6'],
+  ['64:ff9b::', 96, 'ipv6'],
+  ['fc00::', 7, 'ipv6'],
+  ['fe80::', 10, 'ipv6'],
+  ['ff00::', 8, 'ipv6'],
+];
+
+const blocked = new BlockList();
+for (const [network, prefix, family] of BLOCKED_RANGES) {
+  blocked.addSubnet(network, prefix, family);
+}
+
+export function isPublicAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 0) return false;
+  return !blocked.check(address, family === 6 ? 'ipv6' : 'ipv4');
+}
+
+const invalid = (message: string): ValidatorFailure => ({ message, code: 'WEBHOOK_INVALID_URL' });
+const forbidden = (message: string): ValidatorFailure => ({ message, code: 'WEBHOOK_FORBIDDEN_TARGET' });
+
+/**
+ * Keeps webhooks away from the platform's own network. URLs are checked when a
+ * subscription is saved and before every attempt, and `lookup` checks the addresses
+ * each connection actually uses, so a DNS answer that changes in between is caught.
+ */
+export class WebhookTargetGuard {
+  private allowPrivate = false;
+
+  configure(options: WebhookTargetOptions) {
+    if (options.allowPrivateTargets !== undefined) this.allowPrivate = options.allowPrivateTargets;
+  }
+
+  // Why the URL may not receive webhooks, or undefined when it may
+  async check(url: string): Promise<ValidatorFailure | undefined> {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      return invalid('Webhook URL is not a valid URL');
+    }
+    if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') {
+      return invalid('Webhook URL must use http or https');
+    }
+    if (this.allowPrivate) return undefined;
+
+    const host = parsed.hostname.replace(/^\[|\]$/g, '');
+    let addresses: string[];
+    try {
+      addresses = isIP(host) ? [host] : (await dns.lookup(host, { all: true })).map(entry => entry.address);
+    } catch {
+      return forbidden(`Webhook host ${host} could not be resolved`);
+    }
+
+    const rejected = addresses.find(address => !isPublicAddress(address));
+    return rejected ? forbidden(`Webhook host ${host} resolves to ${rejected}, which is not a public address`) : undefined;
+  }
+
+  // DNS lookup for http(s).request that refuses to connect to non-public addresses
+  readonly lookup: LookupFunction = (hostname, options, callback) => {
+    dnsLookup(hostname, { ...options, all: true }, (error, addresses) => {
+      if (error) return callback(error, '');
+
+      const rejected = this.allowPrivate ? undefined : addresses.find(entry => !isPublicAddress(entry.address));
+      if (rejected || addresses.length === 0) {
+        const reason = rejected ? `resolves to ${rejected.address}, which is not a public address` : 'has no addresses';
+        return callback(Object.assign(new Error(`Webhook host ${hostname} ${reason}`), { code: 'EWEBHOOKTARGET' }), '');
+      }
+
+      if (options.all) return callback(null, addresses);
+      callback(null, addresses[0].address, addresses[0].family);
+    });
+  };
+}
+
+// Global webhook target guard instance
+export const webhookTargetGuard = new WebhookTargetGuard();
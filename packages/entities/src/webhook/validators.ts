@@ -0,0 +1,29 @@
+import { CustomValidator } from '../core/SchemaBuilder';
+import { entityRegistry } from '../core/EntityRegistry';
+import { eventBus } from '../core/EventBus';
+import { webhookTargetGuard } from './targets';
+
+/**
+ * Event filters must name events that exist: `*`, `{entity}.*` or an exact type
+ * such as `item.statusChanged`. Webhook events are never delivered.
+ */
+export const webhookEventsValidator: CustomValidator = (events) => {
+  if (!Array.isArray(events)) return true;
+
+  const failures = events
+    .filter((pattern: string) => {
+      if (pattern === '*') return false;
+      const [entity, name] = pattern.split('.');
+      if (!entity || !name || entity === 'webhook' || !entityRegistry.getEntity(entity)) return true;
+      return name !== '*' && !eventBus.getEventTypes(entity).includes(pattern);
+    })
+    .map((pattern: string) => ({ message: `Unknown event '${pattern}'`, code: 'WEBHOOK_UNKNOWN_EVENT' }));
+
+  return failures.length > 0 ? failures : true;
+};
+
+// Only http(s) targets on public addresses; the dispatcher checks again before every attempt
+export const webhookUrlValidator: CustomValidator = async (url) => {
+  if (!url) return true;
+  return (await webhookTargetGuard.check(url)) ?? true;
+};
@@ -1,10 +1,11 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { useForm, FormProvider, type UseFormReturn } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { cn } from '../lib/utils';
 import { Button } from '../components/button';
 import { FormFieldRenderer } from './FormFieldRenderer';
+import { getServerFieldErrors } from './utils';
 import { CreateOrUpdateEntityFormProps, EntityFormConfig } from './types';
 
 // Utility function to get default values from schema
@@ -57,6 +58,8 @@ export const CreateOrUpdateEntityForm = <T extends Record<string, any>>({
   
   const defaultValues = getDefaultValuesFromSchema(entityConfig.schema, initialValues);
   
+  const [submitError, setSubmitError] = useState<string | null>(null);
+
   const form = useForm<T>({
     // Remove Zod resolver for now since we're using serialized schema
     // resolver: zodResolver(entityConfig.schema as z.ZodSchema<T>),
@@ -65,10 +68,24 @@ export const CreateOrUpdateEntityForm = <T extends Record<string, any>>({
   });
 
   const handleSubmit = async (data: any) => {
+    setSubmitError(null);
     try {
       await onSubmit(data as T);
     } catch (error) {
       console.error('Form submission error:', error);
+
+      // Attach server-side field errors to their inputs; anything else is shown above the buttons
+      const fieldNames = new Set(entityConfig.fields.map(field => field.name));
+      const fieldErrors = getServerFieldErrors(error);
+      const attached = fieldErrors.filter(item => fieldNames.has(item.field));
+
+      attached.forEach(item => {
+        form.setError(item.field as any, { type: item.rule || 'server', message: item.message });
+      });
+
+      if (attached.length === 0 || attached.length < fieldErrors.length) {
+        setSubmitError(error instanceof Error ? error.message : 'Failed to save');
+      }
     }
   };
 
@@ -137,6 +154,10 @@ export const CreateOrUpdateEntityForm = <T extends Record<string, any>>({
       <FormProvider {...form}>
         <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-6">
           {renderFields()}
+
+          {submitError && (
+            <p className="text-sm text-red-500">{submitError}</p>
+          )}
           
           <div className="flex items-center justify-end space-x-2 pt-4">
             {onCancel && (
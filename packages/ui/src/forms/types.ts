@@ -69,6 +69,13 @@ export interface CreateOrUpdateEntityFormProps<T = any> {
   className?: string;
 }
 
+// Per-field failure as returned by the API in `fields`
+export interface ServerFieldError {
+  field: string;
+  message: string;
+  rule?: string;
+}
+
 export interface FormFieldRendererProps {
   field: FormField;
   form: any; // react-hook-form form instance
@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { ServerFieldError } from './types';
 
 /**
  * Extract default values from a Zod schema
@@ -85,4 +86,16 @@ export const formatValidationErrors = (errors: z.ZodError): Record<string, strin
   });
   
   return formatted;
-}; 
\ No newline at end of file
+};
+
+/**
+ * Field errors carried by a thrown API error (`error.fields`), if any
+ */
+export const getServerFieldErrors = (error: unknown): ServerFieldError[] => {
+  const fields = (error as { fields?: unknown })?.fields;
+  if (!Array.isArray(fields)) return [];
+
+  return fields.filter(
+    (item): item is ServerFieldError => typeof item?.field === 'string' && typeof item?.message === 'string'
+  );
+};